@@ -1,9 +1,21 @@
-import type { AnalysisContext, Finding, ParsedFile } from '../core/types.js';
+import { access, readdir, readFile } from 'node:fs/promises';
+import { join, posix } from 'node:path';
+import type { AnalysisContext, Finding, ParsedFile, SupportedLanguage } from '../core/types.js';
 import { Severity } from '../core/types.js';
 import { BaseAnalyzer } from './base-analyzer.js';
 import { walk, findNodes } from '../parsers/ast-utils.js';
+import { collectExportDeclarations, collectImportedNames } from '../parsers/language-imports.js';
+import { parseSource } from '../parsers/tree-sitter-manager.js';
+import { detectLanguage } from '../core/diff-parser.js';
+import { resolveWithExtensions } from '../core/dependency-graph.js';
+import { loadModuleResolution, moduleCandidates, type ModuleResolution } from '../core/module-resolution.js';
+import { collectDependencies } from '../core/dependency-collector.js';
+import { npmPackageName } from '../core/package-imports.js';
+import { closestMatch } from '../utils/similarity.js';
 import type { SgNode } from '@ast-grep/napi';
 
+const JS_LANGUAGES = new Set<SupportedLanguage>(['typescript', 'javascript', 'tsx', 'jsx']);
+
 export class AiSmellDetector extends BaseAnalyzer {
   name = 'ai-smells';
 
@@ -14,14 +26,18 @@ export class AiSmellDetector extends BaseAnalyzer {
   async analyze(context: AnalysisContext): Promise<Finding[]> {
     const findings: Finding[] = [];
     const config = context.config.analyzers.aiSmells;
+    const modules = config.hallucinatedImports !== false ? new ProjectModules(context) : null;
 
-    for (const file of context.parsedFiles) {
+    for (const file of this.withinDeadline(context, context.parsedFiles, findings)) {
       const changedLines = this.getChangedLines(context, file.path);
       findings.push(...this.checkCommentRatio(file, changedLines, config.commentRatio));
       findings.push(...this.checkUnusedImports(file, changedLines));
       findings.push(...this.checkVerboseErrorHandling(file, changedLines));
       findings.push(...this.checkUnnecessaryTypeAssertions(file, changedLines));
       findings.push(...this.checkCopyPastePatterns(file, changedLines));
+      if (modules && JS_LANGUAGES.has(file.language)) {
+        findings.push(...await this.checkHallucinatedImports(file, changedLines, modules));
+      }
     }
 
     return findings;
@@ -148,6 +164,74 @@ export class AiSmellDetector extends BaseAnalyzer {
     return findings;
   }
 
+  /**
+   * Imports added in this change of files that do not exist, names their
+   * module does not export, and packages that are neither installed nor
+   * declared in package.json.
+   */
+  private async checkHallucinatedImports(file: ParsedFile, changedLines: Set<number>, modules: ProjectModules): Promise<Finding[]> {
+    const findings: Finding[] = [];
+
+    for (const imp of collectImportedNames(file.tree)) {
+      const { start, end } = imp.node.range();
+      let changed = false;
+      for (let line = start.line + 1; line <= end.line + 1 && !changed; line++) changed = changedLines.has(line);
+      if (!changed) continue;
+
+      const target = await modules.resolve(imp.source, file.path);
+      if (target?.kind === 'missing') {
+        const suggestion = await modules.closestPath(imp.source, target.base);
+        findings.push(this.createFinding(
+          'ai-smell/hallucinated-import',
+          file.path,
+          imp.line,
+          `Import '${imp.source}' does not resolve to any file`,
+          {
+            suggestion: suggestion
+              ? `Did you mean '${suggestion}'?`
+              : 'AI tools often import modules that were never created. Create the module or fix the path.',
+          },
+        ));
+      } else if (target?.kind === 'package') {
+        if (await modules.packageExists(target.name, file.path)) continue;
+        const suggestion = closestMatch(target.name, await modules.knownPackages(file.path));
+        findings.push(this.createFinding(
+          'ai-smell/hallucinated-import-package',
+          file.path,
+          imp.line,
+          `Package '${target.name}' is not installed or declared in package.json`,
+          {
+            suggestion: suggestion
+              ? `Did you mean '${suggestion}'?`
+              : 'AI tools often import packages that do not exist. Check the package name before installing it.',
+          },
+        ));
+      } else if (target?.kind === 'file') {
+        const exported = await modules.exportsOf(target.path);
+        if (!exported) continue;
+        for (const name of imp.names) {
+          if (name === '*' || exported.has(name)) continue;
+          const suggestion = closestMatch(name, [...exported].filter(e => e !== 'default'));
+          findings.push(this.createFinding(
+            'ai-smell/hallucinated-import-name',
+            file.path,
+            imp.line,
+            name === 'default'
+              ? `'${imp.source}' has no default export`
+              : `'${name}' is not exported by '${imp.source}'`,
+            {
+              suggestion: suggestion
+                ? `Did you mean '${suggestion}'?`
+                : `AI tools often import names a module does not export. ${target.path} exports: ${[...exported].slice(0, 10).join(', ') || 'nothing'}`,
+            },
+          ));
+        }
+      }
+    }
+
+    return findings;
+  }
+
   private checkVerboseErrorHandling(file: ParsedFile, changedLines: Set<number>): Finding[] {
     const findings: Finding[] = [];
 
@@ -304,3 +388,201 @@ export class AiSmellDetector extends BaseAnalyzer {
     return /^\w+[\w.]*\(.*\)[;,]?$/.test(t);
   }
 }
+
+type ImportTarget =
+  | { kind: 'file'; path: string }
+  | { kind: 'missing'; base: string }
+  | { kind: 'package'; name: string };
+
+/**
+ * Project files, exports and installed packages, read from disk on demand so
+ * imports can be checked when only the changed files were parsed.
+ */
+class ProjectModules {
+  private readonly parsed: Map<string, ParsedFile>;
+  private readonly dirs = new Map<string, Promise<string[]>>();
+  private readonly exportCache = new Map<string, Promise<Set<string> | null>>();
+  private readonly declaredCache = new Map<string, Promise<string[]>>();
+  private resolution?: Promise<ModuleResolution>;
+
+  constructor(private readonly context: AnalysisContext) {
+    this.parsed = new Map(context.parsedFiles.map(f => [f.path, f]));
+  }
+
+  /** What an import refers to; null for built-ins, URLs and workspace packages, which are not checked. */
+  async resolve(source: string, fromFile: string): Promise<ImportTarget | null> {
+    if (source.startsWith('.')) {
+      const base = posix.join(posix.dirname(fromFile), source);
+      if (base.startsWith('..')) return null;
+      const path = await this.findFile(base);
+      return path ? { kind: 'file', path } : { kind: 'missing', base };
+    }
+
+    const resolution = await this.loadResolution();
+    if (source.startsWith('#') || this.isPathAlias(source, fromFile, resolution)) {
+      const candidates = moduleCandidates(source, fromFile, resolution);
+      for (const candidate of candidates) {
+        const path = await this.findFile(candidate);
+        if (path) return { kind: 'file', path };
+      }
+      return candidates.length > 0 ? { kind: 'missing', base: candidates[0] } : null;
+    }
+
+    const name = npmPackageName(source);
+    if (!name || resolution.packages.some(p => p.name === name)) return null;
+    return { kind: 'package', name };
+  }
+
+  /** The import specifier with its last segment replaced by the closest existing file or directory. */
+  async closestPath(source: string, base: string): Promise<string | undefined> {
+    const dir = posix.dirname(base);
+    const wanted = posix.basename(base).replace(/\.(d\.ts|[cm]?[jt]sx?)$/, '');
+    const entries = (await this.listDir(dir)).map(p => posix.basename(p));
+    const byStem = new Map(entries.map(e => [e.replace(/\.(d\.ts|[cm]?[jt]sx?)$/, ''), e]));
+    const match = closestMatch(wanted, byStem.keys());
+    if (!match) return undefined;
+    const extension = /\.[cm]?[jt]sx?$/.exec(posix.basename(source))?.[0] ?? '';
+    return `${source.slice(0, source.lastIndexOf('/') + 1)}${match}${extension}`;
+  }
+
+  /** Whether `name` is declared by a package.json above the importer or installed in a node_modules there. */
+  async packageExists(name: string, fromFile: string): Promise<boolean> {
+    const declared = await this.declaredPackages(fromFile);
+    if (declared === null || declared.includes(name)) return true;
+    for (const dir of this.ancestors(fromFile)) {
+      for (const installed of [name, `@types/${name.replace(/^@/, '').replace('/', '__')}`]) {
+        if (await this.exists(join(dir, 'node_modules', installed, 'package.json'))) return true;
+      }
+    }
+    return false;
+  }
+
+  /** Declared and installed package names, for suggestions. */
+  async knownPackages(fromFile: string): Promise<string[]> {
+    const names = new Set(await this.declaredPackages(fromFile) ?? []);
+    for (const entry of await this.listDir('node_modules')) {
+      const name = posix.basename(entry);
+      if (!name.startsWith('@')) names.add(name);
+      else for (const scoped of await this.listDir(entry)) names.add(`${name}/${posix.basename(scoped)}`);
+    }
+    return [...names];
+  }
+
+  /**
+   * Names a JS/TS module exports, following `export * from` within the
+   * project, or null when they cannot be known: CommonJS modules, non-JS
+   * files and re-exports from packages.
+   */
+  exportsOf(path: string): Promise<Set<string> | null> {
+    let names = this.exportCache.get(path);
+    if (!names) {
+      names = this.readExports(path, new Set());
+      this.exportCache.set(path, names);
+    }
+    return names;
+  }
+
+  private async readExports(path: string, visiting: Set<string>): Promise<Set<string> | null> {
+    // A re-export cycle adds nothing beyond what the outer call collects
+    if (visiting.has(path)) return new Set();
+    const language = detectLanguage(path);
+    if (!language || !JS_LANGUAGES.has(language)) return null;
+    visiting.add(path);
+
+    const parsed = this.parsed.get(path);
+    let content: string;
+    try {
+      content = parsed?.content ?? await readFile(join(this.context.projectRoot, path), 'utf-8');
+    } catch {
+      return null;
+    }
+    if (/\bmodule\.exports\b|\bexports\.\w+\s*=|^export\s*=/m.test(content)) return null;
+
+    const names = new Set<string>();
+    const tree = parsed?.tree ?? parseSource(language, content);
+    for (const exp of collectExportDeclarations(tree, language)) {
+      if (exp.name !== '*') {
+        names.add(exp.name);
+        continue;
+      }
+      const source = exp.source!;
+      if (!source.startsWith('.')) return null;
+      const target = await this.findFile(posix.join(posix.dirname(path), source));
+      const reexported = target ? await this.readExports(target, visiting) : null;
+      if (!reexported) return null;
+      for (const name of reexported) if (name !== 'default') names.add(name);
+    }
+    return names;
+  }
+
+  /** Whether a bare specifier matches a tsconfig `paths` pattern of the importer's tsconfig. */
+  private isPathAlias(source: string, fromFile: string, resolution: ModuleResolution): boolean {
+    const scope = resolution.tsconfigs.find(s => !s.dir || fromFile.startsWith(`${s.dir}/`));
+    return Object.keys(scope?.paths ?? {}).some((pattern) => {
+      const star = pattern.indexOf('*');
+      return star < 0 ? pattern === source : source.startsWith(pattern.slice(0, star)) && source.endsWith(pattern.slice(star + 1));
+    });
+  }
+
+  private async findFile(base: string): Promise<string | null> {
+    const known = new Set([...this.parsed.keys(), ...await this.listDir(posix.dirname(base)), ...await this.listDir(base)]);
+    return resolveWithExtensions(base, known);
+  }
+
+  /** Project-relative paths of the entries of a project directory; empty when it does not exist. */
+  private listDir(dir: string): Promise<string[]> {
+    const key = dir === '.' ? '' : dir;
+    let entries = this.dirs.get(key);
+    if (!entries) {
+      entries = readdir(join(this.context.projectRoot, key))
+        .then(names => names.map(name => (key ? `${key}/${name}` : name)))
+        .catch(() => []);
+      this.dirs.set(key, entries);
+    }
+    return entries;
+  }
+
+  /** Dependency names of every package.json from the importer's directory up to the root; null without any. */
+  private async declaredPackages(fromFile: string): Promise<string[] | null> {
+    const dirs = this.ancestors(fromFile);
+    const manifests: string[] = [];
+    for (const dir of dirs) {
+      if (await this.exists(join(dir, 'package.json'))) manifests.push(dir);
+    }
+    if (manifests.length === 0) return null;
+
+    const names: string[] = [];
+    for (const dir of manifests) {
+      let declared = this.declaredCache.get(dir);
+      if (!declared) {
+        declared = collectDependencies(dir).then(deps => deps.filter(d => d.ecosystem === 'npm' && !d.transitive).map(d => d.name));
+        this.declaredCache.set(dir, declared);
+      }
+      names.push(...await declared);
+    }
+    return names;
+  }
+
+  /** Absolute directories from the file's directory up to the project root. */
+  private ancestors(fromFile: string): string[] {
+    const dirs: string[] = [];
+    for (let dir = posix.dirname(fromFile); ; dir = posix.dirname(dir)) {
+      dirs.push(join(this.context.projectRoot, dir === '.' ? '' : dir));
+      if (dir === '.' || dir === '/') return dirs;
+    }
+  }
+
+  private async exists(path: string): Promise<boolean> {
+    try {
+      await access(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private loadResolution(): Promise<ModuleResolution> {
+    this.resolution ??= loadModuleResolution(this.context.projectRoot);
+    return this.resolution;
+  }
+}
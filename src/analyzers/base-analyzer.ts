@@ -11,6 +11,30 @@ export abstract class BaseAnalyzer implements Analyzer {
     return new Set(file.addedLines.map(l => l.lineNumber));
   }
 
+  /**
+   * Iterate `files` until the context's deadline passes, marking each file complete
+   * once its loop body has run and reporting the findings it added. Files left when
+   * the deadline passes are marked skipped and the loop ends early.
+   */
+  protected *withinDeadline<T extends { path: string }>(
+    context: AnalysisContext,
+    files: T[],
+    findings: Finding[],
+  ): Generator<T> {
+    const deadline = context.deadline;
+    let reported = findings.length;
+    for (let i = 0; i < files.length; i++) {
+      if (deadline?.expired()) {
+        deadline.skip(files.slice(i).map(f => f.path));
+        return;
+      }
+      yield files[i];
+      deadline?.complete(files[i].path);
+      deadline?.report(findings.slice(reported));
+      reported = findings.length;
+    }
+  }
+
   protected getParsedFile(context: AnalysisContext, filePath: string): ParsedFile | undefined {
     return context.parsedFiles.find(f => f.path === filePath);
   }
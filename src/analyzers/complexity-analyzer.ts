@@ -39,7 +39,7 @@ export class ComplexityAnalyzer extends BaseAnalyzer {
     const maxCognitive = complexityConfig.maxCognitive;
     const severity = complexityConfig.severity;
 
-    for (const file of context.parsedFiles) {
+    for (const file of this.withinDeadline(context, context.parsedFiles, findings)) {
       const conventions = getLanguageConventions(file.language);
       const functions = findNodes(file.tree, conventions.functionNodeTypes);
       const changedLines = this.getChangedLines(context, file.path);
@@ -39,7 +39,7 @@ export class ConventionEnforcer extends BaseAnalyzer {
     const findings: Finding[] = [];
     const config = context.config.analyzers.conventions;
 
-    for (const file of context.parsedFiles) {
+    for (const file of this.withinDeadline(context, context.parsedFiles, findings)) {
       const changedLines = this.getChangedLines(context, file.path);
       const lang = file.language;
       const langNaming = this.resolveNaming(lang, config.naming, config.perLanguage);
@@ -0,0 +1,182 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { AnalysisContext, CyclesConfig, Finding, FlowStep, ParsedFile } from '../core/types.js';
+import { Severity } from '../core/types.js';
+import { BaseAnalyzer } from './base-analyzer.js';
+import {
+  buildDependencyGraph,
+  findStronglyConnectedComponents,
+  resolveFileImports,
+  resolveImportTargets,
+  shortestCycleThrough,
+  type DependencyGraph,
+} from '../core/dependency-graph.js';
+import { loadModuleResolution, type ModuleResolution } from '../core/module-resolution.js';
+import { detectLanguage } from '../core/diff-parser.js';
+import { collectLanguageImports } from '../parsers/language-imports.js';
+import { parseSource } from '../parsers/tree-sitter-manager.js';
+import { getAllTrackedFiles } from '../utils/git.js';
+import { minimatch } from 'minimatch';
+
+interface ImportEdge {
+  from: string;
+  to: string;
+  line: number;
+}
+
+export class CyclesAnalyzer extends BaseAnalyzer {
+  name = 'cycles';
+
+  protected defaultSeverity(): Severity {
+    return Severity.Warning;
+  }
+
+  async analyze(context: AnalysisContext): Promise<Finding[]> {
+    const findings: Finding[] = [];
+    const cyclesConfig = context.config.analyzers.cycles;
+    if (!cyclesConfig?.enabled) return findings;
+
+    const resolution = await loadModuleResolution(context.projectRoot);
+    const parsedFiles = await this.reachableFiles(context, resolution);
+    const graph = buildDependencyGraph(parsedFiles, context.projectRoot, resolution);
+    const lines = new ImportLines(parsedFiles, graph, resolution);
+
+    // One finding per strongly connected component, for its shortest cycle
+    for (const component of findStronglyConnectedComponents(graph)) {
+      const introduced = this.findChangedEdge(context, component, graph, lines);
+      const cycle = introduced
+        ? shortestCycleThrough(graph, introduced.from, introduced.to)
+        : this.shortestCycle(graph, component);
+      if (!cycle) continue;
+
+      const files = cycle.slice(0, -1);
+      if (cyclesConfig.maxCycleLength !== undefined && files.length > cyclesConfig.maxCycleLength) continue;
+      if (this.isAllowed(files, cyclesConfig)) continue;
+
+      const anchor = introduced ?? { from: cycle[0], to: cycle[1], line: lines.lineOf(cycle[0], cycle[1]) };
+      const fromDiff = introduced !== undefined && this.isDiffFile(context, introduced.from);
+      const flow: FlowStep[] = files.map((file, i) => {
+        const step: FlowStep = { file, line: lines.lineOf(file, cycle[i + 1]), message: `Imports ${cycle[i + 1]}` };
+        if (fromDiff && file === anchor.from && cycle[i + 1] === anchor.to) step.message += ' (added in this change)';
+        return step;
+      });
+
+      const others = component.length > files.length ? ` (${component.length} files are mutually dependent)` : '';
+      findings.push(this.createFinding(
+        'cycles/circular-dependency',
+        anchor.from,
+        anchor.line,
+        `Circular dependency: ${cycle.join(' → ')}${others}`,
+        {
+          severity: cyclesConfig.severity,
+          suggestion: fromDiff
+            ? `The import of '${anchor.to}' added here closes the cycle; move the shared code into a module both files can import`
+            : 'Break the cycle by moving shared code into a separate module or inverting one of the imports',
+          flow,
+        },
+      ));
+    }
+
+    return findings;
+  }
+
+  /**
+   * The parsed files and, for a diff, every project file they import directly
+   * or transitively, read from disk. A cycle through a changed file only runs
+   * through files it reaches, so an unchanged file closing it is still seen.
+   */
+  private async reachableFiles(context: AnalysisContext, resolution: ModuleResolution): Promise<ParsedFile[]> {
+    if (!context.files.some(f => f.hunks.length > 0)) return context.parsedFiles;
+
+    const tracked = await getAllTrackedFiles(context.projectRoot).catch(() => []);
+    const allPaths = new Set([...tracked, ...context.files.map(f => f.path), ...context.parsedFiles.map(f => f.path)]);
+    const files = [...context.parsedFiles];
+    const seen = new Set(files.map(f => f.path));
+    for (let i = 0; i < files.length; i++) {
+      for (const target of resolveFileImports(files[i], allPaths, resolution)) {
+        if (seen.has(target)) continue;
+        seen.add(target);
+        const language = detectLanguage(target);
+        if (!language) continue;
+        try {
+          const content = await readFile(join(context.projectRoot, target), 'utf-8');
+          files.push({ path: target, language, tree: parseSource(language, content), content });
+        } catch {
+          // Deleted since it was tracked, or unreadable; the import stays unresolved
+        }
+      }
+    }
+    return files;
+  }
+
+  /** The first import inside `component` that sits on a changed line. */
+  private findChangedEdge(
+    context: AnalysisContext,
+    component: string[],
+    graph: DependencyGraph,
+    lines: ImportLines,
+  ): ImportEdge | undefined {
+    const members = new Set(component);
+    for (const from of component) {
+      const changedLines = this.getChangedLines(context, from);
+      if (changedLines.size === 0) continue;
+      for (const to of graph.nodes.get(from)!.imports) {
+        if (!members.has(to)) continue;
+        const line = lines.lineOf(from, to);
+        if (changedLines.has(line)) return { from, to, line };
+      }
+    }
+    return undefined;
+  }
+
+  /** Whether `file` comes from a diff rather than a full scan, which reports every line as added. */
+  private isDiffFile(context: AnalysisContext, file: string): boolean {
+    return (context.files.find(f => f.path === file)?.hunks.length ?? 0) > 0;
+  }
+
+  private shortestCycle(graph: DependencyGraph, component: string[]): string[] | null {
+    const start = component[0];
+    const members = new Set(component);
+    let best: string[] | null = null;
+    for (const to of graph.nodes.get(start)!.imports) {
+      if (!members.has(to)) continue;
+      const cycle = shortestCycleThrough(graph, start, to);
+      if (cycle && (!best || cycle.length < best.length)) best = cycle;
+    }
+    return best;
+  }
+
+  private isAllowed(files: string[], config: CyclesConfig): boolean {
+    return config.allow.some(patterns =>
+      files.every(file => patterns.some(pattern => file === pattern || minimatch(file, pattern))));
+  }
+}
+
+/** Line of the import statement behind each graph edge, resolved on demand. */
+class ImportLines {
+  private readonly byPath: Map<string, ParsedFile>;
+  private readonly allPaths: Set<string>;
+  private readonly cache = new Map<string, Map<string, number>>();
+
+  constructor(parsedFiles: ParsedFile[], graph: DependencyGraph, private readonly resolution: ModuleResolution) {
+    this.byPath = new Map(parsedFiles.map(f => [f.path, f]));
+    this.allPaths = new Set(graph.nodes.keys());
+  }
+
+  lineOf(from: string, to: string): number {
+    let lines = this.cache.get(from);
+    if (!lines) {
+      lines = new Map();
+      const file = this.byPath.get(from);
+      if (file) {
+        for (const imp of collectLanguageImports(file.tree, file.language)) {
+          for (const target of resolveImportTargets(imp, file, this.allPaths, this.resolution)) {
+            if (!lines.has(target)) lines.set(target, imp.line);
+          }
+        }
+      }
+      this.cache.set(from, lines);
+    }
+    return lines.get(to) ?? 1;
+  }
+}
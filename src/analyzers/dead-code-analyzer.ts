@@ -1,10 +1,69 @@
-import type { AnalysisContext, Finding } from '../core/types.js';
+import type { AnalysisContext, Finding, ParsedFile, SupportedLanguage } from '../core/types.js';
 import { Severity } from '../core/types.js';
 import { BaseAnalyzer } from './base-analyzer.js';
-import { buildDependencyGraph } from '../core/dependency-graph.js';
-import { collectExports } from '../parsers/language-imports.js';
+import { buildDependencyGraph, resolveImportTargets, resolveWithExtensions } from '../core/dependency-graph.js';
+import { loadModuleResolution, packageEntryCandidates, type ModuleResolution } from '../core/module-resolution.js';
+import { collectExportDeclarations, collectImportedNames, type ExportInfo } from '../parsers/language-imports.js';
 import { minimatch } from 'minimatch';
 
+const JS_LANGUAGES = new Set<SupportedLanguage>(['typescript', 'javascript', 'tsx', 'jsx']);
+
+/** Entry points when none are configured and no package declares any: a root or `src/` index/main file. */
+const DEFAULT_ENTRY_FILE = /^(src\/)?(index|main)\.[^/]+$/;
+
+/**
+ * Which exports of which files are used. JS/TS exports are tracked per name,
+ * following re-exports through barrels; other languages per file.
+ */
+class ExportUsage {
+  private readonly used = new Map<string, Set<string>>();
+  private readonly fullyUsed = new Set<string>();
+
+  constructor(
+    private readonly exportsOf: Map<string, ExportInfo[]>,
+    private readonly resolveSource: (file: string, exp: ExportInfo) => string | undefined,
+  ) {}
+
+  isUsed(file: string, name: string): boolean {
+    return this.fullyUsed.has(file) || (this.used.get(file)?.has(name) ?? false);
+  }
+
+  /** Mark `name` of `file` used, and the export it re-exports if any. */
+  use(file: string, name: string): void {
+    if (name === '*') {
+      this.useAll(file);
+      return;
+    }
+    if (this.isUsed(file, name)) return;
+    const names = this.used.get(file) ?? new Set<string>();
+    names.add(name);
+    this.used.set(file, names);
+
+    const exports = this.exportsOf.get(file) ?? [];
+    const own = exports.find(e => e.name === name);
+    if (own) {
+      const target = own.source !== undefined ? this.resolveSource(file, own) : undefined;
+      if (target) this.use(target, own.imported!);
+      return;
+    }
+    // Names not declared here may come through `export * from`
+    for (const star of exports.filter(e => e.name === '*')) {
+      const target = this.resolveSource(file, star);
+      if (target) this.use(target, name);
+    }
+  }
+
+  /** Mark every export of `file` used, e.g. for namespace objects and public entry points. */
+  useAll(file: string): void {
+    if (this.fullyUsed.has(file)) return;
+    this.fullyUsed.add(file);
+    for (const exp of this.exportsOf.get(file) ?? []) {
+      const target = exp.source !== undefined ? this.resolveSource(file, exp) : undefined;
+      if (target) this.use(target, exp.imported!);
+    }
+  }
+}
+
 export class DeadCodeAnalyzer extends BaseAnalyzer {
   name = 'dead-code';
 
@@ -18,59 +77,79 @@ export class DeadCodeAnalyzer extends BaseAnalyzer {
     if (!deadCodeConfig?.enabled) return findings;
 
     const severity = deadCodeConfig.severity;
-    const entryPoints = deadCodeConfig.entryPoints ?? [];
+    const resolution = await loadModuleResolution(context.projectRoot);
+    const graph = buildDependencyGraph(context.parsedFiles, context.projectRoot, resolution);
+    const allPaths = new Set(graph.nodes.keys());
+    const byPath = new Map(context.parsedFiles.map(f => [f.path, f]));
 
-    // Build dependency graph from all parsed files
-    const graph = buildDependencyGraph(context.parsedFiles, context.projectRoot);
+    const exportsOf = new Map<string, ExportInfo[]>();
+    for (const file of context.parsedFiles) {
+      exportsOf.set(file.path, collectExportDeclarations(file.tree, file.language));
+    }
+
+    const resolveSource = (from: string, exp: ExportInfo): string | undefined => {
+      const file = byPath.get(from)!;
+      return resolveImportTargets({ source: exp.source!, specifiers: [], node: exp.node, line: exp.line }, file, allPaths, resolution)[0];
+    };
+    const usage = new ExportUsage(exportsOf, resolveSource);
 
-    // Collect all imports across all files (what symbols are actually used)
-    const allImportedSymbols = new Map<string, Set<string>>(); // file path → set of imported symbols
+    // Public entry points: everything they export counts as used
+    const entryPoints = this.entryPoints(deadCodeConfig.entryPoints ?? [], allPaths, resolution);
+    for (const entry of entryPoints) usage.useAll(entry);
 
-    for (const [filePath, node] of graph.nodes) {
-      for (const importedFile of node.imports) {
-        if (!allImportedSymbols.has(importedFile)) {
-          allImportedSymbols.set(importedFile, new Set());
+    for (const file of context.parsedFiles) {
+      if (JS_LANGUAGES.has(file.language)) {
+        for (const imp of collectImportedNames(file.tree)) {
+          const [target] = resolveImportTargets(imp, file, allPaths, resolution);
+          if (!target || target === file.path) continue;
+          for (const name of imp.names) usage.use(target, name);
         }
+      } else {
+        // Other languages are tracked per file: any importer uses all exports
+        for (const target of graph.nodes.get(file.path)?.imports ?? []) usage.useAll(target);
       }
     }
 
-    // For each file, check if its exports are imported anywhere
     for (const file of context.parsedFiles) {
-      // Skip entry points
-      if (this.isEntryPoint(file.path, entryPoints)) continue;
-
-      // Skip test files
-      if (this.isTestFile(file.path)) continue;
-
-      const exports = collectExports(file.tree, file.language);
-      if (exports.length === 0) continue;
-
-      const graphNode = graph.nodes.get(file.path);
-      if (!graphNode) continue;
-
-      // If no other file imports this file at all, all exports are unused
-      if (graphNode.importedBy.length === 0 && exports.length > 0) {
-        for (const exportName of exports) {
-          findings.push(this.createFinding(
-            'dead-code/unused-export',
-            file.path,
-            1,
-            `Export '${exportName}' is never imported by any other file`,
-            { severity },
-          ));
-        }
+      if (entryPoints.has(file.path) || this.isTestFile(file.path) || file.path.endsWith('.d.ts')) continue;
+
+      for (const exp of exportsOf.get(file.path) ?? []) {
+        if (exp.name === '*' || usage.isUsed(file.path, exp.name)) continue;
+        const label = exp.name === 'default' ? 'Default export' : `Export '${exp.name}'`;
+        findings.push(this.createFinding(
+          'dead-code/unused-export',
+          file.path,
+          exp.line,
+          `${label} is never imported by any other file`,
+          { severity, codeSnippet: this.lineText(file, exp.line) },
+        ));
       }
     }
 
     return findings;
   }
 
-  private isEntryPoint(filePath: string, entryPoints: string[]): boolean {
-    if (entryPoints.length === 0) {
-      // Default entry points
-      return filePath.includes('index.') || filePath.includes('main.');
+  /**
+   * Configured entry points, or else the package entry points from
+   * package.json (`main`, `exports`, `bin`) plus a root or `src/` index/main file.
+   */
+  private entryPoints(patterns: string[], allPaths: Set<string>, resolution: ModuleResolution): Set<string> {
+    if (patterns.length > 0) {
+      return new Set([...allPaths].filter(p => patterns.some(ep => p === ep || minimatch(p, ep))));
+    }
+    const entries = new Set<string>();
+    for (const candidate of packageEntryCandidates(resolution)) {
+      const file = resolveWithExtensions(candidate, allPaths);
+      if (file) entries.add(file);
     }
-    return entryPoints.some(ep => minimatch(filePath, ep) || filePath === ep);
+    for (const p of allPaths) {
+      if (DEFAULT_ENTRY_FILE.test(p)) entries.add(p);
+    }
+    return entries;
+  }
+
+  private lineText(file: ParsedFile, line: number): string | undefined {
+    return file.content.split('\n')[line - 1]?.trim();
   }
 
   private isTestFile(filePath: string): boolean {
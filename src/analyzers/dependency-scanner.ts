@@ -1,8 +1,10 @@
+import { join } from 'node:path';
 import type { AnalysisContext, Finding } from '../core/types.js';
 import { Severity } from '../core/types.js';
 import { BaseAnalyzer } from './base-analyzer.js';
 import { logger } from '../utils/logger.js';
-import { collectDependencies, type PackageDependency } from '../core/dependency-collector.js';
+import { collectDependencies, manifestFor, type PackageDependency } from '../core/dependency-collector.js';
+import { AdvisoryDatabase, DEFAULT_ADVISORY_DIR } from '../core/advisory-db.js';
 
 interface OsvVulnerability {
   id: string;
@@ -33,27 +35,38 @@ export class DependencyScanner extends BaseAnalyzer {
     const depConfig = context.config.analyzers.dependencies;
     if (!depConfig?.enabled) return findings;
 
-    const deps = await collectDependencies(context.projectRoot);
+    // Unpinned requirements have no version to look up
+    const deps = (await collectDependencies(context.projectRoot)).filter(dep => dep.version);
     if (deps.length === 0) return findings;
 
+    // Ecosystems synced with `advisories sync` are matched offline; the rest go to the OSV API unless offline
+    const database = await AdvisoryDatabase.open(join(context.projectRoot, depConfig.database ?? DEFAULT_ADVISORY_DIR));
+    const unsynced = [...new Set(deps.map(dep => dep.ecosystem))].filter(ecosystem => !database?.covers(ecosystem));
+    if (depConfig.offline && unsynced.length > 0) {
+      logger.warn(`No synced advisories for ${unsynced.join(', ')}; run \`archguardian advisories sync\` to check those dependencies offline`);
+    }
+
     logger.debug(`Checking ${deps.length} dependencies for known vulnerabilities`);
 
-    // Query OSV API in batches
-    for (const dep of deps) {
+    for (const [i, dep] of deps.entries()) {
+      if (context.deadline?.expired()) {
+        // Manifests with unchecked dependencies count as not analyzed
+        context.deadline.skip([...new Set(deps.slice(i).map(manifestFor))]);
+        break;
+      }
       try {
-        const vulns = await this.queryOsv(dep);
-        for (const vuln of vulns) {
-          findings.push(this.createFinding(
-            'dependency/known-vulnerability',
-            dep.ecosystem === 'npm' ? 'package.json' :
-              dep.ecosystem === 'Go' ? 'go.mod' :
-              dep.ecosystem === 'crates.io' ? 'Cargo.toml' :
-              dep.ecosystem === 'Maven' ? 'pom.xml' : 'package.json',
-            1,
-            `${dep.name}@${dep.version}: ${vuln.summary} (${vuln.id})`,
-            { severity: depConfig.severity ?? Severity.Error },
-          ));
-        }
+        const vulns: Array<{ id: string; summary: string }> = database?.covers(dep.ecosystem)
+          ? await database.lookup(dep)
+          : depConfig.offline ? [] : await this.queryOsv(dep);
+        const depFindings = vulns.map(vuln => this.createFinding(
+          'dependency/known-vulnerability',
+          manifestFor(dep),
+          1,
+          `${dep.name}@${dep.version}: ${vuln.summary} (${vuln.id})`,
+          { severity: depConfig.severity ?? Severity.Error },
+        ));
+        findings.push(...depFindings);
+        context.deadline?.report(depFindings);
       } catch (err) {
         logger.warn(`OSV query failed for ${dep.name}: ${(err as Error).message}`);
       }
@@ -0,0 +1,201 @@
+import { access } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { AnalysisContext, DependencyUsageConfig, Finding } from '../core/types.js';
+import { Severity } from '../core/types.js';
+import { BaseAnalyzer } from './base-analyzer.js';
+import { collectDependencies, manifestFor, type PackageDependency } from '../core/dependency-collector.js';
+import { loadModuleResolution, type ModuleResolution } from '../core/module-resolution.js';
+import { collectExternalImports, findDependency, LANGUAGE_ECOSYSTEMS } from '../core/package-imports.js';
+import { minimatch } from 'minimatch';
+
+/** Manifest files per ecosystem; an ecosystem is only checked where one of them exists. */
+const MANIFEST_FILES: Record<string, string[]> = {
+  npm: ['package.json'],
+  PyPI: ['requirements.txt', 'requirements-dev.txt'],
+  Go: ['go.mod'],
+  'crates.io': ['Cargo.toml'],
+  Maven: ['pom.xml'],
+};
+
+/** Tests, benchmarks, examples, stories, build scripts and tool configs, which may use dev dependencies. */
+const DEV_FILES = [
+  /\.(test|spec|e2e|stories)\.[cm]?[jt]sx?$/,
+  /(^|\/)(__tests__|tests?|e2e|benches|examples|scripts)\//,
+  /(^|\/)[^/]+\.config\.[cm]?[jt]s$/,
+  /(^|\/)(test_[^/]*|[^/]*_test|conftest)\.py$/,
+  /_test\.go$/,
+  /(^|\/)src\/test\//,
+  /(^|\/)build\.rs$/,
+];
+
+/** Dependencies declared by one manifest directory for one ecosystem. */
+interface Manifest {
+  dir: string;
+  ecosystem: string;
+  deps: PackageDependency[];
+}
+
+export class DependencyUsageAnalyzer extends BaseAnalyzer {
+  name = 'dependency-usage';
+
+  protected defaultSeverity(): Severity {
+    return Severity.Warning;
+  }
+
+  async analyze(context: AnalysisContext): Promise<Finding[]> {
+    const findings: Finding[] = [];
+    const usageConfig = context.config.analyzers.dependencyUsage;
+    if (!usageConfig?.enabled) return findings;
+
+    const severity = usageConfig.severity;
+    const resolution = await loadModuleResolution(context.projectRoot);
+    const manifests = await this.loadManifests(context.projectRoot, resolution);
+    if (manifests.length === 0) return findings;
+
+    const allPaths = new Set(context.parsedFiles.map(f => f.path));
+    const used = new Set<PackageDependency>();
+    const usedInSource = new Set<PackageDependency>();
+
+    for (const file of this.withinDeadline(context, context.parsedFiles, findings)) {
+      const ecosystem = LANGUAGE_ECOSYSTEMS[file.language];
+      // Manifests that apply to the file, nearest first; root manifests cover workspace members
+      const scopes = manifests.filter(m => m.ecosystem === ecosystem && (!m.dir || file.path.startsWith(`${m.dir}/`)));
+      if (scopes.length === 0) continue;
+
+      const changedLines = this.getChangedLines(context, file.path);
+      const devFile = this.isDevFile(file.path, usageConfig);
+      const markUsed = (dep: PackageDependency) => {
+        used.add(dep);
+        if (!devFile) usedInSource.add(dep);
+      };
+
+      for (const imported of collectExternalImports(file, allPaths, resolution)) {
+        if (this.isIgnored(imported.name, usageConfig)) continue;
+        const dep = scopes.map(s => findDependency(s.deps, imported)).find(d => d !== undefined);
+
+        if (!dep) {
+          if (!changedLines.has(imported.line)) continue;
+          const manifest = this.manifestPath(scopes[0].dir, MANIFEST_FILES[ecosystem][0]);
+          findings.push(this.createFinding(
+            'dependency-usage/missing-dependency',
+            file.path,
+            imported.line,
+            `'${imported.name}' is imported but no dependency in ${manifest} provides it`,
+            {
+              severity,
+              suggestion: `Declare the package in ${manifest}, or check that the name is right and the package exists`,
+            },
+          ));
+          continue;
+        }
+
+        markUsed(dep);
+        // Rust dev-dependencies are commonly used by `#[cfg(test)]` modules inside source files
+        const testModule = file.language === 'rust' && file.content.includes('#[cfg(test)]');
+        if (dep.dev && !devFile && !imported.typeOnly && !testModule && changedLines.has(imported.line)) {
+          findings.push(this.createFinding(
+            'dependency-usage/dev-dependency-in-source',
+            file.path,
+            imported.line,
+            `'${dep.name}' is a dev dependency but is imported from production code`,
+            {
+              severity,
+              suggestion: `Move '${dep.name}' to the production dependencies in ${this.manifestPath(this.ownerOf(dep, scopes), manifestFor({ ...dep, dev: false }))}`,
+            },
+          ));
+        }
+      }
+
+      // Crates are also used through qualified paths such as `serde_json::json!` without a `use`
+      if (file.language === 'rust') {
+        for (const match of file.content.matchAll(/\b([a-z_][a-z0-9_]*)::/g)) {
+          const imported = { ecosystem, name: match[1], line: 0 };
+          const dep = scopes.map(s => findDependency(s.deps, imported)).find(d => d !== undefined);
+          if (dep) markUsed(dep);
+        }
+      }
+    }
+
+    // Whether a dependency is used at all is only known when every file was analyzed
+    const fullScan = context.parsedFiles.length > 0 && !context.files.some(f => f.hunks.length > 0);
+    if (!fullScan || context.deadline?.expired()) return findings;
+
+    for (const manifest of manifests) {
+      for (const dep of manifest.deps) {
+        if (dep.dev || dep.indirect || dep.name.startsWith('@types/') || this.isIgnored(dep.name, usageConfig)) continue;
+        const path = this.manifestPath(manifest.dir, manifestFor(dep));
+        if (!used.has(dep)) {
+          findings.push(this.createFinding(
+            'dependency-usage/unused-dependency',
+            path,
+            dep.line ?? 1,
+            `Dependency '${dep.name}' is declared but never imported`,
+            { severity, suggestion: `Remove '${dep.name}' from ${path}, or add it to dependencyUsage.ignore if it is loaded indirectly` },
+          ));
+        } else if (!usedInSource.has(dep) && manifest.ecosystem !== 'Go') {
+          findings.push(this.createFinding(
+            'dependency-usage/test-only-dependency',
+            path,
+            dep.line ?? 1,
+            `Dependency '${dep.name}' is only imported from tests and tooling`,
+            { severity, suggestion: `Declare '${dep.name}' as a dev dependency so it is not installed in production` },
+          ));
+        }
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Dependencies of the project root and of every workspace package, Go
+   * module and Cargo crate, per ecosystem whose manifest exists there.
+   */
+  private async loadManifests(projectRoot: string, resolution: ModuleResolution): Promise<Manifest[]> {
+    const dirs = new Set(['',
+      ...resolution.packages.map(p => p.dir),
+      ...resolution.goModules.map(m => m.dir),
+      ...resolution.rustCrates.map(c => c.dir),
+    ]);
+
+    const manifests: Manifest[] = [];
+    for (const dir of dirs) {
+      const deps = await collectDependencies(join(projectRoot, dir));
+      for (const [ecosystem, files] of Object.entries(MANIFEST_FILES)) {
+        if (!await this.anyExists(join(projectRoot, dir), files)) continue;
+        manifests.push({ dir, ecosystem, deps: deps.filter(d => d.ecosystem === ecosystem && !d.transitive) });
+      }
+    }
+    // Nearest manifest first when several apply to a file
+    return manifests.sort((a, b) => b.dir.length - a.dir.length);
+  }
+
+  private async anyExists(dir: string, files: string[]): Promise<boolean> {
+    for (const file of files) {
+      try {
+        await access(join(dir, file));
+        return true;
+      } catch {
+        // Not present
+      }
+    }
+    return false;
+  }
+
+  private ownerOf(dep: PackageDependency, scopes: Manifest[]): string {
+    return scopes.find(s => s.deps.includes(dep))?.dir ?? '';
+  }
+
+  private manifestPath(dir: string, file: string): string {
+    return dir ? `${dir}/${file}` : file;
+  }
+
+  private isDevFile(filePath: string, config: DependencyUsageConfig): boolean {
+    return DEV_FILES.some(pattern => pattern.test(filePath)) ||
+      config.devFiles.some(glob => minimatch(filePath, glob));
+  }
+
+  private isIgnored(name: string, config: DependencyUsageConfig): boolean {
+    return config.ignore.some(pattern => name === pattern || minimatch(name, pattern));
+  }
+}
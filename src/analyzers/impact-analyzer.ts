@@ -2,6 +2,7 @@ import type { AnalysisContext, Finding } from '../core/types.js';
 import { Severity } from '../core/types.js';
 import { BaseAnalyzer } from './base-analyzer.js';
 import { buildDependencyGraph, getConsumers } from '../core/dependency-graph.js';
+import { loadModuleResolution } from '../core/module-resolution.js';
 
 export class ImpactAnalyzer extends BaseAnalyzer {
   name = 'impact';
@@ -16,7 +17,8 @@ export class ImpactAnalyzer extends BaseAnalyzer {
     if (!impactConfig?.enabled) return findings;
 
     const depth = impactConfig.depth ?? 2;
-    const graph = buildDependencyGraph(context.parsedFiles, context.projectRoot);
+    const resolution = await loadModuleResolution(context.projectRoot);
+    const graph = buildDependencyGraph(context.parsedFiles, context.projectRoot, resolution);
 
     // For each changed file, report downstream consumers
     for (const file of context.files) {
@@ -7,8 +7,16 @@ import type {
 import { Severity } from '../core/types.js';
 import { BaseAnalyzer } from './base-analyzer.js';
 import { collectImports } from '../parsers/ast-utils.js';
+import { collectLanguageImports } from '../parsers/language-imports.js';
+import { resolveImportTargets } from '../core/dependency-graph.js';
+import { loadModuleResolution, type ModuleResolution } from '../core/module-resolution.js';
+import { getAllTrackedFiles } from '../utils/git.js';
 import { minimatch } from 'minimatch';
 import { posix } from 'node:path';
+import type { SgNode } from '@ast-grep/napi';
+
+/** Languages whose imports name modules rather than paths, so targets come from the dependency graph resolvers. */
+const MODULE_LANGUAGES = new Set(['python', 'go', 'java', 'rust']);
 
 export class LayerViolationDetector extends BaseAnalyzer {
   name = 'architecture';
@@ -25,7 +33,10 @@ export class LayerViolationDetector extends BaseAnalyzer {
       return findings;
     }
 
-    for (const file of context.parsedFiles) {
+    let allPaths: Set<string> | undefined;
+    let resolution: ModuleResolution | undefined;
+
+    for (const file of this.withinDeadline(context, context.parsedFiles, findings)) {
       const changedLines = this.getChangedLines(context, file.path);
       if (changedLines.size === 0) continue;
 
@@ -35,40 +46,61 @@ export class LayerViolationDetector extends BaseAnalyzer {
       const rule = this.findRule(sourceLayer.name, archConfig.rules);
       if (!rule) continue;
 
-      const imports = collectImports(file.tree);
+      // Module-based languages can resolve one import to several files, e.g. a whole Go package
+      let imports: Array<{ node: SgNode; resolvedPaths: string[] }>;
+      if (MODULE_LANGUAGES.has(file.language)) {
+        resolution ??= await loadModuleResolution(context.projectRoot);
+        const paths = allPaths ??= await this.projectPaths(context);
+        imports = collectLanguageImports(file.tree, file.language).map(imp => ({
+          node: imp.node,
+          resolvedPaths: resolveImportTargets(imp, file, paths, resolution),
+        }));
+      } else {
+        imports = collectImports(file.tree).map(imp => ({
+          node: imp.node,
+          resolvedPaths: [this.resolveImportPath(file.path, imp.source)],
+        }));
+      }
 
       for (const imp of imports) {
         const importLine = imp.node.range().start.line + 1;
         if (!changedLines.has(importLine)) continue;
 
-        const resolvedPath = this.resolveImportPath(file.path, imp.source);
-        const targetLayer = this.resolveLayer(resolvedPath, archConfig.layers);
+        // No violation when importing from the same layer
+        const targetLayer = imp.resolvedPaths
+          .map(resolvedPath => this.resolveLayer(resolvedPath, archConfig.layers))
+          .find(layer => layer && layer.name !== sourceLayer.name && this.isViolation(layer.name, rule));
         if (!targetLayer) continue;
 
-        // No violation when importing from the same layer
-        if (targetLayer.name === sourceLayer.name) continue;
-
-        if (this.isViolation(targetLayer.name, rule)) {
-          findings.push(
-            this.createFinding(
-              'architecture/layer-violation',
-              file.path,
-              importLine,
-              `Layer violation: '${sourceLayer.name}' cannot import from '${targetLayer.name}'`,
-              {
-                severity: archConfig.severity ?? this.defaultSeverity(),
-                suggestion: `Refactor to avoid importing from the '${targetLayer.name}' layer. Allowed layers: ${(rule.allow ?? []).join(', ') || 'none'}`,
-                codeSnippet: imp.node.text(),
-              },
-            ),
-          );
-        }
+        findings.push(
+          this.createFinding(
+            'architecture/layer-violation',
+            file.path,
+            importLine,
+            `Layer violation: '${sourceLayer.name}' cannot import from '${targetLayer.name}'`,
+            {
+              severity: archConfig.severity ?? this.defaultSeverity(),
+              suggestion: `Refactor to avoid importing from the '${targetLayer.name}' layer. Allowed layers: ${(rule.allow ?? []).join(', ') || 'none'}`,
+              codeSnippet: imp.node.text(),
+            },
+          ),
+        );
       }
     }
 
     return findings;
   }
 
+  /**
+   * Every file an import can resolve to. A diff only carries the changed
+   * files, so the rest come from git; outside a repository only the
+   * analyzed files are known.
+   */
+  private async projectPaths(context: AnalysisContext): Promise<Set<string>> {
+    const tracked = await getAllTrackedFiles(context.projectRoot).catch(() => []);
+    return new Set([...tracked, ...context.files.map(f => f.path)]);
+  }
+
   /**
    * Match a file path against the layer patterns to determine which
    * architectural layer it belongs to.
@@ -1,7 +1,7 @@
 import type { AnalysisContext, Finding } from '../core/types.js';
 import { Severity } from '../core/types.js';
 import { BaseAnalyzer } from './base-analyzer.js';
-import { collectDependencies, type PackageDependency } from '../core/dependency-collector.js';
+import { collectDependencies, manifestFor, type PackageDependency } from '../core/dependency-collector.js';
 import { minimatch } from 'minimatch';
 import { logger } from '../utils/logger.js';
 
@@ -27,7 +27,12 @@ export class LicenseScanner extends BaseAnalyzer {
     if (deps.length === 0) return findings;
 
     // Only check production dependencies for npm (filter out devDependencies by checking against package.json)
-    for (const dep of deps) {
+    for (const [i, dep] of deps.entries()) {
+      if (context.deadline?.expired()) {
+        context.deadline.skip([...new Set(deps.slice(i).map(manifestFor))]);
+        break;
+      }
+      const found = findings.length;
       try {
         const license = await this.fetchLicense(dep);
         if (!license) continue;
@@ -35,10 +40,7 @@ export class LicenseScanner extends BaseAnalyzer {
         if (denied.length > 0 && this.matchesList(license, denied)) {
           findings.push(this.createFinding(
             'license/incompatible-license',
-            dep.ecosystem === 'npm' ? 'package.json' :
-              dep.ecosystem === 'Go' ? 'go.mod' :
-              dep.ecosystem === 'crates.io' ? 'Cargo.toml' :
-              dep.ecosystem === 'Maven' ? 'pom.xml' : 'package.json',
+            manifestFor(dep),
             1,
             `${dep.name}@${dep.version} uses denied license: ${license}`,
             { severity: Severity.Error },
@@ -46,10 +48,7 @@ export class LicenseScanner extends BaseAnalyzer {
         } else if (allowed.length > 0 && !this.matchesList(license, allowed)) {
           findings.push(this.createFinding(
             'license/incompatible-license',
-            dep.ecosystem === 'npm' ? 'package.json' :
-              dep.ecosystem === 'Go' ? 'go.mod' :
-              dep.ecosystem === 'crates.io' ? 'Cargo.toml' :
-              dep.ecosystem === 'Maven' ? 'pom.xml' : 'package.json',
+            manifestFor(dep),
             1,
             `${dep.name}@${dep.version} uses license '${license}' not in allowed list`,
             { severity },
@@ -58,6 +57,7 @@ export class LicenseScanner extends BaseAnalyzer {
       } catch (err) {
         logger.debug(`Failed to fetch license for ${dep.name}: ${(err as Error).message}`);
       }
+      context.deadline?.report(findings.slice(found));
     }
 
     return findings;
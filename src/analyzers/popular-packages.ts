@@ -0,0 +1,107 @@
+/**
+ * Widely used package names per ecosystem, which typosquatted and invented
+ * names imitate. Extend or refresh the list without a release through
+ * `typosquatting.lists`.
+ */
+export const POPULAR_PACKAGES: Record<string, readonly string[]> = {
+  npm: `
+    react react-dom react-router react-router-dom react-redux redux @reduxjs/toolkit redux-thunk redux-saga next
+    vue vue-router vuex pinia nuxt @angular/core @angular/common @angular/router @angular/forms @angular/cli svelte
+    preact solid-js lit jquery lodash lodash-es underscore ramda immer immutable rxjs zone.js core-js regenerator-runtime
+    tslib typescript ts-node tsx esbuild vite rollup webpack webpack-cli webpack-dev-server parcel tsup swc @swc/core
+    babel-loader @babel/core @babel/preset-env @babel/preset-react @babel/preset-typescript @babel/runtime
+    @babel/parser @babel/traverse @babel/generator babel-jest
+    eslint prettier eslint-config-prettier eslint-plugin-prettier eslint-plugin-react eslint-plugin-react-hooks
+    eslint-plugin-import eslint-plugin-jsx-a11y @typescript-eslint/parser @typescript-eslint/eslint-plugin
+    typescript-eslint stylelint husky lint-staged commitizen @commitlint/cli
+    jest vitest mocha chai sinon jasmine karma ava tap supertest nock msw cypress playwright @playwright/test
+    puppeteer @testing-library/react @testing-library/jest-dom @testing-library/user-event @testing-library/dom
+    express koa fastify hapi @hapi/hapi restify @nestjs/core @nestjs/common @nestjs/platform-express
+    body-parser cookie-parser cors helmet morgan compression express-session express-validator express-rate-limit
+    multer passport passport-jwt passport-local jsonwebtoken bcrypt bcryptjs argon2 jose oauth
+    axios node-fetch got superagent request undici ky cross-fetch isomorphic-fetch form-data ws socket.io
+    socket.io-client graphql apollo-server @apollo/client @apollo/server graphql-tag graphql-request urql
+    mongoose mongodb mysql mysql2 pg pg-promise sqlite3 better-sqlite3 sequelize typeorm prisma @prisma/client
+    knex drizzle-orm redis ioredis bull bullmq amqplib kafkajs nats mqtt @aws-sdk/client-s3 aws-sdk firebase
+    firebase-admin @google-cloud/storage @azure/storage-blob stripe twilio nodemailer @sendgrid/mail
+    dotenv dotenv-expand cross-env config convict yargs commander minimist meow inquirer prompts ora chalk
+    kleur colors picocolors cli-table3 boxen figlet debug winston pino pino-pretty bunyan log4js loglevel
+    moment dayjs date-fns luxon uuid nanoid shortid ms numeral big.js decimal.js bignumber.js
+    zod yup joi ajv class-validator class-transformer io-ts superstruct validator
+    fs-extra glob fast-glob globby rimraf mkdirp graceful-fs chokidar minimatch micromatch picomatch
+    semver tar archiver adm-zip jszip yaml js-yaml ini toml xml2js fast-xml-parser csv-parse papaparse
+    cheerio jsdom htmlparser2 marked markdown-it remark rehype unified highlight.js prismjs dompurify sanitize-html
+    handlebars ejs pug mustache nunjucks
+    sharp jimp canvas pdfkit pdf-lib qrcode
+    styled-components @emotion/react @emotion/styled tailwindcss postcss autoprefixer sass less clsx classnames
+    @mui/material @mui/icons-material antd bootstrap react-bootstrap @chakra-ui/react framer-motion
+    @headlessui/react @radix-ui/react-dialog react-icons lucide-react @fortawesome/fontawesome-svg-core
+    react-hook-form formik @tanstack/react-query swr react-query @tanstack/react-table react-table
+    d3 chart.js recharts echarts three leaflet mapbox-gl
+    i18next react-i18next intl-messageformat
+    async bluebird p-limit p-queue p-retry eventemitter3 lru-cache node-cache keyv
+    buffer events util process path-browserify stream-browserify crypto-js bcrypt-nodejs
+    source-map-support nodemon pm2 concurrently npm-run-all serve http-server live-server
+    electron electron-builder react-native expo @react-navigation/native
+    openai @anthropic-ai/sdk langchain @langchain/core @google/generative-ai ai
+    @types/node @types/react @types/react-dom @types/express @types/jest @types/lodash @types/uuid
+  `.trim().split(/\s+/),
+  PyPI: `
+    requests urllib3 certifi idna charset-normalizer chardet httpx aiohttp httplib2 websockets
+    numpy pandas scipy matplotlib seaborn plotly scikit-learn scikit-image statsmodels sympy networkx
+    tensorflow keras torch torchvision torchaudio jax transformers tokenizers datasets accelerate diffusers
+    sentence-transformers openai anthropic langchain langchain-core langchain-openai llama-index tiktoken
+    huggingface-hub safetensors xgboost lightgbm catboost opencv-python pillow imageio
+    flask django fastapi starlette uvicorn gunicorn werkzeug jinja2 markupsafe itsdangerous click
+    djangorestframework django-cors-headers celery kombu redis pymongo psycopg2 psycopg2-binary psycopg
+    sqlalchemy alembic peewee mysqlclient pymysql asyncpg motor elasticsearch boto3 botocore s3transfer awscli
+    google-cloud-storage google-api-python-client azure-storage-blob
+    pydantic pydantic-core marshmallow attrs cattrs dataclasses-json python-dotenv pyyaml toml tomli ruamel.yaml
+    python-dateutil pytz tzdata arrow pendulum six typing-extensions packaging setuptools wheel pip virtualenv
+    pytest pytest-cov pytest-mock pytest-asyncio pytest-xdist tox nox coverage hypothesis mock faker factory-boy
+    black flake8 pylint mypy isort ruff autopep8 yapf pre-commit bandit
+    beautifulsoup4 lxml html5lib scrapy selenium playwright
+    cryptography pyopenssl pyjwt bcrypt passlib paramiko rsa ecdsa pycryptodome
+    rich tqdm colorama termcolor tabulate prettytable loguru structlog
+    jsonschema simplejson orjson ujson msgpack protobuf grpcio
+    docker kubernetes ansible fabric invoke
+    sentry-sdk prometheus-client opentelemetry-api
+    pyarrow polars dask numba cython
+    jupyter notebook ipython ipykernel jupyterlab
+    python-multipart email-validator
+  `.trim().split(/\s+/),
+  Go: `
+    github.com/gin-gonic/gin github.com/labstack/echo/v4 github.com/gofiber/fiber/v2 github.com/gorilla/mux
+    github.com/go-chi/chi/v5 github.com/julienschmidt/httprouter github.com/gorilla/websocket
+    github.com/spf13/cobra github.com/spf13/viper github.com/spf13/pflag github.com/urfave/cli/v2
+    github.com/sirupsen/logrus go.uber.org/zap github.com/rs/zerolog
+    github.com/stretchr/testify github.com/golang/mock go.uber.org/mock github.com/onsi/ginkgo/v2 github.com/onsi/gomega
+    github.com/google/uuid github.com/gofrs/uuid github.com/pkg/errors golang.org/x/sync golang.org/x/net
+    golang.org/x/crypto golang.org/x/text golang.org/x/sys golang.org/x/oauth2 golang.org/x/exp
+    google.golang.org/grpc google.golang.org/protobuf github.com/golang/protobuf
+    gorm.io/gorm gorm.io/driver/postgres gorm.io/driver/mysql github.com/jmoiron/sqlx github.com/lib/pq
+    github.com/jackc/pgx/v5 github.com/go-sql-driver/mysql github.com/mattn/go-sqlite3
+    github.com/redis/go-redis/v9 github.com/go-redis/redis/v8 go.mongodb.org/mongo-driver
+    github.com/golang-jwt/jwt/v5 github.com/go-playground/validator/v10 github.com/joho/godotenv
+    github.com/aws/aws-sdk-go github.com/aws/aws-sdk-go-v2 cloud.google.com/go
+    github.com/prometheus/client_golang go.opentelemetry.io/otel github.com/hashicorp/go-multierror
+    gopkg.in/yaml.v3 gopkg.in/yaml.v2 github.com/BurntSushi/toml github.com/json-iterator/go
+    github.com/google/go-cmp github.com/davecgh/go-spew github.com/fatih/color
+    k8s.io/client-go k8s.io/apimachinery github.com/docker/docker
+  `.trim().split(/\s+/),
+  'crates.io': `
+    serde serde_json serde_derive serde_yaml toml tokio tokio-util futures async-trait async-std
+    reqwest hyper axum actix-web warp rocket tower tower-http tonic prost http
+    clap structopt anyhow thiserror eyre color-eyre log env_logger tracing tracing-subscriber
+    rand regex lazy_static once_cell itertools chrono time uuid bytes byteorder
+    sqlx diesel rusqlite redis mongodb sea-orm
+    rayon crossbeam parking_lot dashmap
+    base64 hex sha2 md5 ring rustls openssl aes hmac argon2 bcrypt jsonwebtoken
+    libc nix winapi windows-sys num num-traits bitflags cfg-if memchr smallvec indexmap hashbrown
+    syn quote proc-macro2 darling
+    criterion proptest quickcheck mockall tempfile assert_cmd insta
+    image walkdir glob notify dirs directories
+    wasm-bindgen web-sys js-sys
+    ndarray nalgebra
+  `.trim().split(/\s+/),
+};
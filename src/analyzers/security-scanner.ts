@@ -40,7 +40,9 @@ export class SecurityScanner extends BaseAnalyzer {
     const findings: Finding[] = [];
     const config = context.config.analyzers.security;
 
-    for (const file of context.parsedFiles) {
+    const analyzed: ParsedFile[] = [];
+    for (const file of this.withinDeadline(context, context.parsedFiles, findings)) {
+      analyzed.push(file);
       const changedLines = this.getChangedLines(context, file.path);
       findings.push(...this.checkSecrets(file, changedLines));
       findings.push(...this.checkSqlInjection(file, changedLines));
@@ -53,7 +55,7 @@ export class SecurityScanner extends BaseAnalyzer {
     if (config.customPatterns) {
       for (const custom of config.customPatterns) {
         const regex = new RegExp(custom.pattern, 'g');
-        for (const file of context.parsedFiles) {
+        for (const file of analyzed) {
           const lines = file.content.split('\n');
           const changedLines = this.getChangedLines(context, file.path);
           for (let i = 0; i < lines.length; i++) {
@@ -31,7 +31,7 @@ export class StructuralRuleAnalyzer extends BaseAnalyzer {
     const rules = await this.loadRules(rulesPath);
     if (rules.length === 0) return findings;
 
-    for (const file of context.parsedFiles) {
+    for (const file of this.withinDeadline(context, context.parsedFiles, findings)) {
       const changedLines = this.getChangedLines(context, file.path);
 
       // Match rules to this file's language
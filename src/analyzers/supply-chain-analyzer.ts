@@ -0,0 +1,307 @@
+import { basename, join } from 'node:path';
+import { minimatch } from 'minimatch';
+import type { AnalysisContext, FileInfo, Finding, SupplyChainConfig } from '../core/types.js';
+import { Severity } from '../core/types.js';
+import { BaseAnalyzer } from './base-analyzer.js';
+import { LOCKFILES, packageKey, parseLockfile, readLockfiles, type LockedPackage, type Lockfile } from '../core/lockfiles.js';
+import { collectDependencies, manifestFor } from '../core/dependency-collector.js';
+import { loadModuleResolution } from '../core/module-resolution.js';
+import { originalContent } from '../core/diff-parser.js';
+import { compareVersions } from '../core/versions.js';
+import { getFileContent } from '../utils/git.js';
+
+/** Manifests whose changes can make workspaces drift apart, besides lockfiles. */
+const MANIFESTS = new Set(['package.json', 'go.mod', 'Cargo.toml', 'pom.xml', 'requirements.txt', 'requirements-dev.txt']);
+
+const REGISTRY_SUGGESTION = 'Check the registry configuration (.npmrc, pip.conf, .cargo/config.toml); another registry can serve a different package under the same name';
+
+/** A workspace's direct dependency at the version its lockfile resolves it to. */
+interface LockedDependency {
+  dir: string;
+  name: string;
+  ecosystem: string;
+  version: string;
+  /** Manifest declaring the dependency, and the line of the declaration. */
+  manifest: string;
+  line: number;
+  /** Lockfile the version comes from. */
+  lockfile: string;
+}
+
+/** The host a package source points at, including `github:` shorthands and scp-style git URLs. */
+function hostOf(url: string): string | undefined {
+  const shorthand = /^(github|gitlab|bitbucket):/.exec(url)?.[1];
+  if (shorthand) return shorthand === 'bitbucket' ? 'bitbucket.org' : `${shorthand}.com`;
+  try {
+    return new URL(url.replace(/^git\+/, '')).hostname || undefined;
+  } catch {
+    return /^[\w.-]+@([\w.-]+):/.exec(url)?.[1];
+  }
+}
+
+/** Whether every hash of an integrity value uses a broken algorithm; npm lists several separated by spaces. */
+function isWeakIntegrity(integrity: string): boolean {
+  return integrity.split(/\s+/).every(hash => /^(sha1|md5)[-:]/i.test(hash));
+}
+
+export class SupplyChainAnalyzer extends BaseAnalyzer {
+  name = 'supply-chain';
+
+  protected defaultSeverity(): Severity {
+    return Severity.Warning;
+  }
+
+  async analyze(context: AnalysisContext): Promise<Finding[]> {
+    const findings: Finding[] = [];
+    const supplyConfig = context.config.analyzers.supplyChain;
+    if (!supplyConfig?.enabled) return findings;
+
+    const isDiff = context.otherFiles !== undefined || context.files.some(f => f.hunks.length > 0);
+    if (isDiff) {
+      const changed = context.otherFiles ?? [];
+      for (const file of changed.filter(f => basename(f.path) in LOCKFILES)) {
+        findings.push(...await this.checkLockfileChange(context.projectRoot, file, supplyConfig));
+      }
+      if (changed.some(f => basename(f.path) in LOCKFILES || MANIFESTS.has(basename(f.path)))) {
+        findings.push(...await this.checkVersionDrift(context.projectRoot, supplyConfig, new Set(changed.map(f => f.path))));
+      }
+      return findings;
+    }
+
+    if (context.files.length === 0) return findings;
+    for (const dir of await this.workspaceDirs(context.projectRoot)) {
+      for (const lockfile of await readLockfiles(join(context.projectRoot, dir))) {
+        const path = dir ? `${dir}/${lockfile.file}` : lockfile.file;
+        for (const pkg of lockfile.packages) findings.push(...this.checkPackage(pkg, path, supplyConfig));
+      }
+    }
+    findings.push(...await this.checkVersionDrift(context.projectRoot, supplyConfig));
+    return findings;
+  }
+
+  /**
+   * Findings for a lockfile in a diff: the source and hash checks for packages
+   * that are new or whose source or hash changed, install scripts no earlier
+   * version of the package had, and packages resolved from a different
+   * registry than in the base.
+   */
+  private async checkLockfileChange(projectRoot: string, file: FileInfo, config: SupplyChainConfig): Promise<Finding[]> {
+    const findings: Finding[] = [];
+    let content: string;
+    try {
+      content = file.content ?? await getFileContent(projectRoot, file.path);
+    } catch {
+      return findings;
+    }
+    const name = basename(file.path);
+    const before = parseLockfile(name, originalContent(file, content));
+    const after = parseLockfile(name, content);
+
+    const previous = new Map(before.map(pkg => [packageKey(pkg.name, pkg.version), pkg]));
+    const previousHosts = new Map<string, Set<string>>();
+    const previousNames = new Set(before.map(pkg => pkg.name));
+    const hadInstallScript = new Set<string>();
+    const lockfileHosts = new Set<string>();
+    for (const pkg of before) {
+      const host = this.registryHost(pkg);
+      if (host) {
+        previousHosts.set(pkg.name, (previousHosts.get(pkg.name) ?? new Set()).add(host));
+        lockfileHosts.add(host);
+      }
+      if (pkg.installScript) hadInstallScript.add(pkg.name);
+    }
+
+    for (const pkg of after) {
+      if (this.isAllowed(pkg.name, config)) continue;
+      const earlier = previous.get(packageKey(pkg.name, pkg.version));
+      const line = pkg.line ?? 1;
+      if (!earlier || earlier.integrity !== pkg.integrity || earlier.source?.url !== pkg.source?.url) {
+        findings.push(...this.checkPackage(pkg, file.path, config));
+      }
+
+      if (pkg.installScript && !hadInstallScript.has(pkg.name)) {
+        findings.push(this.createFinding(
+          'supply-chain/install-script',
+          file.path,
+          line,
+          previousNames.has(pkg.name)
+            ? `'${pkg.name}@${pkg.version}' runs install scripts, which earlier versions did not`
+            : `New package '${pkg.name}@${pkg.version}' runs install scripts`,
+          {
+            severity: config.severity,
+            suggestion: 'Review what the preinstall/install/postinstall scripts do before installing, or install with --ignore-scripts',
+          },
+        ));
+      }
+
+      const host = this.registryHost(pkg);
+      if (!host || this.isTrustedHost(host, config)) continue;
+      const hosts = previousHosts.get(pkg.name);
+      if (hosts && !hosts.has(host)) {
+        findings.push(this.createFinding(
+          'supply-chain/registry-changed',
+          file.path,
+          line,
+          `'${pkg.name}' is now resolved from ${host} instead of ${[...hosts].join(', ')}`,
+          { severity: config.severity, suggestion: REGISTRY_SUGGESTION },
+        ));
+      } else if (!hosts && lockfileHosts.size > 0 && !lockfileHosts.has(host)) {
+        findings.push(this.createFinding(
+          'supply-chain/registry-changed',
+          file.path,
+          line,
+          `'${pkg.name}' is resolved from ${host}, a registry no other package in ${name} used`,
+          { severity: config.severity, suggestion: REGISTRY_SUGGESTION },
+        ));
+      }
+    }
+    return findings;
+  }
+
+  /** Where the package comes from and how its download is verified. */
+  private checkPackage(pkg: LockedPackage, path: string, config: SupplyChainConfig): Finding[] {
+    if (this.isAllowed(pkg.name, config)) return [];
+    const { source } = pkg;
+    const line = pkg.line ?? 1;
+    const severity = config.severity;
+
+    if (source && (source.type === 'git' || source.type === 'url')) {
+      const host = hostOf(source.url);
+      if (host && this.isTrustedHost(host, config)) return [];
+      return [this.createFinding(
+        'supply-chain/untrusted-source',
+        path,
+        line,
+        `'${pkg.name}@${pkg.version}' is fetched from ${source.type === 'git' ? 'a git repository' : 'a URL outside the registry'}: ${source.url}`,
+        {
+          severity,
+          suggestion: 'Depend on a published registry version, or add the host to supplyChain.trustedHosts if it is your own',
+        },
+      )];
+    }
+
+    // Git commits and local paths are not downloaded archives, so there is no hash to record
+    if (pkg.bundled || source?.type === 'path') return [];
+    if (!pkg.integrity) {
+      return [this.createFinding(
+        'supply-chain/missing-integrity',
+        path,
+        line,
+        `'${pkg.name}@${pkg.version}' has no integrity hash in the lockfile`,
+        { severity, suggestion: 'Regenerate the lockfile so the download is verified against a hash' },
+      )];
+    }
+    if (isWeakIntegrity(pkg.integrity)) {
+      return [this.createFinding(
+        'supply-chain/weak-integrity',
+        path,
+        line,
+        `'${pkg.name}@${pkg.version}' is only verified with ${pkg.integrity.split(/[-:]/)[0].toUpperCase()}, which can be forged`,
+        { severity, suggestion: 'Regenerate the lockfile with a current package manager to record a SHA-512 or SHA-256 hash' },
+      )];
+    }
+    return [];
+  }
+
+  /**
+   * Direct dependencies locked at different versions in different workspaces.
+   * The version most workspaces use is taken as the intended one, and the
+   * others are reported on their manifest declaration. In a diff, only names
+   * whose manifests or lockfiles changed are checked.
+   */
+  private async checkVersionDrift(projectRoot: string, config: SupplyChainConfig, changed?: Set<string>): Promise<Finding[]> {
+    const findings: Finding[] = [];
+    const dirs = await this.workspaceDirs(projectRoot);
+    if (dirs.length < 2) return findings;
+
+    const resolution = await loadModuleResolution(projectRoot);
+    const internal = new Set([
+      ...resolution.packages.map(p => p.name).filter((name): name is string => name !== undefined),
+      ...resolution.goModules.map(m => m.path),
+      ...resolution.rustCrates.map(c => c.name),
+    ]);
+    const rootLockfiles = await readLockfiles(projectRoot);
+
+    const groups = new Map<string, LockedDependency[]>();
+    for (const dir of dirs) {
+      const own = dir ? await readLockfiles(join(projectRoot, dir)) : rootLockfiles;
+      for (const dep of await collectDependencies(join(projectRoot, dir))) {
+        if (dep.transitive || internal.has(dep.name) || this.isAllowed(dep.name, config)) continue;
+        const locked = this.lockedVersion(dir, dep.name, dep.ecosystem, dep.version, rootLockfiles, own);
+        if (!locked) continue;
+        const manifest = dir ? `${dir}/${manifestFor(dep)}` : manifestFor(dep);
+        const key = `${dep.ecosystem}\0${dep.name}`;
+        groups.set(key, [...groups.get(key) ?? [], { dir, name: dep.name, ecosystem: dep.ecosystem, manifest, line: dep.line ?? 1, ...locked }]);
+      }
+    }
+
+    for (const entries of groups.values()) {
+      const versions = new Map<string, LockedDependency[]>();
+      for (const entry of entries) versions.set(entry.version, [...versions.get(entry.version) ?? [], entry]);
+      if (versions.size < 2) continue;
+      if (changed && !entries.some(e => changed.has(e.manifest) || changed.has(e.lockfile))) continue;
+
+      // Most used version first, the newest on a tie
+      const ranked = [...versions.entries()].sort(([a, x], [b, y]) => y.length - x.length || compareVersions(b, a, entries[0].ecosystem));
+      const [expected, users] = ranked[0];
+      const where = (dir: string) => dir || 'the root';
+      for (const [version, drifted] of ranked.slice(1)) {
+        for (const entry of drifted) {
+          findings.push(this.createFinding(
+            'supply-chain/version-drift',
+            entry.manifest,
+            entry.line,
+            `'${entry.name}' is locked at ${version} in ${where(entry.dir)} but at ${expected} in ${users.map(u => where(u.dir)).join(', ')}`,
+            {
+              severity: config.severity,
+              suggestion: `Align '${entry.name}' on one version across workspaces; mixed versions are bundled twice and patched unevenly`,
+            },
+          ));
+        }
+      }
+    }
+    return findings;
+  }
+
+  /**
+   * The version a workspace's dependency is locked at: from the root
+   * lockfile's entry for the workspace, or from a lockfile of its own.
+   */
+  private lockedVersion(
+    dir: string,
+    name: string,
+    ecosystem: string,
+    version: string,
+    rootLockfiles: Lockfile[],
+    own: Lockfile[],
+  ): { version: string; lockfile: string } | null {
+    const shared = rootLockfiles.find(l => l.ecosystem === ecosystem && l.importers[dir]?.[name]);
+    if (shared) return { version: shared.importers[dir][name], lockfile: shared.file };
+    // Collected versions are pinned by the directory's own lockfile
+    const lockfile = own.find(l => l.ecosystem === ecosystem);
+    if (!lockfile || !version) return null;
+    return { version, lockfile: dir ? `${dir}/${lockfile.file}` : lockfile.file };
+  }
+
+  /** The project root and its npm workspaces, Go modules and Rust crates. */
+  private async workspaceDirs(projectRoot: string): Promise<string[]> {
+    const resolution = await loadModuleResolution(projectRoot);
+    return [...new Set(['',
+      ...resolution.packages.map(p => p.dir),
+      ...resolution.goModules.map(m => m.dir),
+      ...resolution.rustCrates.map(c => c.dir),
+    ])];
+  }
+
+  private registryHost(pkg: LockedPackage): string | undefined {
+    return pkg.source?.type === 'registry' ? hostOf(pkg.source.url) : undefined;
+  }
+
+  private isTrustedHost(host: string, config: SupplyChainConfig): boolean {
+    return config.trustedHosts.some(pattern => host === pattern || minimatch(host, pattern));
+  }
+
+  private isAllowed(name: string, config: SupplyChainConfig): boolean {
+    return config.allow.some(pattern => name === pattern || minimatch(name, pattern));
+  }
+}
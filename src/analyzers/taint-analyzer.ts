@@ -1,53 +1,45 @@
-import type { AnalysisContext, Finding, ParsedFile } from '../core/types.js';
+import type { AnalysisContext, Finding, FlowStep, ParsedFile, TaintSinkSpec, TaintSpec } from '../core/types.js';
 import { Severity } from '../core/types.js';
 import { BaseAnalyzer } from './base-analyzer.js';
 import { walk } from '../parsers/ast-utils.js';
 import { buildDependencyGraph, type DependencyGraph } from '../core/dependency-graph.js';
+import { loadModuleResolution, type ModuleResolution } from '../core/module-resolution.js';
 import { collectExports } from '../parsers/language-imports.js';
 import type { SgNode } from '@ast-grep/napi';
+import { matchesSink, resolveTaintSpec, taintLanguageOf, type ResolvedTaintSpec, type TaintLanguage } from './taint-specs.js';
 
-// Taint sources: user input that could be malicious
-const TAINT_SOURCES = new Set([
-  'req.params', 'req.body', 'req.query', 'req.headers',
-  'process.argv', 'process.env',
-  'URLSearchParams', 'location.search', 'location.hash',
-  'document.cookie', 'window.location',
+// String literal contents, which are data rather than identifiers
+const LITERAL_CONTENT_KINDS = new Set([
+  'string_fragment', 'string_content', 'escape_sequence',
+  'interpreted_string_literal_content', 'raw_string_literal_content',
 ]);
 
-// Taint sinks: dangerous functions that should not receive untrusted input
-interface SinkDefinition {
-  pattern: string;
-  ruleId: string;
-  message: string;
+// Statements that leave the guarded code path
+const EXIT_KINDS = new Set(['return_statement', 'throw_statement', 'raise_statement', 'continue_statement']);
+
+const PROTOTYPE_KEY_SINK = {
+  ruleId: 'taint/prototype-pollution',
+  message: 'Tainted key used in bracket assignment',
+};
+
+interface Taint {
+  /** Steps from the source to the assignment that tainted the value. */
+  steps: FlowStep[];
+  /** The value passed a URL allowlist check, so it is safe for URL sinks. */
+  urlChecked?: boolean;
 }
 
-const TAINT_SINKS: SinkDefinition[] = [
-  { pattern: 'eval', ruleId: 'taint/command-injection', message: 'Tainted data flows to eval()' },
-  { pattern: 'Function', ruleId: 'taint/command-injection', message: 'Tainted data flows to Function constructor' },
-  { pattern: 'exec', ruleId: 'taint/command-injection', message: 'Tainted data flows to exec()' },
-  { pattern: 'execSync', ruleId: 'taint/command-injection', message: 'Tainted data flows to execSync()' },
-  { pattern: 'spawn', ruleId: 'taint/command-injection', message: 'Tainted data flows to spawn()' },
-  { pattern: 'innerHTML', ruleId: 'taint/xss', message: 'Tainted data assigned to innerHTML' },
-  { pattern: 'outerHTML', ruleId: 'taint/xss', message: 'Tainted data assigned to outerHTML' },
-  { pattern: 'document.write', ruleId: 'taint/xss', message: 'Tainted data flows to document.write()' },
-  { pattern: 'query', ruleId: 'taint/sql-injection', message: 'Tainted data flows to query()' },
-  { pattern: 'writeFile', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path' },
-  { pattern: 'readFile', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path' },
-  { pattern: 'createReadStream', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path' },
-  { pattern: 'createWriteStream', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path' },
-  { pattern: 'unlink', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path' },
-];
-
-// Known sanitizers
-const SANITIZERS = new Set([
-  'escape', 'sanitize', 'encode', 'encodeURIComponent', 'encodeURI',
-  'parseInt', 'parseFloat', 'Number', 'String',
-  'validator', 'DOMPurify', 'xss',
-]);
+/** Tainted variable name → how it was tainted. */
+type TaintedVars = Map<string, Taint>;
 
 export class TaintAnalyzer extends BaseAnalyzer {
   name = 'taint';
 
+  /** `extraSpecs` come from plugins, on top of the bundled models and `.archguard.yml`. */
+  constructor(private readonly extraSpecs: TaintSpec[] = []) {
+    super();
+  }
+
   protected defaultSeverity(): Severity {
     return Severity.Error;
   }
@@ -57,92 +49,110 @@ export class TaintAnalyzer extends BaseAnalyzer {
     const taintConfig = context.config.analyzers.taint;
     if (!taintConfig?.enabled) return findings;
 
-    for (const file of context.parsedFiles) {
-      // Taint analysis is most relevant for JS/TS
-      if (file.language !== 'typescript' && file.language !== 'javascript' &&
-          file.language !== 'tsx' && file.language !== 'jsx') {
-        continue;
+    const specs = new Map<TaintLanguage, ResolvedTaintSpec>();
+    const specFor = (language: TaintLanguage): ResolvedTaintSpec => {
+      let spec = specs.get(language);
+      if (!spec) {
+        spec = resolveTaintSpec(taintConfig, this.extraSpecs, language);
+        specs.set(language, spec);
       }
+      return spec;
+    };
+
+    for (const file of this.withinDeadline(context, context.parsedFiles, findings)) {
+      const language = taintLanguageOf(file.language);
+      if (!language) continue;
 
       const changedLines = this.getChangedLines(context, file.path);
-      findings.push(...this.trackTaintFlows(file, changedLines, taintConfig.severity));
+      findings.push(...this.trackTaintFlows(file, changedLines, specFor(language), taintConfig.severity));
     }
 
-    // Cross-file taint analysis (opt-in, more expensive)
+    // Cross-file taint analysis (opt-in, more expensive; JS/TS only)
     if (taintConfig.crossFile) {
-      findings.push(...this.analyzeInterProcedural(context, taintConfig.severity));
+      const resolution = await loadModuleResolution(context.projectRoot);
+      findings.push(...this.analyzeInterProcedural(context, specFor('javascript'), taintConfig.severity, resolution));
     }
 
     return findings;
   }
 
-  private trackTaintFlows(file: ParsedFile, changedLines: Set<number>, severity: Severity): Finding[] {
+  private trackTaintFlows(file: ParsedFile, changedLines: Set<number>, spec: ResolvedTaintSpec, severity: Severity): Finding[] {
     const findings: Finding[] = [];
-    const taintedVars = new Map<string, number>(); // variable name → line where tainted
+    const taintedVars: TaintedVars = new Map();
+
+    const report = (sink: Pick<TaintSinkSpec, 'ruleId' | 'message'>, node: SgNode, lineNum: number, taint: Taint) => {
+      findings.push(this.createFinding(
+        sink.ruleId,
+        file.path,
+        lineNum,
+        sink.message,
+        {
+          severity,
+          codeSnippet: node.text().substring(0, 100),
+          flow: [...taint.steps, { file: file.path, line: lineNum, message: sink.message }],
+        },
+      ));
+    };
 
     walk(file.tree.root(), (node) => {
       const lineNum = node.range().start.line + 1;
 
+      // Parameters that frameworks fill with request data
+      const sourceParam = this.sourceParameter(node, spec);
+      if (sourceParam) {
+        taintedVars.set(sourceParam, {
+          steps: [{ file: file.path, line: lineNum, message: `Parameter '${sourceParam}' receives user input` }],
+        });
+      }
+
       // Track assignments from taint sources
-      if (node.kind() === 'variable_declarator' || node.kind() === 'assignment_expression') {
-        const nameNode = node.kind() === 'variable_declarator' ? node.field('name') : node.field('left');
-        const valueNode = node.kind() === 'variable_declarator' ? node.field('value') : node.field('right');
-
-        if (nameNode && valueNode) {
-          const valueText = valueNode.text();
-          const varName = nameNode.text();
-
-          // Check if value comes from a taint source
-          if (this.isTaintSource(valueText) || this.containsTaintedVar(valueText, taintedVars)) {
-            // Check if it's been sanitized
-            if (!this.isSanitized(valueText)) {
-              taintedVars.set(varName, lineNum);
-            }
+      const assignment = this.assignmentParts(node);
+      if (assignment) {
+        const valueText = this.codeText(assignment.value);
+
+        // Check if value comes from a taint source or tainted variable, and has not been sanitized
+        const taint = this.taintOf(valueText, file.path, lineNum, spec, taintedVars);
+        if (taint && !this.isSanitized(valueText, spec)) {
+          const urlChecked = taint.urlChecked || this.isUrlChecked(valueText, spec);
+          for (const target of assignment.targets) {
+            taintedVars.set(target, {
+              steps: [...taint.steps, { file: file.path, line: lineNum, message: `Assigned to '${target}'` }],
+              urlChecked,
+            });
           }
         }
       }
 
       // Check if tainted vars flow to sinks
-      if (node.kind() === 'call_expression') {
-        const funcText = node.field('function')?.text() ?? '';
-        const argsNode = node.field('arguments');
-
-        for (const sink of TAINT_SINKS) {
-          if (funcText.includes(sink.pattern)) {
-            if (argsNode) {
-              const argsText = argsNode.text();
-              if (this.containsTaintedVar(argsText, taintedVars) || this.isTaintSource(argsText)) {
-                if (!this.isSanitized(argsText) && changedLines.has(lineNum)) {
-                  findings.push(this.createFinding(
-                    sink.ruleId,
-                    file.path,
-                    lineNum,
-                    sink.message,
-                    { severity, codeSnippet: node.text().substring(0, 100) },
-                  ));
-                }
-              }
-            }
-          }
+      const call = this.callParts(node);
+      if (call && changedLines.has(lineNum)) {
+        for (const sink of spec.callSinks) {
+          if (!matchesSink(call.callee, sink.pattern)) continue;
+          if (sink.when && !call.args.text().includes(sink.when)) continue;
+          const argsText = this.sinkArgumentsText(call.args, sink);
+          const taint = this.taintOf(argsText, file.path, lineNum, spec, taintedVars);
+          if (!taint || this.isSanitized(argsText, spec)) continue;
+          if (sink.url && this.isUrlSafe(node, argsText, taint, spec)) continue;
+          report(sink, node, lineNum, taint);
         }
       }
 
-      // Check assignment to innerHTML/outerHTML
-      if (node.kind() === 'assignment_expression') {
-        const left = node.field('left')?.text() ?? '';
-        const right = node.field('right')?.text() ?? '';
-        if ((left.endsWith('.innerHTML') || left.endsWith('.outerHTML')) && changedLines.has(lineNum)) {
-          if (this.containsTaintedVar(right, taintedVars) || this.isTaintSource(right)) {
-            if (!this.isSanitized(right)) {
-              findings.push(this.createFinding(
-                'taint/xss',
-                file.path,
-                lineNum,
-                'Tainted data assigned to innerHTML/outerHTML',
-                { severity, codeSnippet: node.text().substring(0, 100) },
-              ));
-            }
-          }
+      if (assignment && changedLines.has(lineNum)) {
+        const right = this.codeText(assignment.value);
+
+        // Check assignment to property sinks such as innerHTML/outerHTML
+        for (const sink of spec.assignSinks) {
+          if (!assignment.targets.some(target => matchesSink(target, sink.pattern))) continue;
+          const taint = this.taintOf(right, file.path, lineNum, spec, taintedVars);
+          if (!taint || this.isSanitized(right, spec)) continue;
+          if (sink.url && this.isUrlSafe(node, right, taint, spec)) continue;
+          report(sink, node, lineNum, taint);
+        }
+
+        // Tainted keys in bracket assignments such as `target[key] = value` can reach `__proto__`
+        const keyTaint = this.taintedBracketKey(assignment.target, file.path, lineNum, spec, taintedVars);
+        if (keyTaint && !this.isPrototypeGuarded(node)) {
+          report(PROTOTYPE_KEY_SINK, node, lineNum, keyTaint);
         }
       }
     });
@@ -154,13 +164,18 @@ export class TaintAnalyzer extends BaseAnalyzer {
    * Cross-file taint analysis: builds function summaries for exported functions,
    * then checks if tainted args at call sites map to sink-reaching params.
    */
-  private analyzeInterProcedural(context: AnalysisContext, severity: Severity): Finding[] {
+  private analyzeInterProcedural(
+    context: AnalysisContext,
+    spec: ResolvedTaintSpec,
+    severity: Severity,
+    resolution: ModuleResolution,
+  ): Finding[] {
     const findings: Finding[] = [];
-    const graph = buildDependencyGraph(context.parsedFiles, context.projectRoot);
+    const graph = buildDependencyGraph(context.parsedFiles, context.projectRoot, resolution);
 
     // Pass 1: Build function summaries for exported functions
-    // Maps: filePath → Map<functionName, Set<paramIndex that reaches a sink>>
-    const functionSummaries = new Map<string, Map<string, Set<number>>>();
+    // Maps: filePath → Map<functionName, Map<paramIndex that reaches a sink, steps from parameter to sink>>
+    const functionSummaries = new Map<string, Map<string, Map<number, FlowStep[]>>>();
 
     for (const file of context.parsedFiles) {
       if (file.language !== 'typescript' && file.language !== 'javascript' &&
@@ -171,7 +186,7 @@ export class TaintAnalyzer extends BaseAnalyzer {
       const exports = collectExports(file.tree, file.language);
       if (exports.length === 0) continue;
 
-      const fileSummaries = new Map<string, Set<number>>();
+      const fileSummaries = new Map<string, Map<number, FlowStep[]>>();
 
       walk(file.tree.root(), (node) => {
         if (node.kind() === 'function_declaration' || node.kind() === 'method_definition') {
@@ -183,20 +198,26 @@ export class TaintAnalyzer extends BaseAnalyzer {
           if (!exports.includes(funcName)) return;
 
           const params = this.extractParams(node);
-          const sinkReachingParams = new Set<number>();
+          const sinkReachingParams = new Map<number, FlowStep[]>();
+          const fnLine = node.range().start.line + 1;
 
           // Check if any param flows to a sink
           walk(node, (inner) => {
             if (inner.kind() === 'call_expression') {
               const funcText = inner.field('function')?.text() ?? '';
-              const argsText = inner.field('arguments')?.text() ?? '';
+              const argsNode = inner.field('arguments');
+              if (!argsNode) return;
 
-              for (const sink of TAINT_SINKS) {
-                if (funcText.includes(sink.pattern)) {
-                  // Check which params appear in the args
+              for (const sink of spec.callSinks) {
+                if (matchesSink(funcText, sink.pattern) && (!sink.when || argsNode.text().includes(sink.when))) {
+                  // Check which params appear in the dangerous args
+                  const argsText = this.sinkArgumentsText(argsNode, sink);
                   for (let i = 0; i < params.length; i++) {
-                    if (argsText.includes(params[i])) {
-                      sinkReachingParams.add(i);
+                    if (argsText.includes(params[i]) && !sinkReachingParams.has(i)) {
+                      sinkReachingParams.set(i, [
+                        { file: file.path, line: fnLine, message: `Received as parameter '${params[i]}' of ${funcName}()` },
+                        { file: file.path, line: inner.range().start.line + 1, message: sink.message },
+                      ]);
                     }
                   }
                 }
@@ -223,17 +244,30 @@ export class TaintAnalyzer extends BaseAnalyzer {
       }
 
       const changedLines = this.getChangedLines(context, file.path);
-      const taintedVars = new Map<string, number>();
+      const taintedVars: TaintedVars = new Map();
 
       // Collect tainted variables in this file
       walk(file.tree.root(), (node) => {
-        if (node.kind() === 'variable_declarator' || node.kind() === 'assignment_expression') {
-          const nameNode = node.kind() === 'variable_declarator' ? node.field('name') : node.field('left');
-          const valueNode = node.kind() === 'variable_declarator' ? node.field('value') : node.field('right');
-          if (nameNode && valueNode) {
-            const valueText = valueNode.text();
-            if (this.isTaintSource(valueText) && !this.isSanitized(valueText)) {
-              taintedVars.set(nameNode.text(), node.range().start.line + 1);
+        const lineNum = node.range().start.line + 1;
+        const sourceParam = this.sourceParameter(node, spec);
+        if (sourceParam) {
+          taintedVars.set(sourceParam, {
+            steps: [{ file: file.path, line: lineNum, message: `Parameter '${sourceParam}' receives user input` }],
+          });
+        }
+
+        const assignment = this.assignmentParts(node);
+        if (assignment) {
+          const valueText = this.codeText(assignment.value);
+          const source = this.findSource(valueText, spec);
+          if (source && !this.isSanitized(valueText, spec)) {
+            for (const target of assignment.targets) {
+              taintedVars.set(target, {
+                steps: [
+                  { file: file.path, line: lineNum, message: `User input from ${source}` },
+                  { file: file.path, line: lineNum, message: `Assigned to '${target}'` },
+                ],
+              });
             }
           }
         }
@@ -263,20 +297,27 @@ export class TaintAnalyzer extends BaseAnalyzer {
           if (!summary) continue;
 
           // Parse call arguments
-          const args = argsNode.children().filter(c => c.kind() !== '(' && c.kind() !== ')' && c.kind() !== ',');
-          for (const paramIndex of summary) {
+          const args = this.callArguments(argsNode);
+          for (const [paramIndex, calleeSteps] of summary) {
             if (paramIndex < args.length) {
-              const argText = args[paramIndex].text();
-              if (this.containsTaintedVar(argText, taintedVars) || this.isTaintSource(argText)) {
-                if (!this.isSanitized(argText)) {
-                  findings.push(this.createFinding(
-                    'taint/cross-file-flow',
-                    file.path,
-                    lineNum,
-                    `Tainted data flows to '${funcName}()' (from ${importedFile}) via parameter ${paramIndex}`,
-                    { severity, codeSnippet: node.text().substring(0, 100) },
-                  ));
-                }
+              const argText = this.codeText(args[paramIndex]);
+              const taint = this.taintOf(argText, file.path, lineNum, spec, taintedVars);
+              if (taint && !this.isSanitized(argText, spec)) {
+                findings.push(this.createFinding(
+                  'taint/cross-file-flow',
+                  file.path,
+                  lineNum,
+                  `Tainted data flows to '${funcName}()' (from ${importedFile}) via parameter ${paramIndex}`,
+                  {
+                    severity,
+                    codeSnippet: node.text().substring(0, 100),
+                    flow: [
+                      ...taint.steps,
+                      { file: file.path, line: lineNum, message: `Passed to ${funcName}() as argument ${paramIndex}` },
+                      ...calleeSteps,
+                    ],
+                  },
+                ));
               }
             }
           }
@@ -303,24 +344,233 @@ export class TaintAnalyzer extends BaseAnalyzer {
     return params;
   }
 
-  private isTaintSource(text: string): boolean {
-    for (const source of TAINT_SOURCES) {
-      if (text.includes(source)) return true;
+  /**
+   * Targets and value of a declaration or assignment: `const x = v` and
+   * `x = v` in JS/TS and Java, `x, y = v` in Python, `x := v` and `var x = v` in Go.
+   */
+  private assignmentParts(node: SgNode): { target: SgNode; targets: string[]; value: SgNode } | null {
+    let target: SgNode | null;
+    let value: SgNode | null;
+    switch (node.kind()) {
+      case 'variable_declarator':
+      case 'var_spec':
+        target = node.field('name');
+        value = node.field('value');
+        break;
+      case 'assignment_expression':
+      case 'assignment':
+      case 'short_var_declaration':
+      case 'assignment_statement':
+        target = node.field('left');
+        value = node.field('right');
+        break;
+      default:
+        return null;
     }
-    return false;
+    if (!target || !value) return null;
+
+    const multiple = target.kind() === 'pattern_list' || target.kind() === 'tuple_pattern' || target.kind() === 'expression_list';
+    const targets = multiple ? target.children().filter(c => c.isNamed()).map(c => c.text()) : [target.text()];
+    return { target, targets, value };
   }
 
-  private containsTaintedVar(text: string, taintedVars: Map<string, number>): boolean {
-    for (const [varName] of taintedVars) {
-      if (text.includes(varName)) return true;
+  /** Callee text and argument list of a call or constructor invocation in any supported language. */
+  private callParts(node: SgNode): { callee: string; args: SgNode } | null {
+    let callee: string | undefined;
+    switch (node.kind()) {
+      case 'call_expression':
+      case 'call':
+        callee = node.field('function')?.text();
+        break;
+      case 'new_expression':
+        callee = node.field('constructor')?.text();
+        break;
+      case 'method_invocation': {
+        const object = node.field('object')?.text();
+        const name = node.field('name')?.text();
+        callee = object ? `${object}.${name}` : name;
+        break;
+      }
+      case 'object_creation_expression':
+        callee = node.field('type')?.text();
+        break;
+      default:
+        return null;
     }
-    return false;
+    const args = node.field('arguments');
+    return callee && args ? { callee, args } : null;
   }
 
-  private isSanitized(text: string): boolean {
-    for (const sanitizer of SANITIZERS) {
-      if (text.includes(sanitizer)) return true;
+  /** Positional arguments; Python keyword arguments are left out. */
+  private callArguments(argsNode: SgNode): SgNode[] {
+    return argsNode.children().filter(c => c.isNamed() && c.kind() !== 'keyword_argument' && c.kind() !== 'comment');
+  }
+
+  /** Text of the arguments `sink` treats as dangerous. */
+  private sinkArgumentsText(argsNode: SgNode, sink: TaintSinkSpec): string {
+    if (!sink.args) return this.codeText(argsNode);
+    const args = this.callArguments(argsNode);
+    return sink.args.map(i => (args[i] ? this.codeText(args[i]) : '')).join(' ');
+  }
+
+  /** `node`'s text with string literal contents blanked, so `'WHERE id = $1'` does not mention `id`. */
+  private codeText(node: SgNode): string {
+    const start = node.range().start.index;
+    let text = node.text();
+    walk(node, (inner) => {
+      if (!LITERAL_CONTENT_KINDS.has(inner.kind() as string)) return;
+      const { start: from, end: to } = inner.range();
+      text = text.slice(0, from.index - start) + ' '.repeat(to.index - from.index) + text.slice(to.index - start);
+    });
+    return text;
+  }
+
+  /**
+   * Name of a parameter the framework fills with user input: decorated or
+   * typed TS parameters (`@Body() dto`, `request: NextRequest`), annotated Java
+   * parameters (`@RequestParam String q`) and Python parameters whose default
+   * marks them (`q: str = Query()`).
+   */
+  private sourceParameter(node: SgNode, spec: ResolvedTaintSpec): string | null {
+    let name: SgNode | null;
+    let markers: string[];
+    switch (node.kind()) {
+      case 'required_parameter':
+      case 'optional_parameter':
+        name = node.field('pattern');
+        markers = node.children()
+          .filter(child => child.kind() === 'decorator')
+          .map(child => child.text().slice(1).split('(')[0].trim());
+        break;
+      case 'formal_parameter':
+        name = node.field('name');
+        markers = node.children()
+          .filter(child => child.kind() === 'modifiers')
+          .flatMap(modifiers => modifiers.children())
+          .filter(child => child.kind() === 'annotation' || child.kind() === 'marker_annotation')
+          .map(annotation => annotation.field('name')?.text() ?? '');
+        break;
+      case 'default_parameter':
+      case 'typed_default_parameter': {
+        name = node.field('name');
+        const value = node.field('value');
+        markers = value?.kind() === 'call' ? [value.field('function')?.text() ?? ''] : [];
+        break;
+      }
+      default:
+        return null;
+    }
+    if (name?.kind() !== 'identifier') return null;
+
+    const type = node.field('type')?.text().replace(/^:\s*/, '').split('<')[0].trim() ?? '';
+    return markers.some(marker => spec.sourceDecorators.has(marker)) || spec.sourceParameterTypes.has(type)
+      ? name.text()
+      : null;
+  }
+
+  /**
+   * How tainted data reaches `text`: the taint of a variable it uses, or a
+   * single step for a source it reads directly. Null when clean.
+   */
+  private taintOf(
+    text: string,
+    file: string,
+    line: number,
+    spec: ResolvedTaintSpec,
+    taintedVars: TaintedVars,
+  ): Taint | null {
+    for (const [varName, taint] of taintedVars) {
+      if (text.includes(varName)) return taint;
+    }
+    const source = this.findSource(text, spec);
+    return source ? { steps: [{ file, line, message: `User input from ${source}` }] } : null;
+  }
+
+  private isUrlChecked(text: string, spec: ResolvedTaintSpec): boolean {
+    return spec.urlSanitizers.some(check => text.includes(check));
+  }
+
+  /**
+   * A URL sink is safe when its value passed an allowlist check, inline or on
+   * assignment, or when the sink only runs behind one: inside
+   * `if (isAllowed(url)) { ... }` or after `if (!isAllowed(url)) return`.
+   */
+  private isUrlSafe(node: SgNode, text: string, taint: Taint, spec: ResolvedTaintSpec): boolean {
+    if (taint.urlChecked || this.isUrlChecked(text, spec)) return true;
+    return this.isGuarded(node, (condition, exits) => {
+      if (!this.isUrlChecked(condition, spec)) return false;
+      const negated = /^\(?\s*(!|not\s)/.test(condition) || /===?\s*false|==\s*False/.test(condition);
+      // Inside the branch the check passed, or after the branch that bails out when it failed
+      return exits ? negated : !negated;
+    });
+  }
+
+  /** Whether an `if` that mentions `__proto__`, `constructor` or an own-property check surrounds or precedes `node`. */
+  private isPrototypeGuarded(node: SgNode): boolean {
+    return this.isGuarded(node, condition => /__proto__|constructor|prototype|hasOwn/.test(condition));
+  }
+
+  /**
+   * Whether an `if` statement either encloses `node` in its consequence, or
+   * precedes it in an enclosing block with a consequence that returns, throws
+   * or continues, and its condition passes `check`. `exits` tells which case.
+   */
+  private isGuarded(node: SgNode, check: (condition: string, exits: boolean) => boolean): boolean {
+    let child = node;
+    for (const ancestor of node.ancestors()) {
+      if (ancestor.kind() === 'if_statement') {
+        const consequence = ancestor.field('consequence');
+        const condition = ancestor.field('condition')?.text() ?? '';
+        if (consequence && consequence.range().start.index === child.range().start.index && check(condition, false)) {
+          return true;
+        }
+      }
+      for (const sibling of child.prevAll()) {
+        if (sibling.kind() !== 'if_statement') continue;
+        const consequence = sibling.field('consequence');
+        if (!consequence || !this.exits(consequence)) continue;
+        if (check(sibling.field('condition')?.text() ?? '', true)) return true;
+      }
+      child = ancestor;
     }
     return false;
   }
+
+  private exits(node: SgNode): boolean {
+    let found = false;
+    walk(node, (inner) => {
+      if (EXIT_KINDS.has(inner.kind() as string)) found = true;
+    });
+    return found;
+  }
+
+  /** Taint of the first tainted index in a JS bracket assignment target such as `obj[a][b]`. */
+  private taintedBracketKey(
+    target: SgNode,
+    file: string,
+    line: number,
+    spec: ResolvedTaintSpec,
+    taintedVars: TaintedVars,
+  ): Taint | null {
+    let taint: Taint | null = null;
+    walk(target, (inner) => {
+      if (taint || inner.kind() !== 'subscript_expression') return;
+      const index = inner.field('index');
+      if (!index || index.kind() === 'number') return;
+      const keyText = this.codeText(index);
+      const keyTaint = this.taintOf(keyText, file, line, spec, taintedVars);
+      if (keyTaint && !this.isSanitized(keyText, spec)) {
+        taint = { steps: [...keyTaint.steps, { file, line, message: `Used as a key in '${target.text()}'` }] };
+      }
+    });
+    return taint;
+  }
+
+  private findSource(text: string, spec: ResolvedTaintSpec): string | undefined {
+    return spec.sources.find(source => text.includes(source));
+  }
+
+  private isSanitized(text: string, spec: ResolvedTaintSpec): boolean {
+    return spec.sanitizers.some(sanitizer => text.includes(sanitizer));
+  }
 }
@@ -0,0 +1,352 @@
+import type { SupportedLanguage, TaintConfig, TaintFramework, TaintSinkSpec, TaintSpec } from '../core/types.js';
+
+// ── Taint spec resolution ────────────────────────────────────────
+
+export interface ResolvedTaintSpec {
+  sources: string[];
+  sourceDecorators: Set<string>;
+  sourceParameterTypes: Set<string>;
+  callSinks: TaintSinkSpec[];
+  assignSinks: TaintSinkSpec[];
+  sanitizers: string[];
+  urlSanitizers: string[];
+}
+
+/** Languages with taint models; JS, TS and their JSX variants share one. */
+export type TaintLanguage = 'javascript' | 'python' | 'go' | 'java';
+
+export function taintLanguageOf(language: SupportedLanguage): TaintLanguage | null {
+  switch (language) {
+    case 'typescript':
+    case 'javascript':
+    case 'tsx':
+    case 'jsx':
+      return 'javascript';
+    case 'python':
+    case 'go':
+    case 'java':
+      return language;
+    default:
+      return null;
+  }
+}
+
+// ── Bundled models ───────────────────────────────────────────────
+
+function ssrfSinks(patterns: string[], arg = 0): TaintSinkSpec[] {
+  return patterns.map(pattern => ({
+    pattern,
+    ruleId: 'taint/ssrf',
+    message: `Tainted URL passed to ${pattern}()`,
+    args: [arg],
+    url: true,
+  }));
+}
+
+function redirectSink(pattern: string, args?: number[]): TaintSinkSpec {
+  return { pattern, ruleId: 'taint/open-redirect', message: 'Tainted URL used in redirect', args, url: true };
+}
+
+/** Names of common allowlist checks; `ALLOWED_` covers constants such as `ALLOWED_HOSTS`. */
+const URL_ALLOWLIST_SANITIZERS = [
+  'allowlist', 'Allowlist', 'ALLOWLIST', 'whitelist', 'Whitelist', 'WHITELIST',
+  'ALLOWED_', 'allowedHosts', 'allowedOrigins', 'allowedUrls', 'allowed_hosts',
+  'isAllowed', 'is_allowed', 'isSafeUrl', 'isSafeRedirect', 'is_safe_url', 'isTrusted', 'isRelativeUrl',
+];
+
+/** Language-level sources, sinks and sanitizers that apply regardless of framework. */
+const JAVASCRIPT_SPEC: TaintSpec = {
+  sources: [
+    'process.argv', 'process.env',
+    'URLSearchParams', 'location.search', 'location.hash',
+    'document.cookie', 'window.location',
+  ],
+  sinks: [
+    { pattern: 'eval', ruleId: 'taint/command-injection', message: 'Tainted data flows to eval()', args: [0] },
+    { pattern: 'Function', ruleId: 'taint/command-injection', message: 'Tainted data flows to Function constructor' },
+    { pattern: 'exec', ruleId: 'taint/command-injection', message: 'Tainted data flows to exec()', args: [0] },
+    { pattern: 'execSync', ruleId: 'taint/command-injection', message: 'Tainted data flows to execSync()', args: [0] },
+    { pattern: 'spawn', ruleId: 'taint/command-injection', message: 'Tainted data flows to spawn()', args: [0] },
+    { pattern: 'innerHTML', ruleId: 'taint/xss', message: 'Tainted data assigned to innerHTML', kind: 'assign' },
+    { pattern: 'outerHTML', ruleId: 'taint/xss', message: 'Tainted data assigned to outerHTML', kind: 'assign' },
+    { pattern: 'document.write', ruleId: 'taint/xss', message: 'Tainted data flows to document.write()' },
+    // Values passed separately from the SQL text are bound as parameters
+    { pattern: 'query', ruleId: 'taint/sql-injection', message: 'Tainted data flows to query()', args: [0] },
+    { pattern: 'writeFile', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path', args: [0] },
+    { pattern: 'readFile', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path', args: [0] },
+    { pattern: 'createReadStream', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path', args: [0] },
+    { pattern: 'createWriteStream', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path', args: [0] },
+    { pattern: 'unlink', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path', args: [0] },
+    ...ssrfSinks([
+      'fetch', 'axios', 'axios.get', 'axios.post', 'axios.put', 'axios.patch', 'axios.delete', 'axios.request',
+      'got', 'got.get', 'got.post', 'http.request', 'http.get', 'https.request', 'https.get',
+    ]),
+    // res.redirect(url), res.redirect(301, url), ctx.redirect(url), Next.js redirect(url)
+    redirectSink('redirect'),
+    redirectSink('location.assign', [0]),
+    redirectSink('location.replace', [0]),
+    redirectSink('window.open', [0]),
+    { ...redirectSink('location.href'), kind: 'assign' },
+    { ...redirectSink('window.location'), kind: 'assign' },
+    { ...redirectSink('document.location'), kind: 'assign' },
+    { pattern: 'Object.assign', ruleId: 'taint/prototype-pollution', message: 'Tainted object merged with Object.assign()' },
+    ...['merge', 'mergeWith', 'defaultsDeep', 'deepmerge', 'deepMerge'].map((fn): TaintSinkSpec => ({
+      pattern: fn,
+      ruleId: 'taint/prototype-pollution',
+      message: `Tainted object deep-merged with ${fn}()`,
+    })),
+    ...['_.set', '_.setWith'].map((fn): TaintSinkSpec => ({
+      pattern: fn,
+      ruleId: 'taint/prototype-pollution',
+      message: `Tainted property path passed to ${fn}()`,
+      args: [1],
+    })),
+  ],
+  sanitizers: [
+    'escape', 'sanitize', 'encode', 'encodeURIComponent', 'encodeURI',
+    'parseInt', 'parseFloat', 'Number', 'String',
+    'validator', 'DOMPurify', 'xss',
+  ],
+  urlSanitizers: URL_ALLOWLIST_SANITIZERS,
+};
+
+const PYTHON_SPEC: TaintSpec = {
+  sources: ['sys.argv', 'os.environ', 'os.getenv', 'input('],
+  sinks: [
+    { pattern: 'eval', ruleId: 'taint/command-injection', message: 'Tainted data flows to eval()', args: [0] },
+    { pattern: 'exec', ruleId: 'taint/command-injection', message: 'Tainted data flows to exec()', args: [0] },
+    { pattern: 'os.system', ruleId: 'taint/command-injection', message: 'Tainted data flows to os.system()', args: [0] },
+    { pattern: 'os.popen', ruleId: 'taint/command-injection', message: 'Tainted data flows to os.popen()', args: [0] },
+    // Argument lists without a shell are not interpreted
+    ...['run', 'call', 'Popen', 'check_call', 'check_output'].map((fn): TaintSinkSpec => ({
+      pattern: `subprocess.${fn}`,
+      ruleId: 'taint/command-injection',
+      message: `Tainted data flows to subprocess.${fn}() with shell=True`,
+      args: [0],
+      when: 'shell=True',
+    })),
+    { pattern: 'execute', ruleId: 'taint/sql-injection', message: 'Tainted data flows to execute()', args: [0] },
+    { pattern: 'executemany', ruleId: 'taint/sql-injection', message: 'Tainted data flows to executemany()', args: [0] },
+    { pattern: 'open', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path', args: [0] },
+    { pattern: 'os.remove', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path', args: [0] },
+    ...ssrfSinks([
+      'requests.get', 'requests.post', 'requests.put', 'requests.patch', 'requests.delete', 'requests.head', 'requests.request',
+      'httpx.get', 'httpx.post', 'urlopen',
+    ]),
+  ],
+  sanitizers: [
+    'shlex.quote', 'html.escape', 'escape', 'bleach.clean',
+    'os.path.basename', 'secure_filename',
+  ],
+  urlSanitizers: URL_ALLOWLIST_SANITIZERS,
+};
+
+const GO_SPEC: TaintSpec = {
+  sources: ['os.Args', 'os.Getenv'],
+  sinks: [
+    { pattern: 'exec.Command', ruleId: 'taint/command-injection', message: 'Tainted data flows to exec.Command()' },
+    { pattern: 'exec.CommandContext', ruleId: 'taint/command-injection', message: 'Tainted data flows to exec.CommandContext()' },
+    { pattern: 'db.Query', ruleId: 'taint/sql-injection', message: 'Tainted data flows to Query()', args: [0] },
+    { pattern: 'db.QueryRow', ruleId: 'taint/sql-injection', message: 'Tainted data flows to QueryRow()', args: [0] },
+    { pattern: 'db.Exec', ruleId: 'taint/sql-injection', message: 'Tainted data flows to Exec()', args: [0] },
+    { pattern: 'os.Open', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path', args: [0] },
+    { pattern: 'os.OpenFile', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path', args: [0] },
+    { pattern: 'os.ReadFile', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path', args: [0] },
+    { pattern: 'os.WriteFile', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path', args: [0] },
+    { pattern: 'os.Create', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path', args: [0] },
+    { pattern: 'os.Remove', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path', args: [0] },
+    { pattern: 'template.HTML', ruleId: 'taint/xss', message: 'Tainted data marked as safe HTML', args: [0] },
+    ...ssrfSinks(['http.Get', 'http.Post', 'http.Head']),
+    ...ssrfSinks(['http.NewRequest'], 1),
+  ],
+  sanitizers: [
+    'html.EscapeString', 'template.HTMLEscapeString', 'url.QueryEscape', 'url.PathEscape',
+    'strconv.Atoi', 'strconv.ParseInt', 'filepath.Base',
+  ],
+  urlSanitizers: URL_ALLOWLIST_SANITIZERS,
+};
+
+const JAVA_SPEC: TaintSpec = {
+  sources: ['System.getenv', 'System.getProperty'],
+  sinks: [
+    { pattern: 'getRuntime().exec', ruleId: 'taint/command-injection', message: 'Tainted data flows to Runtime.exec()' },
+    { pattern: 'ProcessBuilder', ruleId: 'taint/command-injection', message: 'Tainted data flows to ProcessBuilder' },
+    { pattern: 'executeQuery', ruleId: 'taint/sql-injection', message: 'Tainted data flows to executeQuery()', args: [0] },
+    { pattern: 'executeUpdate', ruleId: 'taint/sql-injection', message: 'Tainted data flows to executeUpdate()', args: [0] },
+    { pattern: 'execute', ruleId: 'taint/sql-injection', message: 'Tainted data flows to execute()', args: [0] },
+    { pattern: 'prepareStatement', ruleId: 'taint/sql-injection', message: 'Tainted data flows to prepareStatement()', args: [0] },
+    { pattern: 'File', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path' },
+    { pattern: 'Paths.get', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path' },
+    { pattern: 'Path.of', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path' },
+    { pattern: 'FileInputStream', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path', args: [0] },
+    ...ssrfSinks(['URL', 'URI.create', 'getForObject', 'getForEntity', 'postForObject', 'postForEntity']),
+  ],
+  sanitizers: [
+    'StringEscapeUtils.escape', 'HtmlUtils.htmlEscape', 'Encode.for', 'ESAPI.encoder',
+    'URLEncoder.encode', 'Integer.parseInt', 'Long.parseLong', 'FilenameUtils.getName',
+  ],
+  urlSanitizers: URL_ALLOWLIST_SANITIZERS,
+};
+
+const LANGUAGE_MODELS: Record<TaintLanguage, TaintSpec> = {
+  javascript: JAVASCRIPT_SPEC,
+  python: PYTHON_SPEC,
+  go: GO_SPEC,
+  java: JAVA_SPEC,
+};
+
+export interface FrameworkModel extends TaintSpec {
+  language: TaintLanguage;
+}
+
+export const FRAMEWORK_MODELS: Record<TaintFramework, FrameworkModel> = {
+  express: {
+    language: 'javascript',
+    sources: ['req.params', 'req.body', 'req.query', 'req.headers', 'req.cookies'],
+    sinks: [
+      { pattern: 'res.send', ruleId: 'taint/xss', message: 'Tainted data sent in response body', args: [0] },
+      { pattern: 'res.write', ruleId: 'taint/xss', message: 'Tainted data written to response body', args: [0] },
+    ],
+  },
+  fastify: {
+    language: 'javascript',
+    sources: ['request.body', 'request.query', 'request.params', 'request.headers'],
+    sourceParameterTypes: ['FastifyRequest'],
+    sinks: [
+      { pattern: 'reply.send', ruleId: 'taint/xss', message: 'Tainted data sent in response body', args: [0] },
+    ],
+  },
+  koa: {
+    language: 'javascript',
+    sources: [
+      'ctx.request.body', 'ctx.request.query', 'ctx.query', 'ctx.params',
+      'ctx.headers', 'ctx.request.headers', 'ctx.cookies.get',
+    ],
+  },
+  nestjs: {
+    language: 'javascript',
+    sourceDecorators: ['Body', 'Query', 'Param', 'Headers', 'Req', 'Request'],
+  },
+  nextjs: {
+    language: 'javascript',
+    sources: ['searchParams', 'request.nextUrl', 'req.query', 'req.body', 'req.cookies'],
+    sourceParameterTypes: ['Request', 'NextRequest', 'NextApiRequest'],
+  },
+  flask: {
+    language: 'python',
+    sources: [
+      'request.args', 'request.form', 'request.values', 'request.json', 'request.get_json',
+      'request.data', 'request.files', 'request.cookies', 'request.headers',
+    ],
+    sinks: [
+      { pattern: 'render_template_string', ruleId: 'taint/xss', message: 'Tainted data rendered as a template', args: [0] },
+      { pattern: 'send_file', ruleId: 'taint/path-traversal', message: 'Tainted data used in file path', args: [0] },
+      { pattern: 'Markup', ruleId: 'taint/xss', message: 'Tainted data marked as safe HTML', args: [0] },
+      redirectSink('redirect', [0]),
+    ],
+  },
+  django: {
+    language: 'python',
+    sources: ['request.GET', 'request.POST', 'request.body', 'request.COOKIES', 'request.META', 'request.FILES'],
+    sinks: [
+      { pattern: 'mark_safe', ruleId: 'taint/xss', message: 'Tainted data marked as safe HTML', args: [0] },
+      { pattern: 'raw', ruleId: 'taint/sql-injection', message: 'Tainted data flows to raw()', args: [0] },
+      { pattern: 'HttpResponse', ruleId: 'taint/xss', message: 'Tainted data sent in response body', args: [0] },
+      redirectSink('HttpResponseRedirect', [0]),
+      redirectSink('redirect', [0]),
+    ],
+    urlSanitizers: ['url_has_allowed_host_and_scheme'],
+  },
+  fastapi: {
+    language: 'python',
+    sources: ['request.query_params', 'request.path_params', 'request.headers', 'request.cookies', 'request.json', 'request.form', 'request.body'],
+    sourceDecorators: ['Query', 'Path', 'Body', 'Form', 'Header', 'Cookie', 'File'],
+    sinks: [
+      { pattern: 'HTMLResponse', ruleId: 'taint/xss', message: 'Tainted data sent in response body', args: [0] },
+      redirectSink('RedirectResponse', [0]),
+    ],
+  },
+  nethttp: {
+    language: 'go',
+    sources: [
+      'r.URL.Query', 'r.URL.Path', 'r.URL.RawQuery', 'r.FormValue', 'r.PostFormValue',
+      'r.Form', 'r.PostForm', 'r.Header.Get', 'r.Body', 'r.Cookie',
+    ],
+    sinks: [
+      { pattern: 'w.Write', ruleId: 'taint/xss', message: 'Tainted data written to response body', args: [0] },
+      { pattern: 'fmt.Fprintf', ruleId: 'taint/xss', message: 'Tainted data written to response body', args: [1, 2] },
+      { pattern: 'io.WriteString', ruleId: 'taint/xss', message: 'Tainted data written to response body', args: [1] },
+      redirectSink('http.Redirect', [2]),
+    ],
+  },
+  gin: {
+    language: 'go',
+    sources: [
+      'c.Query', 'c.DefaultQuery', 'c.GetQuery', 'c.Param', 'c.PostForm', 'c.DefaultPostForm',
+      'c.GetHeader', 'c.Cookie', 'c.Bind', 'c.ShouldBind',
+    ],
+    sinks: [
+      { pattern: 'c.String', ruleId: 'taint/xss', message: 'Tainted data sent in response body', args: [1, 2] },
+      { pattern: 'c.Data', ruleId: 'taint/xss', message: 'Tainted data sent in response body', args: [2] },
+      redirectSink('c.Redirect', [1]),
+    ],
+  },
+  spring: {
+    language: 'java',
+    sources: [
+      'request.getParameter', 'request.getParameterValues', 'request.getParameterMap', 'request.getHeader',
+      'request.getQueryString', 'request.getCookies', 'request.getInputStream', 'request.getReader',
+    ],
+    sourceDecorators: ['RequestParam', 'PathVariable', 'RequestBody', 'RequestHeader', 'CookieValue', 'ModelAttribute'],
+    sinks: [
+      { pattern: 'getWriter().write', ruleId: 'taint/xss', message: 'Tainted data written to response body', args: [0] },
+      { pattern: 'getWriter().print', ruleId: 'taint/xss', message: 'Tainted data written to response body', args: [0] },
+      { pattern: 'getWriter().println', ruleId: 'taint/xss', message: 'Tainted data written to response body', args: [0] },
+      redirectSink('sendRedirect', [0]),
+    ],
+  },
+};
+
+export const TAINT_FRAMEWORKS = Object.keys(FRAMEWORK_MODELS) as TaintFramework[];
+
+/**
+ * Combine the base spec for `language`, the bundled models of the configured
+ * frameworks for that language (all of them by default), the `.archguard.yml`
+ * spec and plugin specs. Config and plugin specs apply to every language.
+ */
+export function resolveTaintSpec(
+  config: TaintConfig,
+  extra: TaintSpec[] = [],
+  language: TaintLanguage = 'javascript',
+): ResolvedTaintSpec {
+  const specs = [
+    LANGUAGE_MODELS[language],
+    ...(config.frameworks ?? TAINT_FRAMEWORKS)
+      .map(name => FRAMEWORK_MODELS[name])
+      .filter(model => model.language === language),
+    config,
+    ...extra,
+  ];
+  // Frameworks may model the same sink, e.g. `redirect` in Flask and Django. A later
+  // spec replaces an earlier one in place, so config and plugin sinks override bundled ones
+  const byKey = new Map<string, TaintSinkSpec>();
+  for (const sink of specs.flatMap(s => s.sinks ?? [])) {
+    byKey.set(`${sink.kind ?? 'call'}\0${sink.pattern}\0${sink.ruleId}`, sink);
+  }
+  const sinks = [...byKey.values()];
+
+  return {
+    sources: [...new Set(specs.flatMap(s => s.sources ?? []))],
+    sourceDecorators: new Set(specs.flatMap(s => s.sourceDecorators ?? [])),
+    sourceParameterTypes: new Set(specs.flatMap(s => s.sourceParameterTypes ?? [])),
+    callSinks: sinks.filter(s => (s.kind ?? 'call') === 'call'),
+    assignSinks: sinks.filter(s => s.kind === 'assign'),
+    sanitizers: [...new Set(specs.flatMap(s => s.sanitizers ?? []))],
+    urlSanitizers: [...new Set(specs.flatMap(s => s.urlSanitizers ?? []))],
+  };
+}
+
+/** `db.query` matches `query`; `mydocument.write` does not match `document.write`. */
+export function matchesSink(callee: string, pattern: string): boolean {
+  return callee === pattern || callee.endsWith(`.${pattern}`);
+}
@@ -0,0 +1,300 @@
+import { access, readdir, readFile } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import { homedir } from 'node:os';
+import type { AnalysisContext, Finding, TyposquattingConfig } from '../core/types.js';
+import { Severity } from '../core/types.js';
+import { BaseAnalyzer } from './base-analyzer.js';
+import { POPULAR_PACKAGES } from './popular-packages.js';
+import { collectDependencies, manifestFor, type PackageDependency } from '../core/dependency-collector.js';
+import { loadModuleResolution } from '../core/module-resolution.js';
+import { readLockfiles } from '../core/lockfiles.js';
+import { closestMatch, editDistance } from '../utils/similarity.js';
+import { logger } from '../utils/logger.js';
+import { minimatch } from 'minimatch';
+
+/** Manifests whose new dependencies are checked. */
+const MANIFESTS = new Set(['package.json', 'requirements.txt', 'requirements-dev.txt', 'go.mod', 'Cargo.toml']);
+
+/** A dependency together with the directory of the manifest declaring it. */
+interface DeclaredDependency {
+  dir: string;
+  dep: PackageDependency;
+}
+
+/** Popular names of one ecosystem, keyed by their canonical form. */
+type PopularNames = Map<string, string>;
+
+/**
+ * The form registries compare names in: pip folds case and runs of `-`, `_`
+ * and `.`, crates.io folds `-` and `_`, npm names are lowercase and Go paths
+ * are case-sensitive.
+ */
+function canonicalName(name: string, ecosystem: string): string {
+  switch (ecosystem) {
+    case 'PyPI': return name.toLowerCase().replace(/[-_.]+/g, '-');
+    case 'crates.io': return name.toLowerCase().replace(/_/g, '-');
+    case 'Go': return name;
+    default: return name.toLowerCase();
+  }
+}
+
+/** A name with case and separators dropped, so `react_dom`, `reactdom` and `React-DOM` collide. */
+function looseName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]/g, '');
+}
+
+export class TyposquattingAnalyzer extends BaseAnalyzer {
+  name = 'typosquatting';
+
+  protected defaultSeverity(): Severity {
+    return Severity.Warning;
+  }
+
+  async analyze(context: AnalysisContext): Promise<Finding[]> {
+    const findings: Finding[] = [];
+    const typoConfig = context.config.analyzers.typosquatting;
+    if (!typoConfig?.enabled) return findings;
+
+    const declared = await this.newDependencies(context);
+    if (declared.length === 0) return findings;
+
+    const popular = await this.loadPopularNames(context.projectRoot, typoConfig.lists);
+    const lockedNames = new Map<string, Promise<Set<string> | null>>();
+    const severity = typoConfig.severity;
+
+    for (const { dir, dep } of declared) {
+      const names = popular.get(dep.ecosystem);
+      if (!names || this.isAllowed(dep.name, typoConfig)) continue;
+      const path = dir ? `${dir}/${manifestFor(dep)}` : manifestFor(dep);
+
+      const lookalike = this.checkName(dep, names, path, severity);
+      if (lookalike) {
+        findings.push(lookalike);
+        continue;
+      }
+
+      // Popular packages are known to exist; anything else should at least have been installed once
+      if (names.has(canonicalName(dep.name, dep.ecosystem))) continue;
+      const key = `${dir}\0${dep.ecosystem}`;
+      if (!lockedNames.has(key)) lockedNames.set(key, this.lockedNames(context.projectRoot, dir, dep.ecosystem));
+      const locked = await lockedNames.get(key)!;
+      const cached = await this.isCached(context.projectRoot, dir, dep);
+      // Without a lockfile or a package cache there is nothing to verify against
+      if (locked === null && cached === null) continue;
+      if (locked?.has(canonicalName(dep.name, dep.ecosystem)) || cached) continue;
+
+      findings.push(this.createFinding(
+        'typosquatting/unverified-package',
+        path,
+        dep.line ?? 1,
+        `'${dep.name}' is not in the lockfile or the local package cache`,
+        {
+          severity,
+          suggestion: 'Install the package to confirm it exists in the registry, and review it before committing; invented package names are registered by attackers',
+        },
+      ));
+    }
+
+    return findings;
+  }
+
+  /**
+   * Dependencies to check: those on added lines of changed manifests in a
+   * diff, or every dependency of the project and its workspaces in a full scan.
+   */
+  private async newDependencies(context: AnalysisContext): Promise<DeclaredDependency[]> {
+    const isDiff = context.otherFiles !== undefined || context.files.some(f => f.hunks.length > 0);
+    if (!isDiff) {
+      if (context.files.length === 0) return [];
+      const resolution = await loadModuleResolution(context.projectRoot);
+      const dirs = new Set(['',
+        ...resolution.packages.map(p => p.dir),
+        ...resolution.goModules.map(m => m.dir),
+        ...resolution.rustCrates.map(c => c.dir),
+      ]);
+      const declared: DeclaredDependency[] = [];
+      for (const dir of dirs) {
+        const deps = await collectDependencies(join(context.projectRoot, dir));
+        declared.push(...deps.filter(dep => !dep.transitive && MANIFESTS.has(manifestFor(dep))).map(dep => ({ dir, dep })));
+      }
+      return declared;
+    }
+
+    const declared: DeclaredDependency[] = [];
+    for (const file of context.otherFiles ?? []) {
+      const manifest = basename(file.path);
+      if (!MANIFESTS.has(manifest)) continue;
+      const dir = dirname(file.path) === '.' ? '' : dirname(file.path);
+      const added = new Set(file.addedLines.map(l => l.lineNumber));
+      const deps = await collectDependencies(join(context.projectRoot, dir));
+      for (const dep of deps) {
+        if (manifestFor(dep) === manifest && dep.line !== undefined && added.has(dep.line)) declared.push({ dir, dep });
+      }
+    }
+    return declared;
+  }
+
+  /**
+   * A finding when the name imitates a popular package: the same name with
+   * different separators or case, a popular npm package under a look-alike
+   * scope, or a name within an edit or two of a popular one.
+   */
+  private checkName(dep: PackageDependency, names: PopularNames, path: string, severity: Severity): Finding | null {
+    const canonical = canonicalName(dep.name, dep.ecosystem);
+    if (names.has(canonical)) return null;
+    const line = dep.line ?? 1;
+    const finding = (ruleId: string, target: string, message: string) => this.createFinding(ruleId, path, line, message, {
+      severity,
+      suggestion: `Did you mean '${target}'? Check the exact name on the registry before installing`,
+    });
+
+    const loose = looseName(dep.name);
+    const separated = [...names.values()].find(name => looseName(name) === loose);
+    if (separated) {
+      return finding(
+        'typosquatting/separator-confusion',
+        separated,
+        `'${dep.name}' differs from the popular package '${separated}' only in separators or case`,
+      );
+    }
+
+    if (dep.ecosystem === 'npm') {
+      const scoped = this.scopeLookalike(canonical, names);
+      if (scoped) {
+        return finding(
+          'typosquatting/scope-confusion',
+          scoped,
+          `'${dep.name}' imitates the popular scoped package '${scoped}'`,
+        );
+      }
+    }
+
+    // Short names are too close to each other for edit distance to mean anything
+    if (canonical.length < 5) return null;
+    const nearest = closestMatch(canonical, names.keys(), canonical.length >= 9 ? 2 : 1);
+    if (!nearest) return null;
+    const distance = editDistance(canonical, nearest);
+    return finding(
+      'typosquatting/near-miss',
+      names.get(nearest)!,
+      `'${dep.name}' is ${distance === 1 ? 'one edit' : `${distance} edits`} away from the popular package '${names.get(nearest)}'`,
+    );
+  }
+
+  /**
+   * The popular scoped package an npm name imitates: the same package under a
+   * scope one edit away (`@angullar/core`), or the scope folded into an
+   * unscoped name (`types-node`, `angularcore`).
+   */
+  private scopeLookalike(name: string, names: PopularNames): string | undefined {
+    const scoped = /^@([^/]+)\/(.+)$/.exec(name);
+    for (const popular of names.values()) {
+      const target = /^@([^/]+)\/(.+)$/.exec(popular);
+      if (!target) continue;
+      if (scoped) {
+        if (scoped[2] === target[2] && editDistance(scoped[1], target[1]) <= 1) return popular;
+      } else if ([`${target[1]}-${target[2]}`, `${target[1]}${target[2]}`, `${target[1]}.${target[2]}`].includes(name)) {
+        return popular;
+      }
+    }
+    return undefined;
+  }
+
+  /** The bundled popular names, merged with `lists` files mapping ecosystems to extra names. */
+  private async loadPopularNames(projectRoot: string, lists: string[]): Promise<Map<string, PopularNames>> {
+    const sources: Array<Record<string, readonly string[]>> = [POPULAR_PACKAGES];
+    for (const list of lists) {
+      try {
+        sources.push(JSON.parse(await readFile(join(projectRoot, list), 'utf-8')) as Record<string, string[]>);
+      } catch (err) {
+        logger.warn(`Could not read popular package list ${list}: ${(err as Error).message}`);
+      }
+    }
+
+    const popular = new Map<string, PopularNames>();
+    for (const source of sources) {
+      for (const [ecosystem, names] of Object.entries(source)) {
+        if (!Array.isArray(names)) continue;
+        const canonical = popular.get(ecosystem) ?? new Map<string, string>();
+        for (const name of names) canonical.set(canonicalName(name, ecosystem), name);
+        popular.set(ecosystem, canonical);
+      }
+    }
+    return popular;
+  }
+
+  /**
+   * Canonical names of packages locked for `ecosystem` next to the manifest
+   * or at the project root, or `null` when there is no lockfile.
+   */
+  private async lockedNames(projectRoot: string, dir: string, ecosystem: string): Promise<Set<string> | null> {
+    let names: Set<string> | null = null;
+    for (const lockDir of new Set([dir, ''])) {
+      for (const lockfile of await readLockfiles(join(projectRoot, lockDir))) {
+        if (lockfile.ecosystem !== ecosystem) continue;
+        names ??= new Set();
+        for (const pkg of lockfile.packages) names.add(canonicalName(pkg.name, ecosystem));
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Whether the package is in a local package cache: `node_modules` for npm,
+   * the Go module cache or Cargo's registry index. `null` when no cache exists.
+   */
+  private async isCached(projectRoot: string, dir: string, dep: PackageDependency): Promise<boolean | null> {
+    switch (dep.ecosystem) {
+      case 'npm': {
+        let hasCache = false;
+        for (const installDir of new Set([dir, ''])) {
+          const modules = join(projectRoot, installDir, 'node_modules');
+          if (!await this.exists(modules)) continue;
+          if (await this.exists(join(modules, dep.name))) return true;
+          hasCache = true;
+        }
+        return hasCache ? false : null;
+      }
+      case 'Go': {
+        const modCache = process.env.GOMODCACHE || join(process.env.GOPATH || join(homedir(), 'go'), 'pkg', 'mod');
+        const downloads = join(modCache, 'cache', 'download');
+        if (!await this.exists(downloads)) return null;
+        // The module cache escapes upper-case letters as `!` and the lower-case letter
+        const escaped = dep.name.replace(/[A-Z]/g, c => `!${c.toLowerCase()}`);
+        return this.exists(join(downloads, escaped, '@v'));
+      }
+      case 'crates.io': {
+        const index = join(process.env.CARGO_HOME || join(homedir(), '.cargo'), 'registry', 'index');
+        let registries: string[];
+        try {
+          registries = await readdir(index);
+        } catch {
+          return null;
+        }
+        const name = dep.name.toLowerCase();
+        const prefix = name.length <= 2 ? String(name.length)
+          : name.length === 3 ? `3/${name[0]}`
+          : `${name.slice(0, 2)}/${name.slice(2, 4)}`;
+        for (const registry of registries) {
+          if (await this.exists(join(index, registry, '.cache', prefix, name))) return true;
+        }
+        return false;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private async exists(path: string): Promise<boolean> {
+    try {
+      await access(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private isAllowed(name: string, config: TyposquattingConfig): boolean {
+    return config.allow.some(pattern => name === pattern || minimatch(name, pattern));
+  }
+}
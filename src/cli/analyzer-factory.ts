@@ -7,14 +7,18 @@ import { LayerViolationDetector } from '../analyzers/layer-violation.js';
 import { ImpactAnalyzer } from '../analyzers/impact-analyzer.js';
 import { TaintAnalyzer } from '../analyzers/taint-analyzer.js';
 import { DependencyScanner } from '../analyzers/dependency-scanner.js';
+import { DependencyUsageAnalyzer } from '../analyzers/dependency-usage-analyzer.js';
+import { TyposquattingAnalyzer } from '../analyzers/typosquatting-analyzer.js';
+import { SupplyChainAnalyzer } from '../analyzers/supply-chain-analyzer.js';
 import { ComplexityAnalyzer } from '../analyzers/complexity-analyzer.js';
 import { IacAnalyzer } from '../analyzers/iac-analyzer.js';
 import { DeadCodeAnalyzer } from '../analyzers/dead-code-analyzer.js';
+import { CyclesAnalyzer } from '../analyzers/cycles-analyzer.js';
 import { CoverageAnalyzer } from '../analyzers/coverage-analyzer.js';
 import { LicenseScanner } from '../analyzers/license-scanner.js';
-import { loadPlugins } from '../plugins/loader.js';
+import { loadPlugins, loadPluginTaintSpecs } from '../plugins/loader.js';
 
-export async function createAnalyzers(config: ArchGuardConfig): Promise<Analyzer[]> {
+export async function createAnalyzers(config: ArchGuardConfig, projectRoot = process.cwd()): Promise<Analyzer[]> {
   const analyzers: Analyzer[] = [];
 
   if (config.analyzers.security.enabled) {
@@ -36,11 +40,20 @@ export async function createAnalyzers(config: ArchGuardConfig): Promise<Analyzer
     analyzers.push(new ImpactAnalyzer());
   }
   if (config.analyzers.taint?.enabled) {
-    analyzers.push(new TaintAnalyzer());
+    analyzers.push(new TaintAnalyzer(await loadPluginTaintSpecs(config, projectRoot)));
   }
   if (config.analyzers.dependencies?.enabled) {
     analyzers.push(new DependencyScanner());
   }
+  if (config.analyzers.dependencyUsage?.enabled) {
+    analyzers.push(new DependencyUsageAnalyzer());
+  }
+  if (config.analyzers.typosquatting?.enabled) {
+    analyzers.push(new TyposquattingAnalyzer());
+  }
+  if (config.analyzers.supplyChain?.enabled) {
+    analyzers.push(new SupplyChainAnalyzer());
+  }
   if (config.analyzers.complexity?.enabled) {
     analyzers.push(new ComplexityAnalyzer());
   }
@@ -50,6 +63,9 @@ export async function createAnalyzers(config: ArchGuardConfig): Promise<Analyzer
   if (config.analyzers.deadCode?.enabled) {
     analyzers.push(new DeadCodeAnalyzer());
   }
+  if (config.analyzers.cycles?.enabled) {
+    analyzers.push(new CyclesAnalyzer());
+  }
   if (config.analyzers.coverage?.enabled) {
     analyzers.push(new CoverageAnalyzer());
   }
@@ -70,7 +86,7 @@ export async function createAnalyzers(config: ArchGuardConfig): Promise<Analyzer
   }
 
   // Load external plugin analyzers
-  const pluginAnalyzers = await loadPlugins(config);
+  const pluginAnalyzers = await loadPlugins(config, projectRoot);
   analyzers.push(...pluginAnalyzers);
 
   return analyzers;
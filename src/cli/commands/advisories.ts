@@ -0,0 +1,85 @@
+import { join, resolve } from 'node:path';
+import chalk from 'chalk';
+import { isGitRepo, getGitRoot } from '../../utils/git.js';
+import { loadConfig } from '../../core/config-loader.js';
+import { ExitCode } from '../../core/types.js';
+import { collectDependencies } from '../../core/dependency-collector.js';
+import {
+  ADVISORY_ECOSYSTEMS,
+  DEFAULT_ADVISORY_DIR,
+  OSV_EXPORT_URL,
+  readAdvisorySource,
+  writeAdvisoryDatabase,
+  type OsvRecord,
+} from '../../core/advisory-db.js';
+
+export interface AdvisoriesSyncOptions {
+  /** Base URL of an OSV export mirror; overrides `dependencies.mirror`. */
+  mirror?: string;
+  /** Ecosystems to download; defaults to those the project depends on. */
+  ecosystem?: string[];
+}
+
+/**
+ * Import OSV advisories into the local database. `sources` are export
+ * archives, directories of records or URLs; without any, each ecosystem's
+ * `all.zip` is downloaded from the mirror or the public OSV bucket.
+ */
+export async function advisoriesSyncCommand(sources: string[], options: AdvisoriesSyncOptions = {}): Promise<number> {
+  const cwd = process.cwd();
+
+  if (!await isGitRepo(cwd)) {
+    console.error(chalk.red('Not a git repository.'));
+    return ExitCode.ConfigError;
+  }
+
+  const projectRoot = await getGitRoot(cwd);
+  let config;
+  try {
+    config = await loadConfig(projectRoot);
+  } catch (err) {
+    console.error(chalk.red((err as Error).message));
+    return ExitCode.ConfigError;
+  }
+  const depConfig = config.analyzers.dependencies;
+
+  const unknown = (options.ecosystem ?? []).filter(e => !ADVISORY_ECOSYSTEMS.includes(e));
+  if (unknown.length > 0) {
+    console.error(chalk.red(`Unknown ecosystem ${unknown.join(', ')}; expected one of ${ADVISORY_ECOSYSTEMS.join(', ')}.`));
+    return ExitCode.ConfigError;
+  }
+
+  let locations = sources.map(source => /^https?:\/\//.test(source) ? source : resolve(cwd, source));
+  if (locations.length === 0) {
+    const base = (options.mirror ?? depConfig?.mirror ?? OSV_EXPORT_URL).replace(/\/+$/, '');
+    const used = new Set((await collectDependencies(projectRoot)).map(dep => dep.ecosystem));
+    const ecosystems = options.ecosystem ?? ADVISORY_ECOSYSTEMS.filter(e => used.has(e));
+    if (ecosystems.length === 0) {
+      console.error(chalk.yellow('  No dependencies found; pass --ecosystem to choose what to sync.'));
+      return ExitCode.Success;
+    }
+    locations = ecosystems.map(ecosystem => `${base}/${encodeURIComponent(ecosystem)}/all.zip`);
+  }
+
+  const dir = join(projectRoot, depConfig?.database ?? DEFAULT_ADVISORY_DIR);
+  async function* records(): AsyncGenerator<OsvRecord> {
+    for (const location of locations) {
+      console.log(chalk.gray(`  Importing ${location}`));
+      yield* readAdvisorySource(location);
+    }
+  }
+
+  let index;
+  try {
+    index = await writeAdvisoryDatabase(dir, records(), locations);
+  } catch (err) {
+    console.error(chalk.red(`  Advisory sync failed: ${(err as Error).message}`));
+    return ExitCode.ErrorsFound;
+  }
+
+  for (const [ecosystem, counts] of Object.entries(index.ecosystems)) {
+    console.log(`  ${chalk.bold(ecosystem)}: ${counts.advisories} advisories for ${counts.packages} packages`);
+  }
+  console.log(chalk.green(`  Advisory database written to ${depConfig?.database ?? DEFAULT_ADVISORY_DIR}`));
+  return ExitCode.Success;
+}
@@ -0,0 +1,248 @@
+import { readFile } from 'node:fs/promises';
+import { join, relative, resolve } from 'node:path';
+import chalk from 'chalk';
+import { loadConfig } from '../../core/config-loader.js';
+import { buildContext, toScanFile } from '../../core/context.js';
+import { runPipeline } from '../../core/pipeline.js';
+import { shouldParseOnMainThread } from '../../core/worker-pool.js';
+import {
+  loadBaseline,
+  matchBaseline,
+  getBaselineStatus,
+  getBaselineRenames,
+  getBaselinePath,
+  mergeBaselines,
+  pruneBaselineFile,
+  writeBaseline,
+  type BaselineFile,
+  type BaselineStatus,
+} from '../../core/baseline.js';
+import { loadRunsSince } from '../../metrics/history.js';
+import { isGitRepo, getGitRoot, getAllTrackedFiles, getHeadCommit } from '../../utils/git.js';
+import { createAnalyzers } from '../analyzer-factory.js';
+import { ExitCode, type ArchGuardConfig, type FileInfo, type Finding } from '../../core/types.js';
+
+export interface BaselineOptions {
+  baseline?: string;
+  json?: boolean;
+}
+
+/** Rows shown per breakdown in the terminal; JSON output has all of them. */
+const MAX_BREAKDOWN_ROWS = 10;
+
+interface BaselineProject {
+  projectRoot: string;
+  config: ArchGuardConfig;
+  baseline: BaselineFile;
+}
+
+/** Resolve the project, its config and its baseline, or the exit code to fail with. */
+async function openBaseline(options: BaselineOptions): Promise<BaselineProject | number> {
+  const cwd = process.cwd();
+
+  if (!await isGitRepo(cwd)) {
+    console.error(chalk.red('Not a git repository.'));
+    return ExitCode.ConfigError;
+  }
+
+  const projectRoot = await getGitRoot(cwd);
+
+  let config;
+  try {
+    config = await loadConfig(projectRoot);
+  } catch (err) {
+    console.error(chalk.red((err as Error).message));
+    return ExitCode.ConfigError;
+  }
+
+  const baseline = await loadBaseline(projectRoot, options.baseline);
+  if (!baseline) {
+    console.error(chalk.red('No baseline found. Create one with `archguardian scan --update-baseline`.'));
+    return ExitCode.ConfigError;
+  }
+
+  return { projectRoot, config, baseline };
+}
+
+/** Findings of a full scan, as `scan` would report them before baseline filtering. */
+async function scanFindings(projectRoot: string, config: ArchGuardConfig, quiet?: boolean): Promise<Finding[]> {
+  if (!quiet) console.log(chalk.gray('  Scanning project...'));
+
+  const files: FileInfo[] = [];
+  for (const filePath of await getAllTrackedFiles(projectRoot)) {
+    try {
+      const file = toScanFile(filePath, await readFile(join(projectRoot, filePath), 'utf-8'));
+      if (file) files.push(file);
+    } catch {
+      // Skip unreadable files
+    }
+  }
+
+  const analyzers = await createAnalyzers(config, projectRoot);
+  const context = await buildContext(files, config, projectRoot, {
+    parse: shouldParseOnMainThread(files, analyzers, config),
+  });
+  const summary = await runPipeline(context, analyzers);
+  return summary.analyzerResults.flatMap(r => r.findings);
+}
+
+function formatBreakdown(title: string, counts: Record<string, number>): string[] {
+  const rows = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  if (rows.length === 0) return [];
+
+  const lines = [chalk.bold(`  ${title}`)];
+  for (const [key, count] of rows.slice(0, MAX_BREAKDOWN_ROWS)) {
+    lines.push(`    ${key.padEnd(44)} ${String(count).padStart(5)}`);
+  }
+  if (rows.length > MAX_BREAKDOWN_ROWS) {
+    lines.push(chalk.gray(`    ... and ${rows.length - MAX_BREAKDOWN_ROWS} more`));
+  }
+  return lines;
+}
+
+function formatStatus(status: BaselineStatus, history: Array<{ timestamp: string; totalFindings: number }>): string {
+  const divider = chalk.gray('─'.repeat(56));
+  const lines = [
+    '',
+    chalk.bold(` Baseline — generated ${status.generatedAt.slice(0, 10)} by ${status.generatedBy}, ${status.total} entries`),
+    divider,
+    `  Fixed since generated   ${chalk.green(String(status.fixed).padStart(5))}`,
+    `  Remaining debt          ${chalk.yellow(String(status.remaining).padStart(5))}` +
+      (status.expired > 0 ? chalk.red(`  (${status.expired} expired)`) : ''),
+    `  New findings            ${String(status.newFindings).padStart(5)}`,
+    divider,
+    ...formatBreakdown('By rule', status.byRule),
+    ...formatBreakdown('By analyzer', status.byAnalyzer),
+    ...formatBreakdown('By directory', status.byDirectory),
+  ];
+
+  if (history.length > 0) {
+    const counts = history.map(run => run.totalFindings);
+    lines.push(divider);
+    lines.push(`  New findings over ${history.length} recorded runs since then: ${counts.join(' → ')}`);
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+export async function baselineStatusCommand(options: BaselineOptions = {}): Promise<number> {
+  const opened = await openBaseline(options);
+  if (typeof opened === 'number') return opened;
+  const { projectRoot, config, baseline } = opened;
+
+  const findings = await scanFindings(projectRoot, config, options.json);
+  const renames = await getBaselineRenames(projectRoot, baseline);
+  const status = getBaselineStatus(baseline, findings, { renames });
+  // Recorded runs report findings after baseline filtering, i.e. the new ones
+  const history = (await loadRunsSince(projectRoot, baseline.generatedAt))
+    .map(run => ({ timestamp: run.timestamp, command: run.command, totalFindings: run.totalFindings }));
+
+  if (options.json) {
+    console.log(JSON.stringify({ ...status, history }, null, 2));
+  } else {
+    console.log(formatStatus(status, history));
+  }
+  return ExitCode.Success;
+}
+
+export async function baselineDiffCommand(options: BaselineOptions = {}): Promise<number> {
+  const opened = await openBaseline(options);
+  if (typeof opened === 'number') return opened;
+  const { projectRoot, config, baseline } = opened;
+
+  const findings = await scanFindings(projectRoot, config, options.json);
+  const match = matchBaseline(findings, baseline, { renames: await getBaselineRenames(projectRoot, baseline) });
+  const expired = new Set(match.expired.map(m => m.finding));
+  const added = match.findings.filter(f => !expired.has(f));
+
+  if (options.json) {
+    console.log(JSON.stringify({
+      fixed: match.unmatched,
+      added: added.map(f => ({ ruleId: f.ruleId, file: f.file, line: f.line, message: f.message })),
+      expired: match.expired.map(m => m.entry),
+    }, null, 2));
+    return ExitCode.Success;
+  }
+
+  for (const entry of match.unmatched) {
+    console.log(chalk.green(`  - ${entry.ruleId}  ${entry.file}  ${entry.message}`));
+  }
+  for (const finding of added) {
+    console.log(chalk.red(`  + ${finding.ruleId}  ${finding.file}:${finding.line}  ${finding.message}`));
+  }
+  for (const { finding, entry } of match.expired) {
+    const owner = entry.owner ? ` (${entry.owner})` : '';
+    console.log(chalk.yellow(`  ! ${finding.ruleId}  ${finding.file}:${finding.line}  expired ${entry.expiresAt}${owner}`));
+  }
+  console.log(chalk.gray(
+    `  ${match.unmatched.length} fixed, ${added.length} new, ${match.expired.length} expired`,
+  ));
+  return ExitCode.Success;
+}
+
+export async function baselinePruneCommand(options: BaselineOptions = {}): Promise<number> {
+  const opened = await openBaseline(options);
+  if (typeof opened === 'number') return opened;
+  const { projectRoot, config } = opened;
+
+  const result = await pruneBaselineFile(projectRoot, await scanFindings(projectRoot, config, options.json), options.baseline);
+  if (!result) return ExitCode.ConfigError;
+
+  if (options.json) {
+    console.log(JSON.stringify({ kept: result.baseline.findings.length, removed: result.removed }, null, 2));
+    return ExitCode.Success;
+  }
+
+  for (const entry of result.removed) {
+    console.log(chalk.gray(`  - ${entry.ruleId}  ${entry.file}  ${entry.message}`));
+  }
+  console.log(chalk.green(
+    `  Pruned ${result.removed.length} fixed ${result.removed.length === 1 ? 'entry' : 'entries'}; ` +
+    `${result.baseline.findings.length} remain.`,
+  ));
+  return ExitCode.Success;
+}
+
+/** Merge baseline files, given relative to the working directory, into the project baseline. */
+export async function baselineMergeCommand(paths: string[], options: BaselineOptions = {}): Promise<number> {
+  const cwd = process.cwd();
+
+  if (!await isGitRepo(cwd)) {
+    console.error(chalk.red('Not a git repository.'));
+    return ExitCode.ConfigError;
+  }
+
+  const projectRoot = await getGitRoot(cwd);
+
+  const inputs: BaselineFile[] = [];
+  for (const path of paths) {
+    const baseline = await loadBaseline(projectRoot, relative(projectRoot, resolve(cwd, path)));
+    if (!baseline) {
+      console.error(chalk.red(`Cannot read baseline ${path}.`));
+      return ExitCode.ConfigError;
+    }
+    // Bring each input up to date with renames since it was generated
+    const renames = await getBaselineRenames(projectRoot, baseline);
+    inputs.push({
+      ...baseline,
+      findings: baseline.findings.map(entry => ({ ...entry, file: renames.get(entry.file) ?? entry.file })),
+    });
+  }
+
+  const merged = mergeBaselines(inputs);
+  try {
+    merged.commit = await getHeadCommit(projectRoot);
+  } catch {
+    // No commits yet: rename detection starts with the next baseline
+  }
+
+  const target = getBaselinePath(projectRoot, options.baseline);
+  await writeBaseline(target, merged);
+
+  const total = inputs.reduce((sum, b) => sum + b.findings.length, 0);
+  console.log(chalk.green(
+    `  Merged ${inputs.length} baselines into ${relative(cwd, target) || target}: ` +
+    `${merged.findings.length} entries (${total - merged.findings.length} duplicates dropped).`,
+  ));
+  return ExitCode.Success;
+}
@@ -1,27 +1,39 @@
 import chalk from 'chalk';
+import { readFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
 import { loadConfig } from '../../core/config-loader.js';
 import { parseDiff } from '../../core/diff-parser.js';
+import { LOCKFILES } from '../../core/lockfiles.js';
 import { buildContext } from '../../core/context.js';
 import { runPipeline } from '../../core/pipeline.js';
+import { shouldParseOnMainThread } from '../../core/worker-pool.js';
 import { getExitCode } from '../../core/severity.js';
-import { getStagedDiff } from '../../utils/git.js';
+import { getStagedDiff, getRefDiff, getFileContentAtRef, isValidRef } from '../../utils/git.js';
 import { isGitRepo, getGitRoot } from '../../utils/git.js';
 import { formatSummary } from '../output/terminal.js';
 import { formatJson } from '../output/json.js';
 import { formatSarif } from '../output/sarif.js';
 import { createAnalyzers } from '../analyzer-factory.js';
-import { ExitCode } from '../../core/types.js';
+import { getPluginFormatter } from '../../plugins/loader.js';
+import { ExitCode, type FileInfo } from '../../core/types.js';
 import { recordMetrics } from '../../metrics/tracker.js';
 import { handleBaseline } from '../../core/baseline.js';
 import { evaluateQualityGate } from '../../core/quality-gate.js';
 
 export interface CheckOptions {
-  format?: 'terminal' | 'json' | 'sarif';
+  /** terminal, json, sarif, or a formatter registered by a plugin. */
+  format?: string;
   updateBaseline?: boolean;
   baseline?: string;
   qualityGate?: boolean;
   ci?: 'github';
   postToPr?: boolean;
+  /** Check the changes between this ref and `head` instead of the staged diff. */
+  base?: string;
+  /** Defaults to HEAD when `base` is given. */
+  head?: string;
+  /** Check the changes between this commit and the working tree. */
+  since?: string;
 }
 
 export async function checkCommand(options: CheckOptions = {}): Promise<number> {
@@ -44,25 +56,58 @@ export async function checkCommand(options: CheckOptions = {}): Promise<number>
     return ExitCode.ConfigError;
   }
 
-  // Get staged diff
-  const diffText = await getStagedDiff(projectRoot);
+  if (options.since && (options.base || options.head)) {
+    console.error(chalk.red('--since cannot be combined with --base or --head.'));
+    return ExitCode.ConfigError;
+  }
+  if (options.head && !options.base) {
+    console.error(chalk.red('--head requires --base.'));
+    return ExitCode.ConfigError;
+  }
+
+  const base = options.base ?? options.since;
+  const head = options.base ? options.head ?? 'HEAD' : undefined;
+  for (const ref of [base, head]) {
+    if (ref && !await isValidRef(projectRoot, ref)) {
+      console.error(chalk.red(`Unknown git ref: ${ref}`));
+      return ExitCode.ConfigError;
+    }
+  }
+  const changes = base
+    ? (head ? `changes between ${base} and ${head}` : `changes since ${base}`)
+    : 'staged changes';
+
+  // Get the diff to check
+  const diffText = base ? await getRefDiff(projectRoot, base, head) : await getStagedDiff(projectRoot);
   if (!diffText.trim()) {
-    console.log(chalk.gray('  No staged changes to check.'));
+    console.log(chalk.gray(`  No ${changes} to check.`));
     return ExitCode.Success;
   }
 
   // Parse diff
   const files = parseDiff(diffText);
   if (files.length === 0) {
-    console.log(chalk.gray('  No analyzable files in staged changes.'));
+    console.log(chalk.gray(`  No analyzable files in ${changes}.`));
     return ExitCode.Success;
   }
+  if (base) {
+    await loadChangedContent(files, projectRoot, head);
+  }
+
+  const analyzers = await createAnalyzers(config, projectRoot);
+  const builtInFormat = ['terminal', 'json', 'sarif'].includes(format);
+  const pluginFormatter = builtInFormat ? undefined : await getPluginFormatter(config, projectRoot, format);
+  if (!builtInFormat && !pluginFormatter) {
+    console.error(chalk.red(`Unknown output format '${format}'.`));
+    return ExitCode.ConfigError;
+  }
 
-  // Build context with ASTs
-  const context = await buildContext(files, config, projectRoot);
+  // Build context with ASTs (parsing is left to the worker pool when it runs every analyzer)
+  const context = await buildContext(files, config, projectRoot, {
+    parse: shouldParseOnMainThread(files, analyzers, config),
+  });
 
   // Run pipeline
-  const analyzers = await createAnalyzers(config);
   const summary = await runPipeline(context, analyzers);
 
   // Handle baseline (save or filter)
@@ -114,9 +159,25 @@ export async function checkCommand(options: CheckOptions = {}): Promise<number>
     console.log(formatJson(summary));
   } else if (format === 'sarif') {
     console.log(formatSarif(summary));
+  } else if (pluginFormatter) {
+    console.log(pluginFormatter(summary, exitCode));
   } else {
     console.log(formatSummary(summary, exitCode));
   }
 
   return exitCode;
 }
+
+/**
+ * Analyze files as they are at `head`, or in the working tree when diffing
+ * against it, rather than as staged in the index. Lockfiles are loaded too,
+ * since the supply-chain analyzer compares them with the base.
+ */
+async function loadChangedContent(files: FileInfo[], projectRoot: string, head: string | undefined): Promise<void> {
+  for (const file of files) {
+    if (file.status === 'deleted' || (!file.language && !(basename(file.path) in LOCKFILES))) continue;
+    file.content = head
+      ? await getFileContentAtRef(projectRoot, head, file.path)
+      : await readFile(join(projectRoot, file.path), 'utf-8');
+  }
+}
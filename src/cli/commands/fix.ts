@@ -97,7 +97,7 @@ export async function fixCommand(options: FixOptions = {}): Promise<number> {
 
   // Build context and run pipeline
   const context = await buildContext(files, config, projectRoot);
-  const analyzers = await createAnalyzers(config);
+  const analyzers = await createAnalyzers(config, projectRoot);
   const pipelineSummary = await runPipeline(context, analyzers);
 
   // Collect all findings
@@ -0,0 +1,26 @@
+import { ExitCode } from '../../core/types.js';
+import { LspServer } from '../../lsp/server.js';
+import { readMessages, writeMessage } from '../../lsp/json-rpc.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Serve the Language Server Protocol over stdin/stdout until the client sends
+ * `exit` or closes the stream. Logs go to stderr so they never corrupt the
+ * protocol stream.
+ */
+export async function lspCommand(): Promise<number> {
+  return new Promise<number>((resolve) => {
+    const stop = (code: number) => {
+      process.stdin.destroy();
+      resolve(code);
+    };
+
+    const server = new LspServer(message => writeMessage(process.stdout, message), stop);
+    readMessages(
+      process.stdin,
+      message => server.handle(message).catch((err: Error) => logger.error(`LSP message failed: ${err.message}`)),
+      err => logger.warn(`Ignoring malformed LSP message: ${err.message}`),
+    );
+    process.stdin.on('end', () => stop(ExitCode.Success));
+  });
+}
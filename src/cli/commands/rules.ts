@@ -3,6 +3,8 @@ import { loadConfig } from '../../core/config-loader.js';
 import { isGitRepo, getGitRoot } from '../../utils/git.js';
 import { Severity, ExitCode } from '../../core/types.js';
 import type { ArchGuardConfig } from '../../core/types.js';
+import { loadPluginManifests } from '../../plugins/loader.js';
+import type { LoadedPlugin } from '../../plugins/plugin-types.js';
 
 export interface RuleEntry {
   ruleId: string;
@@ -30,6 +32,9 @@ const BUILT_IN_RULES: Array<{ ruleId: string; analyzer: string; defaultSeverity:
   { ruleId: 'ai-smell/copy-paste', analyzer: 'ai-smells', defaultSeverity: Severity.Warning, configKey: 'aiSmells' },
   { ruleId: 'ai-smell/unnecessary-type-assertion', analyzer: 'ai-smells', defaultSeverity: Severity.Warning, configKey: 'aiSmells' },
   { ruleId: 'ai-smell/excessive-non-null-assertions', analyzer: 'ai-smells', defaultSeverity: Severity.Warning, configKey: 'aiSmells' },
+  { ruleId: 'ai-smell/hallucinated-import', analyzer: 'ai-smells', defaultSeverity: Severity.Warning, configKey: 'aiSmells' },
+  { ruleId: 'ai-smell/hallucinated-import-name', analyzer: 'ai-smells', defaultSeverity: Severity.Warning, configKey: 'aiSmells' },
+  { ruleId: 'ai-smell/hallucinated-import-package', analyzer: 'ai-smells', defaultSeverity: Severity.Warning, configKey: 'aiSmells' },
 
   // Convention rules
   { ruleId: 'convention/function-naming', analyzer: 'conventions', defaultSeverity: Severity.Warning, configKey: 'conventions' },
@@ -52,9 +57,26 @@ const BUILT_IN_RULES: Array<{ ruleId: string; analyzer: string; defaultSeverity:
   { ruleId: 'taint/xss', analyzer: 'taint', defaultSeverity: Severity.Error, configKey: 'security' },
   { ruleId: 'taint/command-injection', analyzer: 'taint', defaultSeverity: Severity.Error, configKey: 'security' },
   { ruleId: 'taint/path-traversal', analyzer: 'taint', defaultSeverity: Severity.Error, configKey: 'security' },
+  { ruleId: 'taint/ssrf', analyzer: 'taint', defaultSeverity: Severity.Error, configKey: 'security' },
+  { ruleId: 'taint/open-redirect', analyzer: 'taint', defaultSeverity: Severity.Error, configKey: 'security' },
+  { ruleId: 'taint/prototype-pollution', analyzer: 'taint', defaultSeverity: Severity.Error, configKey: 'security' },
 
   // Dependency rules
   { ruleId: 'dependency/known-vulnerability', analyzer: 'dependencies', defaultSeverity: Severity.Error, configKey: 'security' },
+  { ruleId: 'dependency-usage/missing-dependency', analyzer: 'dependency-usage', defaultSeverity: Severity.Warning, configKey: 'dependencyUsage' },
+  { ruleId: 'dependency-usage/dev-dependency-in-source', analyzer: 'dependency-usage', defaultSeverity: Severity.Warning, configKey: 'dependencyUsage' },
+  { ruleId: 'dependency-usage/unused-dependency', analyzer: 'dependency-usage', defaultSeverity: Severity.Warning, configKey: 'dependencyUsage' },
+  { ruleId: 'dependency-usage/test-only-dependency', analyzer: 'dependency-usage', defaultSeverity: Severity.Warning, configKey: 'dependencyUsage' },
+  { ruleId: 'typosquatting/separator-confusion', analyzer: 'typosquatting', defaultSeverity: Severity.Warning, configKey: 'typosquatting' },
+  { ruleId: 'typosquatting/scope-confusion', analyzer: 'typosquatting', defaultSeverity: Severity.Warning, configKey: 'typosquatting' },
+  { ruleId: 'typosquatting/near-miss', analyzer: 'typosquatting', defaultSeverity: Severity.Warning, configKey: 'typosquatting' },
+  { ruleId: 'typosquatting/unverified-package', analyzer: 'typosquatting', defaultSeverity: Severity.Warning, configKey: 'typosquatting' },
+  { ruleId: 'supply-chain/untrusted-source', analyzer: 'supply-chain', defaultSeverity: Severity.Warning, configKey: 'supplyChain' },
+  { ruleId: 'supply-chain/missing-integrity', analyzer: 'supply-chain', defaultSeverity: Severity.Warning, configKey: 'supplyChain' },
+  { ruleId: 'supply-chain/weak-integrity', analyzer: 'supply-chain', defaultSeverity: Severity.Warning, configKey: 'supplyChain' },
+  { ruleId: 'supply-chain/install-script', analyzer: 'supply-chain', defaultSeverity: Severity.Warning, configKey: 'supplyChain' },
+  { ruleId: 'supply-chain/registry-changed', analyzer: 'supply-chain', defaultSeverity: Severity.Warning, configKey: 'supplyChain' },
+  { ruleId: 'supply-chain/version-drift', analyzer: 'supply-chain', defaultSeverity: Severity.Warning, configKey: 'supplyChain' },
 
   // Complexity rules
   { ruleId: 'complexity/cyclomatic-too-high', analyzer: 'complexity', defaultSeverity: Severity.Warning, configKey: 'security' },
@@ -76,6 +98,9 @@ const BUILT_IN_RULES: Array<{ ruleId: string; analyzer: string; defaultSeverity:
   // Dead code rules
   { ruleId: 'dead-code/unused-export', analyzer: 'dead-code', defaultSeverity: Severity.Warning, configKey: 'security' },
 
+  // Cycle rules
+  { ruleId: 'cycles/circular-dependency', analyzer: 'cycles', defaultSeverity: Severity.Warning, configKey: 'cycles' },
+
   // Coverage rules
   { ruleId: 'coverage/below-threshold', analyzer: 'coverage', defaultSeverity: Severity.Warning, configKey: 'security' },
   { ruleId: 'coverage/uncovered-new-code', analyzer: 'coverage', defaultSeverity: Severity.Warning, configKey: 'security' },
@@ -84,8 +109,8 @@ const BUILT_IN_RULES: Array<{ ruleId: string; analyzer: string; defaultSeverity:
   { ruleId: 'license/incompatible-license', analyzer: 'licenses', defaultSeverity: Severity.Warning, configKey: 'security' },
 ];
 
-function resolveRules(config: ArchGuardConfig): RuleEntry[] {
-  return BUILT_IN_RULES.map((rule) => {
+function resolveRules(config: ArchGuardConfig, plugins: LoadedPlugin[]): RuleEntry[] {
+  const builtIn = BUILT_IN_RULES.map((rule) => {
     const analyzerConfig = config.analyzers[rule.configKey];
     return {
       ruleId: rule.ruleId,
@@ -94,6 +119,15 @@ function resolveRules(config: ArchGuardConfig): RuleEntry[] {
       enabled: analyzerConfig?.enabled ?? false,
     };
   });
+
+  const fromPlugins = plugins.flatMap(plugin => (plugin.manifest.rules ?? []).map(rule => ({
+    ruleId: rule.id,
+    analyzer: rule.analyzer,
+    severity: rule.severity,
+    enabled: plugin.enabled,
+  })));
+
+  return [...builtIn, ...fromPlugins];
 }
 
 function formatRulesTable(rules: RuleEntry[]): string {
@@ -133,8 +167,9 @@ export async function rulesCommand(options: RulesOptions = {}): Promise<number>
   const cwd = process.cwd();
 
   let config;
+  let projectRoot = cwd;
   if (await isGitRepo(cwd)) {
-    const projectRoot = await getGitRoot(cwd);
+    projectRoot = await getGitRoot(cwd);
     try {
       config = await loadConfig(projectRoot);
     } catch (err) {
@@ -147,7 +182,7 @@ export async function rulesCommand(options: RulesOptions = {}): Promise<number>
     config = DEFAULT_CONFIG;
   }
 
-  const rules = resolveRules(config);
+  const rules = resolveRules(config, await loadPluginManifests(config, projectRoot));
 
   if (options.json) {
     console.log(JSON.stringify(rules, null, 2));
@@ -1,16 +1,39 @@
+import { readFile, readdir, writeFile } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import { homedir } from 'node:os';
+import { randomUUID } from 'node:crypto';
 import chalk from 'chalk';
 import { isGitRepo, getGitRoot } from '../../utils/git.js';
 import { ExitCode } from '../../core/types.js';
 import { collectDependencies, type PackageDependency } from '../../core/dependency-collector.js';
+import { packageKey } from '../../core/lockfiles.js';
+import { getVersion } from '../../utils/version.js';
+
+export const SBOM_FORMATS = ['cyclonedx', 'cyclonedx-xml', 'spdx', 'spdx-tag'] as const;
+
+export type SbomFormat = typeof SBOM_FORMATS[number];
 
 export interface SbomOptions {
-  format?: 'cyclonedx' | 'spdx';
+  format?: SbomFormat;
+  /** Write the SBOM to this file instead of stdout. */
+  output?: string;
+}
+
+/** What the SBOM describes and who made it. */
+export interface SbomInfo {
+  project: { name: string; version?: string; license?: string };
+  toolVersion: string;
 }
 
 export async function sbomCommand(options: SbomOptions = {}): Promise<number> {
   const format = options.format ?? 'cyclonedx';
   const cwd = process.cwd();
 
+  if (!SBOM_FORMATS.includes(format)) {
+    console.error(chalk.red(`Unknown SBOM format ${format}; expected one of ${SBOM_FORMATS.join(', ')}.`));
+    return ExitCode.ConfigError;
+  }
+
   if (!await isGitRepo(cwd)) {
     console.error(chalk.red('Not a git repository.'));
     return ExitCode.ConfigError;
@@ -24,68 +47,415 @@ export async function sbomCommand(options: SbomOptions = {}): Promise<number> {
     return ExitCode.Success;
   }
 
-  if (format === 'spdx') {
-    console.log(JSON.stringify(generateSpdx(deps), null, 2));
+  await addInstalledLicenses(projectRoot, deps);
+  const info: SbomInfo = { project: await readProject(projectRoot), toolVersion: getVersion() };
+
+  let sbom: string;
+  switch (format) {
+    case 'cyclonedx-xml': sbom = generateCycloneDxXml(deps, info); break;
+    case 'spdx': sbom = JSON.stringify(generateSpdx(deps, info), null, 2); break;
+    case 'spdx-tag': sbom = generateSpdxTagValue(deps, info); break;
+    default: sbom = JSON.stringify(generateCycloneDx(deps, info), null, 2);
+  }
+
+  if (options.output) {
+    await writeFile(resolve(cwd, options.output), sbom.endsWith('\n') ? sbom : `${sbom}\n`, 'utf-8');
+    console.log(chalk.green(`  SBOM with ${deps.length} components written to ${options.output}`));
   } else {
-    console.log(JSON.stringify(generateCycloneDx(deps), null, 2));
+    console.log(sbom);
   }
 
   return ExitCode.Success;
 }
 
-function generateCycloneDx(deps: PackageDependency[]): object {
+// ── Components ─────────────────────────────────────────────────
+
+interface Hash {
+  /** CycloneDX algorithm name, such as `SHA-512`; SPDX drops the dash. */
+  alg: string;
+  /** Hex digest. */
+  content: string;
+}
+
+interface Component {
+  dep: PackageDependency;
+  ref: string;
+  purl: string;
+  hashes: Hash[];
+  /** Refs of the components this one depends on. */
+  dependsOn: string[];
+}
+
+const HASH_ALGORITHMS: Record<string, { alg: string; length: number }> = {
+  md5: { alg: 'MD5', length: 32 },
+  sha1: { alg: 'SHA-1', length: 40 },
+  sha256: { alg: 'SHA-256', length: 64 },
+  sha384: { alg: 'SHA-384', length: 96 },
+  sha512: { alg: 'SHA-512', length: 128 },
+};
+
+/**
+ * Digests in a lockfile integrity value: npm's Subresource Integrity
+ * (`sha512-<base64>`, possibly several) and the `sha256:<hex>` form of
+ * Cargo and Python lockfiles. go.sum `h1:` and yarn berry checksums hash a
+ * module tree or yarn's own archive rather than the published artifact, so
+ * they are left out.
+ */
+function parseHashes(integrity: string | undefined): Hash[] {
+  const hashes: Hash[] = [];
+  for (const token of integrity?.split(/\s+/) ?? []) {
+    const match = /^(\w+)(-|:)(.+)$/.exec(token);
+    const algorithm = match && HASH_ALGORITHMS[match[1].toLowerCase()];
+    if (!algorithm) continue;
+    const content = match[2] === '-' ? Buffer.from(match[3], 'base64').toString('hex') : match[3].toLowerCase();
+    if (content.length === algorithm.length && /^[0-9a-f]+$/.test(content)) hashes.push({ alg: algorithm.alg, content });
+  }
+  return hashes;
+}
+
+function toComponents(deps: PackageDependency[]): Component[] {
+  const byRef = new Map<string, Component>();
+  for (const dep of deps) {
+    const ref = `${dep.ecosystem}/${packageKey(dep.name, dep.version)}`;
+    if (!byRef.has(ref)) byRef.set(ref, { dep, ref, purl: toPurl(dep), hashes: parseHashes(dep.integrity), dependsOn: [] });
+  }
+  for (const component of byRef.values()) {
+    component.dependsOn = [...new Set((component.dep.dependencies ?? [])
+      .map(key => `${component.dep.ecosystem}/${key}`)
+      .filter(ref => byRef.has(ref)))];
+  }
+  return [...byRef.values()];
+}
+
+/** Components the project declares itself, which the dependency graph hangs from. */
+function directRefs(components: Component[]): string[] {
+  return components.filter(c => !c.dep.transitive).map(c => c.ref);
+}
+
+/** Whether a license string is an SPDX expression rather than free text such as `SEE LICENSE IN LICENSE.md`. */
+function isSpdxExpression(license: string): boolean {
+  const tokens = license.replace(/[()]/g, ' ').trim().split(/\s+/);
+  return tokens.length % 2 === 1 && tokens.every((token, i) => i % 2 === 1
+    ? ['AND', 'OR', 'WITH'].includes(token)
+    : /^(LicenseRef-)?[A-Za-z0-9.-]+\+?$/.test(token) && !['UNLICENSED', 'UNKNOWN'].includes(token));
+}
+
+function toPurl(dep: PackageDependency): string {
+  const version = dep.version ? `@${dep.version}` : '';
+  switch (dep.ecosystem) {
+    case 'npm': return `pkg:npm/${dep.name.replace('@', '%40')}${version}`;
+    case 'Go': return `pkg:golang/${dep.name}${version}`;
+    case 'crates.io': return `pkg:cargo/${dep.name}${version}`;
+    case 'PyPI': return `pkg:pypi/${dep.name.toLowerCase()}${version}`;
+    case 'Maven': {
+      const [group, artifact] = dep.name.split(':');
+      return `pkg:maven/${group}/${artifact}${version}`;
+    }
+    default: return `pkg:generic/${dep.name}${version}`;
+  }
+}
+
+// ── CycloneDX ──────────────────────────────────────────────────
+
+const CYCLONEDX_XMLNS = 'http://cyclonedx.org/schema/bom/1.5';
+
+function rootRef(info: SbomInfo): string {
+  return `project/${packageKey(info.project.name, info.project.version ?? '')}`;
+}
+
+/** CycloneDX license choice: an SPDX expression, or a named license otherwise. */
+function cycloneDxLicenses(license: string | undefined): object[] | undefined {
+  if (!license) return undefined;
+  return isSpdxExpression(license) ? [{ expression: license }] : [{ license: { name: license } }];
+}
+
+/** CycloneDX 1.5 JSON. Dev-only dependencies get the `excluded` scope, meaning not needed at runtime. */
+export function generateCycloneDx(deps: PackageDependency[], info: SbomInfo): object {
+  const components = toComponents(deps);
+  const root = rootRef(info);
   return {
     bomFormat: 'CycloneDX',
     specVersion: '1.5',
+    serialNumber: `urn:uuid:${randomUUID()}`,
     version: 1,
     metadata: {
       timestamp: new Date().toISOString(),
-      tools: [{ vendor: 'archguardian', name: 'archguardian', version: '1.1.0' }],
+      tools: { components: [{ type: 'application', author: 'archguardian', name: 'archguardian', version: info.toolVersion }] },
+      component: {
+        type: 'application',
+        'bom-ref': root,
+        name: info.project.name,
+        ...(info.project.version && { version: info.project.version }),
+        ...(info.project.license && { licenses: cycloneDxLicenses(info.project.license) }),
+      },
     },
-    components: deps.map(dep => ({
+    components: components.map(({ dep, ref, purl, hashes }) => ({
       type: 'library',
+      'bom-ref': ref,
       name: dep.name,
-      version: dep.version,
-      purl: toPurl(dep),
-      'bom-ref': `${dep.ecosystem}/${dep.name}@${dep.version}`,
+      ...(dep.version && { version: dep.version }),
+      scope: dep.dev ? 'excluded' : 'required',
+      ...(hashes.length > 0 && { hashes }),
+      ...(dep.license && { licenses: cycloneDxLicenses(dep.license) }),
+      purl,
     })),
+    dependencies: [
+      { ref: root, dependsOn: directRefs(components) },
+      ...components.filter(c => c.dependsOn.length > 0).map(c => ({ ref: c.ref, dependsOn: c.dependsOn })),
+    ],
   };
 }
 
-function generateSpdx(deps: PackageDependency[]): object {
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function xmlLicenses(license: string | undefined, indent: string): string[] {
+  if (!license) return [];
+  const choice = isSpdxExpression(license)
+    ? `<expression>${escapeXml(license)}</expression>`
+    : `<license><name>${escapeXml(license)}</name></license>`;
+  return [`${indent}<licenses>${choice}</licenses>`];
+}
+
+/** CycloneDX 1.5 XML, with the same content as {@link generateCycloneDx}. Elements follow the schema's sequence order. */
+export function generateCycloneDxXml(deps: PackageDependency[], info: SbomInfo): string {
+  const components = toComponents(deps);
+  const root = rootRef(info);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<bom xmlns="${CYCLONEDX_XMLNS}" serialNumber="urn:uuid:${randomUUID()}" version="1">`,
+    '  <metadata>',
+    `    <timestamp>${new Date().toISOString()}</timestamp>`,
+    '    <tools>',
+    '      <components>',
+    '        <component type="application">',
+    '          <author>archguardian</author>',
+    '          <name>archguardian</name>',
+    `          <version>${escapeXml(info.toolVersion)}</version>`,
+    '        </component>',
+    '      </components>',
+    '    </tools>',
+    `    <component type="application" bom-ref="${escapeXml(root)}">`,
+    `      <name>${escapeXml(info.project.name)}</name>`,
+    ...(info.project.version ? [`      <version>${escapeXml(info.project.version)}</version>`] : []),
+    ...xmlLicenses(info.project.license, '      '),
+    '    </component>',
+    '  </metadata>',
+    '  <components>',
+  ];
+  for (const { dep, ref, purl, hashes } of components) {
+    lines.push(
+      `    <component type="library" bom-ref="${escapeXml(ref)}">`,
+      `      <name>${escapeXml(dep.name)}</name>`,
+      ...(dep.version ? [`      <version>${escapeXml(dep.version)}</version>`] : []),
+      `      <scope>${dep.dev ? 'excluded' : 'required'}</scope>`,
+    );
+    if (hashes.length > 0) {
+      lines.push('      <hashes>', ...hashes.map(h => `        <hash alg="${h.alg}">${h.content}</hash>`), '      </hashes>');
+    }
+    lines.push(...xmlLicenses(dep.license, '      '), `      <purl>${escapeXml(purl)}</purl>`, '    </component>');
+  }
+  lines.push('  </components>', '  <dependencies>');
+  const graph = [
+    { ref: root, dependsOn: directRefs(components) },
+    ...components.filter(c => c.dependsOn.length > 0),
+  ];
+  for (const { ref, dependsOn } of graph) {
+    lines.push(
+      `    <dependency ref="${escapeXml(ref)}">`,
+      ...dependsOn.map(child => `      <dependency ref="${escapeXml(child)}"/>`),
+      '    </dependency>',
+    );
+  }
+  lines.push('  </dependencies>', '</bom>');
+  return lines.join('\n');
+}
+
+// ── SPDX ───────────────────────────────────────────────────────
+
+interface SpdxPackage {
+  SPDXID: string;
+  name: string;
+  versionInfo?: string;
+  primaryPackagePurpose: 'APPLICATION' | 'LIBRARY';
+  downloadLocation: string;
+  filesAnalyzed: false;
+  checksums?: Array<{ algorithm: string; checksumValue: string }>;
+  licenseConcluded: string;
+  licenseDeclared: string;
+  copyrightText: string;
+  externalRefs?: Array<{ referenceCategory: string; referenceType: string; referenceLocator: string }>;
+}
+
+interface SpdxRelationship {
+  spdxElementId: string;
+  relationshipType: 'DESCRIBES' | 'DEPENDS_ON' | 'DEV_DEPENDENCY_OF';
+  relatedSpdxElement: string;
+}
+
+interface SpdxDocument {
+  spdxVersion: 'SPDX-2.3';
+  dataLicense: 'CC0-1.0';
+  SPDXID: 'SPDXRef-DOCUMENT';
+  name: string;
+  documentNamespace: string;
+  creationInfo: { created: string; creators: string[] };
+  packages: SpdxPackage[];
+  relationships: SpdxRelationship[];
+}
+
+/**
+ * SPDX 2.3 JSON. The project's own dependencies hang off the described
+ * root package, dev-only ones through `DEV_DEPENDENCY_OF`.
+ */
+export function generateSpdx(deps: PackageDependency[], info: SbomInfo): SpdxDocument {
+  const components = toComponents(deps);
+  const ids = new Map(components.map((c, i) => [c.ref, `SPDXRef-Package-${i + 1}`]));
+  const rootId = 'SPDXRef-Project';
+  const declared = (license: string | undefined) => license && isSpdxExpression(license) ? license : 'NOASSERTION';
+
+  const relationships: SpdxRelationship[] = [
+    { spdxElementId: 'SPDXRef-DOCUMENT', relationshipType: 'DESCRIBES', relatedSpdxElement: rootId },
+  ];
+  for (const component of components) {
+    const id = ids.get(component.ref)!;
+    if (!component.dep.transitive) {
+      relationships.push(component.dep.dev
+        ? { spdxElementId: id, relationshipType: 'DEV_DEPENDENCY_OF', relatedSpdxElement: rootId }
+        : { spdxElementId: rootId, relationshipType: 'DEPENDS_ON', relatedSpdxElement: id });
+    }
+  }
+  for (const component of components) {
+    for (const child of component.dependsOn) {
+      relationships.push({ spdxElementId: ids.get(component.ref)!, relationshipType: 'DEPENDS_ON', relatedSpdxElement: ids.get(child)! });
+    }
+  }
+
   return {
     spdxVersion: 'SPDX-2.3',
     dataLicense: 'CC0-1.0',
     SPDXID: 'SPDXRef-DOCUMENT',
-    name: 'archguardian-sbom',
-    documentNamespace: `https://archguardian.dev/sbom/${Date.now()}`,
+    name: `${info.project.name}-sbom`,
+    documentNamespace: `https://archguardian.dev/sbom/${encodeURIComponent(info.project.name)}-${randomUUID()}`,
     creationInfo: {
-      created: new Date().toISOString(),
-      creators: ['Tool: archguardian-1.1.0'],
+      // SPDX timestamps have no fractional seconds
+      created: new Date().toISOString().replace(/\.\d+Z$/, 'Z'),
+      creators: [`Tool: archguardian-${info.toolVersion}`],
     },
-    packages: deps.map((dep, i) => ({
-      SPDXID: `SPDXRef-Package-${i}`,
-      name: dep.name,
-      versionInfo: dep.version,
-      downloadLocation: 'NOASSERTION',
-      externalRefs: [{
-        referenceCategory: 'PACKAGE-MANAGER',
-        referenceType: 'purl',
-        referenceLocator: toPurl(dep),
-      }],
-    })),
+    packages: [
+      {
+        SPDXID: rootId,
+        name: info.project.name,
+        ...(info.project.version && { versionInfo: info.project.version }),
+        primaryPackagePurpose: 'APPLICATION',
+        downloadLocation: 'NOASSERTION',
+        filesAnalyzed: false,
+        licenseConcluded: 'NOASSERTION',
+        licenseDeclared: declared(info.project.license),
+        copyrightText: 'NOASSERTION',
+      },
+      ...components.map(({ dep, ref, purl, hashes }): SpdxPackage => ({
+        SPDXID: ids.get(ref)!,
+        name: dep.name,
+        ...(dep.version && { versionInfo: dep.version }),
+        primaryPackagePurpose: 'LIBRARY',
+        downloadLocation: 'NOASSERTION',
+        filesAnalyzed: false,
+        ...(hashes.length > 0 && { checksums: hashes.map(h => ({ algorithm: h.alg.replace('-', ''), checksumValue: h.content })) }),
+        licenseConcluded: 'NOASSERTION',
+        licenseDeclared: declared(dep.license),
+        copyrightText: 'NOASSERTION',
+        externalRefs: [{ referenceCategory: 'PACKAGE-MANAGER', referenceType: 'purl', referenceLocator: purl }],
+      })),
+    ],
+    relationships,
   };
 }
 
-function toPurl(dep: PackageDependency): string {
-  switch (dep.ecosystem) {
-    case 'npm': return `pkg:npm/${dep.name.replace('@', '%40')}@${dep.version}`;
-    case 'Go': return `pkg:golang/${dep.name}@${dep.version}`;
-    case 'crates.io': return `pkg:cargo/${dep.name}@${dep.version}`;
-    case 'Maven': {
-      const [group, artifact] = dep.name.split(':');
-      return `pkg:maven/${group}/${artifact}@${dep.version}`;
+/** SPDX 2.3 tag-value, with the same content as {@link generateSpdx}. */
+export function generateSpdxTagValue(deps: PackageDependency[], info: SbomInfo): string {
+  const document = generateSpdx(deps, info);
+  const lines = [
+    `SPDXVersion: ${document.spdxVersion}`,
+    `DataLicense: ${document.dataLicense}`,
+    `SPDXID: ${document.SPDXID}`,
+    `DocumentName: ${document.name}`,
+    `DocumentNamespace: ${document.documentNamespace}`,
+    ...document.creationInfo.creators.map(creator => `Creator: ${creator}`),
+    `Created: ${document.creationInfo.created}`,
+  ];
+  for (const pkg of document.packages) {
+    lines.push(
+      '',
+      `PackageName: ${pkg.name}`,
+      `SPDXID: ${pkg.SPDXID}`,
+      ...(pkg.versionInfo ? [`PackageVersion: ${pkg.versionInfo}`] : []),
+      `PrimaryPackagePurpose: ${pkg.primaryPackagePurpose}`,
+      `PackageDownloadLocation: ${pkg.downloadLocation}`,
+      `FilesAnalyzed: ${pkg.filesAnalyzed}`,
+      ...(pkg.checksums ?? []).map(c => `PackageChecksum: ${c.algorithm}: ${c.checksumValue}`),
+      `PackageLicenseConcluded: ${pkg.licenseConcluded}`,
+      `PackageLicenseDeclared: ${pkg.licenseDeclared}`,
+      `PackageCopyrightText: ${pkg.copyrightText}`,
+      ...(pkg.externalRefs ?? []).map(r => `ExternalRef: ${r.referenceCategory} ${r.referenceType} ${r.referenceLocator}`),
+    );
+  }
+  lines.push('', ...document.relationships.map(r => `Relationship: ${r.spdxElementId} ${r.relationshipType} ${r.relatedSpdxElement}`));
+  return lines.join('\n');
+}
+
+// ── Project metadata ───────────────────────────────────────────
+
+async function readJson(path: string): Promise<Record<string, unknown> | null> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+/** A package.json `license`, including the legacy `{ type }` object form. */
+function manifestLicense(manifest: Record<string, unknown>): string | undefined {
+  const license = manifest.license as string | { type?: string } | undefined;
+  return typeof license === 'string' ? license : license?.type;
+}
+
+/** The project's name, version and license from its package.json, or its directory name. */
+async function readProject(projectRoot: string): Promise<SbomInfo['project']> {
+  const manifest = await readJson(join(projectRoot, 'package.json'));
+  return {
+    name: typeof manifest?.name === 'string' ? manifest.name : basename(projectRoot),
+    ...(typeof manifest?.version === 'string' && { version: manifest.version }),
+    ...(manifest && manifestLicense(manifest) && { license: manifestLicense(manifest) }),
+  };
+}
+
+/**
+ * Fill in licenses the lockfile does not record from installed packages:
+ * `node_modules/<name>/package.json` and crates unpacked in the Cargo
+ * registry. Only copies at the locked version count.
+ */
+async function addInstalledLicenses(projectRoot: string, deps: PackageDependency[]): Promise<void> {
+  const cargoRegistry = join(process.env.CARGO_HOME ?? join(homedir(), '.cargo'), 'registry', 'src');
+  let cargoIndexes: string[] | undefined;
+
+  for (const dep of deps) {
+    if (dep.license || !dep.version) continue;
+    if (dep.ecosystem === 'npm') {
+      const manifest = await readJson(join(projectRoot, 'node_modules', dep.name, 'package.json'));
+      const license = manifest?.version === dep.version ? manifestLicense(manifest) : undefined;
+      if (license) dep.license = license;
+    } else if (dep.ecosystem === 'crates.io') {
+      cargoIndexes ??= await readdir(cargoRegistry).catch(() => []);
+      for (const index of cargoIndexes) {
+        const manifest = await readFile(join(cargoRegistry, index, `${dep.name}-${dep.version}`, 'Cargo.toml'), 'utf-8').catch(() => '');
+        const license = /^license\s*=\s*"([^"]+)"/m.exec(manifest)?.[1];
+        if (license) {
+          dep.license = license;
+          break;
+        }
+      }
     }
-    default: return `pkg:generic/${dep.name}@${dep.version}`;
   }
 }
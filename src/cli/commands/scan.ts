@@ -1,28 +1,33 @@
 import { readFile } from 'node:fs/promises';
-import { join } from 'node:path';
+import { join, relative } from 'node:path';
 import chalk from 'chalk';
 import { loadConfig } from '../../core/config-loader.js';
-import { buildContext } from '../../core/context.js';
+import { buildContext, toScanFile } from '../../core/context.js';
 import { runPipeline } from '../../core/pipeline.js';
+import { shouldParseOnMainThread } from '../../core/worker-pool.js';
 import { getExitCode } from '../../core/severity.js';
 import { isGitRepo, getGitRoot, getAllTrackedFiles } from '../../utils/git.js';
 import { formatSummary } from '../output/terminal.js';
 import { formatJson } from '../output/json.js';
 import { formatSarif } from '../output/sarif.js';
 import { createAnalyzers } from '../analyzer-factory.js';
+import { getPluginFormatter } from '../../plugins/loader.js';
 import { ExitCode, type FileInfo } from '../../core/types.js';
 import { detectLanguage } from '../../core/diff-parser.js';
 import { recordMetrics } from '../../metrics/tracker.js';
 import { handleBaseline } from '../../core/baseline.js';
 import { evaluateQualityGate } from '../../core/quality-gate.js';
+import { applyRatchet } from '../../core/ratchet.js';
 
 export interface ScanOptions {
-  format?: 'terminal' | 'json' | 'sarif';
+  /** terminal, json, sarif, or a formatter registered by a plugin. */
+  format?: string;
   updateBaseline?: boolean;
   baseline?: string;
   qualityGate?: boolean;
   ci?: 'github';
   postToPr?: boolean;
+  cache?: boolean;
 }
 
 export async function scanCommand(options: ScanOptions = {}): Promise<number> {
@@ -53,27 +58,11 @@ export async function scanCommand(options: ScanOptions = {}): Promise<number> {
   // Build FileInfo for each file (treating all lines as "added" for full scan)
   const files: FileInfo[] = [];
   for (const filePath of allFiles) {
-    const language = detectLanguage(filePath);
-    if (!language) continue;
+    if (!detectLanguage(filePath)) continue;
 
     try {
       const content = await readFile(join(projectRoot, filePath), 'utf-8');
-      const lines = content.split('\n');
-      const addedLines = lines.map((line, i) => ({
-        lineNumber: i + 1,
-        content: line,
-        type: 'added' as const,
-      }));
-
-      files.push({
-        path: filePath,
-        language,
-        status: 'added',
-        hunks: [],
-        addedLines,
-        removedLines: [],
-        content,
-      });
+      files.push(toScanFile(filePath, content)!);
     } catch {
       // Skip unreadable files
     }
@@ -86,12 +75,32 @@ export async function scanCommand(options: ScanOptions = {}): Promise<number> {
 
   console.log(chalk.gray(`  Found ${files.length} files to analyze...`));
 
-  // Build context
-  const context = await buildContext(files, config, projectRoot);
+  const analyzers = await createAnalyzers(config, projectRoot);
+  const builtInFormat = ['terminal', 'json', 'sarif'].includes(format);
+  const pluginFormatter = builtInFormat ? undefined : await getPluginFormatter(config, projectRoot, format);
+  if (!builtInFormat && !pluginFormatter) {
+    console.error(chalk.red(`Unknown output format '${format}'.`));
+    return ExitCode.ConfigError;
+  }
 
-  // Run pipeline
-  const analyzers = await createAnalyzers(config);
-  const summary = await runPipeline(context, analyzers);
+  let summary;
+  if (config.cache?.enabled && options.cache !== false) {
+    // Reuse cached findings for unchanged files
+    const { runIncrementalScan } = await import('../../core/scan-cache.js');
+    const result = await runIncrementalScan(files, config, projectRoot, analyzers);
+    summary = result.summary;
+    if (result.reusedFiles > 0) {
+      console.log(chalk.gray(`  Reused cached results for ${result.reusedFiles} unchanged files`));
+    }
+  } else {
+    // Build context (parsing is left to the worker pool when it runs every analyzer)
+    const context = await buildContext(files, config, projectRoot, {
+      parse: shouldParseOnMainThread(files, analyzers, config),
+    });
+
+    // Run pipeline
+    summary = await runPipeline(context, analyzers);
+  }
 
   // Handle baseline (save or filter)
   const baselineResult = await handleBaseline(summary, projectRoot, 'scan', {
@@ -102,13 +111,18 @@ export async function scanCommand(options: ScanOptions = {}): Promise<number> {
     console.log(chalk.green(`  Baseline saved to ${baselineResult.savedPath}`));
   }
 
-  // Record metrics
-  await recordMetrics(projectRoot, summary, 'scan');
-
-  // Evaluate quality gate if enabled
+  // Evaluate quality gate if enabled (before recording metrics, so the ratchet sees the previous run)
   let gateExitCode: number | null = null;
   if (options.qualityGate && config.qualityGate) {
     const gateResult = evaluateQualityGate(summary, config.qualityGate);
+    if (config.qualityGate.ratchet) {
+      const ratchet = await applyRatchet(summary, config.qualityGate.ratchet, projectRoot);
+      gateResult.failures.push(...ratchet.failures);
+      gateResult.passed = gateResult.passed && ratchet.failures.length === 0;
+      if (ratchet.updated) {
+        console.log(chalk.green(`  Ratchet reference updated: ${relative(projectRoot, ratchet.referencePath)}`));
+      }
+    }
     if (!gateResult.passed) {
       gateExitCode = ExitCode.QualityGateFailure;
       for (const failure of gateResult.failures) {
@@ -117,6 +131,9 @@ export async function scanCommand(options: ScanOptions = {}): Promise<number> {
     }
   }
 
+  // Record metrics
+  await recordMetrics(projectRoot, summary, 'scan');
+
   // Determine exit code
   const exitCode = gateExitCode ?? getExitCode(summary, config.severity);
 
@@ -142,6 +159,8 @@ export async function scanCommand(options: ScanOptions = {}): Promise<number> {
     console.log(formatJson(summary));
   } else if (format === 'sarif') {
     console.log(formatSarif(summary));
+  } else if (pluginFormatter) {
+    console.log(pluginFormatter(summary, exitCode));
   } else {
     console.log(formatSummary(summary, exitCode));
   }
@@ -5,7 +5,8 @@ import { loadConfig } from '../../core/config-loader.js';
 import { buildContext } from '../../core/context.js';
 import { isGitRepo, getGitRoot, getStagedDiff, getAllTrackedFiles } from '../../utils/git.js';
 import { parseDiff, detectLanguage } from '../../core/diff-parser.js';
-import { buildDependencyGraph, getImpactedFiles } from '../../core/dependency-graph.js';
+import { buildDependencyGraph, findStronglyConnectedComponents, getImpactedFiles } from '../../core/dependency-graph.js';
+import { loadModuleResolution } from '../../core/module-resolution.js';
 import { generateImpactDiagram, generateArchitectureDiagram } from '../../core/mermaid.js';
 import { ExitCode, type FileInfo } from '../../core/types.js';
 
@@ -68,7 +69,7 @@ export async function summarizeCommand(options: SummarizeOptions = {}): Promise<
   }
 
   const context = await buildContext(allFileInfos, config, projectRoot);
-  const graph = buildDependencyGraph(context.parsedFiles, projectRoot);
+  const graph = buildDependencyGraph(context.parsedFiles, projectRoot, await loadModuleResolution(projectRoot));
   const changedPaths = changedFileInfos.map(f => f.path);
 
   const diagram = generateImpactDiagram(changedPaths, graph, 2);
@@ -99,7 +100,7 @@ export async function summarizeCommand(options: SummarizeOptions = {}): Promise<
     if (prContext) {
       const { runPipeline } = await import('../../core/pipeline.js');
       const { createAnalyzers } = await import('../analyzer-factory.js');
-      const analyzers = await createAnalyzers(config);
+      const analyzers = await createAnalyzers(config, projectRoot);
       const summary = await runPipeline(context, analyzers);
       await postPrSummary(summary, prContext, { diagram });
     }
@@ -144,7 +145,7 @@ export async function diagramCommand(options: DiagramOptions = {}): Promise<numb
   }
 
   const context = await buildContext(allFileInfos, config, projectRoot);
-  const graph = buildDependencyGraph(context.parsedFiles, projectRoot);
+  const graph = buildDependencyGraph(context.parsedFiles, projectRoot, await loadModuleResolution(projectRoot));
 
   if (format === 'mermaid') {
     const diagram = generateArchitectureDiagram(graph, options.scope);
@@ -164,6 +165,15 @@ export async function diagramCommand(options: DiagramOptions = {}): Promise<numb
         console.log(`    used by: ${node.importedBy.join(', ')}`);
       }
     }
+
+    const cycles = findStronglyConnectedComponents(graph)
+      .filter(component => !options.scope || component.some(path => path.includes(options.scope!)));
+    if (cycles.length > 0) {
+      console.log(chalk.bold.red('\n  Circular Dependencies\n'));
+      for (const component of cycles) {
+        console.log(`  ${chalk.red('↻')} ${component.join(', ')}`);
+      }
+    }
     console.log('');
   }
 
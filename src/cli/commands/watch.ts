@@ -0,0 +1,212 @@
+import { readdirSync, statSync, watch, type FSWatcher } from 'node:fs';
+import { join, sep } from 'node:path';
+import chalk from 'chalk';
+import { loadConfig } from '../../core/config-loader.js';
+import { WatchSession, type WatchDelta } from '../../core/watch-session.js';
+import { isGitRepo, getGitRoot, getAllTrackedFiles } from '../../utils/git.js';
+import { formatFinding } from '../output/terminal.js';
+import { createAnalyzers } from '../analyzer-factory.js';
+import { ExitCode, type Finding } from '../../core/types.js';
+import { logger } from '../../utils/logger.js';
+
+export interface WatchOptions {
+  format?: 'terminal' | 'json';
+  /** Quiet period after the last file event before re-analyzing, in ms. */
+  debounce?: number;
+}
+
+const DEFAULT_DEBOUNCE_MS = 100;
+
+/** Directories whose churn never affects findings. */
+const IGNORED_DIRS = ['.git', 'node_modules', '.archguard', 'dist'];
+
+function isIgnored(path: string): boolean {
+  return IGNORED_DIRS.some(dir => path === dir || path.startsWith(`${dir}/`));
+}
+
+/**
+ * Report changed paths under `root`, relative and with forward slashes.
+ * Recursive `fs.watch` is unavailable on Linux before Node 20, so there
+ * every directory gets its own watcher, and directories created later are
+ * watched as they appear. Throws when `root` cannot be watched at all.
+ */
+function watchTree(root: string, onChange: (path: string) => void, onError: (err: Error) => void): { close(): void } {
+  try {
+    const watcher = watch(root, { recursive: true }, (_event, filename) => {
+      if (filename) onChange(filename.split(sep).join('/'));
+    });
+    watcher.on('error', onError);
+    return watcher;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw err;
+  }
+
+  const watchers = new Map<string, FSWatcher>();
+  const unwatch = (dir: string) => {
+    for (const [path, watcher] of watchers) {
+      if (path === dir || path.startsWith(`${dir}/`)) {
+        watcher.close();
+        watchers.delete(path);
+      }
+    }
+  };
+  const add = (dir: string) => {
+    if (watchers.has(dir) || isIgnored(dir)) return;
+    const watcher = watch(join(root, dir), (event, filename) => {
+      if (!filename) return;
+      const path = dir ? `${dir}/${filename}` : filename;
+      // A rename creates or removes an entry, which may be a directory
+      if (event === 'rename') sync(path);
+      onChange(path);
+    });
+    watcher.on('error', () => unwatch(dir));
+    watchers.set(dir, watcher);
+    for (const entry of readdirSync(join(root, dir), { withFileTypes: true })) {
+      if (entry.isDirectory()) sync(dir ? `${dir}/${entry.name}` : entry.name);
+    }
+  };
+  const sync = (path: string) => {
+    try {
+      if (statSync(join(root, path)).isDirectory()) add(path);
+    } catch {
+      unwatch(path);
+    }
+  };
+
+  add('');
+  return { close: () => unwatch('') };
+}
+
+function toJsonFinding(finding: Finding) {
+  return {
+    ruleId: finding.ruleId,
+    analyzer: finding.analyzer,
+    severity: finding.severity,
+    message: finding.message,
+    file: finding.file,
+    line: finding.line,
+    ...(finding.suggestion ? { suggestion: finding.suggestion } : {}),
+  };
+}
+
+function printDelta(delta: WatchDelta, total: number, format: 'terminal' | 'json'): void {
+  if (format === 'json') {
+    // One JSON object per line so editors can stream updates
+    console.log(JSON.stringify({
+      changedFiles: delta.changedFiles,
+      added: delta.added.map(toJsonFinding),
+      resolved: delta.resolved.map(toJsonFinding),
+      totalFindings: total,
+      duration: Math.round(delta.summary.duration),
+    }));
+    return;
+  }
+
+  const files = delta.changedFiles.join(', ');
+  console.log(chalk.gray(`\n  ${files} changed (${delta.summary.duration.toFixed(0)}ms)`));
+  if (delta.added.length === 0 && delta.resolved.length === 0) {
+    console.log(chalk.gray('  No new or resolved findings.'));
+  }
+  for (const finding of delta.added) {
+    console.log(chalk.red('  + new') + '\n' + formatFinding(finding));
+  }
+  for (const finding of delta.resolved) {
+    console.log(chalk.green('  - resolved') + '\n' + formatFinding(finding));
+  }
+  console.log(chalk.gray(`  ${total} finding${total !== 1 ? 's' : ''} in total`));
+}
+
+/**
+ * Analyze the project once, then keep parsed files in memory and re-analyze
+ * only what each saved change affects, printing new and resolved findings.
+ * Runs until interrupted.
+ */
+export async function watchCommand(options: WatchOptions = {}): Promise<number> {
+  const format = options.format ?? 'terminal';
+  const debounceMs = options.debounce ?? DEFAULT_DEBOUNCE_MS;
+  const cwd = process.cwd();
+
+  if (!Number.isInteger(debounceMs) || debounceMs < 0) {
+    console.error(chalk.red('Invalid --debounce; expected a non-negative whole number of milliseconds.'));
+    return ExitCode.ConfigError;
+  }
+
+  if (!await isGitRepo(cwd)) {
+    console.error(chalk.red('Not a git repository.'));
+    return ExitCode.ConfigError;
+  }
+
+  const projectRoot = await getGitRoot(cwd);
+
+  let config;
+  try {
+    config = await loadConfig(projectRoot);
+  } catch (err) {
+    console.error(chalk.red((err as Error).message));
+    return ExitCode.ConfigError;
+  }
+
+  const session = new WatchSession(config, projectRoot, await createAnalyzers(config, projectRoot));
+  if (format === 'terminal') console.log(chalk.gray('  Analyzing project...'));
+  const summary = await session.start(await getAllTrackedFiles(projectRoot));
+  const initial = session.findings();
+
+  if (format === 'json') {
+    console.log(JSON.stringify({
+      changedFiles: [],
+      added: initial.map(toJsonFinding),
+      resolved: [],
+      totalFindings: initial.length,
+      duration: Math.round(summary.duration),
+    }));
+  } else {
+    for (const finding of initial) console.log(formatFinding(finding));
+    console.log(chalk.gray(`  ${initial.length} findings in ${summary.totalFiles} files. Watching for changes...`));
+  }
+
+  // Changes are batched per quiet period and analyzed one batch at a time
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    const paths = [...pending];
+    pending.clear();
+    running = running.then(async () => {
+      try {
+        const delta = await session.update(paths);
+        if (delta) printDelta(delta, session.findings().length, format);
+      } catch (err) {
+        logger.error(`Re-analysis failed: ${(err as Error).message}`);
+      }
+    });
+  };
+
+  return new Promise<number>((resolve) => {
+    const onChange = (path: string) => {
+      if (isIgnored(path)) return;
+      pending.add(path);
+      clearTimeout(timer);
+      timer = setTimeout(flush, debounceMs);
+    };
+    const onError = (err: Error) => {
+      console.error(chalk.red(`Watcher error: ${err.message}`));
+      resolve(ExitCode.ConfigError);
+    };
+
+    let watcher: { close(): void };
+    try {
+      watcher = watchTree(projectRoot, onChange, onError);
+    } catch (err) {
+      console.error(chalk.red(`Cannot watch ${projectRoot} for changes: ${(err as Error).message}`));
+      resolve(ExitCode.ConfigError);
+      return;
+    }
+
+    process.once('SIGINT', () => {
+      watcher.close();
+      clearTimeout(timer);
+      void running.then(() => resolve(ExitCode.Success));
+    });
+  });
+}
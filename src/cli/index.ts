@@ -8,6 +8,7 @@ import { metricsCommand } from './commands/metrics.js';
 import { dashboardCommand } from './commands/dashboard.js';
 import { fixCommand } from './commands/fix.js';
 import { dismissCommand } from './commands/dismiss.js';
+import { teardownPlugins } from '../plugins/loader.js';
 import { setLogLevel, LogLevel } from '../utils/logger.js';
 
 const program = new Command();
@@ -21,6 +22,9 @@ program
     if (thisCommand.opts().verbose) {
       setLogLevel(LogLevel.Debug);
     }
+  })
+  .hook('postAction', async () => {
+    await teardownPlugins();
   });
 
 program
@@ -34,13 +38,16 @@ program
 
 program
   .command('check')
-  .description('Analyze staged changes (pre-commit mode)')
-  .option('--format <format>', 'Output format (terminal, json, or sarif)', 'terminal')
+  .description('Analyze staged changes (pre-commit mode) or a commit range')
+  .option('--format <format>', 'Output format (terminal, json, sarif, or a plugin formatter)', 'terminal')
   .option('--update-baseline', 'Save current findings as the baseline')
   .option('--baseline <path>', 'Custom baseline file path')
   .option('--quality-gate', 'Enforce quality gate thresholds')
   .option('--ci <provider>', 'CI mode (github)')
   .option('--post-to-pr', 'Post findings as PR review comments')
+  .option('--base <ref>', 'Check changes between this ref and --head instead of staged changes')
+  .option('--head <ref>', 'Head ref for --base (default: HEAD)')
+  .option('--since <commit>', 'Check changes since this commit, including uncommitted ones')
   .action(async (options) => {
     const code = await checkCommand({
       format: options.format,
@@ -49,6 +56,9 @@ program
       qualityGate: options.qualityGate,
       ci: options.ci,
       postToPr: options.postToPr,
+      base: options.base,
+      head: options.head,
+      since: options.since,
     });
     process.exitCode = code;
   });
@@ -56,12 +66,13 @@ program
 program
   .command('scan')
   .description('Analyze the full project')
-  .option('--format <format>', 'Output format (terminal, json, or sarif)', 'terminal')
+  .option('--format <format>', 'Output format (terminal, json, sarif, or a plugin formatter)', 'terminal')
   .option('--update-baseline', 'Save current findings as the baseline')
   .option('--baseline <path>', 'Custom baseline file path')
   .option('--quality-gate', 'Enforce quality gate thresholds')
   .option('--ci <provider>', 'CI mode (github)')
   .option('--post-to-pr', 'Post findings as PR review comments')
+  .option('--no-cache', 'Ignore the incremental scan cache')
   .action(async (options) => {
     const code = await scanCommand({
       format: options.format,
@@ -70,6 +81,7 @@ program
       qualityGate: options.qualityGate,
       ci: options.ci,
       postToPr: options.postToPr,
+      cache: options.cache,
     });
     process.exitCode = code;
   });
@@ -110,6 +122,74 @@ program
     process.exitCode = code;
   });
 
+program
+  .command('watch')
+  .description('Re-analyze files as they change and print new or resolved findings')
+  .option('--format <format>', 'Output format (terminal or json)', 'terminal')
+  .option('--debounce <ms>', 'Wait this long after the last change before analyzing', '100')
+  .action(async (options) => {
+    const { watchCommand } = await import('./commands/watch.js');
+    const code = await watchCommand({ format: options.format, debounce: Number(options.debounce) });
+    process.exitCode = code;
+  });
+
+program
+  .command('lsp')
+  .description('Start a Language Server Protocol server on stdio')
+  .option('--stdio', 'Use stdio transport (the default; accepted for editor compatibility)')
+  .action(async () => {
+    const { lspCommand } = await import('./commands/lsp.js');
+    const code = await lspCommand();
+    process.exitCode = code;
+  });
+
+const baseline = program
+  .command('baseline')
+  .description('Manage the findings baseline');
+
+baseline
+  .command('status')
+  .description('Show how much baselined debt was fixed and where the rest is')
+  .option('--baseline <path>', 'Custom baseline file path')
+  .option('--json', 'Output status as JSON')
+  .action(async (options) => {
+    const { baselineStatusCommand } = await import('./commands/baseline.js');
+    const code = await baselineStatusCommand({ baseline: options.baseline, json: options.json });
+    process.exitCode = code;
+  });
+
+baseline
+  .command('diff')
+  .description('List baselined findings that were fixed, new findings, and expired entries')
+  .option('--baseline <path>', 'Custom baseline file path')
+  .option('--json', 'Output the diff as JSON')
+  .action(async (options) => {
+    const { baselineDiffCommand } = await import('./commands/baseline.js');
+    const code = await baselineDiffCommand({ baseline: options.baseline, json: options.json });
+    process.exitCode = code;
+  });
+
+baseline
+  .command('prune')
+  .description('Remove baseline entries whose findings have been fixed')
+  .option('--baseline <path>', 'Custom baseline file path')
+  .option('--json', 'Output the removed entries as JSON')
+  .action(async (options) => {
+    const { baselinePruneCommand } = await import('./commands/baseline.js');
+    const code = await baselinePruneCommand({ baseline: options.baseline, json: options.json });
+    process.exitCode = code;
+  });
+
+baseline
+  .command('merge <paths...>')
+  .description('Merge baseline files, e.g. one per workspace, into one')
+  .option('--baseline <path>', 'File to write (default: .archguard-baseline.json)')
+  .action(async (paths, options) => {
+    const { baselineMergeCommand } = await import('./commands/baseline.js');
+    const code = await baselineMergeCommand(paths, { baseline: options.baseline });
+    process.exitCode = code;
+  });
+
 program
   .command('fix')
   .description('Auto-fix simple findings')
@@ -157,11 +237,27 @@ program
 program
   .command('sbom')
   .description('Generate Software Bill of Materials')
-  .option('--format <format>', 'Output format (cyclonedx or spdx)', 'cyclonedx')
+  .option('--format <format>', 'Output format (cyclonedx, cyclonedx-xml, spdx or spdx-tag)', 'cyclonedx')
+  .option('--output <path>', 'Write the SBOM to a file instead of stdout')
   .action(async (options) => {
     const { sbomCommand } = await import('./commands/sbom.js');
-    const code = await sbomCommand({ format: options.format });
+    const code = await sbomCommand({ format: options.format, output: options.output });
+    process.exitCode = code;
+  });
+
+const advisories = program
+  .command('advisories')
+  .description('Manage the offline vulnerability advisory database');
+
+advisories
+  .command('sync [sources...]')
+  .description('Import OSV advisories from export archives, directories or URLs (default: download for the project\'s ecosystems)')
+  .option('--mirror <url>', 'Base URL of an OSV export mirror serving <ecosystem>/all.zip')
+  .option('--ecosystem <names...>', 'Ecosystems to download (npm, PyPI, Go, crates.io, Maven)')
+  .action(async (sources, options) => {
+    const { advisoriesSyncCommand } = await import('./commands/advisories.js');
+    const code = await advisoriesSyncCommand(sources, { mirror: options.mirror, ecosystem: options.ecosystem });
     process.exitCode = code;
   });
 
-program.parse();
+await program.parseAsync();
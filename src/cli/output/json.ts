@@ -1,9 +1,11 @@
-import type { AnalysisSummary } from '../../core/types.js';
+import type { AnalysisSummary, FlowStep } from '../../core/types.js';
 
 export interface JsonOutput {
   version: string;
   findings: JsonFinding[];
   summary: JsonSummary;
+  /** Analyzers that hit their deadline, with the files they did not analyze. */
+  incomplete?: JsonIncompleteAnalyzer[];
 }
 
 export interface JsonFinding {
@@ -14,6 +16,14 @@ export interface JsonFinding {
   file: string;
   line: number;
   suggestion?: string;
+  /** Source-to-sink steps of dataflow findings. */
+  flow?: FlowStep[];
+}
+
+export interface JsonIncompleteAnalyzer {
+  analyzer: string;
+  reason: string;
+  skippedFiles: string[];
 }
 
 export interface JsonSummary {
@@ -23,6 +33,7 @@ export interface JsonSummary {
   warnings: number;
   infos: number;
   duration: number;
+  skippedFiles?: string[];
 }
 
 export function formatJson(summary: AnalysisSummary): string {
@@ -41,6 +52,9 @@ export function formatJson(summary: AnalysisSummary): string {
       if (finding.suggestion) {
         entry.suggestion = finding.suggestion;
       }
+      if (finding.flow) {
+        entry.flow = finding.flow;
+      }
       findings.push(entry);
     }
   }
@@ -58,5 +72,17 @@ export function formatJson(summary: AnalysisSummary): string {
     },
   };
 
+  if (summary.skippedFiles) {
+    output.summary.skippedFiles = summary.skippedFiles;
+  }
+  const incomplete = summary.analyzerResults.filter(r => r.timedOut).map(r => ({
+    analyzer: r.analyzer,
+    reason: r.error ?? 'timed out',
+    skippedFiles: r.skippedFiles ?? [],
+  }));
+  if (incomplete.length > 0) {
+    output.incomplete = incomplete;
+  }
+
   return JSON.stringify(output, null, 2);
 }
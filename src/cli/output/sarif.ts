@@ -20,11 +20,20 @@ interface SarifRegion {
 
 interface SarifPhysicalLocation {
   artifactLocation: SarifArtifactLocation;
-  region: SarifRegion;
+  region?: SarifRegion;
 }
 
 interface SarifLocation {
   physicalLocation: SarifPhysicalLocation;
+  message?: SarifMessage;
+}
+
+interface SarifThreadFlowLocation {
+  location: SarifLocation;
+}
+
+interface SarifCodeFlow {
+  threadFlows: Array<{ locations: SarifThreadFlowLocation[] }>;
 }
 
 interface SarifResult {
@@ -32,6 +41,7 @@ interface SarifResult {
   level: 'error' | 'warning' | 'note';
   message: SarifMessage;
   locations: SarifLocation[];
+  codeFlows?: SarifCodeFlow[];
 }
 
 interface SarifRuleDescriptor {
@@ -50,8 +60,21 @@ interface SarifTool {
   driver: SarifToolDriver;
 }
 
+interface SarifNotification {
+  level: 'error' | 'warning' | 'note';
+  message: SarifMessage;
+  descriptor: { id: string };
+  locations?: SarifLocation[];
+}
+
+interface SarifInvocation {
+  executionSuccessful: boolean;
+  toolExecutionNotifications: SarifNotification[];
+}
+
 interface SarifRun {
   tool: SarifTool;
+  invocations?: SarifInvocation[];
   results: SarifResult[];
 }
 
@@ -111,7 +134,7 @@ export function formatSarif(summary: AnalysisSummary): string {
       region.endColumn = finding.endColumn;
     }
 
-    return {
+    const result: SarifResult = {
       ruleId: finding.ruleId,
       level: toSarifLevel(finding.severity),
       message: { text: finding.message },
@@ -124,8 +147,40 @@ export function formatSarif(summary: AnalysisSummary): string {
         },
       ],
     };
+
+    // Dataflow findings carry their source-to-sink path as a single thread flow
+    if (finding.flow && finding.flow.length > 0) {
+      result.codeFlows = [{
+        threadFlows: [{
+          locations: finding.flow.map(step => ({
+            location: {
+              physicalLocation: {
+                artifactLocation: { uri: step.file },
+                region: { startLine: step.line },
+              },
+              message: { text: step.message },
+            },
+          })),
+        }],
+      }];
+    }
+
+    return result;
   });
 
+  // Analyzers that hit their deadline are reported as notifications listing the
+  // files they did not analyze, so consumers know the results are partial
+  const notifications: SarifNotification[] = summary.analyzerResults
+    .filter(r => r.timedOut)
+    .map(r => ({
+      level: 'warning',
+      message: { text: `Analyzer '${r.analyzer}' timed out: ${r.error ?? 'deadline exceeded'}` },
+      descriptor: { id: 'archguard/analyzer-timeout' },
+      locations: (r.skippedFiles ?? []).map(file => ({
+        physicalLocation: { artifactLocation: { uri: file } },
+      })),
+    }));
+
   const sarifLog: SarifLog = {
     $schema:
       'https://raw.githubusercontent.com/oasis-tcs/sarif-spec/master/Schemata/sarif-schema-2.1.0.json',
@@ -139,6 +194,9 @@ export function formatSarif(summary: AnalysisSummary): string {
             rules: Array.from(rulesMap.values()),
           },
         },
+        ...(notifications.length > 0 ? {
+          invocations: [{ executionSuccessful: true, toolExecutionNotifications: notifications }],
+        } : {}),
         results,
       },
     ],
@@ -14,6 +14,8 @@ const SEVERITY_COLOR: Record<Severity, (s: string) => string> = {
   [Severity.Info]: chalk.blue,
 };
 
+const MAX_SKIPPED_LISTED = 10;
+
 export function formatFinding(finding: Finding): string {
   const icon = SEVERITY_ICON[finding.severity];
   const color = SEVERITY_COLOR[finding.severity];
@@ -28,6 +30,12 @@ export function formatFinding(finding: Finding): string {
   if (finding.suggestion) {
     output += `\n    ${chalk.cyan('suggestion:')} ${finding.suggestion}`;
   }
+  if (finding.flow && finding.flow.length > 0) {
+    output += `\n    ${chalk.magenta('flow:')}`;
+    finding.flow.forEach((step, i) => {
+      output += `\n      ${chalk.gray(`${i + 1}.`)} ${chalk.gray(`${step.file}:${step.line}`)} ${step.message}`;
+    });
+  }
 
   return output;
 }
@@ -78,6 +86,18 @@ export function formatSummary(summary: AnalysisSummary, exitCode: ExitCode): str
 
   lines.push(`  ${parts.join(', ')} in ${summary.totalFiles} file${summary.totalFiles !== 1 ? 's' : ''} (${summary.duration.toFixed(0)}ms)`);
 
+  const timedOut = summary.analyzerResults.filter(r => r.timedOut);
+  if (timedOut.length > 0) {
+    const skipped = summary.skippedFiles ?? [];
+    lines.push(chalk.yellow(`  ${timedOut.map(r => r.analyzer).join(', ')} timed out; ${skipped.length} file${skipped.length !== 1 ? 's' : ''} not fully analyzed:`));
+    for (const file of skipped.slice(0, MAX_SKIPPED_LISTED)) {
+      lines.push(chalk.gray(`    ${file}`));
+    }
+    if (skipped.length > MAX_SKIPPED_LISTED) {
+      lines.push(chalk.gray(`    ...and ${skipped.length - MAX_SKIPPED_LISTED} more`));
+    }
+  }
+
   if (exitCode !== ExitCode.Success) {
     lines.push('');
     lines.push(chalk.red.bold('  Commit blocked. Fix the issues above and try again.'));
@@ -91,5 +111,8 @@ export function formatSummary(summary: AnalysisSummary, exitCode: ExitCode): str
 
 export function formatAnalyzerError(result: AnalyzerResult): string {
   if (!result.error) return '';
+  if (result.timedOut) {
+    return chalk.yellow(`  Analyzer '${result.analyzer}' timed out: ${result.error}`);
+  }
   return chalk.red(`  Analyzer '${result.analyzer}' failed: ${result.error}`);
 }
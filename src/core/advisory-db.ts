@@ -0,0 +1,271 @@
+import { readFile, writeFile, mkdir, readdir, rm, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createHash } from 'node:crypto';
+import { compareVersions } from './versions.js';
+import { readZip } from '../utils/zip.js';
+
+/** Where `advisories sync` writes the database, relative to the project root. */
+export const DEFAULT_ADVISORY_DIR = '.archguard/advisories';
+
+/** The public bucket of OSV export archives, laid out as `<ecosystem>/all.zip`. */
+export const OSV_EXPORT_URL = 'https://osv-vulnerabilities.storage.googleapis.com';
+
+/** Ecosystems the dependency collector reports, and so the only ones worth storing. */
+export const ADVISORY_ECOSYSTEMS = ['npm', 'PyPI', 'Go', 'crates.io', 'Maven'];
+
+const INDEX_FILE = 'index.json';
+const DATABASE_VERSION = 1;
+const DOWNLOAD_TIMEOUT_MS = 300_000;
+
+export interface OsvEvent {
+  introduced?: string;
+  fixed?: string;
+  last_affected?: string;
+  limit?: string;
+}
+
+export interface OsvRange {
+  type: string;
+  events: OsvEvent[];
+}
+
+/** The parts of an OSV record the scanner needs; see https://ossf.github.io/osv-schema/. */
+export interface OsvRecord {
+  id: string;
+  summary?: string;
+  details?: string;
+  aliases?: string[];
+  modified?: string;
+  withdrawn?: string;
+  affected?: Array<{
+    package?: { name: string; ecosystem: string };
+    ranges?: OsvRange[];
+    versions?: string[];
+  }>;
+}
+
+/** An advisory as stored for one package: its affected ranges and versions for that package only. */
+export interface StoredAdvisory {
+  id: string;
+  summary: string;
+  aliases?: string[];
+  affected: Array<{ ranges: OsvRange[]; versions: string[] }>;
+}
+
+export interface AdvisoryIndex {
+  version: number;
+  syncedAt: string;
+  sources: string[];
+  ecosystems: Record<string, { advisories: number; packages: number }>;
+}
+
+/** Package names as OSV and the registries compare them. */
+function packageId(name: string, ecosystem: string): string {
+  switch (ecosystem) {
+    case 'PyPI': return name.toLowerCase().replace(/[-_.]+/g, '-');
+    case 'crates.io': return name.toLowerCase();
+    default: return name;
+  }
+}
+
+/** Packages are spread over 256 shard files per ecosystem so a lookup reads only the ones it needs. */
+function shardOf(id: string): string {
+  return createHash('sha1').update(id).digest('hex').slice(0, 2);
+}
+
+/**
+ * Whether `version` is affected: listed explicitly, or inside a SEMVER or
+ * ECOSYSTEM range. Range events are applied in version order, so the last
+ * `introduced`, `fixed` or `last_affected` at or below the version decides.
+ */
+export function isAffected(version: string, affected: StoredAdvisory['affected'][number], ecosystem: string): boolean {
+  if (affected.versions.includes(version)) return true;
+  const compare = (a: string, b: string) => compareVersions(a, b, ecosystem);
+  const eventVersion = (e: OsvEvent) => e.introduced ?? e.fixed ?? e.last_affected ?? e.limit ?? '0';
+
+  for (const range of affected.ranges) {
+    if (range.type !== 'SEMVER' && range.type !== 'ECOSYSTEM') continue;
+    const events = [...range.events].sort((a, b) => {
+      const [x, y] = [eventVersion(a), eventVersion(b)];
+      return x === '0' ? (y === '0' ? 0 : -1) : y === '0' ? 1 : compare(x, y);
+    });
+    let vulnerable = false;
+    for (const event of events) {
+      if (event.introduced !== undefined) {
+        if (event.introduced === '0' || compare(version, event.introduced) >= 0) vulnerable = true;
+      } else if (event.fixed !== undefined) {
+        if (compare(version, event.fixed) >= 0) vulnerable = false;
+      } else if (event.last_affected !== undefined) {
+        if (compare(version, event.last_affected) > 0) vulnerable = false;
+      }
+    }
+    if (vulnerable) return true;
+  }
+  return false;
+}
+
+/** The synced advisory database, read lazily one shard at a time. */
+export class AdvisoryDatabase {
+  private shards = new Map<string, Promise<Record<string, StoredAdvisory[]>>>();
+
+  private constructor(private dir: string, readonly index: AdvisoryIndex) {}
+
+  /** The database in `dir`, or `null` when it has not been synced. */
+  static async open(dir: string): Promise<AdvisoryDatabase | null> {
+    try {
+      const index = JSON.parse(await readFile(join(dir, INDEX_FILE), 'utf-8')) as AdvisoryIndex;
+      return index.version === DATABASE_VERSION ? new AdvisoryDatabase(dir, index) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Whether advisories for `ecosystem` were synced, so that finding none means there are none. */
+  covers(ecosystem: string): boolean {
+    return ecosystem in this.index.ecosystems;
+  }
+
+  /** Advisories affecting a package version. */
+  async lookup(dep: { name: string; version: string; ecosystem: string }): Promise<StoredAdvisory[]> {
+    if (!this.covers(dep.ecosystem)) return [];
+    const id = packageId(dep.name, dep.ecosystem);
+    const shard = await this.shard(dep.ecosystem, shardOf(id));
+    return (shard[id] ?? []).filter(advisory => advisory.affected.some(a => isAffected(dep.version, a, dep.ecosystem)));
+  }
+
+  private shard(ecosystem: string, shard: string): Promise<Record<string, StoredAdvisory[]>> {
+    const key = `${ecosystem}/${shard}`;
+    let loaded = this.shards.get(key);
+    if (!loaded) {
+      loaded = readFile(join(this.dir, ecosystem, `${shard}.json`), 'utf-8')
+        .then(content => JSON.parse(content) as Record<string, StoredAdvisory[]>)
+        .catch(() => ({}));
+      this.shards.set(key, loaded);
+    }
+    return loaded;
+  }
+}
+
+/**
+ * OSV records from an export archive: a `.zip` such as `npm/all.zip`, a
+ * directory of `.json` records, a single record file, or an http(s) URL of
+ * a zip.
+ */
+export async function* readAdvisorySource(source: string): AsyncGenerator<OsvRecord> {
+  if (/^https?:\/\//.test(source)) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT_MS);
+    let archive: Buffer;
+    try {
+      const response = await fetch(source, { signal: controller.signal });
+      if (!response.ok) throw new Error(`Download of ${source} failed: HTTP ${response.status}`);
+      archive = Buffer.from(await response.arrayBuffer());
+    } finally {
+      clearTimeout(timer);
+    }
+    yield* recordsFromZip(archive);
+    return;
+  }
+
+  if ((await stat(source)).isDirectory()) {
+    for (const entry of await readdir(source, { withFileTypes: true })) {
+      const path = join(source, entry.name);
+      if (entry.isDirectory()) yield* readAdvisorySource(path);
+      else if (entry.name.endsWith('.json')) yield* recordsFromJson(await readFile(path, 'utf-8'));
+    }
+  } else if (source.endsWith('.zip')) {
+    yield* recordsFromZip(await readFile(source));
+  } else {
+    yield* recordsFromJson(await readFile(source, 'utf-8'));
+  }
+}
+
+function* recordsFromZip(archive: Buffer): Generator<OsvRecord> {
+  for (const entry of readZip(archive)) {
+    if (entry.name.endsWith('.json')) yield* recordsFromJson(entry.data.toString('utf-8'));
+  }
+}
+
+function* recordsFromJson(content: string): Generator<OsvRecord> {
+  const parsed = JSON.parse(content) as OsvRecord | OsvRecord[];
+  for (const record of Array.isArray(parsed) ? parsed : [parsed]) {
+    if (record && typeof record.id === 'string') yield record;
+  }
+}
+
+/**
+ * Write OSV records into the database in `dir`. Each ecosystem that appears
+ * in the records is replaced as a whole; other ecosystems keep their
+ * previous advisories. Withdrawn advisories are dropped.
+ */
+export async function writeAdvisoryDatabase(
+  dir: string,
+  records: AsyncIterable<OsvRecord> | Iterable<OsvRecord>,
+  sources: string[],
+): Promise<AdvisoryIndex> {
+  // ecosystem → shard → package → advisories
+  const store = new Map<string, Map<string, Record<string, StoredAdvisory[]>>>();
+  const counted = new Map<string, Set<string>>();
+
+  for await (const record of records) {
+    if (record.withdrawn) continue;
+    const perPackage = new Map<string, { ecosystem: string; id: string; advisory: StoredAdvisory }>();
+    for (const affected of record.affected ?? []) {
+      const ecosystem = affected.package?.ecosystem;
+      if (!affected.package || !ecosystem || !ADVISORY_ECOSYSTEMS.includes(ecosystem)) continue;
+      const id = packageId(affected.package.name, ecosystem);
+      const key = `${ecosystem}\0${id}`;
+      let entry = perPackage.get(key);
+      if (!entry) {
+        const advisory: StoredAdvisory = {
+          id: record.id,
+          summary: record.summary ?? record.details?.split('\n')[0] ?? record.id,
+          ...(record.aliases?.length && { aliases: record.aliases }),
+          affected: [],
+        };
+        entry = { ecosystem, id, advisory };
+        perPackage.set(key, entry);
+      }
+      entry.advisory.affected.push({
+        ranges: (affected.ranges ?? []).filter(r => r.type === 'SEMVER' || r.type === 'ECOSYSTEM'),
+        versions: affected.versions ?? [],
+      });
+    }
+
+    for (const { ecosystem, id, advisory } of perPackage.values()) {
+      const shards = store.get(ecosystem) ?? new Map<string, Record<string, StoredAdvisory[]>>();
+      store.set(ecosystem, shards);
+      const shard = shards.get(shardOf(id)) ?? {};
+      shards.set(shardOf(id), shard);
+      // The same record can come from several sources
+      const advisories = shard[id] ??= [];
+      if (!advisories.some(a => a.id === advisory.id)) advisories.push(advisory);
+      const ids = counted.get(ecosystem) ?? new Set<string>();
+      counted.set(ecosystem, ids.add(advisory.id));
+    }
+  }
+
+  const previous = await AdvisoryDatabase.open(dir);
+  const index: AdvisoryIndex = {
+    version: DATABASE_VERSION,
+    syncedAt: new Date().toISOString(),
+    sources,
+    ecosystems: { ...previous?.index.ecosystems },
+  };
+
+  for (const [ecosystem, shards] of store) {
+    const ecosystemDir = join(dir, ecosystem);
+    await rm(ecosystemDir, { recursive: true, force: true });
+    await mkdir(ecosystemDir, { recursive: true });
+    let packages = 0;
+    for (const [shard, content] of shards) {
+      packages += Object.keys(content).length;
+      await writeFile(join(ecosystemDir, `${shard}.json`), JSON.stringify(content), 'utf-8');
+    }
+    index.ecosystems[ecosystem] = { advisories: counted.get(ecosystem)!.size, packages };
+  }
+
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, INDEX_FILE), JSON.stringify(index, null, 2), 'utf-8');
+  return index;
+}
@@ -0,0 +1,6 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import { analyzeChunk, type WorkerTask } from './worker-pool.js';
+
+// Worker thread entry point: analyze one chunk of files and post the results back
+const results = await analyzeChunk(workerData as WorkerTask);
+parentPort?.postMessage(results);
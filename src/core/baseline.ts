@@ -1,55 +1,225 @@
 import { readFile, writeFile } from 'node:fs/promises';
-import { join } from 'node:path';
+import { join, posix } from 'node:path';
 import { createHash } from 'node:crypto';
 import type { Finding, AnalysisSummary } from './types.js';
+import { getHeadCommit, getRenamedFiles } from '../utils/git.js';
 import { logger } from '../utils/logger.js';
 
 const DEFAULT_BASELINE_FILENAME = '.archguard-baseline.json';
 
+export const BASELINE_VERSION = 2;
+
 export interface BaselineEntry {
   ruleId: string;
   file: string;
   message: string;
+  /**
+   * Hash of the rule and the normalized code, independent of line and file so
+   * the entry survives moves and renames. Absent on entries migrated from v1
+   * until the baseline is rewritten.
+   */
+  fingerprint?: string;
+  /** Version 1 hash of rule, file and code, kept on migrated entries. */
   contentHash?: string;
+  /** ISO date after which the entry no longer suppresses its finding. */
+  expiresAt?: string;
+  /** Who is responsible for paying down this entry. */
+  owner?: string;
 }
 
 export interface BaselineFile {
   version: number;
   generatedAt: string;
   generatedBy: string;
+  /** HEAD when the baseline was generated, the base for rename detection. */
+  commit?: string;
   findings: BaselineEntry[];
 }
 
+export interface BaselineMatchOptions {
+  /** Old path to new path for files renamed since the baseline was generated. */
+  renames?: Map<string, string>;
+  /** Reference time for `expiresAt`; defaults to now. */
+  now?: Date;
+}
+
+export interface BaselineMatch {
+  /** Findings not covered by an active baseline entry. */
+  findings: Finding[];
+  /** Each covered finding and the entry that covers it. */
+  matched: Array<{ finding: Finding; entry: BaselineEntry }>;
+  /** Entries that matched no finding. */
+  unmatched: BaselineEntry[];
+  /** Findings whose entry has expired, so they are reported again. */
+  expired: Array<{ finding: Finding; entry: BaselineEntry }>;
+}
+
 export function contentFingerprint(ruleId: string, file: string, codeSnippet?: string): string {
   const normalized = (codeSnippet ?? '').replace(/\s+/g, ' ').trim();
   return createHash('sha256').update(`${ruleId}\0${file}\0${normalized}`).digest('hex');
 }
 
-function fingerprint(f: { ruleId: string; file: string; message: string }): string {
+/** Location-independent fingerprint of a finding, falling back to its message when it has no code. */
+export function findingFingerprint(finding: Pick<Finding, 'ruleId' | 'message' | 'codeSnippet'>): string {
+  const normalized = (finding.codeSnippet ?? '').replace(/\s+/g, ' ').trim() || finding.message;
+  return createHash('sha256').update(`${finding.ruleId}\0${normalized}`).digest('hex');
+}
+
+/** Absolute path of the baseline file, `path` being relative to the project root. */
+export function getBaselinePath(projectRoot: string, path?: string): string {
+  return join(projectRoot, path ?? DEFAULT_BASELINE_FILENAME);
+}
+
+function messageKey(f: { ruleId: string; file: string; message: string }): string {
   return `${f.ruleId}\0${f.file}\0${f.message}`;
 }
 
+function isExpired(entry: BaselineEntry, now: Date): boolean {
+  return entry.expiresAt !== undefined && new Date(entry.expiresAt).getTime() <= now.getTime();
+}
+
+/** Upgrade an older baseline file in memory; its entries keep matching through their v1 hashes. */
+export function migrateBaseline(data: BaselineFile): BaselineFile {
+  if (data.version === BASELINE_VERSION) return data;
+  return { ...data, version: BASELINE_VERSION, findings: data.findings.map(entry => ({ ...entry })) };
+}
+
+/**
+ * Pair findings with baseline entries. Each entry covers at most one finding.
+ * Every finding is tried against fingerprints in the same (possibly renamed)
+ * file before any falls back to v1 content hashes, and those before rule and
+ * message, so a looser match never takes an entry that an exact one needs.
+ * Entries with a fingerprint are never matched by message.
+ */
+export function matchBaseline(
+  findings: Finding[],
+  baseline: BaselineFile,
+  options: BaselineMatchOptions = {},
+): BaselineMatch {
+  const renames = options.renames ?? new Map<string, string>();
+  const originalPaths = new Map([...renames].map(([from, to]) => [to, from]));
+  const now = options.now ?? new Date();
+
+  const byFingerprint = new Map<string, BaselineEntry[]>();
+  const byHash = new Map<string, BaselineEntry[]>();
+  const byMessage = new Map<string, BaselineEntry[]>();
+  const add = (index: Map<string, BaselineEntry[]>, key: string, entry: BaselineEntry) => {
+    const entries = index.get(key) ?? [];
+    entries.push(entry);
+    index.set(key, entries);
+  };
+  for (const entry of baseline.findings) {
+    const file = renames.get(entry.file) ?? entry.file;
+    if (entry.fingerprint) add(byFingerprint, `${entry.fingerprint}\0${file}`, entry);
+    if (entry.contentHash) add(byHash, entry.contentHash, entry);
+    if (!entry.fingerprint) add(byMessage, messageKey({ ...entry, file }), entry);
+  }
+
+  const used = new Set<BaselineEntry>();
+  const take = (index: Map<string, BaselineEntry[]>, key: string) => {
+    const entry = index.get(key)?.find(e => !used.has(e));
+    if (entry) used.add(entry);
+    return entry;
+  };
+
+  const passes: Array<[Map<string, BaselineEntry[]>, (finding: Finding) => string]> = [
+    [byFingerprint, finding => `${findingFingerprint(finding)}\0${finding.file}`],
+    [byHash, finding => contentFingerprint(finding.ruleId, originalPaths.get(finding.file) ?? finding.file, finding.codeSnippet)],
+    [byMessage, messageKey],
+  ];
+  const entries = new Map<Finding, BaselineEntry>();
+  for (const [index, keyOf] of passes) {
+    for (const finding of findings) {
+      if (entries.has(finding)) continue;
+      const entry = take(index, keyOf(finding));
+      if (entry) entries.set(finding, entry);
+    }
+  }
+
+  const result: BaselineMatch = { findings: [], matched: [], unmatched: [], expired: [] };
+  for (const finding of findings) {
+    const entry = entries.get(finding);
+    if (!entry) {
+      result.findings.push(finding);
+    } else if (isExpired(entry, now)) {
+      result.expired.push({ finding, entry });
+      result.findings.push(finding);
+    } else {
+      result.matched.push({ finding, entry });
+    }
+  }
+  result.unmatched = baseline.findings.filter(e => !used.has(e));
+  return result;
+}
+
+/**
+ * Files renamed since the baseline was generated, or none when it records no
+ * commit or the commit is gone.
+ */
+export async function getBaselineRenames(projectRoot: string, baseline: BaselineFile): Promise<Map<string, string>> {
+  if (!baseline.commit) return new Map();
+  try {
+    return await getRenamedFiles(projectRoot, baseline.commit);
+  } catch {
+    logger.debug(`Baseline commit ${baseline.commit} not found; skipping rename detection`);
+    return new Map();
+  }
+}
+
+function toEntry(finding: Finding, previous?: BaselineEntry): BaselineEntry {
+  return {
+    ruleId: finding.ruleId,
+    file: finding.file,
+    message: finding.message,
+    fingerprint: findingFingerprint(finding),
+    ...(previous?.expiresAt ? { expiresAt: previous.expiresAt } : {}),
+    ...(previous?.owner ? { owner: previous.owner } : {}),
+  };
+}
+
+async function currentCommit(projectRoot: string): Promise<string | undefined> {
+  try {
+    return await getHeadCommit(projectRoot);
+  } catch {
+    return undefined;
+  }
+}
+
+export async function writeBaseline(filePath: string, baseline: BaselineFile): Promise<void> {
+  await writeFile(filePath, JSON.stringify(baseline, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Write `findings` as the new baseline. Entries that were already baselined
+ * keep their `owner` and `expiresAt`.
+ */
 export async function saveBaseline(
   projectRoot: string,
   findings: Finding[],
   command: string,
   path?: string,
 ): Promise<string> {
-  const filePath = path ? join(projectRoot, path) : join(projectRoot, DEFAULT_BASELINE_FILENAME);
+  const filePath = getBaselinePath(projectRoot, path);
+
+  const previous = await loadBaseline(projectRoot, path);
+  const owners = new Map<Finding, BaselineEntry>();
+  if (previous) {
+    const renames = await getBaselineRenames(projectRoot, previous);
+    // Match regardless of expiry so an expired entry stays expired
+    for (const { finding, entry } of matchBaseline(findings, previous, { renames, now: new Date(0) }).matched) {
+      owners.set(finding, entry);
+    }
+  }
 
   const baseline: BaselineFile = {
-    version: 1,
+    version: BASELINE_VERSION,
     generatedAt: new Date().toISOString(),
     generatedBy: command,
-    findings: findings.map(f => ({
-      ruleId: f.ruleId,
-      file: f.file,
-      message: f.message,
-      contentHash: contentFingerprint(f.ruleId, f.file, f.codeSnippet),
-    })),
+    commit: await currentCommit(projectRoot),
+    findings: findings.map(f => toEntry(f, owners.get(f))),
   };
 
-  await writeFile(filePath, JSON.stringify(baseline, null, 2) + '\n', 'utf-8');
+  await writeBaseline(filePath, baseline);
   logger.debug(`Baseline saved to ${filePath} with ${findings.length} findings`);
   return filePath;
 }
@@ -58,18 +228,21 @@ export async function loadBaseline(
   projectRoot: string,
   path?: string,
 ): Promise<BaselineFile | null> {
-  const filePath = path ? join(projectRoot, path) : join(projectRoot, DEFAULT_BASELINE_FILENAME);
+  const filePath = getBaselinePath(projectRoot, path);
 
   try {
     const content = await readFile(filePath, 'utf-8');
     const data = JSON.parse(content) as BaselineFile;
 
-    if (data.version !== 1) {
+    if (data.version !== 1 && data.version !== BASELINE_VERSION) {
       logger.warn(`Unsupported baseline version: ${data.version}`);
       return null;
     }
+    if (data.version === 1) {
+      logger.debug(`Migrating version 1 baseline ${filePath}; run \`archguardian baseline prune\` to rewrite it`);
+    }
 
-    return data;
+    return migrateBaseline(data);
   } catch {
     return null;
   }
@@ -78,40 +251,143 @@ export async function loadBaseline(
 export function filterByBaseline(
   findings: Finding[],
   baseline: BaselineFile,
-): { findings: Finding[]; baselineSuppressedCount: number } {
-  const baselineMessageSet = new Set(baseline.findings.map(fingerprint));
-  const baselineHashSet = new Set(
-    baseline.findings
-      .filter(b => b.contentHash)
-      .map(b => b.contentHash!),
-  );
-
-  let baselineSuppressedCount = 0;
-  const filtered = findings.filter(f => {
-    // Try content hash match first (more robust across line changes)
-    if (baselineHashSet.size > 0) {
-      const hash = contentFingerprint(f.ruleId, f.file, f.codeSnippet);
-      if (baselineHashSet.has(hash)) {
-        baselineSuppressedCount++;
-        return false;
-      }
-    }
-    // Fall back to message-based match
-    const fp = fingerprint({ ruleId: f.ruleId, file: f.file, message: f.message });
-    if (baselineMessageSet.has(fp)) {
-      baselineSuppressedCount++;
-      return false;
+  options: BaselineMatchOptions = {},
+): { findings: Finding[]; baselineSuppressedCount: number; expiredCount: number } {
+  const match = matchBaseline(findings, baseline, options);
+  return {
+    findings: match.findings,
+    baselineSuppressedCount: match.matched.length,
+    expiredCount: match.expired.length,
+  };
+}
+
+export interface PruneBaselineResult {
+  baseline: BaselineFile;
+  removed: BaselineEntry[];
+}
+
+/**
+ * Drop entries that no longer match any finding. Kept entries follow renamed
+ * files and gain v2 fingerprints; expired entries are kept while they match.
+ */
+export function pruneBaseline(
+  baseline: BaselineFile,
+  findings: Finding[],
+  renames: Map<string, string> = new Map(),
+): PruneBaselineResult {
+  const match = matchBaseline(findings, baseline, { renames, now: new Date(0) });
+  const kept = new Map(match.matched.map(({ finding, entry }) => [entry, finding]));
+
+  return {
+    baseline: {
+      ...baseline,
+      version: BASELINE_VERSION,
+      findings: baseline.findings
+        .filter(entry => kept.has(entry))
+        .map(entry => toEntry(kept.get(entry)!, entry)),
+    },
+    removed: match.unmatched,
+  };
+}
+
+/** Prune the baseline at `path` against `findings` and write it back. */
+export async function pruneBaselineFile(
+  projectRoot: string,
+  findings: Finding[],
+  path?: string,
+): Promise<PruneBaselineResult | null> {
+  const baseline = await loadBaseline(projectRoot, path);
+  if (!baseline) return null;
+
+  const result = pruneBaseline(baseline, findings, await getBaselineRenames(projectRoot, baseline));
+  // Renames are now folded into the entries, so detect future ones from here
+  result.baseline.commit = (await currentCommit(projectRoot)) ?? baseline.commit;
+
+  const filePath = getBaselinePath(projectRoot, path);
+  await writeBaseline(filePath, result.baseline);
+  return result;
+}
+
+export interface BaselineStatus {
+  generatedAt: string;
+  generatedBy: string;
+  total: number;
+  /** Entries whose findings are gone. */
+  fixed: number;
+  /** Entries whose findings are still reported, including expired ones. */
+  remaining: number;
+  expired: number;
+  /** Findings not covered by the baseline. */
+  newFindings: number;
+  byRule: Record<string, number>;
+  byAnalyzer: Record<string, number>;
+  byDirectory: Record<string, number>;
+}
+
+/** How much of the baseline's debt is left, and where. */
+export function getBaselineStatus(
+  baseline: BaselineFile,
+  findings: Finding[],
+  options: BaselineMatchOptions = {},
+): BaselineStatus {
+  const match = matchBaseline(findings, baseline, options);
+  const remaining = [...match.matched, ...match.expired].map(m => m.finding);
+
+  const status: BaselineStatus = {
+    generatedAt: baseline.generatedAt,
+    generatedBy: baseline.generatedBy,
+    total: baseline.findings.length,
+    fixed: match.unmatched.length,
+    remaining: remaining.length,
+    expired: match.expired.length,
+    newFindings: match.findings.length - match.expired.length,
+    byRule: {},
+    byAnalyzer: {},
+    byDirectory: {},
+  };
+  for (const finding of remaining) {
+    const directory = posix.dirname(finding.file);
+    status.byRule[finding.ruleId] = (status.byRule[finding.ruleId] ?? 0) + 1;
+    status.byAnalyzer[finding.analyzer] = (status.byAnalyzer[finding.analyzer] ?? 0) + 1;
+    status.byDirectory[directory] = (status.byDirectory[directory] ?? 0) + 1;
+  }
+  return status;
+}
+
+/**
+ * Combine baselines, e.g. one per workspace, into one. An entry present in
+ * several inputs is kept once; the first input's owner and expiry win.
+ */
+export function mergeBaselines(baselines: BaselineFile[], command = 'merge'): BaselineFile {
+  const merged: BaselineEntry[] = [];
+  const mergedCounts = new Map<string, number>();
+
+  for (const baseline of baselines) {
+    const counts = new Map<string, number>();
+    for (const entry of baseline.findings) {
+      const key = `${messageKey(entry)}\0${entry.fingerprint ?? entry.contentHash ?? ''}`;
+      const count = (counts.get(key) ?? 0) + 1;
+      counts.set(key, count);
+      // Duplicates within one baseline are distinct findings; across baselines they are the same one
+      if (count <= (mergedCounts.get(key) ?? 0)) continue;
+      mergedCounts.set(key, count);
+      merged.push(entry);
     }
-    return true;
-  });
+  }
 
-  return { findings: filtered, baselineSuppressedCount };
+  return {
+    version: BASELINE_VERSION,
+    generatedAt: new Date().toISOString(),
+    generatedBy: command,
+    findings: merged,
+  };
 }
 
 export interface HandleBaselineResult {
   saved: boolean;
   savedPath?: string;
   suppressedCount: number;
+  expiredCount: number;
 }
 
 export async function handleBaseline(
@@ -125,16 +401,20 @@ export async function handleBaseline(
 
   if (options.updateBaseline) {
     const savedPath = await saveBaseline(projectRoot, allFindings, command, options.baseline);
-    return { saved: true, savedPath, suppressedCount: 0 };
+    return { saved: true, savedPath, suppressedCount: 0, expiredCount: 0 };
   }
 
   // Try to load and apply baseline
   const baselineData = await loadBaseline(projectRoot, options.baseline);
   if (!baselineData) {
-    return { saved: false, suppressedCount: 0 };
+    return { saved: false, suppressedCount: 0, expiredCount: 0 };
   }
 
-  const { findings: filtered, baselineSuppressedCount } = filterByBaseline(allFindings, baselineData);
+  const renames = await getBaselineRenames(projectRoot, baselineData);
+  const { findings: filtered, baselineSuppressedCount, expiredCount } = filterByBaseline(allFindings, baselineData, { renames });
+  if (expiredCount > 0) {
+    logger.warn(`${expiredCount} baseline ${expiredCount === 1 ? 'entry has' : 'entries have'} expired; their findings are reported again`);
+  }
 
   // Update the summary in-place
   summary.baselineSuppressedCount = baselineSuppressedCount || undefined;
@@ -144,13 +424,10 @@ export async function handleBaseline(
   summary.infos = filtered.filter(f => f.severity === 'info').length;
 
   // Update analyzer results to only contain non-baseline findings
+  const remaining = new Set(filtered);
   for (const result of summary.analyzerResults) {
-    result.findings = result.findings.filter(f => {
-      const fp = fingerprint({ ruleId: f.ruleId, file: f.file, message: f.message });
-      const baselineSet = new Set(baselineData.findings.map(fingerprint));
-      return !baselineSet.has(fp);
-    });
+    result.findings = result.findings.filter(f => remaining.has(f));
   }
 
-  return { saved: false, suppressedCount: baselineSuppressedCount };
+  return { saved: false, suppressedCount: baselineSuppressedCount, expiredCount };
 }
@@ -20,7 +20,14 @@ const ConfigSchema = z.object({
   languages: z.array(LanguageEnum).default(['typescript', 'javascript', 'tsx', 'jsx']),
   include: z.array(z.string()).default(['**/*']),
   exclude: z.array(z.string()).default(['**/node_modules/**', '**/dist/**', '**/*.test.ts', '**/*.spec.ts']),
-  plugins: z.array(z.string()).default([]),
+  plugins: z.array(z.union([
+    z.string(),
+    z.object({
+      name: z.string(),
+      enabled: z.boolean().default(true),
+      options: z.record(z.string(), z.unknown()).default({}),
+    }),
+  ])).default([]),
   severity: z.object({
     failOn: SeverityEnum.default(Severity.Error),
     maxWarnings: z.number().default(20),
@@ -39,6 +46,7 @@ const ConfigSchema = z.object({
       enabled: z.boolean().default(true),
       severity: SeverityEnum.default(Severity.Warning),
       commentRatio: z.number().min(0).max(1).default(0.4),
+      hallucinatedImports: z.boolean().default(true),
     }).default({}),
     conventions: z.object({
       enabled: z.boolean().default(true),
@@ -79,10 +87,51 @@ const ConfigSchema = z.object({
       enabled: z.boolean().default(false),
       severity: SeverityEnum.default(Severity.Error),
       crossFile: z.boolean().default(false),
+      frameworks: z.array(z.enum([
+        'express', 'fastify', 'koa', 'nestjs', 'nextjs',
+        'flask', 'django', 'fastapi',
+        'nethttp', 'gin',
+        'spring',
+      ])).optional(),
+      sources: z.array(z.string()).optional(),
+      sourceDecorators: z.array(z.string()).optional(),
+      sourceParameterTypes: z.array(z.string()).optional(),
+      sinks: z.array(z.object({
+        pattern: z.string(),
+        ruleId: z.string(),
+        message: z.string(),
+        args: z.array(z.number().int().min(0)).optional(),
+        kind: z.enum(['call', 'assign']).optional(),
+        when: z.string().optional(),
+        url: z.boolean().optional(),
+      })).optional(),
+      sanitizers: z.array(z.string()).optional(),
+      urlSanitizers: z.array(z.string()).optional(),
     }).optional(),
     dependencies: z.object({
       enabled: z.boolean().default(false),
       severity: SeverityEnum.default(Severity.Error),
+      database: z.string().default('.archguard/advisories'),
+      offline: z.boolean().default(false),
+      mirror: z.string().optional(),
+    }).optional(),
+    dependencyUsage: z.object({
+      enabled: z.boolean().default(false),
+      severity: SeverityEnum.default(Severity.Warning),
+      ignore: z.array(z.string()).default([]),
+      devFiles: z.array(z.string()).default([]),
+    }).optional(),
+    typosquatting: z.object({
+      enabled: z.boolean().default(false),
+      severity: SeverityEnum.default(Severity.Warning),
+      allow: z.array(z.string()).default([]),
+      lists: z.array(z.string()).default([]),
+    }).optional(),
+    supplyChain: z.object({
+      enabled: z.boolean().default(false),
+      severity: SeverityEnum.default(Severity.Warning),
+      allow: z.array(z.string()).default([]),
+      trustedHosts: z.array(z.string()).default([]),
     }).optional(),
     complexity: z.object({
       enabled: z.boolean().default(false),
@@ -102,6 +151,12 @@ const ConfigSchema = z.object({
       severity: SeverityEnum.default(Severity.Warning),
       entryPoints: z.array(z.string()).optional(),
     }).optional(),
+    cycles: z.object({
+      enabled: z.boolean().default(false),
+      severity: SeverityEnum.default(Severity.Warning),
+      maxCycleLength: z.number().int().min(2).optional(),
+      allow: z.array(z.array(z.string()).min(1)).default([]),
+    }).optional(),
     coverage: z.object({
       enabled: z.boolean().default(false),
       severity: SeverityEnum.default(Severity.Warning),
@@ -126,6 +181,10 @@ const ConfigSchema = z.object({
     maxNewErrors: z.number().default(0),
     maxNewWarnings: z.number().default(5),
     maxTotal: z.number().default(100),
+    ratchet: z.object({
+      by: z.array(z.enum(['rule', 'directory'])).default(['rule', 'directory']),
+      snapshot: z.string().optional(),
+    }).optional(),
   }).optional(),
   memory: z.object({
     enabled: z.boolean().default(false),
@@ -145,6 +204,20 @@ const ConfigSchema = z.object({
   dashboard: z.object({
     detailedHistory: z.boolean().default(false),
   }).optional(),
+  cache: z.object({
+    enabled: z.boolean().default(false),
+    path: z.string().default('.archguard/cache'),
+  }).optional(),
+  parallel: z.object({
+    enabled: z.boolean().default(false),
+    workers: z.number().int().min(1).optional(),
+    minFiles: z.number().int().min(1).default(50),
+  }).optional(),
+  timeouts: z.object({
+    default: z.number().int().positive().default(5000),
+    budget: z.number().int().positive().optional(),
+    analyzers: z.record(z.string(), z.number().int().positive()).default({}),
+  }).optional(),
   workspaces: z.record(z.string(), z.any()).optional(),
 });
 
@@ -1,5 +1,6 @@
 import type { AnalysisContext, ArchGuardConfig, FileInfo, ParsedFile } from './types.js';
 import { getFileContent } from '../utils/git.js';
+import { detectLanguage } from './diff-parser.js';
 import { parseTypeScript, isTypeScriptFamily } from '../parsers/typescript-parser.js';
 import { parsePython, isPython } from '../parsers/python-parser.js';
 import { parseGo, isGo } from '../parsers/go-parser.js';
@@ -15,7 +16,7 @@ function shouldInclude(filePath: string, config: ArchGuardConfig): boolean {
   return included && !excluded;
 }
 
-function filterFiles(files: FileInfo[], config: ArchGuardConfig): FileInfo[] {
+export function filterFiles(files: FileInfo[], config: ArchGuardConfig): FileInfo[] {
   return files.filter(file => {
     if (file.status === 'deleted') return false;
     if (!file.language) return false;
@@ -25,10 +26,36 @@ function filterFiles(files: FileInfo[], config: ArchGuardConfig): FileInfo[] {
   });
 }
 
+/** A file as a full scan sees it: every line counts as added. */
+export function toScanFile(path: string, content: string): FileInfo | null {
+  const language = detectLanguage(path);
+  if (!language) return null;
+
+  return {
+    path,
+    language,
+    status: 'added',
+    hunks: [],
+    addedLines: content.split('\n').map((line, i) => ({
+      lineNumber: i + 1,
+      content: line,
+      type: 'added' as const,
+    })),
+    removedLines: [],
+    content,
+  };
+}
+
+export interface BuildContextOptions {
+  /** Set to false to only read file contents, e.g. when parsing happens in worker threads. */
+  parse?: boolean;
+}
+
 export async function buildContext(
   files: FileInfo[],
   config: ArchGuardConfig,
   projectRoot: string,
+  options: BuildContextOptions = {},
 ): Promise<AnalysisContext> {
   const filtered = filterFiles(files, config);
   logger.debug(`Filtered ${files.length} files to ${filtered.length} analyzable files`);
@@ -41,6 +68,7 @@ export async function buildContext(
     try {
       const content = file.content ?? await getFileContent(projectRoot, file.path);
       file.content = content;
+      if (options.parse === false) continue;
 
       if (isTypeScriptFamily(file.language)) {
         const parsed = await parseTypeScript(content, file.path, file.language);
@@ -63,5 +91,7 @@ export async function buildContext(
     }
   }
 
-  return { files: filtered, parsedFiles, config, projectRoot };
+  // Manifests, lockfiles and other files no parser handles, for analyzers that read them as text
+  const otherFiles = files.filter(f => !f.language && f.status !== 'deleted');
+  return { files: filtered, parsedFiles, config, projectRoot, ...(otherFiles.length > 0 && { otherFiles }) };
 }
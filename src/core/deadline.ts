@@ -0,0 +1,100 @@
+import type { AnalysisContext, AnalysisDeadline, Analyzer, AnalyzerResult, ArchGuardConfig, Finding } from './types.js';
+import { withTimeout } from '../utils/performance.js';
+import { logger } from '../utils/logger.js';
+
+export const DEFAULT_ANALYZER_TIMEOUT_MS = 5000;
+
+export class Deadline implements AnalysisDeadline {
+  readonly findings: Finding[] = [];
+  readonly completed = new Set<string>();
+  readonly skippedFiles = new Set<string>();
+
+  constructor(readonly at: number) {}
+
+  expired(): boolean {
+    return Date.now() >= this.at;
+  }
+
+  remaining(): number {
+    return Math.max(0, this.at - Date.now());
+  }
+
+  complete(file: string): void {
+    this.completed.add(file);
+  }
+
+  skip(files: string[]): void {
+    for (const file of files) this.skippedFiles.add(file);
+  }
+
+  report(findings: Finding[]): void {
+    this.findings.push(...findings);
+  }
+
+  /** Files from `scope` the analyzer did not finish, for when it was cut off. */
+  unfinished(scope: string[]): string[] {
+    return scope.filter(file => !this.completed.has(file) || this.skippedFiles.has(file));
+  }
+}
+
+/**
+ * Epoch time at which an analyzer must stop: its own timeout counted from when it
+ * started, capped by the global budget counted from when the run started.
+ */
+export function getAnalyzerDeadline(
+  config: ArchGuardConfig,
+  analyzerName: string,
+  analyzerStart: number,
+  runStart: number = analyzerStart,
+): number {
+  const timeout = config.timeouts?.analyzers[analyzerName] ?? config.timeouts?.default ?? DEFAULT_ANALYZER_TIMEOUT_MS;
+  const at = analyzerStart + timeout;
+  const budget = config.timeouts?.budget;
+  return budget !== undefined ? Math.min(at, runStart + budget) : at;
+}
+
+/**
+ * Run one analyzer against its deadline. An analyzer that stops at the deadline
+ * keeps the findings it returned; one that is cut off keeps what it reported.
+ */
+export async function runAnalyzer(
+  analyzer: Analyzer,
+  context: AnalysisContext,
+  runStart: number = Date.now(),
+): Promise<AnalyzerResult> {
+  const deadline = new Deadline(getAnalyzerDeadline(context.config, analyzer.name, Date.now(), runStart));
+  const start = performance.now();
+
+  try {
+    const findings = await withTimeout(
+      analyzer.analyze({ ...context, deadline }),
+      deadline.remaining(),
+      analyzer.name,
+    );
+    const duration = performance.now() - start;
+    logger.debug(`${analyzer.name}: ${findings.length} findings in ${duration.toFixed(0)}ms`);
+
+    const skippedFiles = [...deadline.skippedFiles];
+    if (skippedFiles.length === 0) {
+      return { analyzer: analyzer.name, findings, duration };
+    }
+    return {
+      analyzer: analyzer.name,
+      findings,
+      duration,
+      error: `${analyzer.name} stopped at its deadline with ${skippedFiles.length} files left`,
+      timedOut: true,
+      skippedFiles,
+    };
+  } catch (err) {
+    if (!deadline.expired()) throw err;
+    return {
+      analyzer: analyzer.name,
+      findings: deadline.findings,
+      duration: performance.now() - start,
+      error: String(err),
+      timedOut: true,
+      skippedFiles: deadline.unfinished(context.parsedFiles.map(f => f.path)),
+    };
+  }
+}
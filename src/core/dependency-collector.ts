@@ -1,15 +1,52 @@
 import { readFile } from 'node:fs/promises';
 import { join } from 'node:path';
+import { packageKey, readLockfiles, type LockedPackage, type Lockfile } from './lockfiles.js';
 
 export interface PackageDependency {
   name: string;
   version: string;
   ecosystem: string;
+  /** Only needed to develop or test: devDependencies, `[dev-dependencies]`, Maven `test` scope, requirements-dev.txt. */
+  dev?: boolean;
+  /** Not imported by project code itself: `// indirect` requirements and Maven `runtime` scope. */
+  indirect?: boolean;
+  /** Line of the declaration in its manifest. */
+  line?: number;
+  /** Only in the lockfile, pulled in by another package rather than declared in a manifest. */
+  transitive?: boolean;
+  /** Integrity hash from the lockfile. */
+  integrity?: string;
+  /** Packages this one depends on, as `name@version`, when the lockfile records them. */
+  dependencies?: string[];
+  /** Declared license, from the lockfile or the installed package. */
+  license?: string;
+}
+
+/** Manifest file a dependency was declared in, for attaching findings. */
+export function manifestFor(dep: PackageDependency): string {
+  switch (dep.ecosystem) {
+    case 'Go': return 'go.mod';
+    case 'crates.io': return 'Cargo.toml';
+    case 'Maven': return 'pom.xml';
+    case 'PyPI': return dep.dev ? 'requirements-dev.txt' : 'requirements.txt';
+    default: return 'package.json';
+  }
+}
+
+/** The version an npm range pins, such as `1.2.3` for `^1.2.3`; empty for open ranges such as `1.2.x` or `*`. */
+function npmVersion(range: string): string {
+  return /^[\^~=]?v?(\d+\.\d+\.\d+(?:[-+][\w.-]+)?)$/.exec(range.trim())?.[1] ?? '';
+}
+
+function lineAt(content: string, index: number): number {
+  return content.slice(0, index).split('\n').length;
 }
 
 /**
- * Shared utility to collect dependencies from manifest files.
- * Used by DependencyScanner, SBOM generator, and License scanner.
+ * Shared utility to collect dependencies from manifest files, pinned to the
+ * exact versions of a lockfile in the same directory, which also adds the
+ * transitive packages. Used by DependencyScanner, SBOM generator, License
+ * scanner and DependencyUsageAnalyzer.
  */
 export async function collectDependencies(projectRoot: string): Promise<PackageDependency[]> {
   const deps: PackageDependency[] = [];
@@ -21,11 +58,18 @@ export async function collectDependencies(projectRoot: string): Promise<PackageD
       dependencies?: Record<string, string>;
       devDependencies?: Record<string, string>;
     };
-    for (const [name, version] of Object.entries(pkg.dependencies ?? {})) {
-      deps.push({ name, version: version.replace(/^[\^~>=<]/, ''), ecosystem: 'npm' });
-    }
-    for (const [name, version] of Object.entries(pkg.devDependencies ?? {})) {
-      deps.push({ name, version: version.replace(/^[\^~>=<]/, ''), ecosystem: 'npm' });
+    const sections = [['dependencies', pkg.dependencies], ['devDependencies', pkg.devDependencies]] as const;
+    for (const [section, entries] of sections) {
+      const start = content.indexOf(`"${section}"`);
+      for (const [name, version] of Object.entries(entries ?? {})) {
+        deps.push({
+          name,
+          version: npmVersion(version),
+          ecosystem: 'npm',
+          ...(section === 'devDependencies' && { dev: true }),
+          line: lineAt(content, content.indexOf(`"${name}"`, start)),
+        });
+      }
     }
   } catch {
     // No package.json
@@ -34,38 +78,197 @@ export async function collectDependencies(projectRoot: string): Promise<PackageD
   // go.mod
   try {
     const content = await readFile(join(projectRoot, 'go.mod'), 'utf-8');
-    const requireRegex = /^\s+(\S+)\s+(v[\d.]+)/gm;
-    let match;
-    while ((match = requireRegex.exec(content)) !== null) {
-      deps.push({ name: match[1], version: match[2], ecosystem: 'Go' });
+    let inRequire = false;
+    for (const [i, line] of content.split('\n').entries()) {
+      if (/^require\s*\(/.test(line)) {
+        inRequire = true;
+        continue;
+      }
+      if (inRequire && /^\s*\)/.test(line)) {
+        inRequire = false;
+        continue;
+      }
+      const match = (inRequire ? /^\s+(\S+)\s+(v\S+)/ : /^require\s+(\S+)\s+(v\S+)/).exec(line);
+      if (!match) continue;
+      deps.push({
+        name: match[1],
+        version: match[2],
+        ecosystem: 'Go',
+        ...(/\/\/\s*indirect/.test(line) && { indirect: true }),
+        line: i + 1,
+      });
     }
   } catch {
     // No go.mod
   }
 
-  // Cargo.toml
+  // Cargo.toml: [dependencies], [dev-dependencies], [build-dependencies] and their
+  // target-specific variants, as `name = "1.0"`, inline tables or `[dependencies.name]`
   try {
     const content = await readFile(join(projectRoot, 'Cargo.toml'), 'utf-8');
-    const depRegex = /^(\w[\w-]*)\s*=\s*"([\d.]+)"/gm;
-    let match;
-    while ((match = depRegex.exec(content)) !== null) {
-      deps.push({ name: match[1], version: match[2], ecosystem: 'crates.io' });
+    let section: string | null = null;
+    let tableDep: PackageDependency | null = null;
+    for (const [i, line] of content.split('\n').entries()) {
+      const header = /^\s*\[([^\]]+)\]/.exec(line);
+      if (header) {
+        const path = header[1].trim();
+        // `[workspace.dependencies]` only shares versions with members
+        const kind = path.startsWith('workspace.') ? null : /(^|\.)((?:dev-|build-)?dependencies)(\.([\w-]+))?$/.exec(path);
+        section = kind?.[2] ?? null;
+        tableDep = null;
+        if (kind?.[4]) {
+          tableDep = { name: kind[4], version: '', ecosystem: 'crates.io', line: i + 1 };
+          if (section !== 'dependencies') tableDep.dev = true;
+          deps.push(tableDep);
+          section = null;
+        }
+        continue;
+      }
+      if (tableDep) {
+        const version = /^\s*version\s*=\s*"([^"]*)"/.exec(line);
+        if (version) tableDep.version = version[1].replace(/^[\^~=]/, '');
+        continue;
+      }
+      if (!section) continue;
+      const entry = /^\s*([\w-]+)\s*=\s*(.+)$/.exec(line);
+      if (!entry) continue;
+      const version = /^"([^"]*)"/.exec(entry[2]) ?? /\bversion\s*=\s*"([^"]*)"/.exec(entry[2]);
+      deps.push({
+        name: entry[1],
+        version: version?.[1].replace(/^[\^~=]/, '') ?? '',
+        ecosystem: 'crates.io',
+        ...(section !== 'dependencies' && { dev: true }),
+        line: i + 1,
+      });
     }
   } catch {
     // No Cargo.toml
   }
 
-  // pom.xml (basic)
+  // pom.xml: <dependency> blocks, except version management in <dependencyManagement>
   try {
     const content = await readFile(join(projectRoot, 'pom.xml'), 'utf-8');
-    const depRegex = /<groupId>([^<]+)<\/groupId>\s*<artifactId>([^<]+)<\/artifactId>\s*<version>([^<]+)<\/version>/g;
+    const managed = /<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g;
+    const text = content.replace(managed, m => m.replace(/[^\n]/g, ' '));
+    const depRegex = /<dependency>([\s\S]*?)<\/dependency>/g;
     let match;
-    while ((match = depRegex.exec(content)) !== null) {
-      deps.push({ name: `${match[1]}:${match[2]}`, version: match[3], ecosystem: 'Maven' });
+    while ((match = depRegex.exec(text)) !== null) {
+      const tag = (name: string) => new RegExp(`<${name}>\\s*([^<]+?)\\s*</${name}>`).exec(match![1])?.[1];
+      const groupId = tag('groupId');
+      const artifactId = tag('artifactId');
+      const scope = tag('scope');
+      if (!groupId || !artifactId || scope === 'import') continue;
+      deps.push({
+        name: `${groupId}:${artifactId}`,
+        version: tag('version') ?? '',
+        ecosystem: 'Maven',
+        ...(scope === 'test' && { dev: true }),
+        ...(scope === 'runtime' && { indirect: true }),
+        line: lineAt(text, match.index),
+      });
     }
   } catch {
     // No pom.xml
   }
 
-  return deps;
+  // requirements.txt and requirements-dev.txt (pip)
+  for (const [file, dev] of [['requirements.txt', false], ['requirements-dev.txt', true]] as const) {
+    try {
+      const content = await readFile(join(projectRoot, file), 'utf-8');
+      for (const [i, line] of content.split('\n').entries()) {
+        const requirement = line.replace(/\s#.*$/, '').trim();
+        // Skip comments, options such as -r/-e/--index-url, and direct URLs
+        if (!requirement || /^[#-]/.test(requirement) || requirement.includes('://')) continue;
+        const match = /^([A-Za-z0-9][\w.-]*)(\[[^\]]*\])?\s*(?:(===?|~=|>=|<=|>|<|!=)\s*([^\s,;]+))?/.exec(requirement);
+        if (!match) continue;
+        deps.push({
+          name: match[1],
+          version: match[4] ?? '',
+          ecosystem: 'PyPI',
+          ...(dev && { dev: true }),
+          line: i + 1,
+        });
+      }
+    } catch {
+      // No requirements file
+    }
+  }
+
+  return applyLockfiles(deps, await readLockfiles(projectRoot));
+}
+
+/**
+ * Pin declared dependencies to their locked versions and append the packages
+ * they pull in, from the first lockfile of each ecosystem. A transitive
+ * package the lockfile does not mark is dev-only when no production
+ * dependency reaches it.
+ */
+function applyLockfiles(deps: PackageDependency[], lockfiles: Lockfile[]): PackageDependency[] {
+  const result = [...deps];
+  const applied = new Set<string>();
+  for (const lockfile of lockfiles) {
+    if (applied.has(lockfile.ecosystem)) continue;
+    applied.add(lockfile.ecosystem);
+    const normalize = (name: string) => lockfile.ecosystem === 'PyPI' ? name.toLowerCase().replace(/[-_.]+/g, '-') : name;
+
+    const byName = new Map<string, LockedPackage[]>();
+    const byKey = new Map<string, LockedPackage>();
+    for (const pkg of lockfile.packages) {
+      byName.set(normalize(pkg.name), [...byName.get(normalize(pkg.name)) ?? [], pkg]);
+      byKey.set(packageKey(pkg.name, pkg.version), pkg);
+    }
+
+    const declared = new Set<LockedPackage>();
+    const prodRoots: LockedPackage[] = [];
+    const devRoots: LockedPackage[] = [];
+    for (const dep of deps) {
+      if (dep.ecosystem !== lockfile.ecosystem) continue;
+      const candidates = byName.get(normalize(dep.name)) ?? [];
+      // Prefer the pinned version, then the same major version, then the hoisted copy
+      const major = dep.version.replace(/^v/, '').split('.')[0];
+      const locked = candidates.find(c => c.version === dep.version)
+        ?? candidates.find(c => major !== '' && c.version.replace(/^v/, '').split('.')[0] === major)
+        ?? candidates[0];
+      if (!locked) continue;
+      declared.add(locked);
+      (dep.dev ? devRoots : prodRoots).push(locked);
+      dep.version = locked.version;
+      if (locked.integrity) dep.integrity = locked.integrity;
+      if (locked.dependencies.length > 0) dep.dependencies = locked.dependencies;
+      if (locked.license) dep.license = locked.license;
+    }
+
+    const reachable = (roots: LockedPackage[]) => {
+      const seen = new Set<LockedPackage>();
+      const queue = [...roots];
+      while (queue.length > 0) {
+        const pkg = queue.pop()!;
+        if (seen.has(pkg)) continue;
+        seen.add(pkg);
+        for (const key of pkg.dependencies) {
+          const child = byKey.get(key);
+          if (child) queue.push(child);
+        }
+      }
+      return seen;
+    };
+    const fromProd = reachable(prodRoots);
+    const fromDev = reachable(devRoots);
+
+    for (const pkg of lockfile.packages) {
+      if (declared.has(pkg)) continue;
+      const dev = pkg.dev ?? (!fromProd.has(pkg) && fromDev.has(pkg));
+      result.push({
+        name: pkg.name,
+        version: pkg.version,
+        ecosystem: pkg.ecosystem,
+        ...(dev && { dev: true }),
+        transitive: true,
+        ...(pkg.integrity && { integrity: pkg.integrity }),
+        ...(pkg.dependencies.length > 0 && { dependencies: pkg.dependencies }),
+        ...(pkg.license && { license: pkg.license }),
+      });
+    }
+  }
+  return result;
 }
@@ -1,6 +1,8 @@
 import path from 'node:path';
 import type { ParsedFile } from './types.js';
-import { collectLanguageImports, collectExports } from '../parsers/language-imports.js';
+import { collectLanguageImports, collectExports, type ImportInfo } from '../parsers/language-imports.js';
+import { moduleCandidates, type ModuleResolution } from './module-resolution.js';
+import { resolveGoImport, resolveJavaImport, resolvePythonImport, resolveRustImport } from './language-resolution.js';
 
 export interface DependencyNode {
   imports: string[];
@@ -10,6 +12,8 @@ export interface DependencyNode {
 
 export interface DependencyGraph {
   nodes: Map<string, DependencyNode>;
+  /** Alias and workspace configuration used for non-relative imports. */
+  resolution?: ModuleResolution;
 }
 
 /**
@@ -32,29 +36,22 @@ function posixJoin(dir: string, relative: string): string {
   return parts.filter(Boolean).join('/');
 }
 
-function resolveImportPath(importSource: string, fromFile: string, allPaths: Set<string>): string | null {
-  if (!importSource || importSource.startsWith('@') || !importSource.startsWith('.')) {
-    return null; // external package
-  }
-
-  const dir = path.posix.dirname(fromFile.replace(/\\/g, '/'));
-  const rawResolved = posixJoin(dir, importSource);
-
+/** The first project file `base` refers to, trying source extensions and index files. */
+export function resolveWithExtensions(base: string, allPaths: Set<string>): string | null {
   // Strip .js extension to try .ts variants (ESM projects use .js in imports for .ts files)
-  const withoutExt = rawResolved.replace(/\.(js|jsx)$/, '');
+  const withoutExt = base.replace(/\.(d\.ts|js|jsx|mjs|cjs)$/, '');
 
   // Try exact match first, then with common extensions
   const candidates = [
-    rawResolved,
+    base,
     withoutExt + '.ts',
     withoutExt + '.tsx',
     withoutExt + '.js',
     withoutExt + '.jsx',
-    withoutExt + '.py',
-    withoutExt + '.go',
-    withoutExt + '.rs',
-    withoutExt + '.java',
+    withoutExt + '.mts',
+    withoutExt + '.mjs',
     withoutExt + '/index.ts',
+    withoutExt + '/index.tsx',
     withoutExt + '/index.js',
   ];
 
@@ -67,8 +64,66 @@ function resolveImportPath(importSource: string, fromFile: string, allPaths: Set
   return null;
 }
 
-export function buildDependencyGraph(parsedFiles: ParsedFile[], projectRoot: string): DependencyGraph {
-  const graph: DependencyGraph = { nodes: new Map() };
+function resolveImportPath(
+  importSource: string,
+  fromFile: string,
+  allPaths: Set<string>,
+  resolution?: ModuleResolution,
+): string | null {
+  if (!importSource) return null;
+
+  if (!importSource.startsWith('.')) {
+    // Bare specifiers are external unless a path alias or workspace package maps them into the project
+    if (!resolution) return null;
+    for (const candidate of moduleCandidates(importSource, fromFile.replace(/\\/g, '/'), resolution)) {
+      const resolved = resolveWithExtensions(candidate, allPaths);
+      if (resolved) return resolved;
+    }
+    return null;
+  }
+
+  const dir = path.posix.dirname(fromFile.replace(/\\/g, '/'));
+  return resolveWithExtensions(posixJoin(dir, importSource), allPaths);
+}
+
+/**
+ * Resolve one import of `file` to the project files it refers to, using the
+ * module system of the file's language. Empty for external modules.
+ */
+export function resolveImportTargets(
+  imp: ImportInfo,
+  file: ParsedFile,
+  allPaths: Set<string>,
+  resolution?: ModuleResolution,
+): string[] {
+  switch (file.language) {
+    case 'python':
+      return resolvePythonImport(imp, file.path, allPaths);
+    case 'go':
+      return resolveGoImport(imp.source, allPaths, resolution);
+    case 'java':
+      return resolveJavaImport(imp.source, allPaths);
+    case 'rust':
+      return resolveRustImport(imp.source, file.path, allPaths, resolution);
+    default: {
+      const resolved = resolveImportPath(imp.source, file.path, allPaths, resolution);
+      return resolved ? [resolved] : [];
+    }
+  }
+}
+
+/**
+ * Build the import graph of `parsedFiles`. Pass a `resolution` from
+ * `loadModuleResolution()` to follow tsconfig path aliases, workspace
+ * packages, Go modules and Cargo workspace crates; without it those imports
+ * stay unresolved.
+ */
+export function buildDependencyGraph(
+  parsedFiles: ParsedFile[],
+  projectRoot: string,
+  resolution?: ModuleResolution,
+): DependencyGraph {
+  const graph: DependencyGraph = { nodes: new Map(), resolution };
   const allPaths = new Set(parsedFiles.map(f => f.path));
 
   // Initialize nodes
@@ -78,19 +133,15 @@ export function buildDependencyGraph(parsedFiles: ParsedFile[], projectRoot: str
 
   // Collect imports and build edges
   for (const file of parsedFiles) {
-    const imports = collectLanguageImports(file.tree, file.language);
     const exports = collectExports(file.tree, file.language);
     const node = graph.nodes.get(file.path)!;
     node.exports = exports;
 
-    for (const imp of imports) {
-      const resolved = resolveImportPath(imp.source, file.path, allPaths);
-      if (resolved && resolved !== file.path) {
-        node.imports.push(resolved);
-        const targetNode = graph.nodes.get(resolved);
-        if (targetNode) {
-          targetNode.importedBy.push(file.path);
-        }
+    for (const resolved of resolveFileImports(file, allPaths, resolution)) {
+      node.imports.push(resolved);
+      const targetNode = graph.nodes.get(resolved);
+      if (targetNode) {
+        targetNode.importedBy.push(file.path);
       }
     }
   }
@@ -98,6 +149,59 @@ export function buildDependencyGraph(parsedFiles: ParsedFile[], projectRoot: str
   return graph;
 }
 
+/**
+ * Update `graph` in place after `changedPaths` were edited. `parsedFiles` is the
+ * full current set of files. Adding or removing files can change how any import
+ * resolves, so in that case the graph is rebuilt.
+ */
+export function updateDependencyGraph(
+  graph: DependencyGraph,
+  parsedFiles: ParsedFile[],
+  changedPaths: string[],
+  projectRoot: string,
+): DependencyGraph {
+  const allPaths = new Set(parsedFiles.map(f => f.path));
+  const pathSetChanged = allPaths.size !== graph.nodes.size || [...allPaths].some(p => !graph.nodes.has(p));
+  if (pathSetChanged) {
+    graph.nodes = buildDependencyGraph(parsedFiles, projectRoot, graph.resolution).nodes;
+    return graph;
+  }
+
+  const byPath = new Map(parsedFiles.map(f => [f.path, f]));
+  for (const filePath of changedPaths) {
+    const file = byPath.get(filePath);
+    const node = graph.nodes.get(filePath);
+    if (!file || !node) continue;
+
+    for (const target of node.imports) {
+      const targetNode = graph.nodes.get(target);
+      if (targetNode) targetNode.importedBy = targetNode.importedBy.filter(p => p !== filePath);
+    }
+
+    node.exports = collectExports(file.tree, file.language);
+    node.imports = resolveFileImports(file, allPaths, graph.resolution);
+    for (const target of node.imports) {
+      graph.nodes.get(target)?.importedBy.push(filePath);
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Resolve the project-local files imported by a single file.
+ * `allPaths` is the set of project paths that imports may resolve to.
+ */
+export function resolveFileImports(file: ParsedFile, allPaths: Set<string>, resolution?: ModuleResolution): string[] {
+  const resolvedImports: string[] = [];
+  for (const imp of collectLanguageImports(file.tree, file.language)) {
+    for (const resolved of resolveImportTargets(imp, file, allPaths, resolution)) {
+      if (resolved !== file.path) resolvedImports.push(resolved);
+    }
+  }
+  return resolvedImports;
+}
+
 export function getConsumers(graph: DependencyGraph, filePath: string, depth: number = 1): string[] {
   const visited = new Set<string>();
   const queue: Array<{ path: string; currentDepth: number }> = [{ path: filePath, currentDepth: 0 }];
@@ -135,3 +239,90 @@ export function getImpactedFiles(graph: DependencyGraph, changedFiles: string[],
 
   return impact;
 }
+
+/**
+ * Strongly connected components of the import graph that contain a cycle,
+ * i.e. groups of two or more files that reach each other through imports.
+ * Members are sorted; uses an iterative Tarjan so deep graphs cannot overflow the stack.
+ */
+export function findStronglyConnectedComponents(graph: DependencyGraph): string[][] {
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const visit = (node: string) => {
+    index.set(node, index.size);
+    lowlink.set(node, index.get(node)!);
+    stack.push(node);
+    onStack.add(node);
+  };
+
+  for (const start of [...graph.nodes.keys()].sort()) {
+    if (index.has(start)) continue;
+    visit(start);
+    const frames: Array<{ node: string; next: number }> = [{ node: start, next: 0 }];
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const imports = graph.nodes.get(frame.node)!.imports;
+
+      if (frame.next < imports.length) {
+        const target = imports[frame.next++];
+        if (!graph.nodes.has(target)) continue;
+        if (!index.has(target)) {
+          visit(target);
+          frames.push({ node: target, next: 0 });
+        } else if (onStack.has(target)) {
+          lowlink.set(frame.node, Math.min(lowlink.get(frame.node)!, index.get(target)!));
+        }
+        continue;
+      }
+
+      frames.pop();
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1].node;
+        lowlink.set(parent, Math.min(lowlink.get(parent)!, lowlink.get(frame.node)!));
+      }
+      if (lowlink.get(frame.node) === index.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        if (component.length > 1) components.push(component.sort());
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Shortest cycle through the import `from → to`, as a closed path
+ * `[from, to, ..., from]`, or null when `to` cannot reach `from`.
+ */
+export function shortestCycleThrough(graph: DependencyGraph, from: string, to: string): string[] | null {
+  const previous = new Map<string, string | null>([[to, null]]);
+  const queue = [to];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === from) {
+      const path: string[] = [];
+      for (let node: string | null = from; node !== null; node = previous.get(node)!) path.unshift(node);
+      return [from, ...path];
+    }
+    for (const next of graph.nodes.get(current)?.imports ?? []) {
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+
+  return null;
+}
@@ -111,3 +111,27 @@ export function parseDiff(diffText: string): FileInfo[] {
 
   return files;
 }
+
+/**
+ * The content of a changed file before the change, rebuilt from its content
+ * after it and the hunks: unchanged stretches are copied, removed lines put
+ * back and added lines dropped.
+ */
+export function originalContent(file: FileInfo, content: string): string {
+  if (file.status === 'added') return '';
+  const current = content.split('\n');
+  const original: string[] = [];
+  let next = 0;
+  for (const hunk of file.hunks) {
+    // A hunk that removes nothing starts after line `oldStart` rather than at it
+    const unchanged = hunk.oldLines > 0 ? hunk.oldStart - 1 : hunk.oldStart;
+    while (original.length < unchanged && next < current.length) original.push(current[next++]);
+    for (const change of hunk.changes) {
+      if (change.type === 'removed') original.push(change.content);
+      else if (change.type === 'context') original.push(current[next++]);
+      else next++;
+    }
+  }
+  original.push(...current.slice(next));
+  return original.join('\n');
+}
@@ -0,0 +1,263 @@
+import type { SgNode } from '@ast-grep/napi';
+import type { ImportInfo } from '../parsers/language-imports.js';
+import type { ModuleResolution } from './module-resolution.js';
+
+/** Project files grouped by directory (`''` for the root), built once per path set. */
+const dirIndexes = new WeakMap<Set<string>, Map<string, string[]>>();
+
+function dirOf(file: string): string {
+  const slash = file.lastIndexOf('/');
+  return slash < 0 ? '' : file.slice(0, slash);
+}
+
+function joinPath(...parts: string[]): string {
+  return parts.filter(Boolean).join('/');
+}
+
+function filesByDir(allPaths: Set<string>): Map<string, string[]> {
+  let index = dirIndexes.get(allPaths);
+  if (!index) {
+    index = new Map();
+    for (const file of allPaths) {
+      const dir = dirOf(file);
+      const files = index.get(dir);
+      if (files) files.push(file);
+      else index.set(dir, [file]);
+    }
+    dirIndexes.set(allPaths, index);
+  }
+  return index;
+}
+
+function firstExisting(candidates: string[], allPaths: Set<string>): string | undefined {
+  return candidates.find(c => allPaths.has(c));
+}
+
+// ── Python ───────────────────────────────────────────────────────
+
+/** Directories absolute imports may be rooted at: the project root, `src/` and every ancestor of the importer. */
+function pythonRoots(fromFile: string): string[] {
+  const roots = ['', 'src'];
+  const segments = dirOf(fromFile).split('/').filter(Boolean);
+  for (let i = 1; i <= segments.length; i++) roots.push(segments.slice(0, i).join('/'));
+  return [...new Set(roots)];
+}
+
+/** Names after `import` in `from x import a, b as c`, which may be submodules of `x`. */
+function fromImportNames(node: SgNode): string[] {
+  const names: string[] = [];
+  for (const child of node.children()) {
+    if (child === node.field('module_name')) continue;
+    if (child.kind() === 'dotted_name') names.push(child.text());
+    if (child.kind() === 'aliased_import') {
+      const name = child.field('name');
+      if (name) names.push(name.text());
+    }
+  }
+  return names;
+}
+
+function pythonModuleFile(base: string, allPaths: Set<string>): string | undefined {
+  return firstExisting(base ? [`${base}.py`, `${base}/__init__.py`] : ['__init__.py'], allPaths);
+}
+
+/**
+ * Resolve `import a.b` and `from a.b import c` to the module file and, for
+ * `from` imports, any submodules named after `import`. Relative imports climb
+ * one package per leading dot beyond the first.
+ */
+export function resolvePythonImport(imp: ImportInfo, fromFile: string, allPaths: Set<string>): string[] {
+  const dots = /^\.*/.exec(imp.source)![0].length;
+  const modulePath = imp.source.slice(dots).split('.').filter(Boolean).join('/');
+
+  let roots: string[];
+  if (dots > 0) {
+    const segments = dirOf(fromFile).split('/').filter(Boolean);
+    if (dots - 1 > segments.length) return [];
+    roots = [segments.slice(0, segments.length - (dots - 1)).join('/')];
+  } else {
+    if (!modulePath || modulePath === '__future__') return [];
+    roots = pythonRoots(fromFile);
+  }
+
+  const names = imp.node.kind() === 'import_from_statement' ? fromImportNames(imp.node) : [];
+  for (const root of roots) {
+    const base = joinPath(root, modulePath);
+    const module = modulePath ? pythonModuleFile(base, allPaths) : firstExisting([joinPath(base, '__init__.py')], allPaths);
+    const submodules = names.flatMap(name => pythonModuleFile(joinPath(base, name.replace(/\./g, '/')), allPaths) ?? []);
+    if (module || submodules.length > 0) return [...(module ? [module] : []), ...submodules];
+  }
+  return [];
+}
+
+// ── Go ───────────────────────────────────────────────────────────
+
+/** Resolve an import under a `go.mod` module path to the non-test files of that package directory. */
+export function resolveGoImport(source: string, allPaths: Set<string>, resolution?: ModuleResolution): string[] {
+  const module = resolution?.goModules.find(m => source === m.path || source.startsWith(`${m.path}/`));
+  if (!module) return [];
+
+  const dir = joinPath(module.dir, source.slice(module.path.length + 1));
+  return (filesByDir(allPaths).get(dir) ?? []).filter(f => f.endsWith('.go') && !f.endsWith('_test.go'));
+}
+
+// ── Java ─────────────────────────────────────────────────────────
+
+/** Directories whose path ends with the package path, under any source root. */
+function packageDirs(packagePath: string, allPaths: Set<string>): string[] {
+  return [...filesByDir(allPaths).keys()].filter(dir => dir === packagePath || dir.endsWith(`/${packagePath}`));
+}
+
+/**
+ * Resolve a fully qualified import to the class file under any source root
+ * (`src/main/java`, module directories, ...). Static imports and nested classes
+ * fall back to the enclosing class; `pkg.*` resolves to the package's classes.
+ */
+export function resolveJavaImport(source: string, allPaths: Set<string>): string[] {
+  const wildcard = source.endsWith('.*');
+  const segments = source.replace(/\.\*$/, '').split('.');
+
+  for (let i = segments.length; i >= 2; i--) {
+    const packagePath = segments.slice(0, i - 1).join('/');
+    const classes = packageDirs(packagePath, allPaths)
+      .map(dir => `${dir}/${segments[i - 1]}.java`)
+      .filter(file => allPaths.has(file));
+    if (classes.length > 0) return classes;
+
+    if (wildcard && i === segments.length) {
+      const files = packageDirs(segments.join('/'), allPaths)
+        .flatMap(dir => filesByDir(allPaths).get(dir)!.filter(f => f.endsWith('.java')));
+      if (files.length > 0) return files;
+    }
+  }
+  return [];
+}
+
+// ── Rust ─────────────────────────────────────────────────────────
+
+interface RustModule {
+  /** Directory holding the module's child module files. */
+  dir: string;
+  file: string;
+}
+
+/** Expand a use tree such as `crate::a::{b, c::{D as E, self}}` into plain paths. */
+export function expandUseTree(tree: string): string[] {
+  const text = tree.trim().replace(/^::/, '');
+  const open = text.indexOf('{');
+  if (open < 0) return [text.replace(/\s+as\s+\w+$/, '').replace(/::(\*|self)$/, '')];
+
+  const prefix = text.slice(0, open).replace(/::\s*$/, '');
+  const inner = text.slice(open + 1, text.lastIndexOf('}'));
+  const items: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < inner.length; i++) {
+    if (inner[i] === '{') depth++;
+    else if (inner[i] === '}') depth--;
+    else if (inner[i] === ',' && depth === 0) {
+      items.push(inner.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(inner.slice(start));
+
+  return items.filter(item => item.trim()).flatMap(item => expandUseTree(item).map(path =>
+    path === 'self' || path === '*' ? prefix : prefix ? `${prefix}::${path}` : path));
+}
+
+function crateRootIn(dir: string, allPaths: Set<string>): RustModule | null {
+  const file = firstExisting([joinPath(dir, 'lib.rs'), joinPath(dir, 'main.rs')], allPaths);
+  return file ? { dir, file } : null;
+}
+
+/** The nearest enclosing directory with a `lib.rs` or `main.rs`. */
+function enclosingCrateRoot(fromFile: string, allPaths: Set<string>): RustModule | null {
+  for (let dir = dirOf(fromFile); ; dir = dirOf(dir)) {
+    const root = crateRootIn(dir, allPaths);
+    if (root || !dir) return root;
+  }
+}
+
+function moduleOfFile(file: string, root: RustModule | null): RustModule {
+  const isRootOrModRs = file === root?.file || file.endsWith('/mod.rs') || file === 'mod.rs';
+  return { dir: isRootOrModRs ? dirOf(file) : file.replace(/\.rs$/, ''), file };
+}
+
+function childModule(parent: RustModule, name: string, allPaths: Set<string>): RustModule | null {
+  const dir = joinPath(parent.dir, name);
+  const file = firstExisting([`${dir}.rs`, `${dir}/mod.rs`], allPaths);
+  return file ? { dir, file } : null;
+}
+
+function parentModule(module: RustModule, root: RustModule | null, allPaths: Set<string>): RustModule | null {
+  if (!root || module.dir === root.dir) return null;
+  const dir = dirOf(module.dir);
+  if (dir === root.dir) return root;
+  const file = firstExisting([`${dir}.rs`, `${dir}/mod.rs`], allPaths);
+  return file ? { dir, file } : null;
+}
+
+function resolveRustPath(
+  usePath: string,
+  fromFile: string,
+  allPaths: Set<string>,
+  resolution?: ModuleResolution,
+): string | null {
+  const segments = usePath.split('::').map(s => s.trim()).filter(Boolean);
+  if (segments.length === 0) return null;
+
+  const root = enclosingCrateRoot(fromFile, allPaths);
+  const current = moduleOfFile(fromFile, root);
+  let module: RustModule | null;
+  let i = 1;
+
+  if (segments[0] === 'crate') {
+    module = root;
+  } else if (segments[0] === 'self') {
+    module = current;
+  } else if (segments[0] === 'super') {
+    module = current;
+    for (i = 0; segments[i] === 'super' && module; i++) module = parentModule(module, root, allPaths);
+  } else {
+    const crate = resolution?.rustCrates.find(c => c.name.replace(/-/g, '_') === segments[0]);
+    if (crate) {
+      module = crateRootIn(joinPath(crate.dir, 'src'), allPaths);
+    } else {
+      // Since Rust 2018, a path may start with a module declared next to the importer
+      module = current;
+      i = 0;
+    }
+  }
+  if (!module) return null;
+
+  let matched = i > 0;
+  for (; i < segments.length; i++) {
+    const child = childModule(module, segments[i], allPaths);
+    if (!child) break;
+    module = child;
+    matched = true;
+  }
+  return matched ? module.file : null;
+}
+
+/**
+ * Resolve a `use` tree (or a `mod` declaration, collected as `self::name`)
+ * to the module files it names. `crate::`, `self::` and `super::` follow the
+ * file layout from the nearest `lib.rs`/`main.rs`; other crates resolve
+ * through Cargo workspace members. Items inside a module resolve to the
+ * module's file.
+ */
+export function resolveRustImport(
+  source: string,
+  fromFile: string,
+  allPaths: Set<string>,
+  resolution?: ModuleResolution,
+): string[] {
+  const files = new Set<string>();
+  for (const usePath of expandUseTree(source)) {
+    const file = resolveRustPath(usePath, fromFile, allPaths, resolution);
+    if (file) files.add(file);
+  }
+  return [...files];
+}
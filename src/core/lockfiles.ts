@@ -0,0 +1,685 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+
+/** A package version pinned by a lockfile. */
+export interface LockedPackage {
+  name: string;
+  version: string;
+  ecosystem: string;
+  /** Integrity hash as the lockfile records it, such as `sha512-…` (npm), `h1:…` (go.sum) or `sha256:…`. */
+  integrity?: string;
+  /** Whether the lockfile marks the package as dev-only; undefined when the format does not say. */
+  dev?: boolean;
+  /** Packages this one depends on, as `name@version`. */
+  dependencies: string[];
+  /** Where the package is fetched from, when the lockfile records it. */
+  source?: LockedSource;
+  /** Shipped inside its parent's tarball rather than fetched on its own, so it has no hash of its own. */
+  bundled?: boolean;
+  /** Whether the package runs install scripts (`preinstall`, `install`, `postinstall`), for lockfiles that record it. */
+  installScript?: boolean;
+  /** Line of the package's entry in the lockfile. */
+  line?: number;
+  /** Declared license, for lockfiles that record it (package-lock.json). */
+  license?: string;
+}
+
+/**
+ * A package's origin: a registry (tarball URL or index), a git repository, a
+ * plain URL such as a tarball on some web server, or a local path.
+ */
+export interface LockedSource {
+  type: 'registry' | 'git' | 'url' | 'path';
+  url: string;
+}
+
+export interface Lockfile {
+  file: string;
+  ecosystem: string;
+  packages: LockedPackage[];
+  /**
+   * Direct dependencies of each workspace the lockfile covers, keyed by the
+   * workspace directory (`''` for the root), mapping names to locked versions.
+   */
+  importers: Record<string, Record<string, string>>;
+}
+
+/** Lockfiles read per directory, in order of preference within an ecosystem. */
+export const LOCKFILES: Record<string, string> = {
+  'package-lock.json': 'npm',
+  'npm-shrinkwrap.json': 'npm',
+  'pnpm-lock.yaml': 'npm',
+  'yarn.lock': 'npm',
+  'go.sum': 'Go',
+  'Cargo.lock': 'crates.io',
+  'poetry.lock': 'PyPI',
+  'uv.lock': 'PyPI',
+  'Pipfile.lock': 'PyPI',
+};
+
+/** `name@version`, the key lockfiles use to link packages to their dependencies. */
+export function packageKey(name: string, version: string): string {
+  return `${name}@${version}`;
+}
+
+/** The lockfiles present in a directory, parsed. */
+export async function readLockfiles(dir: string): Promise<Lockfile[]> {
+  const lockfiles: Lockfile[] = [];
+  for (const [file, ecosystem] of Object.entries(LOCKFILES)) {
+    let content: string;
+    try {
+      content = await readFile(join(dir, file), 'utf-8');
+    } catch {
+      continue;
+    }
+    lockfiles.push({ file, ecosystem, packages: parseLockfile(file, content), importers: parseImporters(file, content) });
+  }
+  return lockfiles;
+}
+
+/** Packages in a lockfile, or none when its content cannot be read. */
+export function parseLockfile(file: string, content: string): LockedPackage[] {
+  try {
+    switch (file) {
+      case 'package-lock.json':
+      case 'npm-shrinkwrap.json':
+        return parsePackageLock(content);
+      case 'pnpm-lock.yaml': return parsePnpmLock(content);
+      case 'yarn.lock': return parseYarnLock(content);
+      case 'go.sum': return parseGoSum(content);
+      case 'Cargo.lock': return parseCargoLock(content);
+      case 'poetry.lock': return parsePoetryLock(content);
+      case 'uv.lock': return parseUvLock(content);
+      case 'Pipfile.lock': return parsePipfileLock(content);
+      default: return [];
+    }
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Direct dependencies per workspace, for lockfiles that cover several:
+ * package-lock.json, pnpm-lock.yaml and yarn 2+ lockfiles.
+ */
+export function parseImporters(file: string, content: string): Record<string, Record<string, string>> {
+  try {
+    switch (file) {
+      case 'package-lock.json':
+      case 'npm-shrinkwrap.json':
+        return packageLockImporters(content);
+      case 'pnpm-lock.yaml': return pnpmImporters(content);
+      case 'yarn.lock': return yarnImporters(content);
+      default: return {};
+    }
+  } catch {
+    return {};
+  }
+}
+
+// ── npm ────────────────────────────────────────────────────────
+
+interface PackageLockEntry {
+  name?: string;
+  version?: string;
+  resolved?: string;
+  integrity?: string;
+  dev?: boolean;
+  link?: boolean;
+  inBundle?: boolean;
+  hasInstallScript?: boolean;
+  license?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}
+
+/** Where an npm `resolved` URL points: registry tarballs live under `<name>/-/`. */
+function npmSource(resolved: string): LockedSource {
+  if (/^(git\+|git:|github:|gitlab:|bitbucket:)/.test(resolved)) return { type: 'git', url: resolved };
+  if (/^https?:\/\//.test(resolved)) {
+    return { type: /\/-\/[^/]+\.tgz(#.*)?$/.test(resolved) ? 'registry' : 'url', url: resolved };
+  }
+  return { type: 'path', url: resolved.replace(/^(file|link):/, '') };
+}
+
+/** Line of each key matching `pattern`, for entries of a lockfile read with `JSON.parse`. */
+function keyLines(content: string, pattern: RegExp): Map<string, number> {
+  const lines = new Map<string, number>();
+  content.split('\n').forEach((line, i) => {
+    const key = pattern.exec(line)?.[1];
+    if (key !== undefined && !lines.has(key)) lines.set(key, i + 1);
+  });
+  return lines;
+}
+
+/**
+ * package-lock.json v2/v3, whose `packages` are keyed by install path. A
+ * dependency resolves like `require()` does: the nearest `node_modules`
+ * copy walking up from the dependent.
+ */
+export function parsePackageLock(content: string): LockedPackage[] {
+  const { entries, nameOf, resolve } = readPackageLock(content);
+  const lines = keyLines(content, /^\s*"((?:[^"]*\/)?node_modules\/[^"]+)":\s*\{/);
+
+  // Hoisted copies first, so a name's top-level version comes before nested ones
+  const depth = (path: string) => path.split('node_modules/').length;
+  const paths = Object.keys(entries)
+    .filter(path => path.includes('node_modules/') && !entries[path].link && entries[path].version)
+    .sort((a, b) => depth(a) - depth(b));
+
+  return paths.map(path => {
+    const entry = entries[path];
+    const children = Object.keys({ ...entry.dependencies, ...entry.optionalDependencies, ...entry.peerDependencies });
+    return {
+      name: nameOf(path),
+      version: entry.version!,
+      ecosystem: 'npm',
+      ...(entry.integrity && { integrity: entry.integrity }),
+      dev: entry.dev === true,
+      dependencies: children
+        .map(name => resolve(path, name))
+        .filter((child): child is string => child !== undefined)
+        .map(child => packageKey(nameOf(child), entries[child].version!)),
+      ...(entry.resolved && { source: npmSource(entry.resolved) }),
+      ...(entry.inBundle && { bundled: true }),
+      installScript: entry.hasInstallScript === true,
+      ...(lines.has(path) && { line: lines.get(path) }),
+      ...(typeof entry.license === 'string' && { license: entry.license }),
+    };
+  });
+}
+
+function readPackageLock(content: string) {
+  const lock = JSON.parse(content) as { packages?: Record<string, PackageLockEntry> };
+  const entries = lock.packages ?? {};
+  const nameOf = (path: string) => entries[path].name ?? path.slice(path.lastIndexOf('node_modules/') + 'node_modules/'.length);
+  const resolve = (from: string, name: string): string | undefined => {
+    for (let base = from; ; base = base.slice(0, Math.max(base.lastIndexOf('/node_modules/'), 0))) {
+      const candidate = base ? `${base}/node_modules/${name}` : `node_modules/${name}`;
+      if (entries[candidate]?.version) return candidate;
+      if (!base) return undefined;
+    }
+  };
+  return { entries, nameOf, resolve };
+}
+
+/** The root project and workspaces of a package-lock.json are its entries outside `node_modules`. */
+function packageLockImporters(content: string): Record<string, Record<string, string>> {
+  const { entries, resolve } = readPackageLock(content);
+  const importers: Record<string, Record<string, string>> = {};
+  for (const [path, entry] of Object.entries(entries)) {
+    if (path.includes('node_modules/')) continue;
+    const declared = Object.keys({ ...entry.dependencies, ...entry.devDependencies, ...entry.optionalDependencies });
+    importers[path] = {};
+    for (const name of declared) {
+      const resolved = resolve(path, name);
+      if (resolved) importers[path][name] = entries[resolved].version!;
+    }
+  }
+  return importers;
+}
+
+/** `name` and `version` from a pnpm package key: `/name@1.0.0(peer@1)` (v6+), `name@1.0.0` (v9) or `/name/1.0.0_peer@1` (v5). */
+function pnpmKey(key: string): { name: string; version: string } | null {
+  const path = key.replace(/^\//, '').replace(/\(.*$/, '');
+  const v5 = /^((?:@[^/]+\/)?[^/@]+)\/(\d[^/_]*)/.exec(path);
+  if (v5) return { name: v5[1], version: v5[2] };
+  const at = path.indexOf('@', 1);
+  return at > 0 ? { name: path.slice(0, at), version: path.slice(at + 1) } : null;
+}
+
+interface PnpmEntry {
+  name?: string;
+  version?: string;
+  resolution?: { integrity?: string; tarball?: string; repo?: string; commit?: string; directory?: string };
+  dev?: boolean;
+  requiresBuild?: boolean;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+type PnpmDependencies = Record<string, string | { version: string }>;
+
+interface PnpmImporter {
+  dependencies?: PnpmDependencies;
+  devDependencies?: PnpmDependencies;
+  optionalDependencies?: PnpmDependencies;
+}
+
+interface PnpmLock extends PnpmImporter {
+  packages?: Record<string, PnpmEntry>;
+  snapshots?: Record<string, PnpmEntry>;
+  importers?: Record<string, PnpmImporter>;
+}
+
+/** Line of each key directly under a top-level YAML `section`. */
+function sectionKeyLines(content: string, section: string): Map<string, number> {
+  const lines = new Map<string, number>();
+  let inSection = false;
+  content.split('\n').forEach((line, i) => {
+    if (/^\S/.test(line)) inSection = line.startsWith(`${section}:`);
+    const key = inSection ? /^ {2}(['"]?)(\S.*?)\1:\s*$/.exec(line)?.[2] : undefined;
+    if (key !== undefined && !lines.has(key)) lines.set(key, i + 1);
+  });
+  return lines;
+}
+
+/**
+ * pnpm-lock.yaml. Up to v6 each package lists its own dependencies; v9 moves
+ * them to `snapshots`, one per peer-dependency variant.
+ */
+export function parsePnpmLock(content: string): LockedPackage[] {
+  const lock = parseYaml(content) as PnpmLock | null;
+  const lines = sectionKeyLines(content, 'packages');
+  const packages = new Map<string, LockedPackage>();
+  const packageFor = (key: string, entry?: PnpmEntry): LockedPackage | undefined => {
+    // Packages from git or tarball URLs are keyed by their location and name themselves
+    const parsed = entry?.name && entry.version ? { name: entry.name, version: String(entry.version) } : pnpmKey(key);
+    if (!parsed) return undefined;
+    const id = packageKey(parsed.name, parsed.version);
+    let pkg = packages.get(id);
+    if (!pkg) {
+      pkg = { ...parsed, ecosystem: 'npm', dependencies: [] };
+      packages.set(id, pkg);
+    }
+    return pkg;
+  };
+  const addDependencies = (pkg: LockedPackage, entry: PnpmEntry) => {
+    for (const [name, value] of Object.entries({ ...entry.dependencies, ...entry.optionalDependencies })) {
+      const ref = String(value);
+      // Links, local paths and tarball URLs are not registry packages
+      if (/^[\w+-]+:/.test(ref)) continue;
+      // Aliased dependencies reference the real package key instead of a version
+      const target = /^[/@a-z]/i.test(ref) ? pnpmKey(ref) : { name, version: ref.replace(/[(_].*$/, '') };
+      const key = target && packageKey(target.name, target.version);
+      if (key && !pkg.dependencies.includes(key)) pkg.dependencies.push(key);
+    }
+  };
+
+  const byKey = new Map<string, LockedPackage>();
+  for (const [key, entry] of Object.entries(lock?.packages ?? {})) {
+    const pkg = packageFor(key, entry ?? undefined);
+    if (!pkg || !entry) continue;
+    byKey.set(key, pkg);
+    const { resolution } = entry;
+    if (resolution?.integrity) pkg.integrity = resolution.integrity;
+    if (resolution?.repo) pkg.source = { type: 'git', url: `${resolution.repo}#${resolution.commit ?? ''}` };
+    else if (resolution?.directory) pkg.source = { type: 'path', url: resolution.directory };
+    else if (resolution?.tarball) pkg.source = npmSource(resolution.tarball);
+    if (entry.dev !== undefined) pkg.dev = entry.dev;
+    if (entry.requiresBuild !== undefined) pkg.installScript = entry.requiresBuild;
+    if (lines.has(key)) pkg.line = lines.get(key);
+    addDependencies(pkg, entry);
+  }
+  for (const [key, entry] of Object.entries(lock?.snapshots ?? {})) {
+    const pkg = byKey.get(key.replace(/\(.*$/, '')) ?? packageFor(key);
+    if (pkg && entry) addDependencies(pkg, entry);
+  }
+  return [...packages.values()];
+}
+
+/** pnpm `importers` keyed by workspace directory; lockfiles of a single project list its dependencies at the top level. */
+function pnpmImporters(content: string): Record<string, Record<string, string>> {
+  const lock = parseYaml(content) as PnpmLock | null;
+  const importers: Record<string, Record<string, string>> = {};
+  for (const [dir, importer] of Object.entries(lock?.importers ?? { '.': lock ?? {} })) {
+    const versions: Record<string, string> = {};
+    for (const [name, value] of Object.entries({ ...importer.devDependencies, ...importer.optionalDependencies, ...importer.dependencies })) {
+      const version = String(typeof value === 'object' && value ? value.version : value).replace(/[(_].*$/, '');
+      // Workspace links, local paths and aliases have no registry version of their own
+      if (/^\d/.test(version)) versions[name] = version;
+    }
+    importers[dir === '.' ? '' : dir] = versions;
+  }
+  return importers;
+}
+
+/** The package name in a yarn descriptor such as `@babel/core@^7.0.0` or `lodash@npm:^4.17.0`. */
+function descriptorName(descriptor: string): string {
+  return descriptor.slice(0, descriptor.indexOf('@', 1));
+}
+
+interface YarnEntry {
+  descriptors: string[];
+  version: string;
+  integrity?: string;
+  source?: LockedSource;
+  line: number;
+  /** Directory of a yarn 2+ workspace entry. */
+  workspace?: string;
+  dependencies: Record<string, string>;
+}
+
+/** Where a yarn 2+ `resolution` points; registry packages use the `npm:` protocol. */
+function yarnBerrySource(resolution: string): LockedSource | undefined {
+  const locator = resolution.slice(resolution.indexOf('@', 1) + 1);
+  if (locator.startsWith('npm:')) return undefined;
+  if (/^(git\+|git:|github:|ssh:)|\.git(#|$)|#commit=/.test(locator)) return { type: 'git', url: locator };
+  if (/^https?:\/\//.test(locator)) return npmSource(locator);
+  return { type: 'path', url: locator.replace(/^\w+:/, '') };
+}
+
+/**
+ * The entries of a yarn.lock, and how a dependency's `name` and range
+ * resolve to a locked `name@version`.
+ */
+function readYarnLock(content: string): { entries: YarnEntry[]; resolve: (name: string, range: string) => string | undefined } {
+  const entries: YarnEntry[] = [];
+  const lines = content.split('\n');
+  if (/^__metadata:/m.test(content)) {
+    const headers = new Map<string, number>();
+    lines.forEach((line, i) => {
+      if (/^\S.*:$/.test(line)) headers.set(line.slice(0, -1).replace(/^"|"$/g, ''), i + 1);
+    });
+    type BerryEntry = { version?: string; resolution?: string; checksum?: string; dependencies?: Record<string, string> };
+    const lock = parseYaml(content) as Record<string, BerryEntry>;
+    for (const [key, entry] of Object.entries(lock)) {
+      if (key === '__metadata' || !entry?.version || /@patch:/.test(key)) continue;
+      const workspace = /@workspace:(.*)$/.exec(key)?.[1];
+      const source = entry.resolution ? yarnBerrySource(entry.resolution) : undefined;
+      entries.push({
+        descriptors: key.split(/,\s*/),
+        version: String(entry.version),
+        ...(entry.checksum && { integrity: entry.checksum }),
+        ...(source && { source }),
+        line: headers.get(key) ?? 1,
+        ...(workspace !== undefined && { workspace: workspace === '.' ? '' : workspace }),
+        dependencies: Object.fromEntries(Object.entries(entry.dependencies ?? {}).map(([name, range]) => [name, String(range)])),
+      });
+    }
+  } else {
+    let current: YarnEntry | null = null;
+    let inDependencies = false;
+    lines.forEach((line, i) => {
+      if (!line.trim() || line.startsWith('#')) return;
+      if (!/^\s/.test(line)) {
+        current = { descriptors: line.replace(/:$/, '').split(/,\s*/).map(d => d.replace(/^"|"$/g, '')), version: '', line: i + 1, dependencies: {} };
+        entries.push(current);
+        inDependencies = false;
+        return;
+      }
+      if (!current) return;
+      const field = /^ {2}(\w+):?\s*"?([^"]*)"?$/.exec(line);
+      if (field) {
+        inDependencies = /^(dependencies|optionalDependencies)$/.test(field[1]);
+        if (field[1] === 'version') current.version = field[2];
+        if (field[1] === 'integrity') current.integrity = field[2];
+        if (field[1] === 'resolved') current.source = npmSource(field[2]);
+        return;
+      }
+      const dependency = /^ {4}"?([^"\s]+)"?\s+"?([^"]*)"?$/.exec(line);
+      if (dependency && inDependencies) current.dependencies[dependency[1]] = dependency[2];
+    });
+    for (const entry of entries) {
+      // Lockfiles from before yarn 1.10 only have the SHA-1 in the URL fragment
+      const sha1 = entry.source && /#([0-9a-f]{40})$/.exec(entry.source.url)?.[1];
+      if (!entry.integrity && sha1) entry.integrity = `sha1-${Buffer.from(sha1, 'hex').toString('base64')}`;
+    }
+  }
+
+  const byDescriptor = new Map<string, string>();
+  for (const entry of entries) {
+    for (const descriptor of entry.descriptors) byDescriptor.set(descriptor, packageKey(descriptorName(descriptor), entry.version));
+  }
+  const resolve = (name: string, range: string) => byDescriptor.get(`${name}@${range}`) ?? byDescriptor.get(`${name}@npm:${range}`);
+  return { entries, resolve };
+}
+
+/**
+ * yarn.lock, both the classic v1 format and the YAML of yarn 2+. Entries are
+ * keyed by every `name@range` descriptor they satisfy, which is how
+ * dependencies point at them.
+ */
+export function parseYarnLock(content: string): LockedPackage[] {
+  const { entries, resolve } = readYarnLock(content);
+  return entries.filter(entry => entry.version && entry.workspace === undefined).map(entry => ({
+    name: descriptorName(entry.descriptors[0]),
+    version: entry.version,
+    ecosystem: 'npm',
+    ...(entry.integrity && { integrity: entry.integrity }),
+    dependencies: Object.entries(entry.dependencies)
+      .map(([name, range]) => resolve(name, range))
+      .filter((key): key is string => key !== undefined),
+    ...(entry.source && { source: entry.source }),
+    line: entry.line,
+  }));
+}
+
+/** Workspaces of a yarn 2+ lockfile; classic lockfiles do not record them. */
+function yarnImporters(content: string): Record<string, Record<string, string>> {
+  const { entries, resolve } = readYarnLock(content);
+  const importers: Record<string, Record<string, string>> = {};
+  for (const entry of entries) {
+    if (entry.workspace === undefined) continue;
+    importers[entry.workspace] = {};
+    for (const [name, range] of Object.entries(entry.dependencies)) {
+      const key = range.startsWith('workspace:') ? undefined : resolve(name, range);
+      if (key) importers[entry.workspace][name] = key.slice(key.lastIndexOf('@') + 1);
+    }
+  }
+  return importers;
+}
+
+// ── Go ─────────────────────────────────────────────────────────
+
+/** The 1-based line of a character offset. */
+function lineAt(content: string, index: number): number {
+  let line = 1;
+  for (let i = content.indexOf('\n'); i !== -1 && i < index; i = content.indexOf('\n', i + 1)) line++;
+  return line;
+}
+
+/**
+ * go.sum. Only modules with a hash for their source, not just their go.mod,
+ * are built; go.sum lists versions in order, so the last one is kept. It
+ * records no dependency edges.
+ */
+export function parseGoSum(content: string): LockedPackage[] {
+  const modules = new Map<string, LockedPackage>();
+  for (const match of content.matchAll(/^(\S+)\s+(v[^\s/]+)\s+(h1:\S+)/gm)) {
+    modules.set(match[1], {
+      name: match[1],
+      version: match[2],
+      ecosystem: 'Go',
+      integrity: match[3],
+      dependencies: [],
+      line: lineAt(content, match.index!),
+    });
+  }
+  return [...modules.values()];
+}
+
+// ── TOML lockfiles ─────────────────────────────────────────────
+
+/** Each `[[package]]` table up to the next one or a non-package table, with the line of its header. */
+function packageTables(content: string): Array<{ table: string; line: number }> {
+  const headers = [...content.matchAll(/^\[\[package\]\][ \t]*$/gm)];
+  return headers.map((header, i) => ({
+    table: content.slice(header.index! + header[0].length, headers[i + 1]?.index ?? content.length).split(/^\[(?!package\.)/m)[0],
+    line: lineAt(content, header.index!),
+  }));
+}
+
+function tomlString(table: string, key: string): string | undefined {
+  return new RegExp(`^${key}\\s*=\\s*"([^"]*)"`, 'm').exec(table)?.[1];
+}
+
+/** The body of a `[package.<name>]` subtable. */
+function subtable(table: string, name: string): string | undefined {
+  return new RegExp(`^\\[package\\.${name}\\][ \\t]*$([\\s\\S]*?)(?=^\\[|$(?![\\s\\S]))`, 'm').exec(table)?.[1];
+}
+
+/** Resolve dependency names to `name@version`, given every locked version of each name. */
+function linkByName(packages: LockedPackage[], refs: Map<LockedPackage, string[]>, normalize: (name: string) => string): void {
+  const versions = new Map<string, LockedPackage[]>();
+  for (const pkg of packages) versions.set(normalize(pkg.name), [...versions.get(normalize(pkg.name)) ?? [], pkg]);
+  for (const [pkg, names] of refs) {
+    for (const ref of names) {
+      // Cargo disambiguates with `name version` when several versions are locked
+      const [name, version] = ref.split(' ');
+      const candidates = versions.get(normalize(name)) ?? [];
+      const target = version ? candidates.find(c => c.version === version) : candidates[0];
+      if (target) pkg.dependencies.push(packageKey(target.name, target.version));
+    }
+  }
+}
+
+/** A Cargo `source`: `registry+<index>` or `sparse+<index>` for registries, `git+<url>#<commit>` for git. */
+function cargoSource(source: string): LockedSource {
+  const [, kind, url] = /^(\w+)\+(.*)$/.exec(source) ?? [, '', source];
+  return { type: kind === 'git' ? 'git' : kind === 'registry' || kind === 'sparse' ? 'registry' : 'url', url: url ?? source };
+}
+
+/** Cargo.lock. Crates without a `source` are workspace members or path dependencies, not packages. */
+export function parseCargoLock(content: string): LockedPackage[] {
+  const packages: LockedPackage[] = [];
+  const refs = new Map<LockedPackage, string[]>();
+  for (const { table, line } of packageTables(content)) {
+    const name = tomlString(table, 'name');
+    const version = tomlString(table, 'version');
+    const source = tomlString(table, 'source');
+    if (!name || !version || !source) continue;
+    const checksum = tomlString(table, 'checksum');
+    const pkg: LockedPackage = {
+      name,
+      version,
+      ecosystem: 'crates.io',
+      ...(checksum && { integrity: `sha256:${checksum}` }),
+      dependencies: [],
+      source: cargoSource(source),
+      line,
+    };
+    packages.push(pkg);
+    const list = /^dependencies\s*=\s*\[([^\]]*)\]/m.exec(table)?.[1] ?? '';
+    refs.set(pkg, [...list.matchAll(/"([^"]+)"/g)].map(m => m[1].replace(/\s*\(.*\)$/, '')));
+  }
+  linkByName(packages, refs, name => name);
+  return packages;
+}
+
+function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+/** A poetry `[package.source]`: `git`, `url`, `file` or `directory`, or `legacy` for another package index. */
+function poetrySource(table: string): LockedSource | undefined {
+  const section = subtable(table, 'source');
+  const type = section && tomlString(section, 'type');
+  const url = section && tomlString(section, 'url');
+  if (!type || !url) return undefined;
+  switch (type) {
+    case 'git': return { type: 'git', url: `${url}#${tomlString(section, 'resolved_reference') ?? tomlString(section, 'reference') ?? ''}` };
+    case 'url': return { type: 'url', url };
+    case 'legacy': return { type: 'registry', url };
+    default: return { type: 'path', url };
+  }
+}
+
+/** poetry.lock. The hash is the first distribution file's; `category` only exists before Poetry 1.5. */
+export function parsePoetryLock(content: string): LockedPackage[] {
+  const packages: LockedPackage[] = [];
+  const refs = new Map<LockedPackage, string[]>();
+  for (const { table, line } of packageTables(content)) {
+    const name = tomlString(table, 'name');
+    const version = tomlString(table, 'version');
+    if (!name || !version) continue;
+    const hash = /\bhash\s*=\s*"([^"]+)"/.exec(table)?.[1];
+    const category = tomlString(table, 'category');
+    const source = poetrySource(table);
+    const pkg: LockedPackage = {
+      name,
+      version,
+      ecosystem: 'PyPI',
+      ...(hash && { integrity: hash }),
+      ...(category && { dev: category === 'dev' }),
+      dependencies: [],
+      ...(source && { source }),
+      line,
+    };
+    packages.push(pkg);
+    refs.set(pkg, [...(subtable(table, 'dependencies') ?? '').matchAll(/^([\w.-]+)\s*=/gm)].map(m => m[1]));
+  }
+  linkByName(packages, refs, normalizePythonName);
+  return packages;
+}
+
+/** A uv `source = { registry = "…" }`, or `git`, `url`, `path` or `directory`. */
+function uvSource(table: string): LockedSource | undefined {
+  const [, kind, url] = /^source\s*=\s*\{\s*(\w+)\s*=\s*"([^"]*)"/m.exec(table) ?? [];
+  if (!kind) return undefined;
+  return { type: kind === 'registry' ? 'registry' : kind === 'git' ? 'git' : kind === 'url' ? 'url' : 'path', url };
+}
+
+/** uv.lock. The project itself is locked as an editable or virtual source and is skipped. */
+export function parseUvLock(content: string): LockedPackage[] {
+  const packages: LockedPackage[] = [];
+  const refs = new Map<LockedPackage, string[]>();
+  for (const { table, line } of packageTables(content)) {
+    const name = tomlString(table, 'name');
+    const version = tomlString(table, 'version');
+    if (!name || !version || /^source\s*=\s*\{\s*(editable|virtual)\s*=/m.test(table)) continue;
+    const hash = /\bhash\s*=\s*"([^"]+)"/.exec(table)?.[1];
+    const source = uvSource(table);
+    const pkg: LockedPackage = {
+      name,
+      version,
+      ecosystem: 'PyPI',
+      ...(hash && { integrity: hash }),
+      dependencies: [],
+      ...(source && { source }),
+      line,
+    };
+    packages.push(pkg);
+    const list = /^dependencies\s*=\s*\[([\s\S]*?)\][ \t]*$/m.exec(table)?.[1] ?? '';
+    refs.set(pkg, [...list.matchAll(/name\s*=\s*"([^"]+)"/g)].map(m => m[1]));
+  }
+  linkByName(packages, refs, normalizePythonName);
+  return packages;
+}
+
+/**
+ * Pipfile.lock, which pins versions and hashes per section but records no
+ * dependency edges. Git dependencies are pinned to a ref instead of a version.
+ */
+export function parsePipfileLock(content: string): LockedPackage[] {
+  type Section = Record<string, { version?: string; hashes?: string[]; index?: string; git?: string; ref?: string; file?: string; path?: string }>;
+  const lock = JSON.parse(content) as { _meta?: { sources?: Array<{ name: string; url: string }> }; default?: Section; develop?: Section };
+  const indexes = new Map((lock._meta?.sources ?? []).map(source => [source.name, source.url]));
+
+  // Pipfile.lock is indented by four spaces: sections at one level, packages at two
+  const lines = new Map<string, number>();
+  let section = '';
+  content.split('\n').forEach((line, i) => {
+    const key = /^( {4}| {8})"([^"]+)":\s*\{/.exec(line);
+    if (key?.[1].length === 4) section = key[2];
+    else if (key) lines.set(`${section}\0${key[2]}`, i + 1);
+  });
+
+  const packages: LockedPackage[] = [];
+  for (const [sectionName, entries, dev] of [['default', lock.default, false], ['develop', lock.develop, true]] as const) {
+    for (const [name, entry] of Object.entries(entries ?? {})) {
+      const source: LockedSource | undefined = entry.git ? { type: 'git', url: `${entry.git}#${entry.ref ?? ''}` }
+        : entry.file ? (/^https?:\/\//.test(entry.file) ? { type: 'url', url: entry.file } : { type: 'path', url: entry.file })
+        : entry.path ? { type: 'path', url: entry.path }
+        : entry.index && indexes.has(entry.index) ? { type: 'registry', url: indexes.get(entry.index)! }
+        : undefined;
+      const version = entry.version?.replace(/^==/, '') ?? entry.ref;
+      if (!version) continue;
+      const line = lines.get(`${sectionName}\0${name}`);
+      packages.push({
+        name,
+        version,
+        ecosystem: 'PyPI',
+        ...(entry.hashes?.[0] && { integrity: entry.hashes[0] }),
+        dev,
+        dependencies: [],
+        ...(source && { source }),
+        ...(line && { line }),
+      });
+    }
+  }
+  return packages;
+}
@@ -1,5 +1,5 @@
 import type { DependencyGraph } from './dependency-graph.js';
-import { getConsumers } from './dependency-graph.js';
+import { findStronglyConnectedComponents, getConsumers } from './dependency-graph.js';
 import { basename, dirname } from 'node:path';
 
 function sanitizeId(path: string): string {
@@ -42,12 +42,23 @@ export function generateImpactDiagram(
   return lines.join('\n');
 }
 
+/**
+ * Architecture diagram with one subgraph per directory. Files in an import
+ * cycle and the imports that form it are highlighted.
+ */
 export function generateArchitectureDiagram(
   graph: DependencyGraph,
   scope?: string,
 ): string {
   const lines: string[] = ['graph TD'];
   const edges = new Set<string>();
+  const cycleEdges: number[] = [];
+
+  // Component of every file that is part of a cycle
+  const componentOf = new Map<string, number>();
+  findStronglyConnectedComponents(graph).forEach((component, i) => {
+    for (const file of component) componentOf.set(file, i);
+  });
 
   // Group files by directory
   const dirGroups = new Map<string, string[]>();
@@ -64,7 +75,8 @@ export function generateArchitectureDiagram(
     const dirId = sanitizeId(dir);
     lines.push(`  subgraph ${dirId}["${dir}"]`);
     for (const file of files) {
-      lines.push(`    ${sanitizeId(file)}["${shortName(file)}"]`);
+      const cycleClass = componentOf.has(file) ? ':::cycle' : '';
+      lines.push(`    ${sanitizeId(file)}["${shortName(file)}"]${cycleClass}`);
     }
     lines.push('  end');
   }
@@ -78,11 +90,19 @@ export function generateArchitectureDiagram(
       const toId = sanitizeId(imp);
       const edge = `${fromId} --> ${toId}`;
       if (!edges.has(edge)) {
+        if (componentOf.has(path) && componentOf.get(path) === componentOf.get(imp)) {
+          cycleEdges.push(edges.size);
+        }
         edges.add(edge);
         lines.push(`  ${edge}`);
       }
     }
   }
 
+  if (componentOf.size > 0) {
+    lines.push('  classDef cycle fill:#fdd,stroke:#d33,stroke-width:2px');
+    if (cycleEdges.length > 0) lines.push(`  linkStyle ${cycleEdges.join(',')} stroke:#d33,stroke-width:2px`);
+  }
+
   return lines.join('\n');
 }
@@ -0,0 +1,470 @@
+import { readFile, readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { minimatch } from 'minimatch';
+import { parse as parseYaml } from 'yaml';
+import { logger } from '../utils/logger.js';
+
+/** Compiler options of one `tsconfig.json`, after following its `extends` chain. */
+export interface TsconfigScope {
+  /** Project-relative directory of the tsconfig; its options apply to files below it. */
+  dir: string;
+  /** Project-relative `baseUrl`, if set. */
+  baseUrl?: string;
+  paths: Record<string, string[]>;
+  /** Project-relative directory `paths` targets are relative to. */
+  pathsBase: string;
+}
+
+export interface WorkspacePackage {
+  name?: string;
+  /** Project-relative package directory; `''` for the root package. */
+  dir: string;
+  exports?: unknown;
+  imports?: unknown;
+  main?: string;
+  module?: string;
+  /** Scripts from `bin`. */
+  bin?: string[];
+}
+
+export interface GoModule {
+  /** Project-relative directory of the `go.mod`. */
+  dir: string;
+  /** Module path declared in `go.mod`. */
+  path: string;
+}
+
+export interface RustCrate {
+  /** Package name from `Cargo.toml`, as written (dashes are not normalized). */
+  name: string;
+  dir: string;
+}
+
+/**
+ * How non-relative imports resolve to project files: tsconfig aliases,
+ * workspace packages, Go modules and Cargo workspace crates.
+ */
+export interface ModuleResolution {
+  /** Deepest directory first, so the nearest tsconfig wins. */
+  tsconfigs: TsconfigScope[];
+  /** Deepest directory first, so the nearest package wins for `#imports`. */
+  packages: WorkspacePackage[];
+  /** Longest module path first, so nested modules win. */
+  goModules: GoModule[];
+  rustCrates: RustCrate[];
+}
+
+/** Export conditions tried in order; `types` last because it usually points at `.d.ts` output. */
+const CONDITION_ORDER = ['source', 'development', 'import', 'module', 'node', 'default', 'require', 'types'];
+
+/** Build output directories mapped back to `src/` when a package points at files that are not checked in. */
+const BUILD_DIRS = /^(dist|lib|build|out)\//;
+
+const MAX_WORKSPACE_DEPTH = 4;
+
+async function readText(file: string): Promise<string | null> {
+  try {
+    return await readFile(file, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+async function readJson(file: string): Promise<Record<string, unknown> | null> {
+  try {
+    return parseJsonc(await readFile(file, 'utf-8')) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+/** Parse JSON with comments and trailing commas, as tsconfig files allow. */
+export function parseJsonc(text: string): unknown {
+  let out = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      out += ch;
+      if (ch === '\\') out += text[++i] ?? '';
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+      out += ch;
+    } else if (ch === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      out += '\n';
+    } else if (ch === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end < 0 ? text.length : end + 1;
+    } else {
+      out += ch;
+    }
+  }
+  return JSON.parse(out.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+async function isFile(file: string): Promise<boolean> {
+  try {
+    return (await stat(file)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function toProjectPath(projectRoot: string, absolute: string): string {
+  return path.relative(projectRoot, absolute).split(path.sep).join('/');
+}
+
+// ── tsconfig ─────────────────────────────────────────────────────
+
+/** Resolve an `extends` entry: a relative path, or a config shipped in a package. */
+async function resolveExtends(from: string, specifier: string, projectRoot: string): Promise<string | null> {
+  const base = specifier.startsWith('.') || path.isAbsolute(specifier)
+    ? path.resolve(path.dirname(from), specifier)
+    : path.join(projectRoot, 'node_modules', specifier);
+  for (const candidate of [base, `${base}.json`, path.join(base, 'tsconfig.json')]) {
+    if (await isFile(candidate)) return candidate;
+  }
+  return null;
+}
+
+interface CompilerPaths {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  pathsBase?: string;
+}
+
+/** `baseUrl` and `paths` of `file`, merged over the configs it extends. Paths are absolute. */
+async function readCompilerPaths(file: string, projectRoot: string, seen = new Set<string>()): Promise<CompilerPaths> {
+  if (seen.has(file)) return {};
+  seen.add(file);
+
+  const config = await readJson(file);
+  if (!config) return {};
+
+  let merged: CompilerPaths = {};
+  const parents = Array.isArray(config.extends) ? config.extends : config.extends ? [config.extends] : [];
+  for (const parent of parents) {
+    if (typeof parent !== 'string') continue;
+    const parentFile = await resolveExtends(file, parent, projectRoot);
+    if (parentFile) merged = { ...merged, ...await readCompilerPaths(parentFile, projectRoot, seen) };
+  }
+
+  const options = (config.compilerOptions ?? {}) as { baseUrl?: string; paths?: Record<string, string[]> };
+  const dir = path.dirname(file);
+  if (options.baseUrl !== undefined) merged.baseUrl = path.resolve(dir, options.baseUrl);
+  if (options.paths) merged = { ...merged, paths: options.paths, pathsBase: dir };
+  return merged;
+}
+
+async function loadTsconfig(projectRoot: string, dir: string): Promise<TsconfigScope | null> {
+  const file = path.join(projectRoot, dir, 'tsconfig.json');
+  if (!await isFile(file)) return null;
+
+  const { baseUrl, paths, pathsBase } = await readCompilerPaths(file, projectRoot);
+  if (baseUrl === undefined && !paths) return null;
+  return {
+    dir,
+    baseUrl: baseUrl !== undefined ? toProjectPath(projectRoot, baseUrl) : undefined,
+    paths: paths ?? {},
+    // Without a baseUrl, paths are relative to the tsconfig that declares them
+    pathsBase: toProjectPath(projectRoot, baseUrl ?? pathsBase ?? path.join(projectRoot, dir)),
+  };
+}
+
+// ── Workspaces ───────────────────────────────────────────────────
+
+/** Workspace globs from package.json (npm, yarn) and pnpm-workspace.yaml. */
+async function workspacePatterns(projectRoot: string, manifest: Record<string, unknown> | null): Promise<string[]> {
+  const patterns: string[] = [];
+  const workspaces = manifest?.workspaces;
+  if (Array.isArray(workspaces)) {
+    patterns.push(...workspaces.filter((w): w is string => typeof w === 'string'));
+  } else if (workspaces && typeof workspaces === 'object' && Array.isArray((workspaces as { packages?: unknown }).packages)) {
+    patterns.push(...(workspaces as { packages: unknown[] }).packages.filter((w): w is string => typeof w === 'string'));
+  }
+
+  try {
+    const pnpm = parseYaml(await readFile(path.join(projectRoot, 'pnpm-workspace.yaml'), 'utf-8')) as { packages?: unknown };
+    if (Array.isArray(pnpm?.packages)) {
+      patterns.push(...pnpm.packages.filter((w): w is string => typeof w === 'string'));
+    }
+  } catch {
+    // Not a pnpm workspace
+  }
+
+  return patterns.map(p => p.replace(/^\.\//, '').replace(/\/+$/, ''));
+}
+
+/** Directories below the root that match the workspace globs and contain `manifest`. */
+async function expandWorkspaces(projectRoot: string, patterns: string[], manifest = 'package.json'): Promise<string[]> {
+  const include = patterns.filter(p => !p.startsWith('!'));
+  const exclude = patterns.filter(p => p.startsWith('!')).map(p => p.slice(1));
+  const dirs = new Set<string>();
+
+  for (const pattern of include) {
+    // Walk from the static part of the pattern, e.g. `packages` for `packages/*`
+    const segments = pattern.split('/');
+    const firstGlob = segments.findIndex(s => /[*?[{]/.test(s));
+    const base = firstGlob < 0 ? pattern : segments.slice(0, firstGlob).join('/');
+    const depth = firstGlob < 0 ? 0 : pattern.includes('**') ? MAX_WORKSPACE_DEPTH : segments.length - firstGlob;
+
+    const visit = async (dir: string, remaining: number): Promise<void> => {
+      if (minimatch(dir, pattern) && !exclude.some(e => minimatch(dir, e)) &&
+          await isFile(path.join(projectRoot, dir, manifest))) {
+        dirs.add(dir);
+      }
+      if (remaining === 0) return;
+      let entries;
+      try {
+        entries = await readdir(path.join(projectRoot, dir), { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+        await visit(dir ? `${dir}/${entry.name}` : entry.name, remaining - 1);
+      }
+    };
+    await visit(base, depth);
+  }
+
+  return [...dirs];
+}
+
+function toPackage(dir: string, manifest: Record<string, unknown>): WorkspacePackage {
+  return {
+    name: typeof manifest.name === 'string' ? manifest.name : undefined,
+    dir,
+    exports: manifest.exports,
+    imports: manifest.imports,
+    main: typeof manifest.main === 'string' ? manifest.main : undefined,
+    module: typeof manifest.module === 'string' ? manifest.module : undefined,
+    bin: typeof manifest.bin === 'string'
+      ? [manifest.bin]
+      : manifest.bin && typeof manifest.bin === 'object'
+        ? Object.values(manifest.bin).filter((b): b is string => typeof b === 'string')
+        : undefined,
+  };
+}
+
+// ── Go and Rust ──────────────────────────────────────────────────
+
+/** The root `go.mod` and those of `go.work` `use` directories. */
+async function loadGoModules(projectRoot: string): Promise<GoModule[]> {
+  const dirs = [''];
+  const work = await readText(path.join(projectRoot, 'go.work'));
+  if (work) {
+    const uses = [...work.matchAll(/^use\s*\(([^)]*)\)/gm)].flatMap(m => m[1].split('\n'));
+    uses.push(...[...work.matchAll(/^use\s+([^\s(]+)/gm)].map(m => m[1]));
+    for (const use of uses) {
+      const dir = use.replace(/\/\/.*$/, '').trim().replace(/^"|"$/g, '');
+      if (dir) dirs.push(path.posix.normalize(dir).replace(/^\.\/?|\/$/g, ''));
+    }
+  }
+
+  const modules: GoModule[] = [];
+  for (const dir of new Set(dirs)) {
+    const goMod = await readText(path.join(projectRoot, dir, 'go.mod'));
+    const modulePath = goMod && /^module\s+"?([^\s"]+)"?/m.exec(goMod)?.[1];
+    if (modulePath) modules.push({ dir, path: modulePath });
+  }
+  return modules.sort((a, b) => b.path.length - a.path.length);
+}
+
+/** Lines of a TOML table such as `[package]`, up to the next table header. */
+function tomlTable(content: string, table: string): string {
+  const lines = content.split('\n');
+  const start = lines.findIndex(line => line.trim() === `[${table}]`);
+  if (start < 0) return '';
+  const end = lines.findIndex((line, i) => i > start && line.trim().startsWith('['));
+  return lines.slice(start + 1, end < 0 ? undefined : end).join('\n');
+}
+
+function tomlStrings(table: string, key: string): string[] {
+  const array = new RegExp(`^${key}\\s*=\\s*\\[([^\\]]*)\\]`, 'm').exec(table)?.[1] ?? '';
+  return [...array.matchAll(/"([^"]+)"/g)].map(m => m[1]);
+}
+
+/** The root crate and the members of a Cargo workspace. */
+async function loadRustCrates(projectRoot: string): Promise<RustCrate[]> {
+  const root = await readText(path.join(projectRoot, 'Cargo.toml'));
+  if (!root) return [];
+
+  const crates: RustCrate[] = [];
+  const crateAt = (dir: string, manifest: string) => {
+    const name = /^name\s*=\s*"([^"]+)"/m.exec(tomlTable(manifest, 'package'))?.[1];
+    if (name) crates.push({ name, dir });
+  };
+  crateAt('', root);
+
+  const workspace = tomlTable(root, 'workspace');
+  const patterns = [
+    ...tomlStrings(workspace, 'members'),
+    ...tomlStrings(workspace, 'exclude').map(p => `!${p}`),
+  ].map(p => p.replace(/^\.\//, '').replace(/\/+$/, ''));
+  for (const dir of await expandWorkspaces(projectRoot, patterns, 'Cargo.toml')) {
+    const manifest = await readText(path.join(projectRoot, dir, 'Cargo.toml'));
+    if (manifest) crateAt(dir, manifest);
+  }
+  return crates;
+}
+
+/**
+ * Read the tsconfig `paths`/`baseUrl` (root and per workspace package), the
+ * workspace packages, Go modules and Cargo crates of the project. Missing or
+ * unreadable files contribute nothing.
+ */
+export async function loadModuleResolution(projectRoot: string): Promise<ModuleResolution> {
+  const rootManifest = await readJson(path.join(projectRoot, 'package.json'));
+  const packages: WorkspacePackage[] = rootManifest ? [toPackage('', rootManifest)] : [];
+
+  for (const dir of await expandWorkspaces(projectRoot, await workspacePatterns(projectRoot, rootManifest))) {
+    const manifest = await readJson(path.join(projectRoot, dir, 'package.json'));
+    if (manifest) packages.push(toPackage(dir, manifest));
+  }
+
+  const tsconfigs: TsconfigScope[] = [];
+  for (const dir of ['', ...packages.filter(p => p.dir).map(p => p.dir)]) {
+    const scope = await loadTsconfig(projectRoot, dir);
+    if (scope) tsconfigs.push(scope);
+  }
+
+  const goModules = await loadGoModules(projectRoot);
+  const rustCrates = await loadRustCrates(projectRoot);
+
+  const byDepth = (a: { dir: string }, b: { dir: string }) => b.dir.length - a.dir.length;
+  logger.debug(`Module resolution: ${tsconfigs.length} tsconfig scope(s), ${packages.length} package(s), ` +
+    `${goModules.length} Go module(s), ${rustCrates.length} crate(s)`);
+  return { tsconfigs: tsconfigs.sort(byDepth), packages: packages.sort(byDepth), goModules, rustCrates };
+}
+
+// ── Resolution ───────────────────────────────────────────────────
+
+function contains(dir: string, file: string): boolean {
+  return dir === '' || file.startsWith(`${dir}/`);
+}
+
+function join(...parts: string[]): string {
+  return path.posix.normalize(parts.filter(Boolean).join('/')).replace(/^\.\//, '');
+}
+
+/**
+ * Match `key` against a map whose keys may contain one `*`, as tsconfig `paths`
+ * and package `exports`/`imports` do. Exact keys win, then the longest prefix.
+ */
+function matchPattern<T>(map: Record<string, T>, key: string): { value: T; wildcard: string } | null {
+  if (Object.prototype.hasOwnProperty.call(map, key)) return { value: map[key], wildcard: '' };
+
+  let best: { value: T; wildcard: string; prefix: number } | null = null;
+  for (const [pattern, value] of Object.entries(map)) {
+    const star = pattern.indexOf('*');
+    if (star < 0) continue;
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    if (key.length >= prefix.length + suffix.length && key.startsWith(prefix) && key.endsWith(suffix) &&
+        (!best || prefix.length > best.prefix)) {
+      best = { value, wildcard: key.slice(prefix.length, key.length - suffix.length), prefix: prefix.length };
+    }
+  }
+  return best;
+}
+
+/** String targets of an `exports`/`imports` entry, by condition preference. */
+function conditionTargets(target: unknown): string[] {
+  if (typeof target === 'string') return [target];
+  if (Array.isArray(target)) return target.flatMap(conditionTargets);
+  if (!target || typeof target !== 'object') return [];
+
+  const entries = Object.entries(target as Record<string, unknown>);
+  const rank = (condition: string) => {
+    const index = CONDITION_ORDER.indexOf(condition);
+    return index < 0 ? CONDITION_ORDER.indexOf('types') : index;
+  };
+  return entries.sort((a, b) => rank(a[0]) - rank(b[0])).flatMap(([, value]) => conditionTargets(value));
+}
+
+/** Package files for `subpath` (`.` or `./x`): the target itself, then its `src/` counterpart. */
+function packageFiles(pkg: WorkspacePackage, targets: string[]): string[] {
+  return targets.flatMap((target) => {
+    const relative = target.replace(/^\.\//, '');
+    const files = [join(pkg.dir, relative)];
+    if (BUILD_DIRS.test(relative)) files.push(join(pkg.dir, relative.replace(BUILD_DIRS, 'src/')));
+    return files;
+  });
+}
+
+function exportsCandidates(pkg: WorkspacePackage, subpath: string): string[] {
+  let exportsMap = pkg.exports;
+  if (exportsMap !== undefined) {
+    // A string, array or conditions object is shorthand for the `.` entry
+    const isSubpathMap = typeof exportsMap === 'object' && exportsMap !== null && !Array.isArray(exportsMap) &&
+      Object.keys(exportsMap).some(k => k.startsWith('.'));
+    if (!isSubpathMap) exportsMap = { '.': exportsMap };
+
+    const match = matchPattern(exportsMap as Record<string, unknown>, subpath);
+    if (!match) return [];
+    return packageFiles(pkg, conditionTargets(match.value).map(t => t.replace(/\*/g, match.wildcard)));
+  }
+
+  if (subpath === '.') {
+    const entries = [pkg.module, pkg.main].filter((e): e is string => !!e);
+    return [...packageFiles(pkg, entries), join(pkg.dir, 'src/index'), join(pkg.dir, 'index')];
+  }
+  const relative = subpath.slice(2);
+  return [join(pkg.dir, relative), join(pkg.dir, 'src', relative)];
+}
+
+/**
+ * Project-relative paths, without extension resolution, that a bare or `#`
+ * specifier imported from `fromFile` may refer to, most likely first. They
+ * come from package `imports`, tsconfig `paths` and `baseUrl`, and workspace
+ * package names with their `exports`.
+ */
+export function moduleCandidates(source: string, fromFile: string, resolution: ModuleResolution): string[] {
+  const candidates: string[] = [];
+
+  if (source.startsWith('#')) {
+    const pkg = resolution.packages.find(p => contains(p.dir, fromFile) && p.imports && typeof p.imports === 'object');
+    const match = pkg && matchPattern(pkg.imports as Record<string, unknown>, source);
+    if (pkg && match) {
+      const targets = conditionTargets(match.value).map(t => t.replace(/\*/g, match.wildcard));
+      // Targets that are package names rather than paths are external
+      candidates.push(...packageFiles(pkg, targets.filter(t => t.startsWith('./'))));
+    }
+    return candidates;
+  }
+
+  const scope = resolution.tsconfigs.find(s => contains(s.dir, fromFile));
+  if (scope) {
+    const match = matchPattern(scope.paths, source);
+    if (match) {
+      candidates.push(...match.value.map(target => join(scope.pathsBase, target.replace(/\*/g, match.wildcard))));
+    }
+    if (scope.baseUrl !== undefined) candidates.push(join(scope.baseUrl, source));
+  }
+
+  for (const pkg of resolution.packages) {
+    if (!pkg.name || (source !== pkg.name && !source.startsWith(`${pkg.name}/`))) continue;
+    const subpath = source === pkg.name ? '.' : `./${source.slice(pkg.name.length + 1)}`;
+    candidates.push(...exportsCandidates(pkg, subpath));
+  }
+
+  return candidates;
+}
+
+/**
+ * Project-relative paths, without extension resolution, of the public entry
+ * points of every package: `main`/`module` (or `src/index`, `index`), each
+ * `exports` subpath without a wildcard, and `bin` scripts.
+ */
+export function packageEntryCandidates(resolution: ModuleResolution): string[] {
+  return resolution.packages.flatMap((pkg) => {
+    const subpaths = ['.'];
+    if (pkg.exports && typeof pkg.exports === 'object' && !Array.isArray(pkg.exports)) {
+      subpaths.push(...Object.keys(pkg.exports).filter(key => key.startsWith('./') && !key.includes('*')));
+    }
+    return [...subpaths.flatMap(subpath => exportsCandidates(pkg, subpath)), ...packageFiles(pkg, pkg.bin ?? [])];
+  });
+}
@@ -0,0 +1,210 @@
+import { builtinModules } from 'node:module';
+import type { ParsedFile, SupportedLanguage } from './types.js';
+import type { PackageDependency } from './dependency-collector.js';
+import type { ModuleResolution } from './module-resolution.js';
+import { resolveImportTargets } from './dependency-graph.js';
+import { collectExportDeclarations, collectImportedNames, collectLanguageImports, type ImportInfo } from '../parsers/language-imports.js';
+
+/** Package ecosystem whose manifests declare a language's third-party imports. */
+export const LANGUAGE_ECOSYSTEMS: Record<SupportedLanguage, string> = {
+  typescript: 'npm',
+  javascript: 'npm',
+  tsx: 'npm',
+  jsx: 'npm',
+  python: 'PyPI',
+  go: 'Go',
+  rust: 'crates.io',
+  java: 'Maven',
+};
+
+/** An import of a package from outside the project. */
+export interface ExternalImport {
+  ecosystem: string;
+  /**
+   * Package as imported: the npm package name, the top-level Python module,
+   * the Go import path, the Rust crate name or the Java class name.
+   */
+  name: string;
+  line: number;
+  /** A TypeScript `import type`, which a `@types/` package satisfies. */
+  typeOnly?: boolean;
+}
+
+const NODE_BUILTINS = new Set(builtinModules);
+
+const PYTHON_STDLIB = new Set(`__future__ abc aifc argparse array ast asynchat asyncio asyncore atexit audioop base64 bdb
+binascii bisect builtins bz2 cProfile calendar cgi cgitb chunk cmath cmd code codecs codeop collections colorsys
+compileall concurrent configparser contextlib contextvars copy copyreg crypt csv ctypes curses dataclasses datetime
+dbm decimal difflib dis distutils doctest email encodings ensurepip enum errno faulthandler fcntl filecmp fileinput
+fnmatch fractions ftplib functools gc genericpath getopt getpass gettext glob graphlib grp gzip hashlib heapq hmac
+html http idlelib imaplib imghdr imp importlib inspect io ipaddress itertools json keyword lib2to3 linecache locale
+logging lzma mailbox mailcap marshal math mimetypes mmap modulefinder msilib msvcrt multiprocessing netrc nis nntplib
+nt ntpath nturl2path numbers opcode operator optparse os ossaudiodev pathlib pdb pickle pickletools pipes pkgutil
+platform plistlib poplib posix posixpath pprint profile pstats pty pwd py_compile pyclbr pydoc pydoc_data pyexpat
+queue quopri random re readline reprlib resource rlcompleter runpy sched secrets select selectors shelve shlex shutil
+signal site smtpd smtplib sndhdr socket socketserver spwd sqlite3 sre_compile sre_constants sre_parse ssl stat
+statistics string stringprep struct subprocess sunau symtable sys sysconfig syslog tabnanny tarfile telnetlib tempfile
+termios textwrap this threading time timeit tkinter token tokenize tomllib trace traceback tracemalloc tty turtle
+turtledemo types typing unicodedata unittest urllib uu uuid venv warnings wave weakref webbrowser winreg winsound
+wsgiref xdrlib xml xmlrpc zipapp zipfile zipimport zlib zoneinfo`.split(/\s+/));
+
+/** Distributions whose top-level module is named differently from the distribution. */
+const PYTHON_DISTRIBUTIONS: Record<string, string> = {
+  bs4: 'beautifulsoup4',
+  cv2: 'opencv-python',
+  dateutil: 'python-dateutil',
+  dotenv: 'python-dotenv',
+  google: 'protobuf',
+  jwt: 'pyjwt',
+  magic: 'python-magic',
+  MySQLdb: 'mysqlclient',
+  OpenSSL: 'pyopenssl',
+  PIL: 'pillow',
+  serial: 'pyserial',
+  sklearn: 'scikit-learn',
+  skimage: 'scikit-image',
+  yaml: 'pyyaml',
+  zmq: 'pyzmq',
+};
+
+const RUST_BUILTIN_CRATES = new Set(['crate', 'self', 'super', 'std', 'core', 'alloc', 'proc_macro', 'test']);
+
+const JAVA_PLATFORM = /^(java|javax|jdk|sun|com\.sun|org\.w3c\.dom|org\.xml\.sax)\./;
+
+/** The npm package a bare specifier names, e.g. `@scope/pkg` for `@scope/pkg/sub`. */
+export function npmPackageName(source: string): string | null {
+  if (/^[./]/.test(source) || source.startsWith('#') || /^[a-z][\w+.-]*:/i.test(source)) return null;
+  const parts = source.split('/');
+  const name = source.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+  return NODE_BUILTINS.has(name) ? null : name;
+}
+
+/**
+ * The package an import names when it is not part of the project or the
+ * language's standard library, or `null`. Imports that resolve to a project
+ * file, a workspace package, a Go module or a Cargo workspace crate are
+ * internal.
+ */
+function externalName(
+  imp: ImportInfo,
+  file: ParsedFile,
+  allPaths: Set<string>,
+  resolution: ModuleResolution,
+): string | null {
+  const source = imp.source;
+  switch (LANGUAGE_ECOSYSTEMS[file.language]) {
+    case 'npm': {
+      const name = npmPackageName(source);
+      if (!name || resolution.packages.some(p => p.name === name)) return null;
+      return resolveImportTargets(imp, file, allPaths, resolution).length > 0 ? null : name;
+    }
+    case 'PyPI': {
+      const name = source.split('.')[0];
+      if (!name || PYTHON_STDLIB.has(name)) return null;
+      return resolveImportTargets(imp, file, allPaths, resolution).length > 0 ? null : name;
+    }
+    case 'Go': {
+      // Standard library paths have no dot in their first element
+      if (!source.split('/')[0].includes('.')) return null;
+      return resolution.goModules.some(m => source === m.path || source.startsWith(`${m.path}/`)) ? null : source;
+    }
+    case 'crates.io': {
+      const name = source.replace(/^::/, '').split('::')[0].trim();
+      if (!/^\w+$/.test(name) || RUST_BUILTIN_CRATES.has(name)) return null;
+      if (resolution.rustCrates.some(c => c.name.replace(/-/g, '_') === name)) return null;
+      return resolveImportTargets(imp, file, allPaths, resolution).length > 0 ? null : name;
+    }
+    case 'Maven': {
+      const name = source.replace(/^static\s+/, '').replace(/\.\*$/, '');
+      if (JAVA_PLATFORM.test(name)) return null;
+      return resolveImportTargets(imp, file, allPaths, resolution).length > 0 ? null : name;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Imports of third-party packages in a file. For JS/TS this includes
+ * `require()`, dynamic `import()` and `export ... from`.
+ */
+export function collectExternalImports(
+  file: ParsedFile,
+  allPaths: Set<string>,
+  resolution: ModuleResolution,
+): ExternalImport[] {
+  const ecosystem = LANGUAGE_ECOSYSTEMS[file.language];
+  const imports: ImportInfo[] = ecosystem === 'npm'
+    ? [
+        ...collectImportedNames(file.tree),
+        ...collectExportDeclarations(file.tree, file.language)
+          .filter(e => e.source !== undefined)
+          .map(e => ({ source: e.source!, specifiers: [], node: e.node, line: e.line })),
+      ]
+    : collectLanguageImports(file.tree, file.language);
+
+  const external: ExternalImport[] = [];
+  for (const imp of imports) {
+    const name = externalName(imp, file, allPaths, resolution);
+    if (!name) continue;
+    const typeOnly = ecosystem === 'npm' && /^(import|export)\s+type\b/.test(imp.node.text());
+    external.push({ ecosystem, name, line: imp.line, ...(typeOnly && { typeOnly }) });
+  }
+  return external;
+}
+
+/** Lowercase with `-` and `.` folded to `_`, as pip and Cargo compare names. */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[-.]/g, '_');
+}
+
+/**
+ * How well `dep` matches an imported package: 0 when it does not provide it,
+ * otherwise higher for more specific matches. Java imports match by groupId,
+ * so a class under `com.google.common` matches `com.google.guava:guava`
+ * through their shared first two segments.
+ */
+export function dependencyMatch(dep: PackageDependency, imported: ExternalImport): number {
+  if (dep.ecosystem !== imported.ecosystem) return 0;
+  const name = imported.name;
+  switch (dep.ecosystem) {
+    case 'npm': {
+      if (dep.name === name) return 2;
+      const types = `@types/${name.startsWith('@') ? name.slice(1).replace('/', '__') : name}`;
+      return imported.typeOnly && dep.name === types ? 1 : 0;
+    }
+    case 'PyPI': {
+      const dist = normalizeName(dep.name);
+      const module = normalizeName(name);
+      const known = PYTHON_DISTRIBUTIONS[name];
+      if (dist === module || (known && dist === normalizeName(known))) return 2;
+      return [`python_${module}`, `py${module}`].includes(dist) || dist.startsWith(`${module}_`) ? 1 : 0;
+    }
+    case 'Go':
+      return name === dep.name || name.startsWith(`${dep.name}/`) ? dep.name.length : 0;
+    case 'crates.io':
+      return normalizeName(dep.name) === name ? 1 : 0;
+    case 'Maven': {
+      const groupId = dep.name.split(':')[0];
+      if (name.startsWith(`${groupId}.`)) return groupId.length + 1;
+      const prefix = groupId.split('.').slice(0, 2).join('.');
+      return name.startsWith(`${prefix}.`) ? 1 : 0;
+    }
+    default:
+      return dep.name === name ? 1 : 0;
+  }
+}
+
+/** The declared dependency that provides an imported package, preferring the most specific match. */
+export function findDependency(deps: PackageDependency[], imported: ExternalImport): PackageDependency | undefined {
+  let best: PackageDependency | undefined;
+  let bestScore = 0;
+  for (const dep of deps) {
+    const score = dependencyMatch(dep, imported);
+    if (score > bestScore) {
+      best = dep;
+      bestScore = score;
+    }
+  }
+  return best;
+}
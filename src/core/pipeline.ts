@@ -1,46 +1,71 @@
-import type { AnalysisContext, AnalysisSummary, Analyzer, AnalyzerResult, Finding } from './types.js';
-import { withTimeout, timed } from '../utils/performance.js';
+import type { AnalysisContext, AnalysisSummary, Analyzer, AnalyzerResult, Finding, ParsedFile } from './types.js';
 import { logger } from '../utils/logger.js';
 import { enhanceWithLlmSuggestions } from '../llm/index.js';
 import { applySuppression } from './suppression.js';
 import { loadMemory, applyMemory } from './memory.js';
-
-const ANALYZER_TIMEOUT_MS = 5000;
+import { isParallelEnabled, isWorkerAnalyzer, runInWorkerPool } from './worker-pool.js';
+import { runAnalyzer } from './deadline.js';
 
 export async function runPipeline(
   context: AnalysisContext,
   analyzers: Analyzer[],
 ): Promise<AnalysisSummary> {
   const startTime = performance.now();
+  const runStart = Date.now();
 
   const enabledAnalyzers = analyzers.filter(a => isAnalyzerEnabled(a.name, context));
   logger.debug(`Running ${enabledAnalyzers.length} analyzers on ${context.files.length} files`);
 
+  // File-local analyzers go to the worker pool on large runs; the rest stay on the main thread
+  const pooledAnalyzers = isParallelEnabled(context.config, context.files.length)
+    ? enabledAnalyzers.filter(isWorkerAnalyzer)
+    : [];
+  const mainAnalyzers = enabledAnalyzers.filter(a => !pooledAnalyzers.includes(a));
+
   // Run all analyzers in parallel with individual timeouts
-  const results = await Promise.allSettled(
-    enabledAnalyzers.map(analyzer =>
-      runAnalyzer(analyzer, context)
-    )
-  );
+  const [pooledResults, results] = await Promise.all([
+    pooledAnalyzers.length > 0
+      ? runInWorkerPool(
+        context.files,
+        pooledAnalyzers.map(a => a.name),
+        context.config,
+        context.projectRoot,
+        runStart,
+      )
+      : Promise.resolve([]),
+    Promise.allSettled(
+      mainAnalyzers.map(analyzer =>
+        runAnalyzer(analyzer, context, runStart)
+      )
+    ),
+  ]);
 
-  const analyzerResults: AnalyzerResult[] = results.map((result, idx) => {
-    const analyzer = enabledAnalyzers[idx];
-    if (result.status === 'fulfilled') {
-      return result.value;
-    }
-    logger.error(`Analyzer ${analyzer.name} failed: ${result.reason}`);
-    return {
+  const resultsByAnalyzer = new Map<Analyzer, AnalyzerResult>();
+  pooledAnalyzers.forEach((analyzer, idx) => resultsByAnalyzer.set(analyzer, pooledResults[idx]));
+  results.forEach((result, idx) => {
+    const analyzer = mainAnalyzers[idx];
+    resultsByAnalyzer.set(analyzer, result.status === 'fulfilled' ? result.value : {
       analyzer: analyzer.name,
       findings: [],
       duration: 0,
       error: String(result.reason),
-    };
+    });
   });
 
+  const analyzerResults = enabledAnalyzers.map(analyzer => resultsByAnalyzer.get(analyzer)!);
+  for (const result of analyzerResults) {
+    if (result.timedOut) {
+      logger.warn(`Analyzer ${result.analyzer} timed out; keeping ${result.findings.length} findings, ${result.skippedFiles?.length ?? 0} files not analyzed`);
+    } else if (result.error) {
+      logger.error(`Analyzer ${result.analyzer} failed: ${result.error}`);
+    }
+  }
+  const skippedFiles = [...new Set(analyzerResults.flatMap(r => r.skippedFiles ?? []))];
+
   let allFindings = deduplicateFindings(analyzerResults.flatMap(r => r.findings));
 
   // Apply inline suppression directives
-  const suppression = applySuppression(allFindings, context.parsedFiles);
+  const suppression = applySuppression(allFindings, suppressionSources(context));
   allFindings = suppression.findings;
 
   // Apply memory filtering if enabled
@@ -79,22 +104,10 @@ export async function runPipeline(
     duration,
     suppressedCount: suppression.suppressedCount || undefined,
     memorySuppressedCount,
+    skippedFiles: skippedFiles.length > 0 ? skippedFiles : undefined,
   };
 }
 
-async function runAnalyzer(analyzer: Analyzer, context: AnalysisContext): Promise<AnalyzerResult> {
-  const { result: findings, duration } = await timed(analyzer.name, async () => {
-    return withTimeout(
-      analyzer.analyze(context),
-      ANALYZER_TIMEOUT_MS,
-      analyzer.name,
-    );
-  });
-
-  logger.debug(`${analyzer.name}: ${findings.length} findings in ${duration.toFixed(0)}ms`);
-  return { analyzer: analyzer.name, findings, duration };
-}
-
 function isAnalyzerEnabled(name: string, context: AnalysisContext): boolean {
   const config = context.config.analyzers;
   switch (name) {
@@ -106,9 +119,13 @@ function isAnalyzerEnabled(name: string, context: AnalysisContext): boolean {
     case 'impact': return config.impact?.enabled ?? false;
     case 'taint': return config.taint?.enabled ?? false;
     case 'dependencies': return config.dependencies?.enabled ?? false;
+    case 'dependency-usage': return config.dependencyUsage?.enabled ?? false;
+    case 'typosquatting': return config.typosquatting?.enabled ?? false;
+    case 'supply-chain': return config.supplyChain?.enabled ?? false;
     case 'complexity': return config.complexity?.enabled ?? false;
     case 'iac': return config.iac?.enabled ?? false;
     case 'dead-code': return config.deadCode?.enabled ?? false;
+    case 'cycles': return config.cycles?.enabled ?? false;
     case 'coverage': return config.coverage?.enabled ?? false;
     case 'structural-rules': return true;
     case 'licenses': return config.licenses?.enabled ?? false;
@@ -117,6 +134,21 @@ function isAnalyzerEnabled(name: string, context: AnalysisContext): boolean {
   }
 }
 
+/**
+ * Files whose inline directives apply to this run. Besides the parsed files this
+ * includes files that were read but not parsed, e.g. files whose findings came
+ * from the scan cache.
+ */
+function suppressionSources(context: AnalysisContext): Array<Pick<ParsedFile, 'path' | 'content' | 'language'>> {
+  const sources: Array<Pick<ParsedFile, 'path' | 'content' | 'language'>> = [...context.parsedFiles];
+  const parsedPaths = new Set(context.parsedFiles.map(f => f.path));
+  for (const file of context.files) {
+    if (parsedPaths.has(file.path) || file.content === undefined || !file.language) continue;
+    sources.push({ path: file.path, content: file.content, language: file.language });
+  }
+  return sources;
+}
+
 function deduplicateFindings(findings: Finding[]): Finding[] {
   const seen = new Set<string>();
   return findings.filter(f => {
@@ -0,0 +1,131 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join, posix } from 'node:path';
+import type { AnalysisSummary, RatchetConfig } from './types.js';
+import type { QualityGateFailure } from './quality-gate.js';
+import { listRuns, loadDetailedRun } from '../metrics/history.js';
+import { logger } from '../utils/logger.js';
+
+/** Where the reference lives when no committed snapshot is configured. */
+const LOCAL_REFERENCE_PATH = '.archguard/ratchet.json';
+
+export interface RatchetSnapshot {
+  version: 1;
+  updatedAt: string;
+  /** History run the reference was first taken from, if any. */
+  runId?: string;
+  byRule: Record<string, number>;
+  byDirectory: Record<string, number>;
+}
+
+export interface RatchetResult {
+  failures: QualityGateFailure[];
+  /** The reference was tightened because counts dropped, or created from this run. */
+  updated: boolean;
+  referencePath: string;
+}
+
+function countBy(findings: Array<{ ruleId: string; file: string }>): Pick<RatchetSnapshot, 'byRule' | 'byDirectory'> {
+  const byRule: Record<string, number> = {};
+  const byDirectory: Record<string, number> = {};
+  for (const { ruleId, file } of findings) {
+    const directory = posix.dirname(file);
+    byRule[ruleId] = (byRule[ruleId] ?? 0) + 1;
+    byDirectory[directory] = (byDirectory[directory] ?? 0) + 1;
+  }
+  return { byRule, byDirectory };
+}
+
+export function snapshotSummary(summary: AnalysisSummary): RatchetSnapshot {
+  return {
+    version: 1,
+    updatedAt: new Date().toISOString(),
+    ...countBy(summary.analyzerResults.flatMap(r => r.findings)),
+  };
+}
+
+/**
+ * Compare current counts with the reference. Every per-rule or per-directory
+ * count that grew is a failure; keys missing from the reference count as zero.
+ */
+export function evaluateRatchet(
+  current: RatchetSnapshot,
+  reference: RatchetSnapshot,
+  by: RatchetConfig['by'],
+): { failures: QualityGateFailure[]; improved: boolean } {
+  const failures: QualityGateFailure[] = [];
+  let improved = false;
+
+  const dimensions = [
+    { name: 'rule', enabled: by.includes('rule'), now: current.byRule, before: reference.byRule },
+    { name: 'directory', enabled: by.includes('directory'), now: current.byDirectory, before: reference.byDirectory },
+  ] as const;
+
+  for (const { name, enabled, now, before } of dimensions) {
+    if (!enabled) continue;
+    for (const key of new Set([...Object.keys(now), ...Object.keys(before)])) {
+      const actual = now[key] ?? 0;
+      const threshold = before[key] ?? 0;
+      if (actual > threshold) {
+        failures.push({
+          metric: `${name}:${key}`,
+          actual,
+          threshold,
+          message: `Findings for ${name} ${key} increased from ${threshold} to ${actual}`,
+        });
+      } else if (actual < threshold) {
+        improved = true;
+      }
+    }
+  }
+
+  return { failures, improved };
+}
+
+async function readSnapshot(path: string): Promise<RatchetSnapshot | null> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as RatchetSnapshot;
+  } catch {
+    return null;
+  }
+}
+
+/** The latest full scan in `.archguard/history`, as a reference. */
+async function snapshotFromHistory(projectRoot: string): Promise<RatchetSnapshot | null> {
+  const latest = (await listRuns(projectRoot)).find(run => run.command === 'scan');
+  const run = latest && await loadDetailedRun(projectRoot, latest.id);
+  if (!run) return null;
+  return { version: 1, updatedAt: run.timestamp, runId: run.id, ...countBy(run.findings) };
+}
+
+/**
+ * Ratchet the full-scan `summary` against its reference: the committed
+ * snapshot file when configured, otherwise a local reference seeded from the
+ * latest scan in `.archguard/history`. Passing runs with lower counts tighten
+ * the reference; without any reference the current counts become it.
+ */
+export async function applyRatchet(
+  summary: AnalysisSummary,
+  config: RatchetConfig,
+  projectRoot: string,
+): Promise<RatchetResult> {
+  const referencePath = join(projectRoot, config.snapshot ?? LOCAL_REFERENCE_PATH);
+  const current = snapshotSummary(summary);
+
+  const stored = await readSnapshot(referencePath);
+  const reference = stored ?? (config.snapshot ? null : await snapshotFromHistory(projectRoot));
+
+  const { failures, improved } = reference
+    ? evaluateRatchet(current, reference, config.by)
+    : { failures: [], improved: true };
+
+  // A reference seeded from history is pinned, so a failing run recorded later cannot loosen it
+  const next = failures.length === 0 && improved ? current : stored ? null : reference;
+  if (next) {
+    await mkdir(dirname(referencePath), { recursive: true });
+    await writeFile(referencePath, JSON.stringify(next, null, 2) + '\n', 'utf-8');
+    logger.debug(`Ratchet reference written to ${referencePath}`);
+  }
+
+  const updated = next === current;
+  return { failures, updated, referencePath };
+}
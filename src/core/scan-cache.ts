@@ -0,0 +1,429 @@
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { join, posix } from 'node:path';
+import { createHash } from 'node:crypto';
+import type { AnalysisContext, AnalysisSummary, Analyzer, ArchGuardConfig, FileInfo, Finding } from './types.js';
+import { buildContext, filterFiles } from './context.js';
+import { runPipeline } from './pipeline.js';
+import { resolveFileImports } from './dependency-graph.js';
+import { loadModuleResolution } from './module-resolution.js';
+import { LOCKFILES } from './lockfiles.js';
+import { logger } from '../utils/logger.js';
+import { getVersion } from '../utils/version.js';
+
+const DEFAULT_CACHE_DIR = '.archguard/cache';
+const CACHE_FILENAME = 'scan-cache.json';
+const CACHE_VERSION = 1;
+
+/** Analyzers whose findings for a file depend only on that file's content. */
+const FILE_LOCAL_ANALYZERS = new Set(['security', 'ai-smells', 'conventions', 'complexity']);
+
+/**
+ * Analyzers whose findings for a file depend on its neighbourhood in the import
+ * graph. Layer checks are here because which files an import resolves to, e.g.
+ * a Python module, changes as files are added and removed.
+ */
+const GRAPH_ANALYZERS = new Set(['dead-code', 'impact', 'architecture']);
+
+/**
+ * Graph analyzers that follow re-exports through any number of barrels, so a
+ * changed import can affect files more than `depth` hops away.
+ */
+const UNBOUNDED_GRAPH_ANALYZERS = new Set(['dead-code']);
+
+/** Graph analyzers whose findings also depend on which npm packages are declared and installed. */
+const MANIFEST_ANALYZERS = new Set(['ai-smells']);
+
+/** Analyzers that inspect manifests and reports rather than parsed sources. */
+const PROJECT_ANALYZERS = new Set(['dependencies', 'typosquatting', 'supply-chain', 'iac', 'licenses', 'coverage']);
+
+export type CacheStrategy = 'file' | 'graph' | 'project' | 'none';
+
+export interface ScanCacheEntry {
+  contentHash: string;
+  imports: string[];
+  findings: Record<string, Finding[]>;
+}
+
+export interface ScanCacheFile {
+  version: number;
+  configHash: string;
+  analyzerKey: string;
+  /** Hash of the npm manifests and lockfiles above the analyzed files; see {@link hashManifests}. */
+  manifestHash?: string;
+  generatedAt: string;
+  files: Record<string, ScanCacheEntry>;
+}
+
+export interface IncrementalScanResult {
+  summary: AnalysisSummary;
+  reusedFiles: number;
+  analyzedFiles: number;
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export function hashConfig(config: ArchGuardConfig): string {
+  return createHash('sha256').update(JSON.stringify(config)).digest('hex');
+}
+
+export function getAnalyzerKey(analyzers: Analyzer[]): string {
+  return analyzers
+    // Built-in analyzers change with archguardian itself
+    .map(a => `${a.name}@${a.version ?? getVersion()}`)
+    .sort()
+    .join(',');
+}
+
+export function getCacheStrategy(analyzer: Analyzer, config: ArchGuardConfig): CacheStrategy {
+  if (analyzer.name === 'taint') {
+    return config.analyzers.taint?.crossFile ? 'graph' : 'file';
+  }
+  // Hallucinated imports depend on the files and exports a file imports
+  if (analyzer.name === 'ai-smells') {
+    return config.analyzers.aiSmells.hallucinatedImports !== false ? 'graph' : 'file';
+  }
+  if (FILE_LOCAL_ANALYZERS.has(analyzer.name)) return 'file';
+  if (GRAPH_ANALYZERS.has(analyzer.name)) return 'graph';
+  if (PROJECT_ANALYZERS.has(analyzer.name)) return 'project';
+  return 'none';
+}
+
+/** Files that declare or pin npm packages. */
+const NPM_MANIFESTS = new Set(['package.json', ...Object.keys(LOCKFILES).filter(name => LOCKFILES[name] === 'npm')]);
+
+/** Whether `path` is a package.json or npm lockfile, the files {@link hashManifests} covers. */
+export function isNpmManifest(path: string): boolean {
+  return NPM_MANIFESTS.has(posix.basename(path));
+}
+
+/**
+ * Hash of every package.json and npm lockfile in the directories of `paths`
+ * and their ancestors. Installing or declaring a package changes one of them,
+ * which is what decides whether an import of that package resolves.
+ */
+export async function hashManifests(projectRoot: string, paths: Iterable<string>): Promise<string> {
+  const dirs = new Set<string>();
+  for (const path of paths) {
+    for (let dir = posix.dirname(path); !dirs.has(dir); dir = posix.dirname(dir)) {
+      dirs.add(dir);
+      if (dir === '.') break;
+    }
+  }
+
+  const hash = createHash('sha256');
+  for (const dir of [...dirs].sort()) {
+    for (const name of NPM_MANIFESTS) {
+      const content = await readFile(join(projectRoot, dir, name), 'utf-8').catch(() => null);
+      if (content !== null) hash.update(`${dir}/${name}\0${content}\0`);
+    }
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Load the scan cache. Returns null when there is no cache or when it was
+ * written for a different config or analyzer set.
+ */
+export async function loadScanCache(
+  projectRoot: string,
+  configHash: string,
+  analyzerKey: string,
+  cacheDir: string = DEFAULT_CACHE_DIR,
+): Promise<ScanCacheFile | null> {
+  const filePath = join(projectRoot, cacheDir, CACHE_FILENAME);
+
+  try {
+    const data = JSON.parse(await readFile(filePath, 'utf-8')) as ScanCacheFile;
+    if (data.version !== CACHE_VERSION) {
+      logger.debug(`Ignoring scan cache with version ${data.version}`);
+      return null;
+    }
+    if (data.configHash !== configHash || data.analyzerKey !== analyzerKey) {
+      logger.debug('Config or analyzers changed, ignoring scan cache');
+      return null;
+    }
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveScanCache(
+  projectRoot: string,
+  cache: ScanCacheFile,
+  cacheDir: string = DEFAULT_CACHE_DIR,
+): Promise<string> {
+  const dirPath = join(projectRoot, cacheDir);
+  await mkdir(dirPath, { recursive: true });
+  const filePath = join(dirPath, CACHE_FILENAME);
+  await writeFile(filePath, JSON.stringify(cache) + '\n', 'utf-8');
+  logger.debug(`Scan cache saved to ${filePath} with ${Object.keys(cache.files).length} files`);
+  return filePath;
+}
+
+/**
+ * Files whose graph-dependent findings must be recomputed: changed files, both
+ * ends of every import edge that was added or removed, and everything within
+ * `depth` edges of those in either direction.
+ */
+export function getInvalidatedFiles(
+  previousImports: Map<string, string[]>,
+  currentImports: Map<string, string[]>,
+  changedFiles: Set<string>,
+  depth: number,
+): Set<string> {
+  const seeds = new Set(changedFiles);
+
+  for (const file of changedFiles) {
+    const before = new Set(previousImports.get(file) ?? []);
+    const after = new Set(currentImports.get(file) ?? []);
+    for (const target of before) {
+      if (!after.has(target)) seeds.add(target);
+    }
+    for (const target of after) {
+      if (!before.has(target)) seeds.add(target);
+    }
+  }
+
+  // Undirected adjacency over the current graph
+  const neighbours = new Map<string, Set<string>>();
+  const link = (a: string, b: string) => {
+    if (!neighbours.has(a)) neighbours.set(a, new Set());
+    neighbours.get(a)!.add(b);
+  };
+  for (const [file, imports] of currentImports) {
+    for (const target of imports) {
+      link(file, target);
+      link(target, file);
+    }
+  }
+
+  const invalidated = new Set(seeds);
+  let frontier = [...seeds];
+  for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const file of frontier) {
+      for (const neighbour of neighbours.get(file) ?? []) {
+        if (!invalidated.has(neighbour)) {
+          invalidated.add(neighbour);
+          next.push(neighbour);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return invalidated;
+}
+
+/** What changed since graph analyzers last ran, as seen by the scan cache or a watch session. */
+export interface GraphChange {
+  /** Every analyzable file now, plus deleted ones whose findings must go. */
+  allPaths: Set<string>;
+  previousImports: Map<string, string[]>;
+  currentImports: Map<string, string[]>;
+  changedPaths: Set<string>;
+  /** Files were added or removed, which can change how any import resolves. */
+  pathSetChanged: boolean;
+  /** A package.json or npm lockfile changed; see {@link hashManifests}. */
+  manifestsChanged: boolean;
+  depth: number;
+}
+
+/**
+ * Files whose findings from the graph analyzer `analyzerName` must be
+ * recomputed: everything when the change can reach beyond the import
+ * neighbourhood, otherwise {@link getInvalidatedFiles}.
+ */
+export function getGraphInvalidation(analyzerName: string, change: GraphChange): Set<string> {
+  if (
+    change.pathSetChanged ||
+    (UNBOUNDED_GRAPH_ANALYZERS.has(analyzerName) && change.changedPaths.size > 0) ||
+    (MANIFEST_ANALYZERS.has(analyzerName) && change.manifestsChanged)
+  ) {
+    return change.allPaths;
+  }
+  return getInvalidatedFiles(change.previousImports, change.currentImports, change.changedPaths, change.depth);
+}
+
+/**
+ * Run the pipeline over the given files, reusing cached findings for files whose
+ * content hash is unchanged. File-local analyzers only see changed files; graph
+ * analyzers re-run only for files whose import neighbourhood changed; all other
+ * analyzers always run.
+ */
+export async function runIncrementalScan(
+  files: FileInfo[],
+  config: ArchGuardConfig,
+  projectRoot: string,
+  analyzers: Analyzer[],
+): Promise<IncrementalScanResult> {
+  const cacheDir = config.cache?.path ?? DEFAULT_CACHE_DIR;
+  const configHash = hashConfig(config);
+  const analyzerKey = getAnalyzerKey(analyzers);
+  const previous = await loadScanCache(projectRoot, configHash, analyzerKey, cacheDir);
+
+  const analyzable = filterFiles(files, config);
+  const allPaths = new Set(analyzable.map(f => f.path));
+  const resolution = await loadModuleResolution(projectRoot);
+  const hashes = new Map(analyzable.map(f => [f.path, hashContent(f.content ?? '')]));
+
+  const dirtyFiles = analyzable.filter(f =>
+    f.content === undefined || previous?.files[f.path]?.contentHash !== hashes.get(f.path));
+  const dirtyPaths = new Set(dirtyFiles.map(f => f.path));
+  const cleanFiles = analyzable.filter(f => !dirtyPaths.has(f.path));
+
+  logger.debug(`Scan cache: ${cleanFiles.length} unchanged, ${dirtyFiles.length} changed files`);
+
+  const dirtyContext = await buildContext(dirtyFiles, config, projectRoot);
+  const manifestHash = await hashManifests(projectRoot, allPaths);
+  const manifestsChanged = previous?.manifestHash !== manifestHash;
+
+  // Imports of unchanged files only change when files were added or removed
+  const pathSetChanged = !previous ||
+    Object.keys(previous.files).length !== analyzable.length ||
+    analyzable.some(f => !previous.files[f.path]);
+
+  const previousImports = new Map<string, string[]>();
+  const currentImports = new Map<string, string[]>();
+  for (const file of cleanFiles) {
+    previousImports.set(file.path, previous!.files[file.path].imports);
+    currentImports.set(file.path, previous!.files[file.path].imports);
+  }
+  for (const file of dirtyFiles) {
+    previousImports.set(file.path, previous?.files[file.path]?.imports ?? []);
+    currentImports.set(file.path, []);
+  }
+  for (const parsed of dirtyContext.parsedFiles) {
+    currentImports.set(parsed.path, resolveFileImports(parsed, allPaths, resolution));
+  }
+
+  // Full context is only built when some analyzer needs every file parsed
+  let fullContext: Promise<AnalysisContext> | null = null;
+  const getFullContext = (): Promise<AnalysisContext> => {
+    fullContext ??= buildContext(cleanFiles, config, projectRoot).then(cleanContext => {
+      // Added or removed files can change how unchanged files' imports resolve
+      for (const parsed of cleanContext.parsedFiles) {
+        currentImports.set(parsed.path, resolveFileImports(parsed, allPaths, resolution));
+      }
+      const parsedByPath = new Map(
+        [...dirtyContext.parsedFiles, ...cleanContext.parsedFiles].map(f => [f.path, f]),
+      );
+      return {
+        files: analyzable,
+        parsedFiles: analyzable.flatMap(f => parsedByPath.get(f.path) ?? []),
+        config,
+        projectRoot,
+      };
+    });
+    return fullContext;
+  };
+
+  const graphChange: GraphChange = {
+    allPaths,
+    previousImports,
+    currentImports,
+    changedPaths: dirtyPaths,
+    pathSetChanged,
+    manifestsChanged,
+    depth: Math.max(1, config.analyzers.impact?.depth ?? 1),
+  };
+  const recorded = new Map<string, Record<string, Finding[]>>();
+  const record = (analyzerName: string, file: string, findings: Finding[]) => {
+    if (!allPaths.has(file)) return;
+    const entry = recorded.get(file) ?? {};
+    entry[analyzerName] = findings;
+    recorded.set(file, entry);
+  };
+  const reuse = (analyzerName: string, paths: Iterable<string>): Finding[] => {
+    const reused: Finding[] = [];
+    for (const path of paths) {
+      const findings = previous?.files[path]?.findings[analyzerName] ?? [];
+      record(analyzerName, path, findings);
+      reused.push(...findings);
+    }
+    return reused;
+  };
+  const keep = (analyzerName: string, paths: Iterable<string>, findings: Finding[]): Finding[] => {
+    const byFile = new Map<string, Finding[]>();
+    for (const path of paths) byFile.set(path, []);
+    for (const finding of findings) byFile.get(finding.file)?.push(finding);
+    for (const [path, fileFindings] of byFile) record(analyzerName, path, fileFindings);
+    return findings;
+  };
+
+  const wrapped: Analyzer[] = analyzers.map(analyzer => {
+    const strategy = getCacheStrategy(analyzer, config);
+    return {
+      name: analyzer.name,
+      version: analyzer.version,
+      async analyze({ deadline }: AnalysisContext): Promise<Finding[]> {
+        switch (strategy) {
+          case 'file': {
+            const fresh = await analyzer.analyze({ ...dirtyContext, deadline });
+            return [
+              ...reuse(analyzer.name, cleanFiles.map(f => f.path)),
+              ...keep(analyzer.name, dirtyPaths, fresh),
+            ];
+          }
+          case 'graph': {
+            const invalidated = getGraphInvalidation(analyzer.name, graphChange);
+            const reusedPaths = [...allPaths].filter(p => !invalidated.has(p));
+            if (invalidated.size === 0) return reuse(analyzer.name, reusedPaths);
+
+            const context = await getFullContext();
+            const fresh = await analyzer.analyze({
+              ...context,
+              files: context.files.filter(f => invalidated.has(f.path)),
+              deadline,
+            });
+            return [
+              ...reuse(analyzer.name, reusedPaths),
+              ...keep(analyzer.name, invalidated, fresh.filter(f => invalidated.has(f.file))),
+            ];
+          }
+          case 'project':
+            return analyzer.analyze({ ...dirtyContext, files: analyzable, deadline });
+          default:
+            return analyzer.analyze({ ...await getFullContext(), deadline });
+        }
+      },
+    };
+  });
+
+  const summary = await runPipeline(
+    { files: analyzable, parsedFiles: dirtyContext.parsedFiles, config, projectRoot },
+    wrapped,
+  );
+
+  // A failed analyzer recorded nothing; keep the previous cache rather than lose its findings
+  const failed = summary.analyzerResults.filter(r => r.error);
+  if (failed.length > 0) {
+    logger.debug(`Not updating scan cache: ${failed.map(r => r.analyzer).join(', ')} failed`);
+  } else {
+    const next: ScanCacheFile = {
+      version: CACHE_VERSION,
+      configHash,
+      analyzerKey,
+      manifestHash,
+      generatedAt: new Date().toISOString(),
+      files: {},
+    };
+    for (const file of analyzable) {
+      next.files[file.path] = {
+        contentHash: hashes.get(file.path)!,
+        imports: currentImports.get(file.path) ?? [],
+        findings: recorded.get(file.path) ?? {},
+      };
+    }
+    try {
+      await saveScanCache(projectRoot, next, cacheDir);
+    } catch (err) {
+      logger.warn(`Failed to save scan cache: ${(err as Error).message}`);
+    }
+  }
+
+  return { summary, reusedFiles: cleanFiles.length, analyzedFiles: dirtyFiles.length };
+}
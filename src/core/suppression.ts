@@ -8,6 +8,12 @@ export interface SuppressionDirective {
 const IGNORE_NEXT_LINE = 'archguard-ignore';
 const IGNORE_SAME_LINE = 'archguard-ignore-line';
 
+/** Comment line that suppresses `ruleId` on the line below it. */
+export function formatSuppressionComment(language: SupportedLanguage, ruleId: string): string {
+  const marker = language === 'python' ? '#' : '//';
+  return `${marker} ${IGNORE_NEXT_LINE} ${ruleId}`;
+}
+
 /**
  * Extract suppression directives from file content.
  * Supports //, #, and block comments.
@@ -118,7 +124,7 @@ function matchDirective(
  */
 export function applySuppression(
   findings: Finding[],
-  parsedFiles: ParsedFile[],
+  parsedFiles: Array<Pick<ParsedFile, 'path' | 'content' | 'language'>>,
 ): { findings: Finding[]; suppressedCount: number } {
   // Build directive map: file -> line -> ruleIds (null means suppress all)
   const directiveMap = new Map<string, Map<number, (string | null)[]>>();
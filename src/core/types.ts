@@ -56,6 +56,13 @@ export interface ParsedFile {
 
 // ── Finding / Violation ────────────────────────────────────────────
 
+/** One step of a dataflow path: where data was read, passed on or used. */
+export interface FlowStep {
+  file: string;
+  line: number;
+  message: string;
+}
+
 export interface Finding {
   ruleId: string;
   analyzer: string;
@@ -68,6 +75,8 @@ export interface Finding {
   endColumn?: number;
   codeSnippet?: string;
   suggestion?: string;
+  /** Source-to-sink path of dataflow findings such as taint, in order. */
+  flow?: FlowStep[];
 }
 
 // ── Analyzer Types ─────────────────────────────────────────────────
@@ -77,13 +86,34 @@ export interface AnalyzerResult {
   findings: Finding[];
   duration: number;
   error?: string;
+  /** The analyzer hit its deadline; `findings` holds what it found before then. */
+  timedOut?: boolean;
+  /** Files the analyzer did not get to before its deadline. */
+  skippedFiles?: string[];
+}
+
+/**
+ * Time limit handed to an analyzer. Long-running analyzers check `expired()`
+ * between units of work, mark files they finished with `complete()` and the ones
+ * they gave up on with `skip()`, and `report()` findings as they go so they
+ * survive a hard timeout.
+ */
+export interface AnalysisDeadline {
+  readonly at: number;
+  expired(): boolean;
+  complete(file: string): void;
+  skip(files: string[]): void;
+  report(findings: Finding[]): void;
 }
 
 export interface AnalysisContext {
   files: FileInfo[];
   parsedFiles: ParsedFile[];
+  /** Changed files without a supported language, such as manifests and lockfiles; only set for diffs. */
+  otherFiles?: FileInfo[];
   config: ArchGuardConfig;
   projectRoot: string;
+  deadline?: AnalysisDeadline;
 }
 
 export interface AnalysisSummary {
@@ -97,12 +127,16 @@ export interface AnalysisSummary {
   suppressedCount?: number;
   baselineSuppressedCount?: number;
   memorySuppressedCount?: number;
+  /** Files at least one analyzer did not analyze before its deadline. */
+  skippedFiles?: string[];
 }
 
 // ── Analyzer Interface ─────────────────────────────────────────────
 
 export interface Analyzer {
   name: string;
+  /** Bumped when the analyzer's output changes; invalidates cached results. */
+  version?: string;
   analyze(context: AnalysisContext): Promise<Finding[]>;
 }
 
@@ -131,6 +165,8 @@ export interface AiSmellsConfig {
   enabled: boolean;
   severity: Severity;
   commentRatio: number;
+  /** Check new imports for files, exports and packages that do not exist. */
+  hallucinatedImports?: boolean;
 }
 
 export interface PerLanguageNaming {
@@ -195,6 +231,14 @@ export interface QualityGateConfig {
   maxNewErrors: number;
   maxNewWarnings: number;
   maxTotal: number;
+  ratchet?: RatchetConfig;
+}
+
+export interface RatchetConfig {
+  /** Dimensions whose counts may never increase. */
+  by: Array<'rule' | 'directory'>;
+  /** Committed reference file; defaults to a local one seeded from `.archguard/history`. */
+  snapshot?: string;
 }
 
 // ── Memory Config ──────────────────────────────────────────────
@@ -214,10 +258,54 @@ export interface ImpactConfig {
 
 // ── Taint Config ───────────────────────────────────────────────
 
-export interface TaintConfig {
+export interface TaintSinkSpec {
+  /** Callee or property name, e.g. `eval`, `query`, `document.write`, `innerHTML`. */
+  pattern: string;
+  ruleId: string;
+  message: string;
+  /** Zero-based argument positions that must not be tainted; every argument when omitted. */
+  args?: number[];
+  /** `call` (the default) for function sinks, `assign` for property sinks such as `innerHTML`. */
+  kind?: 'call' | 'assign';
+  /** Only a sink when the call's arguments contain this text, e.g. `shell=True`. */
+  when?: string;
+  /** The dangerous argument is a URL, so `urlSanitizers` also clear it. */
+  url?: boolean;
+}
+
+/** Sources, sinks and sanitizers, as bundled per framework or declared in config and plugins. */
+export interface TaintSpec {
+  /** Expressions whose values are user-controlled, e.g. `req.body`. */
+  sources?: string[];
+  /**
+   * Parameter decorators that mark user input, e.g. `Body` for NestJS `@Body()`,
+   * Spring's `@RequestParam` or FastAPI's `q = Query()` defaults.
+   */
+  sourceDecorators?: string[];
+  /** Parameter types that carry user input, e.g. `NextRequest`. */
+  sourceParameterTypes?: string[];
+  sinks?: TaintSinkSpec[];
+  sanitizers?: string[];
+  /**
+   * URL allowlist checks, e.g. `isAllowedRedirect`. They clear taint for URL
+   * sinks when applied to the value, or when an `if` around or before the
+   * sink checks them.
+   */
+  urlSanitizers?: string[];
+}
+
+export type TaintFramework =
+  | 'express' | 'fastify' | 'koa' | 'nestjs' | 'nextjs'
+  | 'flask' | 'django' | 'fastapi'
+  | 'nethttp' | 'gin'
+  | 'spring';
+
+export interface TaintConfig extends TaintSpec {
   enabled: boolean;
   severity: Severity;
   crossFile?: boolean;
+  /** Bundled framework models to apply; all of them when omitted. */
+  frameworks?: TaintFramework[];
 }
 
 // ── Complexity Config ─────────────────────────────────────────
@@ -247,6 +335,17 @@ export interface DeadCodeConfig {
   entryPoints?: string[];
 }
 
+// ── Cycles Config ─────────────────────────────────────────────
+
+export interface CyclesConfig {
+  enabled: boolean;
+  severity: Severity;
+  /** Only report cycles through at most this many files. */
+  maxCycleLength?: number;
+  /** Accepted cycles: each entry is a list of globs that together must match every file in the cycle. */
+  allow: string[][];
+}
+
 // ── Coverage Config ───────────────────────────────────────────
 
 export interface CoverageConfig {
@@ -271,6 +370,45 @@ export interface LicenseConfig {
 export interface DependencyConfig {
   enabled: boolean;
   severity: Severity;
+  /** Directory of the advisory database written by `advisories sync`, relative to the project root. */
+  database?: string;
+  /** Only match against the synced database; never query api.osv.dev. */
+  offline?: boolean;
+  /** Base URL of an OSV export mirror serving `<ecosystem>/all.zip`, used by `advisories sync` instead of the public bucket. */
+  mirror?: string;
+}
+
+// ── Dependency Usage Config ────────────────────────────────────
+
+export interface DependencyUsageConfig {
+  enabled: boolean;
+  severity: Severity;
+  /** Package names (globs) never reported as unused, missing or misplaced. */
+  ignore: string[];
+  /** Extra globs for files that may import dev dependencies, beyond tests and tool configs. */
+  devFiles: string[];
+}
+
+// ── Typosquatting Config ───────────────────────────────────────
+
+export interface TyposquattingConfig {
+  enabled: boolean;
+  severity: Severity;
+  /** Package names (globs) never reported, for internal or deliberately similar packages. */
+  allow: string[];
+  /** JSON files mapping ecosystems to more popular package names, added to the bundled list. */
+  lists: string[];
+}
+
+// ── Supply Chain Config ────────────────────────────────────────
+
+export interface SupplyChainConfig {
+  enabled: boolean;
+  severity: Severity;
+  /** Package names (globs) never reported. */
+  allow: string[];
+  /** Hosts trusted to serve packages outside the registry, and as registries to switch to. */
+  trustedHosts: string[];
 }
 
 // ── Fixes Config ───────────────────────────────────────────────
@@ -290,6 +428,39 @@ export interface RulesConfig {
   astgrep?: string;
 }
 
+// ── Cache Config ───────────────────────────────────────────────
+
+export interface CacheConfig {
+  enabled: boolean;
+  path: string;
+}
+
+// ── Parallel Config ────────────────────────────────────────────
+
+export interface ParallelConfig {
+  enabled: boolean;
+  workers?: number;
+  minFiles: number;
+}
+
+// ── Timeouts Config ────────────────────────────────────────────
+
+export interface TimeoutsConfig {
+  default: number;
+  budget?: number;
+  analyzers: Record<string, number>;
+}
+
+// ── Plugin Config ──────────────────────────────────────────────
+
+export interface PluginConfig {
+  /** npm package name, or a path relative to the project root. */
+  name: string;
+  enabled: boolean;
+  /** Plugin-specific settings, validated by the plugin's own config schema. */
+  options: Record<string, unknown>;
+}
+
 // ── Dashboard Config ───────────────────────────────────────────
 
 export interface DashboardConfig {
@@ -301,7 +472,7 @@ export interface ArchGuardConfig {
   languages: SupportedLanguage[];
   include: string[];
   exclude: string[];
-  plugins: string[];
+  plugins: Array<string | PluginConfig>;
   severity: SeverityConfig;
   analyzers: {
     security: SecurityConfig;
@@ -312,9 +483,13 @@ export interface ArchGuardConfig {
     impact?: ImpactConfig;
     taint?: TaintConfig;
     dependencies?: DependencyConfig;
+    dependencyUsage?: DependencyUsageConfig;
+    typosquatting?: TyposquattingConfig;
+    supplyChain?: SupplyChainConfig;
     complexity?: ComplexityConfig;
     iac?: IacConfig;
     deadCode?: DeadCodeConfig;
+    cycles?: CyclesConfig;
     coverage?: CoverageConfig;
     licenses?: LicenseConfig;
   };
@@ -324,5 +499,8 @@ export interface ArchGuardConfig {
   fixes?: FixesConfig;
   rules?: RulesConfig;
   dashboard?: DashboardConfig;
+  cache?: CacheConfig;
+  parallel?: ParallelConfig;
+  timeouts?: TimeoutsConfig;
   workspaces?: Record<string, Partial<ArchGuardConfig>>;
 }
@@ -0,0 +1,158 @@
+/**
+ * Version ordering per package ecosystem, as OSV ranges need it: semver for
+ * npm, Go and crates.io, PEP 440 for PyPI and Maven's qualifier ordering.
+ * Versions a scheme cannot parse fall back to comparing numeric and
+ * alphabetic runs in turn.
+ */
+export function compareVersions(a: string, b: string, ecosystem: string): number {
+  switch (ecosystem) {
+    case 'npm':
+    case 'Go':
+    case 'crates.io':
+      return compareSemver(a, b) ?? compareGeneric(a, b);
+    case 'PyPI':
+      return comparePep440(a, b) ?? compareGeneric(a, b);
+    case 'Maven':
+      return compareMaven(a, b);
+    default:
+      return compareGeneric(a, b);
+  }
+}
+
+function compareNumbers(a: number, b: number): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareSequences(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = compareNumbers(a[i] ?? 0, b[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// ── Semver ─────────────────────────────────────────────────────
+
+const SEMVER = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]*)?$/;
+
+function compareSemver(a: string, b: string): number | null {
+  const x = SEMVER.exec(a.trim());
+  const y = SEMVER.exec(b.trim());
+  if (!x || !y) return null;
+  const core = compareSequences([1, 2, 3].map(i => Number(x[i] ?? 0)), [1, 2, 3].map(i => Number(y[i] ?? 0)));
+  if (core !== 0) return core;
+
+  // A pre-release sorts before its release; identifiers compare numerically when both are numbers
+  if (!x[4] || !y[4]) return x[4] ? -1 : y[4] ? 1 : 0;
+  const left = x[4].split('.');
+  const right = y[4].split('.');
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    if (left[i] === undefined) return -1;
+    if (right[i] === undefined) return 1;
+    const numeric = /^\d+$/.test(left[i]) && /^\d+$/.test(right[i]);
+    const diff = numeric
+      ? compareNumbers(Number(left[i]), Number(right[i]))
+      : /^\d+$/.test(left[i]) ? -1 : /^\d+$/.test(right[i]) ? 1 : left[i].localeCompare(right[i]);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// ── PEP 440 ────────────────────────────────────────────────────
+
+const PEP440 = /^v?(?:(\d+)!)?(\d+(?:\.\d+)*)(?:[-_.]?(a|alpha|b|beta|c|rc|pre|preview)[-_.]?(\d*))?(?:-(\d+)|[-_.]?(?:post|rev|r)[-_.]?(\d*))?(?:[-_.]?dev[-_.]?(\d*))?(?:\+[a-z0-9.]*)?$/;
+
+const PRE_RELEASE_RANK: Record<string, number> = { a: 0, alpha: 0, b: 1, beta: 1, c: 2, rc: 2, pre: 2, preview: 2 };
+
+/**
+ * Sort key of a PEP 440 version: epoch, release, then the phase. A
+ * development release of a final version sorts before its pre-releases, and
+ * post-releases after the final release.
+ */
+function pep440Key(version: string): { release: number[]; phase: number[] } | null {
+  const m = PEP440.exec(version.trim().toLowerCase());
+  if (!m) return null;
+  const [, epoch, release, pre, preNumber, postImplicit, postNumber, dev] = m;
+  const hasPost = postImplicit !== undefined || postNumber !== undefined;
+  const preKey = pre ? [PRE_RELEASE_RANK[pre], Number(preNumber || 0)]
+    : dev !== undefined && !hasPost ? [-1, 0]
+    : [3, 0];
+  const postKey = hasPost ? Number(postImplicit ?? (postNumber || 0)) : -1;
+  const devKey = dev !== undefined ? Number(dev || 0) : Infinity;
+  return {
+    release: [Number(epoch ?? 0), ...release.split('.').map(Number)],
+    phase: [...preKey, postKey, devKey],
+  };
+}
+
+function comparePep440(a: string, b: string): number | null {
+  const x = pep440Key(a);
+  const y = pep440Key(b);
+  if (!x || !y) return null;
+  // Release segments pad with zeros, so 1.0 equals 1.0.0; the epoch leads
+  const release = compareNumbers(x.release[0], y.release[0]) || compareSequences(x.release.slice(1), y.release.slice(1));
+  if (release !== 0) return release;
+  for (let i = 0; i < x.phase.length; i++) {
+    const diff = compareNumbers(x.phase[i], y.phase[i]);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// ── Maven ──────────────────────────────────────────────────────
+
+/** Well-known qualifiers in release order; the empty qualifier is the release itself. */
+const MAVEN_QUALIFIERS = ['alpha', 'beta', 'milestone', 'rc', 'snapshot', '', 'sp'];
+const MAVEN_ALIASES: Record<string, string> = { a: 'alpha', b: 'beta', m: 'milestone', cr: 'rc', ga: '', final: '', release: '' };
+
+function mavenItems(version: string): Array<number | string> {
+  return (version.toLowerCase().match(/\d+|[a-z]+/g) ?? []).map(item => {
+    if (/^\d+$/.test(item)) return Number(item);
+    return MAVEN_ALIASES[item] ?? item;
+  });
+}
+
+/**
+ * Maven ordering, simplified from ComparableVersion: numbers compare
+ * numerically and sort after qualifiers, known qualifiers follow release
+ * order and unknown ones sort after them alphabetically.
+ */
+function compareMaven(a: string, b: string): number {
+  const x = mavenItems(a);
+  const y = mavenItems(b);
+  const rank = (item: string) => {
+    const known = MAVEN_QUALIFIERS.indexOf(item);
+    return known === -1 ? MAVEN_QUALIFIERS.length : known;
+  };
+  for (let i = 0; i < Math.max(x.length, y.length); i++) {
+    // Missing items are a zero next to numbers and the release next to qualifiers
+    const left = x[i] ?? (typeof y[i] === 'number' ? 0 : '');
+    const right = y[i] ?? (typeof x[i] === 'number' ? 0 : '');
+    if (typeof left === 'number' && typeof right === 'number') {
+      const diff = compareNumbers(left, right);
+      if (diff !== 0) return diff;
+    } else if (typeof left === 'number' || typeof right === 'number') {
+      return typeof left === 'number' ? 1 : -1;
+    } else {
+      const diff = compareNumbers(rank(left), rank(right)) || left.localeCompare(right);
+      if (diff !== 0) return diff;
+    }
+  }
+  return 0;
+}
+
+// ── Fallback ───────────────────────────────────────────────────
+
+function compareGeneric(a: string, b: string): number {
+  const x = a.match(/\d+|[a-z]+/gi) ?? [];
+  const y = b.match(/\d+|[a-z]+/gi) ?? [];
+  for (let i = 0; i < Math.max(x.length, y.length); i++) {
+    if (x[i] === undefined) return -1;
+    if (y[i] === undefined) return 1;
+    const diff = /^\d+$/.test(x[i]) && /^\d+$/.test(y[i])
+      ? compareNumbers(Number(x[i]), Number(y[i]))
+      : x[i].localeCompare(y[i]);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
@@ -0,0 +1,217 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { AnalysisContext, AnalysisSummary, Analyzer, ArchGuardConfig, FileInfo, Finding, ParsedFile } from './types.js';
+import { buildContext, filterFiles, toScanFile } from './context.js';
+import { runPipeline } from './pipeline.js';
+import { applySuppression } from './suppression.js';
+import { buildDependencyGraph, updateDependencyGraph, type DependencyGraph } from './dependency-graph.js';
+import { loadModuleResolution } from './module-resolution.js';
+import { getCacheStrategy, getGraphInvalidation, hashManifests, isNpmManifest, type GraphChange } from './scan-cache.js';
+
+export interface WatchDelta {
+  /** Files whose content changed, including ones that were deleted. */
+  changedFiles: string[];
+  /** Findings that appeared with this change. */
+  added: Finding[];
+  /** Findings that went away with this change. */
+  resolved: Finding[];
+  summary: AnalysisSummary;
+}
+
+function findingKey(finding: Finding): string {
+  return `${finding.ruleId}:${finding.file}:${finding.line}:${finding.message}`;
+}
+
+function importsOf(graph: DependencyGraph): Map<string, string[]> {
+  return new Map([...graph.nodes].map(([path, node]) => [path, [...node.imports]]));
+}
+
+/**
+ * Long-lived analysis state for `watch` and the language server. Keeps every parsed file and the
+ * dependency graph in memory so a change only re-parses the touched files and
+ * re-runs each analyzer over the narrowest scope that keeps its findings right:
+ * file-local analyzers see the changed files, graph analyzers the changed files'
+ * import neighbourhood, and everything else the whole project.
+ */
+export class WatchSession {
+  private readonly files = new Map<string, FileInfo>();
+  private readonly parsed = new Map<string, ParsedFile>();
+  private graph: DependencyGraph = { nodes: new Map() };
+  /** Raw findings per analyzer, before suppression. */
+  private readonly findingsByAnalyzer = new Map<string, Finding[]>();
+  /** Unsaved editor contents that take precedence over what is on disk. */
+  private readonly overlays = new Map<string, string>();
+  /** Hash of the npm manifests above the analyzed files; see {@link hashManifests}. */
+  private manifestHash = '';
+
+  constructor(
+    private readonly config: ArchGuardConfig,
+    private readonly projectRoot: string,
+    private readonly analyzers: Analyzer[],
+  ) {}
+
+  /** Parse and analyze `paths` from scratch. */
+  async start(paths: string[]): Promise<AnalysisSummary> {
+    const files: FileInfo[] = [];
+    for (const path of paths) {
+      const file = await this.readFile(path);
+      if (file) files.push(file);
+    }
+
+    const context = await buildContext(files, this.config, this.projectRoot);
+    for (const file of context.files) this.files.set(file.path, file);
+    for (const file of context.parsedFiles) this.parsed.set(file.path, file);
+    this.graph = buildDependencyGraph(context.parsedFiles, this.projectRoot, await loadModuleResolution(this.projectRoot));
+    this.manifestHash = await hashManifests(this.projectRoot, this.files.keys());
+
+    const summary = await runPipeline(context, this.analyzers);
+    for (const result of summary.analyzerResults) {
+      this.findingsByAnalyzer.set(result.analyzer, result.findings);
+    }
+    return summary;
+  }
+
+  /**
+   * Analyze `path` with `content` instead of what is on disk, e.g. an unsaved
+   * editor buffer; null goes back to disk. Takes effect on the next `update`.
+   */
+  setOverlay(path: string, content: string | null): void {
+    if (content === null) this.overlays.delete(path);
+    else this.overlays.set(path, content);
+  }
+
+  /** Content the session last analyzed for `path`. */
+  content(path: string): string | undefined {
+    return this.files.get(path)?.content;
+  }
+
+  /** Current findings after inline suppression, one per rule and location. */
+  findings(): Finding[] {
+    const raw = [...this.findingsByAnalyzer.values()].flat();
+    const visible = applySuppression(raw, [...this.parsed.values()]).findings;
+    return [...new Map(visible.map(f => [findingKey(f), f])).values()];
+  }
+
+  /**
+   * Re-read `paths` and re-analyze what they affect. Returns null when none of
+   * them changed in a way that matters, e.g. an editor touching a file on save.
+   */
+  async update(paths: string[]): Promise<WatchDelta | null> {
+    const changed = new Set<string>();
+    const dirty: FileInfo[] = [];
+    let pathSetChanged = false;
+
+    for (const path of paths) {
+      const file = await this.readFile(path);
+      if (!file) {
+        if (this.files.delete(path)) {
+          changed.add(path);
+          pathSetChanged = true;
+        }
+        this.parsed.delete(path);
+        continue;
+      }
+      const previous = this.files.get(path);
+      if (previous?.content === file.content) continue;
+      if (!previous) pathSetChanged = true;
+      this.files.set(path, file);
+      this.parsed.delete(path);
+      changed.add(path);
+      dirty.push(file);
+    }
+
+    // Manifests are not analyzed themselves but decide which package imports resolve
+    let manifestsChanged = false;
+    if (paths.some(isNpmManifest)) {
+      const manifestHash = await hashManifests(this.projectRoot, this.files.keys());
+      manifestsChanged = manifestHash !== this.manifestHash;
+      this.manifestHash = manifestHash;
+    }
+    if (changed.size === 0 && !manifestsChanged) return null;
+
+    const before = this.findings();
+
+    const dirtyContext = await buildContext(dirty, this.config, this.projectRoot);
+    for (const file of dirtyContext.parsedFiles) this.parsed.set(file.path, file);
+
+    const previousImports = importsOf(this.graph);
+    const parsedFiles = [...this.parsed.values()];
+    updateDependencyGraph(this.graph, parsedFiles, [...changed], this.projectRoot);
+    const graphChange: GraphChange = {
+      allPaths: new Set([...this.files.keys(), ...changed]),
+      previousImports,
+      currentImports: importsOf(this.graph),
+      changedPaths: changed,
+      pathSetChanged,
+      manifestsChanged,
+      depth: Math.max(1, this.config.analyzers.impact?.depth ?? 1),
+    };
+
+    const fullContext: AnalysisContext = {
+      files: [...this.files.values()],
+      parsedFiles,
+      config: this.config,
+      projectRoot: this.projectRoot,
+    };
+
+    // Files each analyzer re-analyzed; null means it re-ran over the whole project
+    const scopes = new Map<string, Set<string> | null>();
+    const scoped: Analyzer[] = this.analyzers.map(analyzer => ({
+      name: analyzer.name,
+      version: analyzer.version,
+      async analyze({ deadline }: AnalysisContext): Promise<Finding[]> {
+        switch (getCacheStrategy(analyzer, fullContext.config)) {
+          case 'file':
+            scopes.set(analyzer.name, changed);
+            return analyzer.analyze({ ...dirtyContext, deadline });
+          case 'graph': {
+            const invalidated = getGraphInvalidation(analyzer.name, graphChange);
+            scopes.set(analyzer.name, invalidated);
+            const findings = await analyzer.analyze({
+              ...fullContext,
+              files: fullContext.files.filter(f => invalidated.has(f.path)),
+              deadline,
+            });
+            return findings.filter(f => invalidated.has(f.file));
+          }
+          default:
+            scopes.set(analyzer.name, null);
+            return analyzer.analyze({ ...fullContext, deadline });
+        }
+      },
+    }));
+
+    const summary = await runPipeline(fullContext, scoped);
+    for (const result of summary.analyzerResults) {
+      // A failed analyzer keeps its previous findings rather than report them resolved
+      if (result.error && !result.timedOut) continue;
+      const scope = scopes.get(result.analyzer);
+      const kept = scope === null || scope === undefined
+        ? []
+        : (this.findingsByAnalyzer.get(result.analyzer) ?? []).filter(f => !scope.has(f.file));
+      this.findingsByAnalyzer.set(result.analyzer, [...kept, ...result.findings]);
+    }
+
+    const after = this.findings();
+    const beforeKeys = new Set(before.map(findingKey));
+    const afterKeys = new Set(after.map(findingKey));
+    return {
+      changedFiles: [...changed],
+      added: after.filter(f => !beforeKeys.has(findingKey(f))),
+      resolved: before.filter(f => !afterKeys.has(findingKey(f))),
+      summary,
+    };
+  }
+
+  /** Read a file as a full scan would, or null if it is gone or not analyzable. */
+  private async readFile(path: string): Promise<FileInfo | null> {
+    let content = this.overlays.get(path);
+    try {
+      content ??= await readFile(join(this.projectRoot, path), 'utf-8');
+    } catch {
+      return null;
+    }
+    const file = toScanFile(path, content);
+    return file && filterFiles([file], this.config).length > 0 ? file : null;
+  }
+}
@@ -0,0 +1,181 @@
+import { Worker } from 'node:worker_threads';
+import { existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { cpus } from 'node:os';
+import type { Analyzer, AnalyzerResult, ArchGuardConfig, FileInfo, Finding } from './types.js';
+import { buildContext, filterFiles } from './context.js';
+import { SecurityScanner } from '../analyzers/security-scanner.js';
+import { AiSmellDetector } from '../analyzers/ai-smell-detector.js';
+import { ConventionEnforcer } from '../analyzers/convention-enforcer.js';
+import { ComplexityAnalyzer } from '../analyzers/complexity-analyzer.js';
+import { getAnalyzerDeadline, runAnalyzer } from './deadline.js';
+import { logger } from '../utils/logger.js';
+
+/** Built-in analyzers whose findings for a file depend only on that file. */
+const WORKER_ANALYZERS: Record<string, new () => Analyzer> = {
+  'security': SecurityScanner,
+  'ai-smells': AiSmellDetector,
+  'conventions': ConventionEnforcer,
+  'complexity': ComplexityAnalyzer,
+};
+
+const WORKER_SCRIPT = new URL('./analysis-worker.js', import.meta.url);
+
+/** Slack on top of the analyzers' own deadlines before a worker is terminated. */
+const WORKER_GRACE_MS = 1000;
+
+export interface WorkerTask {
+  files: FileInfo[];
+  config: ArchGuardConfig;
+  projectRoot: string;
+  analyzers: string[];
+  /** When the whole run started, so the global timeout budget spans all workers. */
+  runStart: number;
+}
+
+export function isParallelEnabled(config: ArchGuardConfig, fileCount: number): boolean {
+  return config.parallel?.enabled === true && fileCount >= config.parallel.minFiles;
+}
+
+export function isWorkerAnalyzer(analyzer: Analyzer): boolean {
+  const builtIn = WORKER_ANALYZERS[analyzer.name];
+  return builtIn !== undefined && analyzer instanceof builtIn;
+}
+
+/**
+ * Whether the main thread needs parsed trees. Parsing can be skipped entirely
+ * when every analyzer will run in the worker pool.
+ */
+export function shouldParseOnMainThread(
+  files: FileInfo[],
+  analyzers: Analyzer[],
+  config: ArchGuardConfig,
+): boolean {
+  if (!isParallelEnabled(config, filterFiles(files, config).length)) return true;
+  return !analyzers.every(isWorkerAnalyzer);
+}
+
+/**
+ * Parse a chunk of files and run the requested analyzers over it.
+ * Runs inside a worker thread, or in-process when no worker script is available.
+ */
+export async function analyzeChunk(task: WorkerTask): Promise<AnalyzerResult[]> {
+  const context = await buildContext(task.files, task.config, task.projectRoot);
+  const results: AnalyzerResult[] = [];
+
+  for (const name of task.analyzers) {
+    try {
+      results.push(await runAnalyzer(new WORKER_ANALYZERS[name](), context, task.runStart));
+    } catch (err) {
+      results.push({ analyzer: name, findings: [], duration: 0, error: String(err) });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Run file-local analyzers over `files` in a pool of worker threads. Files are
+ * split into contiguous chunks, one per worker, and the findings are merged back
+ * in file order so the output does not depend on the pool size.
+ */
+export async function runInWorkerPool(
+  files: FileInfo[],
+  analyzers: string[],
+  config: ArchGuardConfig,
+  projectRoot: string,
+  runStart: number = Date.now(),
+): Promise<AnalyzerResult[]> {
+  const task = { config, projectRoot, analyzers, runStart };
+
+  let chunkResults: AnalyzerResult[][];
+  if (!existsSync(fileURLToPath(WORKER_SCRIPT))) {
+    logger.debug('Worker script not found, analyzing in-process');
+    chunkResults = [await analyzeChunk({ ...task, files })];
+  } else {
+    const poolSize = Math.min(config.parallel?.workers ?? Math.max(1, cpus().length - 1), files.length);
+    const chunks = chunkFiles(files, poolSize);
+    logger.debug(`Analyzing ${files.length} files in ${chunks.length} workers`);
+    chunkResults = await Promise.all(chunks.map(chunk => runWorker({ ...task, files: chunk })));
+  }
+
+  return mergeChunkResults(chunkResults, analyzers, files);
+}
+
+export function chunkFiles(files: FileInfo[], count: number): FileInfo[][] {
+  const size = Math.ceil(files.length / Math.max(1, count));
+  const chunks: FileInfo[][] = [];
+  for (let i = 0; i < files.length; i += size) {
+    chunks.push(files.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function runWorker(task: WorkerTask): Promise<AnalyzerResult[]> {
+  // Analyzers stop themselves at their deadlines; this only guards against a worker
+  // that never yields. They run one after another, plus one default timeout for parsing.
+  const start = Date.now();
+  let guardAt = getAnalyzerDeadline(task.config, '', start);
+  for (const name of task.analyzers) {
+    guardAt = getAnalyzerDeadline(task.config, name, guardAt, task.runStart);
+  }
+  const budgetMs = Math.max(0, guardAt - start) + WORKER_GRACE_MS;
+
+  return new Promise(resolve => {
+    const worker = new Worker(WORKER_SCRIPT, { workerData: task });
+    const fail = (error: string, timedOut = false) => resolve(task.analyzers.map(analyzer => ({
+      analyzer, findings: [], duration: 0, error,
+      ...(timedOut ? { timedOut, skippedFiles: task.files.map(f => f.path) } : {}),
+    })));
+
+    const timer = setTimeout(() => {
+      void worker.terminate();
+      fail(`Worker timed out after ${budgetMs}ms`, true);
+    }, budgetMs);
+
+    worker.once('message', (results: AnalyzerResult[]) => {
+      clearTimeout(timer);
+      void worker.terminate();
+      resolve(results);
+    });
+    worker.once('error', err => {
+      clearTimeout(timer);
+      fail(String(err));
+    });
+  });
+}
+
+export function mergeChunkResults(
+  chunkResults: AnalyzerResult[][],
+  analyzers: string[],
+  files: FileInfo[],
+): AnalyzerResult[] {
+  const fileOrder = new Map(files.map((f, i) => [f.path, i]));
+  const byFileAndLine = (a: Finding, b: Finding) =>
+    (fileOrder.get(a.file) ?? Infinity) - (fileOrder.get(b.file) ?? Infinity) || a.line - b.line;
+
+  return analyzers.map(name => {
+    const parts = chunkResults.flatMap(results => results.filter(r => r.analyzer === name));
+    const duration = Math.max(0, ...parts.map(r => r.duration));
+    // A failure in any chunk fails the analyzer, as it would on the main thread
+    const failure = parts.find(r => r.error && !r.timedOut);
+    if (failure) {
+      return { analyzer: name, findings: [], duration, error: failure.error };
+    }
+
+    const findings = parts.flatMap(r => r.findings).sort(byFileAndLine);
+    const timedOut = parts.filter(r => r.timedOut);
+    if (timedOut.length === 0) {
+      return { analyzer: name, findings, duration };
+    }
+    // Chunks that hit their deadline still contribute what they finished
+    return {
+      analyzer: name,
+      findings,
+      duration,
+      error: timedOut[0].error,
+      timedOut: true,
+      skippedFiles: timedOut.flatMap(r => r.skippedFiles ?? []),
+    };
+  });
+}
@@ -13,6 +13,11 @@ export interface Fix {
   ruleId: string;
   apply(filePath: string, finding: Finding): Promise<FixResult>;
   preview(filePath: string, finding: Finding): Promise<string>;
+  /**
+   * Fixed version of `content`, or null when the fix does not apply. Lets
+   * editors fix unsaved buffers without touching the file on disk.
+   */
+  fixContent?(content: string, finding: Finding): string | null;
 }
 
 export interface FixSummary {
@@ -49,13 +54,18 @@ export function getAvailableFixes(enableAi?: boolean): Fix[] {
   return registeredFixes;
 }
 
+/** Add a fix contributed by a plugin to the registry. */
+export function registerFix(fix: Fix): void {
+  if (!registeredFixes.includes(fix)) registeredFixes.push(fix);
+}
+
 // ── Fix executor ─────────────────────────────────────────────────
 
 /**
  * Find the appropriate fix for a given finding.
  * Supports exact match and prefix-based matching for convention/* rules.
  */
-function findFixForRule(ruleId: string, fixes: Fix[]): Fix | undefined {
+export function findFixForRule(ruleId: string, fixes: Fix[]): Fix | undefined {
   // Exact match first
   const exact = fixes.find(f => f.ruleId === ruleId);
   if (exact) return exact;
@@ -184,6 +184,13 @@ export class RemoveUnusedImportFix implements Fix {
     return { applied: true, description: `Removed unused import '${importName}'` };
   }
 
+  fixContent(content: string, finding: Finding): string | null {
+    const importName = extractImportName(finding);
+    if (!importName) return null;
+    const updated = removeImportFromContent(content, importName, finding.line);
+    return updated === content ? null : updated;
+  }
+
   async preview(filePath: string, finding: Finding): Promise<string> {
     const importName = extractImportName(finding);
     if (!importName) {
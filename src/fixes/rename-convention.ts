@@ -212,6 +212,16 @@ export class RenameConventionFix implements Fix {
     return { applied: true, description: `Renamed '${info.name}' to '${newName}' (${info.convention})` };
   }
 
+  fixContent(content: string, finding: Finding): string | null {
+    if (!this.matchesRule(finding.ruleId)) return null;
+    const info = extractConventionInfo(finding);
+    if (!info) return null;
+    const newName = convertName(info.name, info.convention);
+    if (newName === info.name) return null;
+    const updated = renameIdentifier(content, info.name, newName, finding.line);
+    return updated === content ? null : updated;
+  }
+
   async preview(filePath: string, finding: Finding): Promise<string> {
     if (!this.matchesRule(finding.ruleId)) {
       return `Rule ${finding.ruleId} is not a convention naming rule`;
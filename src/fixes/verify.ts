@@ -42,7 +42,7 @@ export async function verifyFix(
     };
 
     const context = await buildContext([fileInfo], config, projectRoot);
-    const analyzers = await createAnalyzers(config);
+    const analyzers = await createAnalyzers(config, projectRoot);
     const summary = await runPipeline(context, analyzers);
 
     const allFindings = summary.analyzerResults.flatMap(r => r.findings);
@@ -3,11 +3,23 @@ export { loadConfig, generateDefaultConfig } from './core/config-loader.js';
 export { parseDiff, detectLanguage } from './core/diff-parser.js';
 export { buildContext } from './core/context.js';
 export { runPipeline } from './core/pipeline.js';
+export { WatchSession } from './core/watch-session.js';
 export { getExitCode, severityAtLeast } from './core/severity.js';
 export { Severity, ExitCode } from './core/types.js';
 export { parseSuppressionDirectives, applySuppression } from './core/suppression.js';
-export { saveBaseline, loadBaseline, filterByBaseline, handleBaseline, contentFingerprint } from './core/baseline.js';
+export {
+  saveBaseline,
+  loadBaseline,
+  filterByBaseline,
+  matchBaseline,
+  pruneBaseline,
+  migrateBaseline,
+  handleBaseline,
+  contentFingerprint,
+  findingFingerprint,
+} from './core/baseline.js';
 export { evaluateQualityGate } from './core/quality-gate.js';
+export { applyRatchet, evaluateRatchet } from './core/ratchet.js';
 
 // Analyzers
 export { SecurityScanner } from './analyzers/security-scanner.js';
@@ -17,17 +29,29 @@ export { DuplicateDetector } from './analyzers/duplicate-detector.js';
 export { LayerViolationDetector } from './analyzers/layer-violation.js';
 export { ImpactAnalyzer } from './analyzers/impact-analyzer.js';
 export { TaintAnalyzer } from './analyzers/taint-analyzer.js';
+export { FRAMEWORK_MODELS, TAINT_FRAMEWORKS, resolveTaintSpec } from './analyzers/taint-specs.js';
+export type { FrameworkModel, TaintLanguage } from './analyzers/taint-specs.js';
 export { DependencyScanner } from './analyzers/dependency-scanner.js';
+export { DependencyUsageAnalyzer } from './analyzers/dependency-usage-analyzer.js';
+export { TyposquattingAnalyzer } from './analyzers/typosquatting-analyzer.js';
+export { SupplyChainAnalyzer } from './analyzers/supply-chain-analyzer.js';
+export { POPULAR_PACKAGES } from './analyzers/popular-packages.js';
 export { ComplexityAnalyzer } from './analyzers/complexity-analyzer.js';
 export { IacAnalyzer } from './analyzers/iac-analyzer.js';
 export { DeadCodeAnalyzer } from './analyzers/dead-code-analyzer.js';
+export { CyclesAnalyzer } from './analyzers/cycles-analyzer.js';
 export { CoverageAnalyzer } from './analyzers/coverage-analyzer.js';
 export { LicenseScanner } from './analyzers/license-scanner.js';
 export { StructuralRuleAnalyzer } from './analyzers/structural-rule-analyzer.js';
-export { loadPlugins } from './plugins/loader.js';
+export { loadPlugins, loadPluginManifests, teardownPlugins } from './plugins/loader.js';
+export { PLUGIN_API_VERSION } from './plugins/plugin-types.js';
 
 // Dependency collector
 export { collectDependencies } from './core/dependency-collector.js';
+export { readLockfiles, parseLockfile, parseImporters } from './core/lockfiles.js';
+export { AdvisoryDatabase, readAdvisorySource, writeAdvisoryDatabase, isAffected } from './core/advisory-db.js';
+export { compareVersions } from './core/versions.js';
+export { collectExternalImports, findDependency } from './core/package-imports.js';
 
 // Workspace resolver
 export { resolveWorkspaceConfig } from './core/workspace-resolver.js';
@@ -39,7 +63,16 @@ export { postPrReview, postPrSummary, parsePrContext } from './ci/github-pr-comm
 export { loadMemory, saveMemory, addMemoryEntry, applyMemory } from './core/memory.js';
 
 // Dependency graph
-export { buildDependencyGraph, getConsumers, getImpactedFiles } from './core/dependency-graph.js';
+export {
+  buildDependencyGraph,
+  updateDependencyGraph,
+  resolveImportTargets,
+  getConsumers,
+  getImpactedFiles,
+  findStronglyConnectedComponents,
+  shortestCycleThrough,
+} from './core/dependency-graph.js';
+export { loadModuleResolution, moduleCandidates, packageEntryCandidates } from './core/module-resolution.js';
 
 // CI
 export { formatGitHubAnnotation, formatAnnotations } from './ci/github-annotator.js';
@@ -51,10 +84,11 @@ export { generateImpactDiagram, generateArchitectureDiagram } from './core/merma
 export { parseRulesFile, NaturalLanguageAnalyzer } from './rules/natural-language.js';
 
 // Fixes
-export { applyFixes, getAvailableFixes } from './fixes/index.js';
+export { applyFixes, getAvailableFixes, registerFix } from './fixes/index.js';
 
 export type {
   Finding,
+  FlowStep,
   FileInfo,
   AnalysisContext,
   AnalysisSummary,
@@ -64,19 +98,36 @@ export type {
   ParsedFile,
   SupportedLanguage,
   QualityGateConfig,
+  RatchetConfig,
   MemoryConfig,
   ImpactConfig,
   TaintConfig,
+  TaintSpec,
+  TaintSinkSpec,
+  TaintFramework,
   DependencyConfig,
+  DependencyUsageConfig,
+  TyposquattingConfig,
+  SupplyChainConfig,
   ComplexityConfig,
   IacConfig,
   DeadCodeConfig,
+  CyclesConfig,
   CoverageConfig,
   LicenseConfig,
+  PluginConfig,
 } from './core/types.js';
 export type { PackageDependency } from './core/dependency-collector.js';
+export type { LockedPackage, LockedSource, Lockfile } from './core/lockfiles.js';
+export type { OsvRecord, StoredAdvisory, AdvisoryIndex } from './core/advisory-db.js';
+export type { ExternalImport } from './core/package-imports.js';
 export type { SuppressionDirective } from './core/suppression.js';
-export type { BaselineFile, BaselineEntry } from './core/baseline.js';
+export type { BaselineFile, BaselineEntry, BaselineMatch } from './core/baseline.js';
+export type { PluginManifest, PluginConfigSchema, PluginFormatter, PluginSetupContext, LoadedPlugin } from './plugins/plugin-types.js';
+export type { RuleDefinition } from './rules/rule-types.js';
+export type { Fix, FixResult } from './fixes/index.js';
 export type { QualityGateResult, QualityGateFailure } from './core/quality-gate.js';
+export type { RatchetSnapshot, RatchetResult } from './core/ratchet.js';
 export type { MemoryEntry } from './core/memory.js';
 export type { DependencyGraph } from './core/dependency-graph.js';
+export type { GoModule, ModuleResolution, RustCrate, TsconfigScope, WorkspacePackage } from './core/module-resolution.js';
@@ -0,0 +1,94 @@
+import type { Readable, Writable } from 'node:stream';
+
+// ── JSON-RPC 2.0 messages ────────────────────────────────────────
+
+export interface RequestMessage {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: unknown;
+}
+
+export interface NotificationMessage {
+  jsonrpc: '2.0';
+  method: string;
+  params?: unknown;
+}
+
+export interface ResponseMessage {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export type Message = RequestMessage | NotificationMessage | ResponseMessage;
+
+export const ErrorCodes = {
+  ParseError: -32700,
+  MethodNotFound: -32601,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+} as const;
+
+/** Thrown by request handlers to answer with a specific JSON-RPC error. */
+export class ResponseError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+export function isRequest(message: Message): message is RequestMessage {
+  return 'method' in message && 'id' in message;
+}
+
+// ── Base protocol framing ────────────────────────────────────────
+
+const HEADER_DELIMITER = '\r\n\r\n';
+
+/**
+ * Read `Content-Length` framed messages from `input` and hand each parsed
+ * message to `onMessage`. Malformed bodies are reported through `onError`.
+ */
+export function readMessages(
+  input: Readable,
+  onMessage: (message: Message) => void,
+  onError: (err: Error) => void = () => {},
+): void {
+  let buffer = Buffer.alloc(0);
+
+  input.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    for (;;) {
+      const headerEnd = buffer.indexOf(HEADER_DELIMITER);
+      if (headerEnd < 0) return;
+
+      const header = buffer.subarray(0, headerEnd).toString('ascii');
+      const match = header.match(/Content-Length:\s*(\d+)/i);
+      if (!match) {
+        // Drop the unusable header and resynchronize on the next one
+        buffer = buffer.subarray(headerEnd + HEADER_DELIMITER.length);
+        onError(new Error(`Missing Content-Length in header: ${header}`));
+        continue;
+      }
+
+      const bodyStart = headerEnd + HEADER_DELIMITER.length;
+      const bodyEnd = bodyStart + Number(match[1]);
+      if (buffer.length < bodyEnd) return;
+
+      const body = buffer.subarray(bodyStart, bodyEnd).toString('utf-8');
+      buffer = buffer.subarray(bodyEnd);
+      try {
+        onMessage(JSON.parse(body) as Message);
+      } catch (err) {
+        onError(err as Error);
+      }
+    }
+  });
+}
+
+export function writeMessage(output: Writable, message: Message): void {
+  const body = JSON.stringify(message);
+  output.write(`Content-Length: ${Buffer.byteLength(body, 'utf-8')}${HEADER_DELIMITER}${body}`);
+}
@@ -0,0 +1,404 @@
+import { join, relative, sep } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import type { Finding } from '../core/types.js';
+import { Severity } from '../core/types.js';
+import { loadConfig } from '../core/config-loader.js';
+import { WatchSession } from '../core/watch-session.js';
+import { detectLanguage } from '../core/diff-parser.js';
+import { formatSuppressionComment } from '../core/suppression.js';
+import { findFixForRule, getAvailableFixes } from '../fixes/index.js';
+import { createAnalyzers } from '../cli/analyzer-factory.js';
+import { getAllTrackedFiles } from '../utils/git.js';
+import { logger } from '../utils/logger.js';
+import { ErrorCodes, ResponseError, isRequest, type Message } from './json-rpc.js';
+
+// ── LSP Type Definitions ─────────────────────────────────────────
+
+interface Position {
+  line: number;
+  character: number;
+}
+
+interface Range {
+  start: Position;
+  end: Position;
+}
+
+interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+interface DiagnosticRelatedInformation {
+  location: { uri: string; range: Range };
+  message: string;
+}
+
+interface Diagnostic {
+  range: Range;
+  severity: 1 | 2 | 3 | 4;
+  code: string;
+  source: string;
+  message: string;
+  relatedInformation?: DiagnosticRelatedInformation[];
+}
+
+interface CodeAction {
+  title: string;
+  kind: 'quickfix';
+  diagnostics: Diagnostic[];
+  isPreferred?: boolean;
+  edit: { changes: Record<string, TextEdit[]> };
+}
+
+interface InitializeParams {
+  rootUri?: string | null;
+  rootPath?: string | null;
+  workspaceFolders?: Array<{ uri: string }> | null;
+}
+
+interface TextDocumentItem {
+  uri: string;
+  text: string;
+}
+
+interface CodeActionParams {
+  textDocument: { uri: string };
+  context: { diagnostics: Diagnostic[] };
+}
+
+const SOURCE = 'archguardian';
+
+const DEFAULT_DEBOUNCE_MS = 200;
+
+/** TextDocumentSyncKind.Full: clients send the whole document on every change. */
+const SYNC_FULL = 1;
+
+function toLspSeverity(severity: Severity): Diagnostic['severity'] {
+  switch (severity) {
+    case Severity.Error:
+      return 1;
+    case Severity.Warning:
+      return 2;
+    case Severity.Info:
+      return 3;
+  }
+}
+
+export interface LspServerOptions {
+  /** Quiet period after the last edit before re-analyzing, in ms. */
+  debounceMs?: number;
+}
+
+/**
+ * Language server over an already-framed message stream. Keeps a
+ * `WatchSession` for the workspace, analyzes open documents from their editor
+ * contents, publishes findings as diagnostics, and offers quick fixes from the
+ * fix registry plus `archguard-ignore` suppressions as code actions.
+ */
+export class LspServer {
+  private session: WatchSession | null = null;
+  private projectRoot = process.cwd();
+  private readonly debounceMs: number;
+  /** Serialized diagnostics last sent per file, to only publish changes. */
+  private readonly published = new Map<string, string>();
+  /** Editor contents of open documents. */
+  private readonly documents = new Map<string, string>();
+  private readonly pending = new Set<string>();
+  private timer: NodeJS.Timeout | undefined;
+  private queue: Promise<void> = Promise.resolve();
+  private shutdownRequested = false;
+
+  constructor(
+    private readonly send: (message: Message) => void,
+    private readonly onExit: (code: number) => void,
+    options: LspServerOptions = {},
+  ) {
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  }
+
+  async handle(message: Message): Promise<void> {
+    // Any JSON value can arrive on the wire, not only objects
+    if (typeof message !== 'object' || message === null || !('method' in message)) return;
+
+    if (!isRequest(message)) {
+      try {
+        await this.notify(message.method, message.params);
+      } catch (err) {
+        logger.error(`LSP ${message.method} failed: ${(err as Error).message}`);
+      }
+      return;
+    }
+
+    try {
+      const result = await this.request(message.method, message.params);
+      this.send({ jsonrpc: '2.0', id: message.id, result });
+    } catch (err) {
+      const code = err instanceof ResponseError ? err.code : ErrorCodes.InternalError;
+      this.send({ jsonrpc: '2.0', id: message.id, error: { code, message: (err as Error).message } });
+    }
+  }
+
+  /** Run any pending re-analysis now and wait for all queued work. */
+  async settle(): Promise<void> {
+    clearTimeout(this.timer);
+    if (this.pending.size > 0) this.flush();
+    await this.queue;
+  }
+
+  private async request(method: string, params: unknown): Promise<unknown> {
+    switch (method) {
+      case 'initialize':
+        return this.initialize(params as InitializeParams);
+      case 'shutdown':
+        this.shutdownRequested = true;
+        await this.settle();
+        return null;
+      case 'textDocument/codeAction':
+        return this.codeActions(params as CodeActionParams);
+      default:
+        throw new ResponseError(ErrorCodes.MethodNotFound, `Unhandled method ${method}`);
+    }
+  }
+
+  private async notify(method: string, params: unknown): Promise<void> {
+    switch (method) {
+      case 'initialized':
+        this.enqueue(() => this.start());
+        return;
+      case 'textDocument/didOpen': {
+        const { textDocument } = params as { textDocument: TextDocumentItem };
+        const path = this.toPath(textDocument.uri);
+        this.setDocument(path, textDocument.text);
+        // Editors show nothing for a freshly opened document until it is published
+        this.published.delete(path);
+        this.schedule(path);
+        return;
+      }
+      case 'textDocument/didChange': {
+        const { textDocument, contentChanges } = params as {
+          textDocument: { uri: string };
+          contentChanges: Array<{ text: string }>;
+        };
+        const latest = contentChanges.at(-1);
+        if (!latest) return;
+        const path = this.toPath(textDocument.uri);
+        this.setDocument(path, latest.text);
+        this.schedule(path);
+        return;
+      }
+      case 'textDocument/didClose': {
+        const { textDocument } = params as { textDocument: { uri: string } };
+        const path = this.toPath(textDocument.uri);
+        this.setDocument(path, null);
+        this.schedule(path);
+        return;
+      }
+      case 'workspace/didChangeWatchedFiles': {
+        const { changes } = params as { changes: Array<{ uri: string }> };
+        for (const change of changes) this.schedule(this.toPath(change.uri));
+        return;
+      }
+      case 'exit':
+        clearTimeout(this.timer);
+        this.onExit(this.shutdownRequested ? 0 : 1);
+        return;
+      default:
+        // Unknown notifications, e.g. $/cancelRequest, are ignored per the spec
+        return;
+    }
+  }
+
+  private initialize(params: InitializeParams): unknown {
+    const rootUri = params.rootUri ?? params.workspaceFolders?.[0]?.uri;
+    if (rootUri) this.projectRoot = fileURLToPath(rootUri);
+    else if (params.rootPath) this.projectRoot = params.rootPath;
+
+    return {
+      capabilities: {
+        textDocumentSync: { openClose: true, change: SYNC_FULL },
+        codeActionProvider: { codeActionKinds: ['quickfix'] },
+      },
+      serverInfo: { name: SOURCE },
+    };
+  }
+
+  private async start(): Promise<void> {
+    let config;
+    try {
+      config = await loadConfig(this.projectRoot);
+    } catch (err) {
+      this.send({
+        jsonrpc: '2.0',
+        method: 'window/showMessage',
+        params: { type: 1, message: (err as Error).message },
+      });
+      return;
+    }
+
+    let tracked: string[] = [];
+    try {
+      tracked = await getAllTrackedFiles(this.projectRoot);
+    } catch {
+      // Not a git repository: only documents the editor opens are analyzed
+    }
+
+    const session = new WatchSession(config, this.projectRoot, await createAnalyzers(config, this.projectRoot));
+    for (const [path, text] of this.documents) session.setOverlay(path, text);
+    await session.start([...new Set([...tracked, ...this.documents.keys()])]);
+    this.session = session;
+    this.publishDiagnostics();
+  }
+
+  private setDocument(path: string, text: string | null): void {
+    if (text === null) this.documents.delete(path);
+    else this.documents.set(path, text);
+    this.session?.setOverlay(path, text);
+  }
+
+  private schedule(path: string): void {
+    this.pending.add(path);
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), this.debounceMs);
+  }
+
+  private flush(): void {
+    const paths = [...this.pending];
+    this.pending.clear();
+    this.enqueue(async () => {
+      if (!this.session) return;
+      await this.session.update(paths);
+      this.publishDiagnostics(paths);
+    });
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch(err => {
+      logger.error(`LSP analysis failed: ${(err as Error).message}`);
+    });
+  }
+
+  /**
+   * Publish diagnostics for every file whose findings changed since they were
+   * last published, plus `force`d files whose editors need a fresh copy.
+   */
+  private publishDiagnostics(force: string[] = []): void {
+    if (!this.session) return;
+
+    const byFile = new Map<string, Finding[]>();
+    for (const finding of this.session.findings()) {
+      const findings = byFile.get(finding.file) ?? [];
+      findings.push(finding);
+      byFile.set(finding.file, findings);
+    }
+
+    const files = new Set([...this.published.keys(), ...byFile.keys(), ...force]);
+    for (const file of files) {
+      const diagnostics = (byFile.get(file) ?? [])
+        .sort((a, b) => a.line - b.line)
+        .map(f => this.toDiagnostic(f));
+      const serialized = JSON.stringify(diagnostics);
+      if (this.published.get(file) === serialized) continue;
+
+      if (diagnostics.length > 0) this.published.set(file, serialized);
+      else this.published.delete(file);
+      this.send({
+        jsonrpc: '2.0',
+        method: 'textDocument/publishDiagnostics',
+        params: { uri: this.toUri(file), diagnostics },
+      });
+    }
+  }
+
+  private toDiagnostic(finding: Finding): Diagnostic {
+    const line = finding.line - 1;
+    const endLine = (finding.endLine ?? finding.line) - 1;
+    const lineText = this.session?.content(finding.file)?.split('\n')[endLine] ?? '';
+    const diagnostic: Diagnostic = {
+      range: {
+        start: { line, character: Math.max(0, (finding.column ?? 1) - 1) },
+        end: { line: endLine, character: finding.endColumn !== undefined ? finding.endColumn - 1 : lineText.length },
+      },
+      severity: toLspSeverity(finding.severity),
+      code: finding.ruleId,
+      source: SOURCE,
+      message: finding.suggestion ? `${finding.message}\n${finding.suggestion}` : finding.message,
+    };
+    if (finding.flow) {
+      diagnostic.relatedInformation = finding.flow.map((step, i) => ({
+        location: {
+          uri: this.toUri(step.file),
+          range: { start: { line: step.line - 1, character: 0 }, end: { line: step.line - 1, character: 0 } },
+        },
+        message: `${i + 1}. ${step.message}`,
+      }));
+    }
+    return diagnostic;
+  }
+
+  private codeActions(params: CodeActionParams): CodeAction[] {
+    if (!this.session) return [];
+
+    const uri = params.textDocument.uri;
+    const path = this.toPath(uri);
+    const content = this.session.content(path);
+    const language = detectLanguage(path);
+    if (content === undefined || !language) return [];
+
+    const lines = content.split('\n');
+    const fixes = getAvailableFixes();
+    const actions: CodeAction[] = [];
+
+    for (const diagnostic of params.context.diagnostics) {
+      if (diagnostic.source !== SOURCE) continue;
+      const finding = this.session.findings().find(f =>
+        f.file === path && f.ruleId === diagnostic.code && f.line === diagnostic.range.start.line + 1);
+      if (!finding) continue;
+
+      const fixed = findFixForRule(finding.ruleId, fixes)?.fixContent?.(content, finding);
+      if (fixed) {
+        const lastLine = lines.length - 1;
+        actions.push({
+          title: `Fix ${finding.ruleId}`,
+          kind: 'quickfix',
+          diagnostics: [diagnostic],
+          isPreferred: true,
+          edit: {
+            changes: {
+              [uri]: [{
+                range: { start: { line: 0, character: 0 }, end: { line: lastLine, character: lines[lastLine].length } },
+                newText: fixed,
+              }],
+            },
+          },
+        });
+      }
+
+      const indent = lines[finding.line - 1]?.match(/^\s*/)?.[0] ?? '';
+      const insertAt = { line: finding.line - 1, character: 0 };
+      actions.push({
+        title: `Suppress ${finding.ruleId} with archguard-ignore`,
+        kind: 'quickfix',
+        diagnostics: [diagnostic],
+        edit: {
+          changes: {
+            [uri]: [{
+              range: { start: insertAt, end: insertAt },
+              newText: `${indent}${formatSuppressionComment(language, finding.ruleId)}\n`,
+            }],
+          },
+        },
+      });
+    }
+
+    return actions;
+  }
+
+  private toPath(uri: string): string {
+    return relative(this.projectRoot, fileURLToPath(uri)).split(sep).join('/');
+  }
+
+  private toUri(file: string): string {
+    return pathToFileURL(join(this.projectRoot, file)).href;
+  }
+}
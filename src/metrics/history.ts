@@ -116,3 +116,14 @@ export async function listRuns(projectRoot: string): Promise<Array<{ id: string;
     return [];
   }
 }
+
+/** Detailed runs recorded at or after `since`, oldest first. */
+export async function loadRunsSince(projectRoot: string, since: string): Promise<DetailedRunEntry[]> {
+  const runs: DetailedRunEntry[] = [];
+  for (const run of (await listRuns(projectRoot)).reverse()) {
+    if (run.timestamp < since) continue;
+    const entry = await loadDetailedRun(projectRoot, run.id);
+    if (entry) runs.push(entry);
+  }
+  return runs;
+}
@@ -9,6 +9,26 @@ export interface ImportInfo {
   line: number;
 }
 
+/** An exported name and where it is declared. */
+export interface ExportInfo {
+  /** Exported name; `default` for default exports and `*` for `export * from`. */
+  name: string;
+  line: number;
+  node: SgNode;
+  /** Module the name is re-exported from, for `export ... from`. */
+  source?: string;
+  /** Name in `source` (`*` for `export * as ns from`), for `export ... from`. */
+  imported?: string;
+}
+
+/** The exported names an import statement or expression uses from its module. */
+export interface ImportedNames extends ImportInfo {
+  /** Names used from the module; `*` when the whole module may be used. `default` for default imports. */
+  names: string[];
+}
+
+const JS_LANGUAGES = new Set<SupportedLanguage>(['typescript', 'javascript', 'tsx', 'jsx']);
+
 export function collectLanguageImports(tree: SgRoot, language: SupportedLanguage): ImportInfo[] {
   switch (language) {
     case 'typescript':
@@ -56,24 +76,24 @@ function collectPythonImports(tree: SgRoot): ImportInfo[] {
   const imports: ImportInfo[] = [];
   walk(tree.root(), (node) => {
     if (node.kind() === 'import_statement') {
-      const specifiers: string[] = [];
-      walk(node, (child) => {
+      // `import a.b, c as d` imports each module separately
+      for (const child of node.children()) {
         if (child.kind() === 'dotted_name') {
-          specifiers.push(child.text());
+          imports.push({ source: child.text(), specifiers: [child.text()], node, line: node.range().start.line + 1 });
         }
         if (child.kind() === 'aliased_import') {
+          const name = child.field('name')?.text() ?? child.text();
           const alias = child.field('alias');
-          specifiers.push(alias?.text() ?? child.field('name')?.text() ?? child.text());
+          imports.push({ source: name, specifiers: [alias?.text() ?? name], node, line: node.range().start.line + 1 });
         }
-      });
-      imports.push({ source: '', specifiers, node, line: node.range().start.line + 1 });
+      }
     }
     if (node.kind() === 'import_from_statement') {
       const moduleNode = node.field('module_name');
       const source = moduleNode?.text() ?? '';
       const specifiers: string[] = [];
       walk(node, (child) => {
-        if (child.kind() === 'dotted_name' && child !== moduleNode) {
+        if (child.kind() === 'dotted_name' && child !== moduleNode && child.parent()?.kind() !== 'relative_import') {
           specifiers.push(child.text());
         }
         if (child.kind() === 'aliased_import') {
@@ -126,9 +146,14 @@ function collectRustImports(tree: SgRoot): ImportInfo[] {
           if (alias) specifiers.push(alias.text());
         }
       });
-      const source = node.text().replace(/^use\s+/, '').replace(/;$/, '');
+      const source = node.text().replace(/^(pub(\([^)]*\))?\s+)?use\s+/, '').replace(/;$/, '');
       imports.push({ source, specifiers, node, line: node.range().start.line + 1 });
     }
+    // `mod name;` loads a child module file, like an import of `self::name`
+    if (node.kind() === 'mod_item' && !node.field('body')) {
+      const name = node.field('name')?.text();
+      if (name) imports.push({ source: `self::${name}`, specifiers: [name], node, line: node.range().start.line + 1 });
+    }
   });
   return imports;
 }
@@ -187,3 +212,187 @@ export function collectExports(tree: SgRoot, language: SupportedLanguage): strin
   });
   return exports;
 }
+
+function lineOf(node: SgNode): number {
+  return node.range().start.line + 1;
+}
+
+function stringValue(node: SgNode | null | undefined): string | undefined {
+  if (node?.kind() !== 'string') return undefined;
+  return node.text().slice(1, -1);
+}
+
+/** Identifiers bound by a declarator name, including destructuring patterns. */
+function boundNames(pattern: SgNode): SgNode[] {
+  switch (pattern.kind()) {
+    case 'identifier':
+    case 'shorthand_property_identifier_pattern':
+      return [pattern];
+    case 'pair_pattern': {
+      const value = pattern.field('value');
+      return value ? boundNames(value) : [];
+    }
+    case 'assignment_pattern': {
+      const left = pattern.field('left');
+      return left ? boundNames(left) : [];
+    }
+    default:
+      return pattern.children().filter(c => c.isNamed()).flatMap(boundNames);
+  }
+}
+
+function declaredNames(declaration: SgNode): SgNode[] {
+  switch (declaration.kind()) {
+    case 'lexical_declaration':
+    case 'variable_declaration':
+      return declaration.children()
+        .filter(c => c.kind() === 'variable_declarator')
+        .flatMap(c => { const name = c.field('name'); return name ? boundNames(name) : []; });
+    case 'ambient_declaration':
+      return declaration.children().filter(c => c.isNamed()).flatMap(declaredNames);
+    default: {
+      const name = declaration.field('name');
+      return name ? [name] : [];
+    }
+  }
+}
+
+function collectTsExports(tree: SgRoot): ExportInfo[] {
+  const exports: ExportInfo[] = [];
+  const seen = new Set<string>();
+  const add = (info: ExportInfo) => {
+    // Overload signatures repeat the name; keep the first declaration
+    if (info.name !== '*' && seen.has(info.name)) return;
+    seen.add(info.name);
+    exports.push(info);
+  };
+
+  for (const node of tree.root().children()) {
+    if (node.kind() !== 'export_statement') continue;
+    const source = stringValue(node.field('source'));
+    const children = node.children();
+
+    if (children.some(c => c.kind() === 'default')) {
+      add({ name: 'default', line: lineOf(node), node });
+      continue;
+    }
+
+    const declaration = node.field('declaration');
+    if (declaration) {
+      for (const name of declaredNames(declaration)) add({ name: name.text(), line: lineOf(name), node });
+      continue;
+    }
+
+    for (const child of children) {
+      if (child.kind() === 'export_clause') {
+        for (const specifier of child.children().filter(c => c.kind() === 'export_specifier')) {
+          const name = specifier.field('name')?.text() ?? specifier.text();
+          const alias = specifier.field('alias')?.text();
+          add({ name: alias ?? name, line: lineOf(specifier), node, source, imported: source ? name : undefined });
+        }
+      } else if (child.kind() === 'namespace_export' && source) {
+        const name = child.children().find(c => c.kind() === 'identifier');
+        if (name) add({ name: name.text(), line: lineOf(node), node, source, imported: '*' });
+      } else if (child.kind() === '*' && source) {
+        add({ name: '*', line: lineOf(node), node, source, imported: '*' });
+      }
+    }
+  }
+  return exports;
+}
+
+/**
+ * Exported declarations with their lines. For JS/TS this covers declarations,
+ * export lists, default exports and re-exports; for Go, Rust and Java the
+ * same public names as `collectExports`.
+ */
+export function collectExportDeclarations(tree: SgRoot, language: SupportedLanguage): ExportInfo[] {
+  if (JS_LANGUAGES.has(language)) return collectTsExports(tree);
+
+  const exports: ExportInfo[] = [];
+  walk(tree.root(), (node) => {
+    let nameNode: SgNode | null = null;
+    if (language === 'go' && (node.kind() === 'function_declaration' || node.kind() === 'type_spec')) {
+      nameNode = node.field('name');
+      if (nameNode && !/^[A-Z]/.test(nameNode.text())) nameNode = null;
+    } else if (language === 'rust' && node.kind() === 'visibility_modifier' && node.text() === 'pub') {
+      nameNode = node.parent()?.field('name') ?? null;
+    } else if (language === 'java' && (node.kind() === 'class_declaration' || node.kind() === 'interface_declaration')) {
+      nameNode = node.field('name');
+    }
+    if (nameNode) exports.push({ name: nameNode.text(), line: lineOf(nameNode), node });
+  });
+  return exports;
+}
+
+/** Members read from namespace `local` (`ns.x`, `ns.Type`), or `*` if the namespace object itself escapes. */
+function namespaceMembers(root: SgNode, local: string, importNode: SgNode): string[] {
+  const members = new Set<string>();
+  let escapes = false;
+  const importStart = importNode.range().start.index;
+  walk(root, (node) => {
+    if (escapes || node.kind() !== 'identifier' || node.text() !== local) return;
+    if (node.ancestors().some(a => a.range().start.index === importStart && a.kind() === 'import_statement')) return;
+
+    const parent = node.parent();
+    const start = node.range().start.index;
+    let member: SgNode | null = null;
+    if (parent?.kind() === 'member_expression' && parent.field('object')?.range().start.index === start) {
+      member = parent.field('property');
+    } else if (parent?.kind() === 'nested_type_identifier' && parent.field('module')?.range().start.index === start) {
+      member = parent.field('name');
+    }
+    if (member) members.add(member.text());
+    else escapes = true;
+  });
+  return escapes ? ['*'] : [...members];
+}
+
+/**
+ * Names each JS/TS import uses from its module: named and default imports,
+ * members read from namespace imports, and the whole module for dynamic
+ * `import()`, `require()` and escaping namespace objects. Side-effect
+ * imports use no names.
+ */
+export function collectImportedNames(tree: SgRoot): ImportedNames[] {
+  const imports: ImportedNames[] = [];
+  const root = tree.root();
+
+  walk(root, (node) => {
+    if (node.kind() === 'import_statement') {
+      const source = stringValue(node.field('source'));
+      if (source === undefined) return;
+      const names: string[] = [];
+      const specifiers: string[] = [];
+      const clause = node.children().find(c => c.kind() === 'import_clause');
+      for (const child of clause?.children() ?? []) {
+        if (child.kind() === 'identifier') {
+          names.push('default');
+          specifiers.push(child.text());
+        } else if (child.kind() === 'named_imports') {
+          for (const specifier of child.children().filter(c => c.kind() === 'import_specifier')) {
+            const name = specifier.field('name')?.text() ?? specifier.text();
+            names.push(name);
+            specifiers.push(specifier.field('alias')?.text() ?? name);
+          }
+        } else if (child.kind() === 'namespace_import') {
+          const local = child.children().find(c => c.kind() === 'identifier')?.text();
+          if (local) {
+            names.push(...namespaceMembers(root, local, node));
+            specifiers.push(local);
+          }
+        }
+      }
+      imports.push({ source, specifiers, names, node, line: lineOf(node) });
+    } else if (node.kind() === 'call_expression') {
+      const callee = node.field('function');
+      const isImport = callee?.kind() === 'import';
+      const isRequire = callee?.kind() === 'identifier' && callee.text() === 'require';
+      if (!isImport && !isRequire) return;
+      const argument = node.field('arguments')?.children().find(c => c.isNamed());
+      const source = stringValue(argument);
+      if (source !== undefined) imports.push({ source, specifiers: [], names: ['*'], node, line: lineOf(node) });
+    }
+  });
+  return imports;
+}
@@ -1,5 +1,10 @@
-import type { Analyzer, ArchGuardConfig } from '../core/types.js';
+import { createRequire } from 'node:module';
+import { isAbsolute, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Analyzer, ArchGuardConfig, PluginConfig, TaintSpec } from '../core/types.js';
+import { registerFix } from '../fixes/index.js';
 import { logger } from '../utils/logger.js';
+import { PLUGIN_API_VERSION, type LoadedPlugin, type PluginFormatter, type PluginManifest } from './plugin-types.js';
 
 /**
  * Validates that a value conforms to the Analyzer interface:
@@ -11,53 +16,157 @@ function isValidAnalyzer(value: unknown): value is Analyzer {
   return typeof obj.name === 'string' && typeof obj.analyze === 'function';
 }
 
+function normalizeEntry(entry: string | PluginConfig): PluginConfig {
+  return typeof entry === 'string' ? { name: entry, enabled: true, options: {} } : entry;
+}
+
 /**
- * Loads external analyzer plugins specified in the config's `plugins` array.
- *
- * Each plugin is an npm package name that default-exports (or exports) an array
- * of Analyzer objects. The function uses dynamic `import()` to load each plugin,
- * validates every exported analyzer, and returns the valid ones.
+ * Local paths resolve against the project root; package names resolve from
+ * the project's node_modules first so plugins need not sit next to archguardian.
  */
-export async function loadPlugins(config: ArchGuardConfig): Promise<Analyzer[]> {
-  const pluginNames = config.plugins;
-  if (pluginNames.length === 0) return [];
+function resolveSpecifier(name: string, projectRoot: string): string {
+  if (name.startsWith('.') || isAbsolute(name)) {
+    return pathToFileURL(resolve(projectRoot, name)).href;
+  }
+  try {
+    return pathToFileURL(createRequire(join(projectRoot, 'package.json')).resolve(name)).href;
+  } catch {
+    return name;
+  }
+}
 
-  const analyzers: Analyzer[] = [];
+/**
+ * Turn a plugin module into a manifest, or explain why it is not one.
+ * Version 1 plugins export a bare array of analyzers.
+ */
+function toManifest(source: string, mod: Record<string, unknown>): PluginManifest | string {
+  const exported: unknown = mod.default ?? mod.plugin ?? mod.analyzers;
 
-  for (const pluginName of pluginNames) {
-    try {
-      logger.debug(`Loading plugin: ${pluginName}`);
-      const mod = await import(pluginName);
-
-      // Support both default export and named `analyzers` export
-      const exported: unknown = mod.default ?? mod.analyzers;
-
-      if (!Array.isArray(exported)) {
-        logger.warn(
-          `Plugin '${pluginName}' does not export an array of analyzers. ` +
-          `Expected a default export or named 'analyzers' export that is an array.`,
-        );
-        continue;
-      }
+  if (Array.isArray(exported)) {
+    return { apiVersion: PLUGIN_API_VERSION, name: source, analyzers: exported };
+  }
+  if (typeof exported !== 'object' || exported === null) {
+    return 'Expected a default export that is a plugin manifest or an array of analyzers.';
+  }
+
+  const manifest = exported as Partial<PluginManifest> & { apiVersion?: unknown };
+  if (manifest.apiVersion !== PLUGIN_API_VERSION) {
+    return `Unsupported plugin apiVersion ${String(manifest.apiVersion)} (expected ${PLUGIN_API_VERSION}).`;
+  }
+  if (typeof manifest.name !== 'string') {
+    return `Plugin manifest must have a 'name' string.`;
+  }
+  return manifest as PluginManifest;
+}
 
-      let loadedCount = 0;
-      for (const item of exported) {
-        if (isValidAnalyzer(item)) {
-          analyzers.push(item);
-          loadedCount++;
-        } else {
-          logger.warn(
-            `Plugin '${pluginName}' contains an invalid analyzer entry. ` +
-            `Each analyzer must have a 'name' string and an 'analyze' method.`,
-          );
+async function loadPlugin(entry: PluginConfig, config: ArchGuardConfig, projectRoot: string): Promise<LoadedPlugin | null> {
+  logger.debug(`Loading plugin: ${entry.name}`);
+  const mod = await import(resolveSpecifier(entry.name, projectRoot)) as Record<string, unknown>;
+
+  const manifest = toManifest(entry.name, mod);
+  if (typeof manifest === 'string') {
+    logger.warn(`Plugin '${entry.name}' is not a valid plugin. ${manifest}`);
+    return null;
+  }
+
+  const analyzers = (manifest.analyzers ?? []).filter((item) => {
+    if (isValidAnalyzer(item)) return true;
+    logger.warn(
+      `Plugin '${entry.name}' contains an invalid analyzer entry. ` +
+      `Each analyzer must have a 'name' string and an 'analyze' method.`,
+    );
+    return false;
+  });
+  const plugin: LoadedPlugin = { source: entry.name, enabled: entry.enabled, manifest: { ...manifest, analyzers } };
+  if (!entry.enabled) return plugin;
+
+  let options: unknown = entry.options;
+  if (manifest.configSchema) {
+    const parsed = manifest.configSchema.safeParse(entry.options);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(i => `  - plugins.${manifest.name}.options.${i.path.join('.')}: ${i.message}`).join('\n');
+      logger.error(`Invalid options for plugin '${manifest.name}':\n${issues}`);
+      return { ...plugin, enabled: false };
+    }
+    options = parsed.data;
+  }
+
+  await manifest.setup?.({ projectRoot, config, options });
+  for (const fix of manifest.fixes ?? []) registerFix(fix);
+
+  logger.debug(`Loaded ${analyzers.length} analyzer(s) from plugin '${manifest.name}'`);
+  return plugin;
+}
+
+/** Loaded plugins per project root and `plugins` config, so setup runs once per command. */
+const loadedPlugins = new Map<string, Promise<LoadedPlugin[]>>();
+
+/**
+ * Loads the plugins listed in the config's `plugins` array.
+ *
+ * Each entry is an npm package name or a local path, optionally with
+ * `enabled` and plugin-specific `options`. Disabled plugins are still loaded
+ * so their rules can be listed, but are not set up and contribute nothing
+ * else. Plugins that fail to load are logged and skipped.
+ */
+export function loadPluginManifests(config: ArchGuardConfig, projectRoot = process.cwd()): Promise<LoadedPlugin[]> {
+  const key = `${projectRoot}\0${JSON.stringify(config.plugins)}`;
+  let loading = loadedPlugins.get(key);
+  if (!loading) {
+    loading = (async () => {
+      const plugins: LoadedPlugin[] = [];
+      for (const entry of config.plugins.map(normalizeEntry)) {
+        try {
+          const plugin = await loadPlugin(entry, config, projectRoot);
+          if (plugin) plugins.push(plugin);
+        } catch (err) {
+          logger.error(`Failed to load plugin '${entry.name}': ${(err as Error).message}`);
         }
       }
+      return plugins;
+    })();
+    loadedPlugins.set(key, loading);
+  }
+  return loading;
+}
+
+/** Analyzers contributed by the enabled plugins. */
+export async function loadPlugins(config: ArchGuardConfig, projectRoot = process.cwd()): Promise<Analyzer[]> {
+  if (config.plugins.length === 0) return [];
+  const plugins = await loadPluginManifests(config, projectRoot);
+  return plugins.filter(p => p.enabled).flatMap(p => p.manifest.analyzers ?? []);
+}
+
+/** Taint sources, sinks and sanitizers contributed by the enabled plugins. */
+export async function loadPluginTaintSpecs(config: ArchGuardConfig, projectRoot = process.cwd()): Promise<TaintSpec[]> {
+  if (config.plugins.length === 0) return [];
+  const plugins = await loadPluginManifests(config, projectRoot);
+  return plugins.filter(p => p.enabled && p.manifest.taint).map(p => p.manifest.taint!);
+}
 
-      logger.debug(`Loaded ${loadedCount} analyzer(s) from plugin '${pluginName}'`);
+/** The formatter an enabled plugin registered under `format`, if any. */
+export async function getPluginFormatter(
+  config: ArchGuardConfig,
+  projectRoot: string,
+  format: string,
+): Promise<PluginFormatter | undefined> {
+  if (config.plugins.length === 0) return undefined;
+  const plugins = await loadPluginManifests(config, projectRoot);
+  return plugins.find(p => p.enabled && p.manifest.formatters?.[format])?.manifest.formatters?.[format];
+}
+
+/** Run the teardown hooks of every plugin set up so far, last loaded first. */
+export async function teardownPlugins(): Promise<void> {
+  const loads = [...loadedPlugins.values()];
+  loadedPlugins.clear();
+
+  const plugins = (await Promise.all(loads)).flat().reverse();
+  for (const plugin of plugins) {
+    if (!plugin.enabled) continue;
+    try {
+      await plugin.manifest.teardown?.();
     } catch (err) {
-      logger.error(`Failed to load plugin '${pluginName}': ${(err as Error).message}`);
+      logger.error(`Plugin '${plugin.manifest.name}' teardown failed: ${(err as Error).message}`);
     }
   }
-
-  return analyzers;
 }
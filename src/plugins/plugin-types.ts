@@ -0,0 +1,56 @@
+import type { AnalysisSummary, Analyzer, ArchGuardConfig, ExitCode, TaintSpec } from '../core/types.js';
+import type { RuleDefinition } from '../rules/rule-types.js';
+import type { Fix } from '../fixes/index.js';
+
+/** Manifest version this release of archguardian understands. */
+export const PLUGIN_API_VERSION = 2;
+
+/**
+ * Minimal schema contract for plugin options. Any zod schema satisfies it,
+ * so plugins can use their own copy of zod.
+ */
+export interface PluginConfigSchema<T = unknown> {
+  safeParse(value: unknown):
+    | { success: true; data: T }
+    | { success: false; error: { issues: Array<{ path: Array<string | number>; message: string }> } };
+}
+
+export type PluginFormatter = (summary: AnalysisSummary, exitCode: ExitCode) => string;
+
+export interface PluginSetupContext<T = unknown> {
+  projectRoot: string;
+  config: ArchGuardConfig;
+  /** The plugin's `options` from `.archguard.yml`, after validation. */
+  options: T;
+}
+
+/**
+ * What a plugin module default-exports (or exports as `plugin`). Version 1
+ * plugins, which export a bare array of analyzers, are still accepted.
+ */
+export interface PluginManifest<T = unknown> {
+  apiVersion: typeof PLUGIN_API_VERSION;
+  name: string;
+  analyzers?: Analyzer[];
+  /** Rules the analyzers report, listed by `archguardian rules`. */
+  rules?: RuleDefinition[];
+  /** Validates the plugin's `options` from `.archguard.yml`. */
+  configSchema?: PluginConfigSchema<T>;
+  /** Fixes registered alongside the built-in ones for `archguardian fix`. */
+  fixes?: Fix[];
+  /** Taint sources, sinks and sanitizers added to the taint analyzer's model. */
+  taint?: TaintSpec;
+  /** Extra `--format` values for `scan` and `check`, keyed by name. */
+  formatters?: Record<string, PluginFormatter>;
+  /** Runs once after the plugin is loaded and before any analysis. */
+  setup?(context: PluginSetupContext<T>): void | Promise<void>;
+  /** Runs once when the command finishes. */
+  teardown?(): void | Promise<void>;
+}
+
+export interface LoadedPlugin {
+  /** Package name or path the plugin was loaded from. */
+  source: string;
+  enabled: boolean;
+  manifest: PluginManifest;
+}
@@ -31,6 +31,31 @@ export async function getFullDiff(cwd: string): Promise<string> {
   return stdout;
 }
 
+/**
+ * Diff between two refs. With `head`, diffs from the merge base of `base` and
+ * `head` (what a pull request shows); without it, diffs `base` against the
+ * working tree.
+ */
+export async function getRefDiff(cwd: string, base: string, head?: string): Promise<string> {
+  const range = head ? [`${base}...${head}`] : [base];
+  const { stdout } = await exec('git', ['diff', '--unified=3', ...range, '--'], { cwd, maxBuffer: 10 * 1024 * 1024 });
+  return stdout;
+}
+
+export async function getFileContentAtRef(cwd: string, ref: string, filePath: string): Promise<string> {
+  const { stdout } = await exec('git', ['show', `${ref}:${filePath}`], { cwd, maxBuffer: 5 * 1024 * 1024 });
+  return stdout;
+}
+
+export async function isValidRef(cwd: string, ref: string): Promise<boolean> {
+  try {
+    await exec('git', ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], { cwd });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export async function isGitRepo(cwd: string): Promise<boolean> {
   try {
     await exec('git', ['rev-parse', '--is-inside-work-tree'], { cwd });
@@ -49,3 +74,25 @@ export async function getAllTrackedFiles(cwd: string): Promise<string[]> {
   const { stdout } = await exec('git', ['ls-files'], { cwd, maxBuffer: 10 * 1024 * 1024 });
   return stdout.trim().split('\n').filter(Boolean);
 }
+
+export async function getHeadCommit(cwd: string): Promise<string> {
+  const { stdout } = await exec('git', ['rev-parse', 'HEAD'], { cwd });
+  return stdout.trim();
+}
+
+/**
+ * Files renamed between `ref` and the working tree, old path to new path,
+ * using git's rename detection.
+ */
+export async function getRenamedFiles(cwd: string, ref: string): Promise<Map<string, string>> {
+  const { stdout } = await exec('git', ['diff', '--name-status', '-M', '--diff-filter=R', ref, '--'], {
+    cwd,
+    maxBuffer: 10 * 1024 * 1024,
+  });
+  const renames = new Map<string, string>();
+  for (const line of stdout.split('\n')) {
+    const [, from, to] = line.split('\t');
+    if (from && to) renames.set(from, to);
+  }
+  return renames;
+}
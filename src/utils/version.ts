@@ -0,0 +1,23 @@
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+let cached: string | undefined;
+
+/**
+ * archguardian's own version, from the package.json above this module. The
+ * bundle splits code into chunks at different depths, so the manifest is
+ * found by walking up rather than by a fixed relative path.
+ */
+export function getVersion(): string {
+  if (cached) return cached;
+  for (let dir = dirname(fileURLToPath(import.meta.url)); ; dir = dirname(dir)) {
+    try {
+      const manifest = JSON.parse(readFileSync(join(dir, 'package.json'), 'utf-8')) as { name?: string; version?: string };
+      if (manifest.name === 'archguardian' && manifest.version) return cached = manifest.version;
+    } catch {
+      // No readable package.json here; keep walking up
+    }
+    if (dirname(dir) === dir) return cached = 'unknown';
+  }
+}
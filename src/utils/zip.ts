@@ -0,0 +1,56 @@
+import { inflateRawSync } from 'node:zlib';
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Files in a zip archive, read through its central directory. Supports
+ * stored and deflated entries, and ZIP64 archives with more than 65535
+ * entries such as the OSV exports; directories are skipped.
+ */
+export function* readZip(archive: Buffer): Generator<ZipEntry> {
+  // The end record sits at the end, before a comment of at most 64 KiB
+  let end = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('Not a zip archive');
+
+  let count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  if (end >= 20 && archive.readUInt32LE(end - 20) === ZIP64_END_LOCATOR) {
+    const record = Number(archive.readBigUInt64LE(end - 20 + 8));
+    count = Number(archive.readBigUInt64LE(record + 32));
+    offset = Number(archive.readBigUInt64LE(record + 48));
+  }
+
+  for (let i = 0; i < count; i++) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) throw new Error('Corrupt zip central directory');
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf-8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith('/')) continue;
+
+    if (archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) throw new Error(`Corrupt zip entry ${name}`);
+    const start = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const raw = archive.subarray(start, start + compressedSize);
+    if (method === 0) yield { name, data: raw };
+    else if (method === 8) yield { name, data: inflateRawSync(raw) };
+    else throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+  }
+}
@@ -494,4 +494,31 @@ describe('E2E tests', () => {
     );
     expect(findingLines.length).toBe(0);
   }, 30_000);
+
+  it('scan runs file-local analyzers in worker threads from the built worker entry', async () => {
+    await writeFile(
+      join(tempDir, '.archguard.yml'),
+      `${DEFAULT_CONFIG}parallel:\n  enabled: true\n  workers: 2\n  minFiles: 2\n`,
+    );
+    await writeFile(join(tempDir, 'a.ts'), 'export function runA(input: string) {\n  return eval(input);\n}\n');
+    await writeFile(join(tempDir, 'b.ts'), 'export function runB(input: string) {\n  return eval(input);\n}\n');
+    await git(['add', '.'], tempDir);
+    await git(['commit', '-m', 'add sources'], tempDir);
+
+    const { stdout, stderr } = await run(['--verbose', 'scan', '--format', 'json'], tempDir);
+
+    expect(stderr).toContain('Analyzing 2 files in 2 workers');
+    expect(stderr).not.toContain('Worker script not found');
+    const { findings } = JSON.parse(stdout.slice(stdout.indexOf('{')));
+    const evals = findings.filter((f: { ruleId: string }) => f.ruleId === 'security/eval');
+    expect(evals.map((f: { file: string; line: number }) => `${f.file}:${f.line}`)).toEqual(['a.ts:2', 'b.ts:2']);
+  }, 30_000);
+
+  it('watch rejects a debounce that is not a non-negative integer', async () => {
+    for (const debounce of ['abc', '1.5']) {
+      const { stderr, exitCode } = await run(['watch', '--debounce', debounce], tempDir);
+      expect(exitCode).toBe(3);
+      expect(stderr).toContain('Invalid --debounce');
+    }
+  }, 30_000);
 });
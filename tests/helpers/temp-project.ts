@@ -0,0 +1,78 @@
+import { beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, mkdir, writeFile } from 'node:fs/promises';
+import { join, dirname } from 'node:path';
+import { tmpdir } from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { detectLanguage } from '../../src/core/diff-parser.js';
+import { parseSource } from '../../src/parsers/tree-sitter-manager.js';
+import { DEFAULT_CONFIG } from '../../src/core/config-loader.js';
+import type { ArchGuardConfig, FileInfo, Finding, ParsedFile, SupportedLanguage } from '../../src/core/types.js';
+
+export interface TempProject {
+  /** Root of the project, a fresh directory for every test. */
+  readonly dir: string;
+  /** Write files relative to the root; non-string contents are written as JSON. */
+  write(files: Record<string, unknown>): Promise<void>;
+  /** Run git in the root with a fixed identity. */
+  git(...args: string[]): string;
+}
+
+/** A temporary project directory, created before and removed after each test of the calling file. */
+export function useTempProject(name: string): TempProject {
+  let dir = '';
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), `archguard-${name}-`));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  return {
+    get dir() {
+      return dir;
+    },
+    async write(files) {
+      for (const [path, content] of Object.entries(files)) {
+        await mkdir(dirname(join(dir, path)), { recursive: true });
+        await writeFile(join(dir, path), typeof content === 'string' ? content : JSON.stringify(content, null, 2), 'utf-8');
+      }
+    },
+    git(...args) {
+      return execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: dir, encoding: 'utf-8' });
+    },
+  };
+}
+
+/** The default config with one analyzer's settings replaced. */
+export function withAnalyzer<K extends keyof ArchGuardConfig['analyzers']>(key: K, settings: ArchGuardConfig['analyzers'][K]): ArchGuardConfig {
+  return { ...DEFAULT_CONFIG, analyzers: { ...DEFAULT_CONFIG.analyzers, [key]: settings } };
+}
+
+/**
+ * A file as a full scan sees it, every line added and no hunks, or as a diff
+ * adding only `changedLines`, one hunk per line.
+ */
+export function fileInfo(path: string, content: string, changedLines?: number[]): FileInfo {
+  const all = content.split('\n').map((c, i) => ({ lineNumber: i + 1, content: c, type: 'added' as const }));
+  const added = changedLines ? all.filter(l => changedLines.includes(l.lineNumber)) : all;
+  return {
+    path,
+    language: detectLanguage(path),
+    status: changedLines ? 'modified' : 'added',
+    hunks: changedLines ? added.map(l => ({ oldStart: l.lineNumber, oldLines: 0, newStart: l.lineNumber, newLines: 1, changes: [l] })) : [],
+    addedLines: added,
+    removedLines: [],
+    content,
+  };
+}
+
+export function parsedFile(path: string, content: string, language: SupportedLanguage = detectLanguage(path)!): ParsedFile {
+  return { path, language, tree: parseSource(language, content), content };
+}
+
+/** Findings as `<rule> <file>:<line>`, with the analyzer prefix dropped from rule ids. */
+export function summarize(findings: Array<Pick<Finding, 'ruleId' | 'file' | 'line'>>): string[] {
+  return findings.map(f => `${f.ruleId.slice(f.ruleId.indexOf('/') + 1)} ${f.file}:${f.line}`);
+}
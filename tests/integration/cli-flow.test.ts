@@ -55,6 +55,37 @@ describe('CLI integration', () => {
     expect(exitCode).toBe(0);
   });
 
+  it('check --base reports only findings introduced on the branch', async () => {
+    await writeFile(join(tempDir, '.archguard.yml'), 'version: 1\nlanguages: [typescript]\ninclude: ["**/*"]');
+    await writeFile(join(tempDir, 'old.ts'), 'eval(legacy);\n');
+    await git(['add', '.'], tempDir);
+    await git(['commit', '-m', 'init'], tempDir);
+    const base = await git(['rev-parse', 'HEAD'], tempDir);
+
+    await writeFile(join(tempDir, 'new.ts'), 'eval(input);\n');
+    await git(['add', '.'], tempDir);
+    await git(['commit', '-m', 'feature'], tempDir);
+    // Uncommitted edits are not part of the range
+    await writeFile(join(tempDir, 'new.ts'), 'export const clean = 1;\n');
+
+    const { stdout, exitCode } = await run(['check', '--base', base, '--head', 'HEAD'], tempDir);
+    expect(exitCode).toBe(1);
+    expect(stdout).toContain('new.ts');
+    expect(stdout).not.toContain('old.ts');
+
+    const since = await run(['check', '--since', base], tempDir);
+    expect(since.exitCode).toBe(0);
+  });
+
+  it('check rejects unknown refs', async () => {
+    await writeFile(join(tempDir, 'README.md'), '# test');
+    await git(['add', '.'], tempDir);
+    await git(['commit', '-m', 'init'], tempDir);
+
+    const { exitCode } = await run(['check', '--base', 'no-such-branch'], tempDir);
+    expect(exitCode).toBe(3);
+  });
+
   it('scan on empty project passes', async () => {
     await writeFile(join(tempDir, '.archguard.yml'), 'version: 1\nlanguages: [typescript]\ninclude: ["**/*"]');
     await writeFile(join(tempDir, 'clean.ts'), 'export function hello() { return "world"; }\n');
@@ -65,6 +96,46 @@ describe('CLI integration', () => {
     expect(exitCode).toBe(0);
   });
 
+  it('baseline follows renamed files and prune drops fixed entries', async () => {
+    await writeFile(join(tempDir, '.archguard.yml'), 'version: 1\nlanguages: [typescript]\ninclude: ["**/*"]');
+    await writeFile(join(tempDir, 'a.ts'), 'eval(legacy);\n');
+    await writeFile(join(tempDir, 'b.ts'), 'eval(other);\n');
+    await git(['add', '.'], tempDir);
+    await git(['commit', '-m', 'init'], tempDir);
+    await run(['scan', '--update-baseline'], tempDir);
+    await git(['add', '.'], tempDir);
+    await git(['commit', '-m', 'baseline'], tempDir);
+
+    await git(['mv', 'a.ts', 'moved.ts'], tempDir);
+    await writeFile(join(tempDir, 'b.ts'), 'export const b = 1;\n');
+
+    expect((await run(['scan'], tempDir)).exitCode).toBe(0);
+
+    const { stdout, exitCode } = await run(['baseline', 'prune', '--json'], tempDir);
+    expect(exitCode).toBe(0);
+    const pruned = JSON.parse(stdout);
+    expect(pruned.kept).toBe(1);
+    expect(pruned.removed.map((e: { file: string }) => e.file)).toEqual(['b.ts']);
+  });
+
+  it('baseline status reports fixed and remaining debt', async () => {
+    await writeFile(join(tempDir, '.archguard.yml'), 'version: 1\nlanguages: [typescript]\ninclude: ["**/*"]');
+    await mkdir(join(tempDir, 'src'));
+    await writeFile(join(tempDir, 'src', 'a.ts'), 'eval(legacy);\n');
+    await writeFile(join(tempDir, 'src', 'b.ts'), 'eval(other);\n');
+    await git(['add', '.'], tempDir);
+    await git(['commit', '-m', 'init'], tempDir);
+    await run(['scan', '--update-baseline'], tempDir);
+
+    await writeFile(join(tempDir, 'src', 'b.ts'), 'export function b() {}\n');
+
+    const { stdout, exitCode } = await run(['baseline', 'status', '--json'], tempDir);
+    expect(exitCode).toBe(0);
+    const status = JSON.parse(stdout);
+    expect(status).toMatchObject({ total: 2, fixed: 1, remaining: 1, newFindings: 0 });
+    expect(status.byDirectory).toEqual({ src: 1 });
+  });
+
   it('scan with --format json outputs valid JSON', async () => {
     await writeFile(join(tempDir, '.archguard.yml'), 'version: 1\nlanguages: [typescript]\ninclude: ["**/*"]');
     await writeFile(join(tempDir, 'clean.ts'), 'export function hello() { return "world"; }\n');
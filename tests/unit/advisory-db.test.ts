@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { deflateRawSync } from 'node:zlib';
+import { AdvisoryDatabase, isAffected, readAdvisorySource, writeAdvisoryDatabase, type OsvEvent, type OsvRecord } from '../../src/core/advisory-db.js';
+import { compareVersions } from '../../src/core/versions.js';
+import { readZip } from '../../src/utils/zip.js';
+
+/** A minimal zip archive with deflated entries, as the OSV exports are. */
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const data = deflateRawSync(Buffer.from(content));
+    const fileName = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, fileName, data);
+    centrals.push(central, fileName);
+    offset += local.length + fileName.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function advisory(id: string, ecosystem: string, name: string, events: OsvEvent[]): OsvRecord {
+  return { id, summary: `${id} in ${name}`, affected: [{ package: { name, ecosystem }, ranges: [{ type: 'ECOSYSTEM', events }] }] };
+}
+
+describe('compareVersions', () => {
+  it('orders semver pre-releases before their release', () => {
+    const sorted = ['1.0.0', '1.0.0-beta.11', '1.0.0-alpha', '1.0.0-beta.2', '0.9.9', '1.0.0-alpha.1']
+      .sort((a, b) => compareVersions(a, b, 'npm'));
+    expect(sorted).toEqual(['0.9.9', '1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-beta.2', '1.0.0-beta.11', '1.0.0']);
+  });
+
+  it('orders PEP 440 dev, pre, post releases and epochs', () => {
+    const sorted = ['1.0.post1', '1!0.1', '1.0', '1.0rc1', '1.0.dev0', '1.0a2', '0.9']
+      .sort((a, b) => compareVersions(a, b, 'PyPI'));
+    expect(sorted).toEqual(['0.9', '1.0.dev0', '1.0a2', '1.0rc1', '1.0', '1.0.post1', '1!0.1']);
+    expect(compareVersions('1.0', '1.0.0', 'PyPI')).toBe(0);
+  });
+
+  it('orders Maven qualifiers', () => {
+    const sorted = ['2.0.1', '2.0-SNAPSHOT', '2.0', '2.0-rc1', '2.0-alpha1', '2.0.Final']
+      .sort((a, b) => compareVersions(a, b, 'Maven'));
+    expect(sorted).toEqual(['2.0-alpha1', '2.0-rc1', '2.0-SNAPSHOT', '2.0', '2.0.Final', '2.0.1']);
+  });
+});
+
+describe('isAffected', () => {
+  it('applies introduced, fixed and last_affected events in version order', () => {
+    const affected = {
+      versions: ['0.5.0'],
+      ranges: [{ type: 'SEMVER', events: [{ fixed: '1.2.3' }, { introduced: '2.0.0' }, { introduced: '1.0.0' }, { last_affected: '2.1.0' }] }],
+    };
+    expect(['0.5.0', '0.9.0', '1.0.0', '1.2.2', '1.2.3', '2.0.0', '2.1.0', '2.1.1'].filter(v => isAffected(v, affected, 'npm')))
+      .toEqual(['0.5.0', '1.0.0', '1.2.2', '2.0.0', '2.1.0']);
+  });
+
+  it('compares by the ecosystem, not lexically', () => {
+    const affected = { versions: [], ranges: [{ type: 'ECOSYSTEM', events: [{ introduced: '0' }, { fixed: '2.10.0' }] }] };
+    expect(isAffected('2.9.0', affected, 'PyPI')).toBe(true);
+    expect(isAffected('2.10.0rc1', affected, 'PyPI')).toBe(true);
+    expect(isAffected('2.10.0', affected, 'PyPI')).toBe(false);
+  });
+});
+
+describe('advisory database', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'archguard-advisories-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads OSV records from an export zip', async () => {
+    const archive = zip({
+      'GHSA-1.json': JSON.stringify(advisory('GHSA-1', 'npm', 'lodash', [{ introduced: '0' }, { fixed: '4.17.21' }])),
+      'GHSA-2.json': JSON.stringify(advisory('GHSA-2', 'npm', 'minimist', [{ introduced: '0' }, { fixed: '1.2.6' }])),
+    });
+    expect([...readZip(archive)].map(entry => entry.name)).toEqual(['GHSA-1.json', 'GHSA-2.json']);
+
+    await writeFile(join(dir, 'all.zip'), archive);
+    const ids: string[] = [];
+    for await (const record of readAdvisorySource(join(dir, 'all.zip'))) ids.push(record.id);
+    expect(ids).toEqual(['GHSA-1', 'GHSA-2']);
+  });
+
+  it('looks up affected versions with normalized package names', async () => {
+    const db = join(dir, 'db');
+    const index = await writeAdvisoryDatabase(db, [
+      advisory('GHSA-1', 'npm', 'lodash', [{ introduced: '0' }, { fixed: '4.17.21' }]),
+      advisory('PYSEC-1', 'PyPI', 'Django_Rest.Framework', [{ introduced: '3.0' }, { fixed: '3.15.2' }]),
+      { ...advisory('GHSA-9', 'npm', 'lodash', [{ introduced: '0' }]), withdrawn: '2024-01-01T00:00:00Z' },
+      advisory('RUSTSEC-1', 'crates.io', 'time', [{ introduced: '0' }]),
+      advisory('GHSA-X', 'Packagist', 'laravel/framework', [{ introduced: '0' }]),
+    ], ['test']);
+    expect(index.ecosystems).toEqual({
+      npm: { advisories: 1, packages: 1 },
+      PyPI: { advisories: 1, packages: 1 },
+      'crates.io': { advisories: 1, packages: 1 },
+    });
+
+    const database = (await AdvisoryDatabase.open(db))!;
+    expect((await database.lookup({ name: 'lodash', version: '4.17.20', ecosystem: 'npm' })).map(a => a.id)).toEqual(['GHSA-1']);
+    expect(await database.lookup({ name: 'lodash', version: '4.17.21', ecosystem: 'npm' })).toEqual([]);
+    expect((await database.lookup({ name: 'django-rest-framework', version: '3.14.0', ecosystem: 'PyPI' })).map(a => a.id)).toEqual(['PYSEC-1']);
+    expect(database.covers('Go')).toBe(false);
+  });
+
+  it('replaces re-synced ecosystems and keeps the others', async () => {
+    const db = join(dir, 'db');
+    await writeAdvisoryDatabase(db, [
+      advisory('GHSA-1', 'npm', 'lodash', [{ introduced: '0' }]),
+      advisory('GO-1', 'Go', 'golang.org/x/net', [{ introduced: '0' }, { fixed: '0.17.0' }]),
+    ], ['first']);
+    await writeAdvisoryDatabase(db, [advisory('GHSA-2', 'npm', 'minimist', [{ introduced: '0' }])], ['second']);
+
+    const database = (await AdvisoryDatabase.open(db))!;
+    expect(database.index.sources).toEqual(['second']);
+    expect(await database.lookup({ name: 'lodash', version: '1.0.0', ecosystem: 'npm' })).toEqual([]);
+    expect((await database.lookup({ name: 'minimist', version: '1.0.0', ecosystem: 'npm' })).map(a => a.id)).toEqual(['GHSA-2']);
+    expect((await database.lookup({ name: 'golang.org/x/net', version: 'v0.16.0', ecosystem: 'Go' })).map(a => a.id)).toEqual(['GO-1']);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AiSmellDetector } from '../../src/analyzers/ai-smell-detector.js';
+import type { AnalysisContext, ArchGuardConfig } from '../../src/core/types.js';
+import { DEFAULT_CONFIG } from '../../src/core/config-loader.js';
+import { fileInfo, parsedFile, useTempProject } from '../helpers/temp-project.js';
+
+const project = useTempProject('ai-smell-test');
+
+/** `path` as analyzed, with the rest of the project only on disk. */
+function makeContext(path: string, content: string, config: ArchGuardConfig = DEFAULT_CONFIG): AnalysisContext {
+  return { files: [fileInfo(path, content)], parsedFiles: [parsedFile(path, content)], config, projectRoot: project.dir };
+}
+
+async function hallucinations(context: AnalysisContext) {
+  const findings = await new AiSmellDetector().analyze(context);
+  return findings
+    .filter(f => f.ruleId.startsWith('ai-smell/hallucinated-import'))
+    .map(f => ({ ruleId: f.ruleId, line: f.line, message: f.message, suggestion: f.suggestion }));
+}
+
+beforeEach(async () => {
+  await project.write({
+    'package.json': { dependencies: { express: '^4.18.0' }, devDependencies: { vitest: '^1.0.0' } },
+    'node_modules/chalk/package.json': { name: 'chalk' },
+    'src/utils/format.ts': 'export function formatDate() {}\nexport const formatTime = 1;\nexport default formatDate;',
+    'src/utils/index.ts': "export * from './format.js';\nexport { parse as parseDate } from './parse.js';",
+    'src/utils/parse.ts': 'export function parse() {}',
+    'src/legacy.js': 'module.exports = { anything: 1 };',
+  });
+});
+
+describe('AiSmellDetector hallucinated imports', () => {
+  it('flags relative imports of files that do not exist and suggests the closest one', async () => {
+    const content = [
+      "import { formatDate } from './utils/formatt.js';",
+      "import { parse } from './utils/parse.js';",
+      "import data from './utils/missing-data.js';",
+      "import { parse as parseIt } from '../src/utils/parse';",
+    ].join('\n');
+
+    expect(await hallucinations(makeContext('src/app.ts', content))).toEqual([
+      {
+        ruleId: 'ai-smell/hallucinated-import', line: 1,
+        message: "Import './utils/formatt.js' does not resolve to any file",
+        suggestion: "Did you mean './utils/format.js'?",
+      },
+      expect.objectContaining({ ruleId: 'ai-smell/hallucinated-import', line: 3 }),
+    ]);
+  });
+
+  it('flags names the module does not export, following barrels', async () => {
+    const content = [
+      "import { formatDate, formatTim, parseDate } from './utils/index.js';",
+      "import format from './utils/format.js';",
+      "import parser from './utils/parse.js';",
+      "import { anything, whatever } from './legacy.js';",
+      "import * as utils from './utils/index.js';",
+      'utils.formatDates();',
+    ].join('\n');
+
+    expect(await hallucinations(makeContext('src/app.ts', content))).toEqual([
+      {
+        ruleId: 'ai-smell/hallucinated-import-name', line: 1,
+        message: "'formatTim' is not exported by './utils/index.js'",
+        suggestion: "Did you mean 'formatTime'?",
+      },
+      expect.objectContaining({ line: 3, message: "'./utils/parse.js' has no default export" }),
+      expect.objectContaining({ line: 5, message: "'formatDates' is not exported by './utils/index.js'", suggestion: "Did you mean 'formatDate'?" }),
+    ]);
+  });
+
+  it('flags packages that are neither declared nor installed', async () => {
+    const content = [
+      "import express from 'expresss';",
+      "import app from 'express';",
+      "import chalk from 'chalk';",
+      "import { readFile } from 'node:fs';",
+      "import path from 'path';",
+      "import { helper } from 'totally-made-up-helpers';",
+    ].join('\n');
+
+    expect(await hallucinations(makeContext('src/app.ts', content))).toEqual([
+      {
+        ruleId: 'ai-smell/hallucinated-import-package', line: 1,
+        message: "Package 'expresss' is not installed or declared in package.json",
+        suggestion: "Did you mean 'express'?",
+      },
+      expect.objectContaining({ ruleId: 'ai-smell/hallucinated-import-package', line: 6 }),
+    ]);
+  });
+
+  it('can be turned off', async () => {
+    const config: ArchGuardConfig = {
+      ...DEFAULT_CONFIG,
+      analyzers: { ...DEFAULT_CONFIG.analyzers, aiSmells: { ...DEFAULT_CONFIG.analyzers.aiSmells, hallucinatedImports: false } },
+    };
+    expect(await hallucinations(makeContext('src/app.ts', "import x from './nope.js';", config))).toEqual([]);
+  });
+});
@@ -1,8 +1,17 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { mkdtemp, rm, readFile, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
-import { saveBaseline, loadBaseline, filterByBaseline } from '../../src/core/baseline.js';
+import {
+  saveBaseline,
+  loadBaseline,
+  filterByBaseline,
+  pruneBaseline,
+  handleBaseline,
+  contentFingerprint,
+  getBaselineStatus,
+  mergeBaselines,
+} from '../../src/core/baseline.js';
 import { Severity, type Finding } from '../../src/core/types.js';
 import type { BaselineFile } from '../../src/core/baseline.js';
 
@@ -34,7 +43,7 @@ describe('saveBaseline', () => {
     const path = await saveBaseline(tempDir, findings, 'scan');
 
     const content = JSON.parse(await readFile(path, 'utf-8')) as BaselineFile;
-    expect(content.version).toBe(1);
+    expect(content.version).toBe(2);
     expect(content.generatedBy).toBe('scan');
     expect(content.generatedAt).toBeTruthy();
     expect(content.findings).toHaveLength(2);
@@ -43,7 +52,7 @@ describe('saveBaseline', () => {
       file: 'src/foo.ts',
       message: 'XSS risk: innerHTML assignment',
     });
-    expect(content.findings[0].contentHash).toBeTruthy();
+    expect(content.findings[0].fingerprint).toBeTruthy();
   });
 
   it('saves to custom path', async () => {
@@ -71,10 +80,39 @@ describe('loadBaseline', () => {
 
     const loaded = await loadBaseline(tempDir);
     expect(loaded).not.toBeNull();
-    expect(loaded!.version).toBe(1);
+    expect(loaded!.version).toBe(2);
     expect(loaded!.findings).toHaveLength(1);
   });
 
+  it('migrates a version 1 baseline and keeps matching its entries', async () => {
+    const finding = makeFinding({ codeSnippet: 'el.innerHTML = x;' });
+    const v1: BaselineFile = {
+      version: 1,
+      generatedAt: '2026-01-01T00:00:00Z',
+      generatedBy: 'scan',
+      findings: [{ ...finding, message: 'old wording', contentHash: contentFingerprint(finding.ruleId, finding.file, finding.codeSnippet) }],
+    };
+    await writeFile(join(tempDir, '.archguard-baseline.json'), JSON.stringify(v1));
+
+    const loaded = await loadBaseline(tempDir);
+    expect(loaded!.version).toBe(2);
+    expect(filterByBaseline([finding], loaded!).baselineSuppressedCount).toBe(1);
+  });
+
+  it('keeps owner and expiry when the baseline is regenerated', async () => {
+    const finding = makeFinding();
+    await saveBaseline(tempDir, [finding], 'scan');
+    const path = join(tempDir, '.archguard-baseline.json');
+    const saved = JSON.parse(await readFile(path, 'utf-8')) as BaselineFile;
+    saved.findings[0] = { ...saved.findings[0], owner: '@team-web', expiresAt: '2030-01-01' };
+    await writeFile(path, JSON.stringify(saved));
+
+    await saveBaseline(tempDir, [finding, makeFinding({ ruleId: 'security/eval', message: 'eval usage' })], 'scan');
+    const loaded = await loadBaseline(tempDir);
+    expect(loaded!.findings[0]).toMatchObject({ owner: '@team-web', expiresAt: '2030-01-01' });
+    expect(loaded!.findings[1].owner).toBeUndefined();
+  });
+
   it('returns null when no baseline exists', async () => {
     const loaded = await loadBaseline(tempDir);
     expect(loaded).toBeNull();
@@ -183,6 +221,159 @@ describe('filterByBaseline', () => {
   });
 });
 
+describe('stable fingerprints', () => {
+  const snippet = 'el.innerHTML = userInput;';
+  const baseline: BaselineFile = {
+    version: 2,
+    generatedAt: '2026-01-01T00:00:00Z',
+    generatedBy: 'scan',
+    findings: [],
+  };
+
+  function baselineFor(findings: Finding[]): BaselineFile {
+    const result = pruneBaseline({ ...baseline, findings: findings.map(f => ({ ruleId: f.ruleId, file: f.file, message: f.message })) }, findings);
+    return result.baseline;
+  }
+
+  it('follows a renamed file', () => {
+    const original = makeFinding({ codeSnippet: snippet, message: 'XSS risk at line 10' });
+    const moved = makeFinding({ codeSnippet: snippet, message: 'XSS risk at line 3', file: 'src/renamed.ts', line: 3 });
+
+    const renames = new Map([['src/foo.ts', 'src/renamed.ts']]);
+    expect(filterByBaseline([moved], baselineFor([original]), { renames }).findings).toHaveLength(0);
+    expect(filterByBaseline([moved], baselineFor([original])).findings).toHaveLength(1);
+  });
+
+  it('covers one finding per entry', () => {
+    const finding = makeFinding({ codeSnippet: snippet });
+    const result = filterByBaseline([finding, { ...finding, line: 40 }], baselineFor([finding]));
+    expect(result.findings).toHaveLength(1);
+  });
+
+  it('matches every fingerprint before falling back to messages', () => {
+    const legacy = makeFinding({ ruleId: 'security/eval', message: 'eval usage', codeSnippet: 'eval(legacy);', line: 20 });
+    const added = { ...legacy, codeSnippet: 'eval(userInput);', line: 5 };
+
+    const result = filterByBaseline([added, legacy], baselineFor([legacy]));
+    expect(result.findings).toEqual([added]);
+  });
+
+  it('does not match fingerprinted entries by message', () => {
+    const finding = makeFinding({ codeSnippet: snippet });
+    const changed = { ...finding, codeSnippet: 'el.innerHTML = other;' };
+    expect(filterByBaseline([changed], baselineFor([finding])).findings).toHaveLength(1);
+  });
+
+  it('reports findings again once their entry expires', () => {
+    const finding = makeFinding();
+    const expiring: BaselineFile = {
+      ...baseline,
+      findings: [{ ruleId: finding.ruleId, file: finding.file, message: finding.message, expiresAt: '2026-03-01' }],
+    };
+
+    expect(filterByBaseline([finding], expiring, { now: new Date('2026-02-01') }).findings).toHaveLength(0);
+    const later = filterByBaseline([finding], expiring, { now: new Date('2026-04-01') });
+    expect(later.findings).toHaveLength(1);
+    expect(later.expiredCount).toBe(1);
+  });
+});
+
+describe('pruneBaseline', () => {
+  it('removes entries that match no finding and fingerprints the rest', () => {
+    const kept = makeFinding({ codeSnippet: 'el.innerHTML = x;' });
+    const fixed = makeFinding({ ruleId: 'security/eval', message: 'eval usage' });
+    const v1: BaselineFile = {
+      version: 1,
+      generatedAt: '2026-01-01T00:00:00Z',
+      generatedBy: 'scan',
+      findings: [
+        { ruleId: kept.ruleId, file: kept.file, message: kept.message, owner: '@alice' },
+        { ruleId: fixed.ruleId, file: fixed.file, message: fixed.message },
+      ],
+    };
+
+    const result = pruneBaseline(v1, [kept]);
+    expect(result.removed.map(e => e.ruleId)).toEqual(['security/eval']);
+    expect(result.baseline.version).toBe(2);
+    expect(result.baseline.findings).toHaveLength(1);
+    expect(result.baseline.findings[0]).toMatchObject({ owner: '@alice', fingerprint: expect.any(String) });
+  });
+});
+
+describe('getBaselineStatus', () => {
+  it('counts fixed entries and breaks remaining debt down', () => {
+    const baseline: BaselineFile = {
+      version: 2,
+      generatedAt: '2026-01-01T00:00:00Z',
+      generatedBy: 'scan',
+      findings: [
+        { ruleId: 'security/xss', file: 'src/ui/a.ts', message: 'XSS' },
+        { ruleId: 'security/xss', file: 'src/ui/b.ts', message: 'XSS' },
+        { ruleId: 'security/eval', file: 'src/api/c.ts', message: 'eval usage', expiresAt: '2026-02-01' },
+        { ruleId: 'ai-smells/unused-import', file: 'src/api/d.ts', message: 'Unused import: x' },
+      ],
+    };
+    const findings = [
+      makeFinding({ file: 'src/ui/a.ts', message: 'XSS' }),
+      makeFinding({ ruleId: 'security/eval', file: 'src/api/c.ts', message: 'eval usage' }),
+      makeFinding({ ruleId: 'security/eval', file: 'src/api/new.ts', message: 'eval usage' }),
+    ];
+
+    const status = getBaselineStatus(baseline, findings, { now: new Date('2026-03-01') });
+    expect(status).toMatchObject({ total: 4, fixed: 2, remaining: 2, expired: 1, newFindings: 1 });
+    expect(status.byRule).toEqual({ 'security/xss': 1, 'security/eval': 1 });
+    expect(status.byAnalyzer).toEqual({ security: 2 });
+    expect(status.byDirectory).toEqual({ 'src/ui': 1, 'src/api': 1 });
+  });
+});
+
+describe('mergeBaselines', () => {
+  it('unions entries without doubling ones shared between inputs', () => {
+    const shared = { ruleId: 'security/xss', file: 'a.ts', message: 'XSS', fingerprint: 'f1' };
+    const first: BaselineFile = {
+      version: 2,
+      generatedAt: '2026-01-01T00:00:00Z',
+      generatedBy: 'scan',
+      findings: [{ ...shared, owner: '@web' }, { ...shared }],
+    };
+    const second: BaselineFile = {
+      version: 2,
+      generatedAt: '2026-01-02T00:00:00Z',
+      generatedBy: 'scan',
+      findings: [{ ...shared, owner: '@other' }, { ruleId: 'security/eval', file: 'b.ts', message: 'eval usage', fingerprint: 'f2' }],
+    };
+
+    const merged = mergeBaselines([first, second]);
+    expect(merged.version).toBe(2);
+    expect(merged.findings.map(e => e.file)).toEqual(['a.ts', 'a.ts', 'b.ts']);
+    expect(merged.findings[0].owner).toBe('@web');
+  });
+});
+
+describe('handleBaseline', () => {
+  it('removes exactly the baselined findings from analyzer results', async () => {
+    const snippet = 'el.innerHTML = x;';
+    await saveBaseline(tempDir, [makeFinding({ codeSnippet: snippet, message: 'XSS at line 10' })], 'scan');
+
+    const moved = makeFinding({ codeSnippet: snippet, message: 'XSS at line 12', line: 12 });
+    const other = makeFinding({ codeSnippet: 'el.outerHTML = y;', message: 'XSS at line 20', line: 20 });
+    const summary = {
+      totalFiles: 1,
+      totalFindings: 2,
+      errors: 0,
+      warnings: 2,
+      infos: 0,
+      duration: 0,
+      analyzerResults: [{ analyzer: 'security', findings: [moved, other], duration: 0 }],
+    };
+
+    const result = await handleBaseline(summary, tempDir, 'scan', {});
+    expect(result.suppressedCount).toBe(1);
+    expect(summary.analyzerResults[0].findings).toEqual([other]);
+    expect(summary.totalFindings).toBe(1);
+  });
+});
+
 describe('round-trip save/load', () => {
   it('preserves data through save and load cycle', async () => {
     const findings = [
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { CyclesAnalyzer } from '../../src/analyzers/cycles-analyzer.js';
+import { buildDependencyGraph, findStronglyConnectedComponents } from '../../src/core/dependency-graph.js';
+import { generateArchitectureDiagram } from '../../src/core/mermaid.js';
+import { parseSource } from '../../src/parsers/tree-sitter-manager.js';
+import { Severity, type AnalysisContext, type ArchGuardConfig, type CyclesConfig, type FileInfo, type ParsedFile } from '../../src/core/types.js';
+import { DEFAULT_CONFIG } from '../../src/core/config-loader.js';
+import { fileInfo, parsedFile, useTempProject, withAnalyzer } from '../helpers/temp-project.js';
+
+const SOURCES: Record<string, string> = {
+  'src/a.ts': `import { b } from './b.js';\nexport const a = 1;`,
+  'src/b.ts': `import { c } from './c.js';\nexport const b = 1;`,
+  'src/c.ts': `import { log } from './log.js';\nimport { a } from './a.js';\nexport const c = 1;`,
+  'src/log.ts': `export const log = 1;`,
+  'src/models/user.ts': `import { Post } from './post.js';\nexport class User {}`,
+  'src/models/post.ts': `import { User } from './user.js';\nexport class Post {}`,
+};
+
+function makeParsedFile(path: string, content: string): ParsedFile {
+  return { path, language: 'typescript', tree: parseSource('typescript', content), content };
+}
+
+/** A full scan of SOURCES, or a diff adding `changedLine` of `changedFile` when given. */
+function makeContext(overrides: Partial<CyclesConfig> = {}, changedFile?: string, changedLine?: number): AnalysisContext {
+  const config: ArchGuardConfig = {
+    ...DEFAULT_CONFIG,
+    analyzers: {
+      ...DEFAULT_CONFIG.analyzers,
+      cycles: { enabled: true, severity: Severity.Warning, allow: [], ...overrides },
+    },
+  };
+  const files: FileInfo[] = Object.entries(SOURCES)
+    .filter(([path]) => !changedFile || path === changedFile)
+    .map(([path, content]) => {
+      const lines = content.split('\n').map((c, i) => ({ lineNumber: i + 1, content: c, type: 'added' as const }));
+      const added = changedLine ? lines.filter(l => l.lineNumber === changedLine) : lines;
+      return {
+        path,
+        language: 'typescript',
+        status: changedFile ? 'modified' : 'added',
+        hunks: changedFile ? [{ oldStart: changedLine!, oldLines: 0, newStart: changedLine!, newLines: 1, changes: added }] : [],
+        addedLines: added,
+        removedLines: [],
+        content,
+      };
+    });
+  const parsedFiles = Object.entries(SOURCES).map(([path, content]) => makeParsedFile(path, content));
+  return { files, parsedFiles, config, projectRoot: '/project' };
+}
+
+describe('findStronglyConnectedComponents', () => {
+  it('groups mutually dependent files and leaves acyclic ones out', () => {
+    const graph = buildDependencyGraph(Object.entries(SOURCES).map(([p, c]) => makeParsedFile(p, c)), '/project');
+    expect(findStronglyConnectedComponents(graph)).toEqual([
+      ['src/a.ts', 'src/b.ts', 'src/c.ts'],
+      ['src/models/post.ts', 'src/models/user.ts'],
+    ]);
+  });
+});
+
+describe('CyclesAnalyzer', () => {
+  const project = useTempProject('cycles-test');
+  it('reports each cycle once with its full path', async () => {
+    const findings = await new CyclesAnalyzer().analyze(makeContext());
+
+    expect(findings.map(f => f.message)).toEqual([
+      'Circular dependency: src/a.ts → src/b.ts → src/c.ts → src/a.ts',
+      'Circular dependency: src/models/post.ts → src/models/user.ts → src/models/post.ts',
+    ]);
+    expect(findings[0]).toMatchObject({ ruleId: 'cycles/circular-dependency', file: 'src/a.ts', line: 1 });
+    expect(findings[0].flow).toEqual([
+      { file: 'src/a.ts', line: 1, message: 'Imports src/b.ts' },
+      { file: 'src/b.ts', line: 1, message: 'Imports src/c.ts' },
+      { file: 'src/c.ts', line: 2, message: 'Imports src/a.ts' },
+    ]);
+  });
+
+  it('points at the import added in the diff that closes the cycle', async () => {
+    const findings = await new CyclesAnalyzer().analyze(makeContext({}, 'src/c.ts', 2));
+
+    const finding = findings.find(f => f.file === 'src/c.ts')!;
+    expect(finding.line).toBe(2);
+    expect(finding.message).toBe('Circular dependency: src/c.ts → src/a.ts → src/b.ts → src/c.ts');
+    expect(finding.flow![0].message).toBe('Imports src/a.ts (added in this change)');
+    expect(finding.suggestion).toContain("import of 'src/a.ts' added here");
+  });
+
+  it('finds a cycle closed by an unchanged file outside the diff', async () => {
+    const a = `import { b } from './b.js';\nexport const a = 1;`;
+    await project.write({ 'src/a.ts': a, 'src/b.ts': `import { a } from './a.js';\nexport const b = 1;` });
+    project.git('init', '-q');
+    project.git('add', '.');
+
+    const findings = await new CyclesAnalyzer().analyze({
+      files: [fileInfo('src/a.ts', a, [1])],
+      parsedFiles: [parsedFile('src/a.ts', a)],
+      config: withAnalyzer('cycles', { enabled: true, severity: Severity.Warning, allow: [] }),
+      projectRoot: project.dir,
+    });
+
+    expect(findings.map(f => `${f.file}:${f.line} ${f.message}`)).toEqual([
+      'src/a.ts:1 Circular dependency: src/a.ts → src/b.ts → src/a.ts',
+    ]);
+  });
+
+  it('skips cycles longer than maxCycleLength and allow-listed cycles', async () => {
+    const findings = await new CyclesAnalyzer().analyze(makeContext({ maxCycleLength: 2 }));
+    expect(findings.map(f => f.file)).toEqual(['src/models/post.ts']);
+
+    const allowed = await new CyclesAnalyzer().analyze(makeContext({ allow: [['src/models/**'], ['src/a.ts', 'src/b.ts']] }));
+    expect(allowed.map(f => f.file)).toEqual(['src/a.ts']);
+  });
+
+  it('reports nothing when disabled', async () => {
+    const context: AnalysisContext = { files: [], parsedFiles: [], config: DEFAULT_CONFIG, projectRoot: '/project' };
+    expect(await new CyclesAnalyzer().analyze(context)).toEqual([]);
+  });
+});
+
+describe('generateArchitectureDiagram cycles', () => {
+  it('highlights files and imports that form a cycle', () => {
+    const graph = buildDependencyGraph([
+      makeParsedFile('src/a.ts', `import { b } from './b.js';\nimport { log } from './log.js';`),
+      makeParsedFile('src/b.ts', `import { a } from './a.js';`),
+      makeParsedFile('src/log.ts', `export const log = 1;`),
+    ], '/project');
+
+    const diagram = generateArchitectureDiagram(graph);
+
+    expect(diagram).toContain('src_a_ts["a.ts"]:::cycle');
+    expect(diagram).toContain('src_log_ts["log.ts"]\n');
+    expect(diagram).toContain('classDef cycle');
+    expect(diagram).toContain('linkStyle 0,2 stroke:#d33');
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import { DeadCodeAnalyzer } from '../../src/analyzers/dead-code-analyzer.js';
 import { Severity, type AnalysisContext, type FileInfo, type ParsedFile, type ArchGuardConfig } from '../../src/core/types.js';
 import { DEFAULT_CONFIG } from '../../src/core/config-loader.js';
+import { parseSource } from '../../src/parsers/tree-sitter-manager.js';
 
 function makeConfig(overrides: Record<string, any> = {}): ArchGuardConfig {
   return {
@@ -13,40 +14,7 @@ function makeConfig(overrides: Record<string, any> = {}): ArchGuardConfig {
   };
 }
 
-function createMockTree(source: string, exports: string[] = []): any {
-  const rootNode: any = {
-    kind: () => 'program',
-    text: () => source,
-    range: () => ({
-      start: { line: 0, column: 0, index: 0 },
-      end: { line: source.split('\n').length, column: 0, index: 0 },
-    }),
-    children: () => {
-      // Create export_statement nodes with identifiers
-      return exports.map(name => ({
-        kind: () => 'export_statement',
-        text: () => `export { ${name} }`,
-        range: () => ({ start: { line: 0, column: 0 }, end: { line: 0, column: 10 } }),
-        children: () => [{
-          kind: () => 'identifier',
-          text: () => name,
-          range: () => ({ start: { line: 0, column: 0 }, end: { line: 0, column: name.length } }),
-          children: () => [],
-          field: () => null,
-          parent: () => null,
-        }],
-        field: () => null,
-        parent: () => null,
-      }));
-    },
-    child: () => null,
-    field: () => null,
-    parent: () => null,
-  };
-  return { root: () => rootNode };
-}
-
-function makeMultiFileContext(files: Array<{ path: string; source: string; imports: string[]; exports: string[] }>, config?: ArchGuardConfig): AnalysisContext {
+function makeMultiFileContext(files: Array<{ path: string; source: string }>, config?: ArchGuardConfig): AnalysisContext {
   const fileInfos: FileInfo[] = [];
   const parsedFiles: ParsedFile[] = [];
 
@@ -58,56 +26,9 @@ function makeMultiFileContext(files: Array<{ path: string; source: string; impor
       addedLines: lines.map((content, i) => ({ lineNumber: i + 1, content, type: 'added' as const })),
       removedLines: [], content: file.source,
     });
-
-    // Build a mock tree that has import and export nodes
-    const importNodes = file.imports.map(imp => ({
-      kind: () => 'import_statement',
-      text: () => `import { x } from '${imp}'`,
-      range: () => ({ start: { line: 0, column: 0 }, end: { line: 0, column: 20 } }),
-      children: () => [{
-        kind: () => 'import_specifier',
-        text: () => 'x',
-        range: () => ({ start: { line: 0, column: 0 }, end: { line: 0, column: 1 } }),
-        children: () => [],
-        field: (name: string) => name === 'name' ? { text: () => 'x', kind: () => 'identifier', children: () => [], field: () => null, parent: () => null, range: () => ({ start: { line: 0, column: 0 }, end: { line: 0, column: 1 } }) } : null,
-        parent: () => null,
-      }],
-      field: (name: string) => {
-        if (name === 'source') return { text: () => `'${imp}'`, kind: () => 'string', children: () => [], field: () => null, parent: () => null, range: () => ({ start: { line: 0, column: 0 }, end: { line: 0, column: 1 } }) };
-        return null;
-      },
-      parent: () => null,
-    }));
-
-    const exportNodes = file.exports.map(exp => ({
-      kind: () => 'export_statement',
-      text: () => `export { ${exp} }`,
-      range: () => ({ start: { line: 0, column: 0 }, end: { line: 0, column: 10 } }),
-      children: () => [{
-        kind: () => 'identifier',
-        text: () => exp,
-        range: () => ({ start: { line: 0, column: 0 }, end: { line: 0, column: exp.length } }),
-        children: () => [],
-        field: () => null,
-        parent: () => null,
-      }],
-      field: () => null,
-      parent: () => null,
-    }));
-
-    const rootNode: any = {
-      kind: () => 'program',
-      text: () => file.source,
-      range: () => ({ start: { line: 0, column: 0 }, end: { line: lines.length, column: 0 } }),
-      children: () => [...importNodes, ...exportNodes],
-      child: () => null,
-      field: () => null,
-      parent: () => null,
-    };
-
     parsedFiles.push({
       path: file.path, language: 'typescript',
-      tree: { root: () => rootNode } as any, content: file.source,
+      tree: parseSource('typescript', file.source), content: file.source,
     });
   }
 
@@ -122,8 +43,8 @@ describe('DeadCodeAnalyzer', () => {
 
   it('detects unused exports when file is never imported', async () => {
     const ctx = makeMultiFileContext([
-      { path: 'src/utils.ts', source: 'export function unused() {}', imports: [], exports: ['unused'] },
-      { path: 'src/app.ts', source: 'const x = 1;', imports: [], exports: [] },
+      { path: 'src/utils.ts', source: 'export function unused() {}' },
+      { path: 'src/app.ts', source: 'const x = 1;' },
     ]);
     const findings = await analyzer.analyze(ctx);
     expect(findings.some(f => f.ruleId === 'dead-code/unused-export')).toBe(true);
@@ -131,8 +52,8 @@ describe('DeadCodeAnalyzer', () => {
 
   it('does not flag exports that are imported', async () => {
     const ctx = makeMultiFileContext([
-      { path: 'src/utils.ts', source: 'export function used() {}', imports: [], exports: ['used'] },
-      { path: 'src/app.ts', source: 'import { used } from "./utils.js"', imports: ['./utils.js'], exports: [] },
+      { path: 'src/utils.ts', source: 'export function used() {}' },
+      { path: 'src/app.ts', source: 'import { used } from "./utils.js"' },
     ]);
     const findings = await analyzer.analyze(ctx);
     // The import from app.ts resolves to utils.ts, so utils.ts has importedBy = [app.ts]
@@ -143,7 +64,7 @@ describe('DeadCodeAnalyzer', () => {
   it('skips entry points', async () => {
     const config = makeConfig({ entryPoints: ['src/index.ts'] });
     const ctx = makeMultiFileContext([
-      { path: 'src/index.ts', source: 'export function main() {}', imports: [], exports: ['main'] },
+      { path: 'src/index.ts', source: 'export function main() {}' },
     ], config);
     const findings = await analyzer.analyze(ctx);
     expect(findings).toHaveLength(0);
@@ -151,7 +72,7 @@ describe('DeadCodeAnalyzer', () => {
 
   it('skips test files', async () => {
     const ctx = makeMultiFileContext([
-      { path: 'tests/utils.test.ts', source: 'export function testHelper() {}', imports: [], exports: ['testHelper'] },
+      { path: 'tests/utils.test.ts', source: 'export function testHelper() {}' },
     ]);
     const findings = await analyzer.analyze(ctx);
     expect(findings).toHaveLength(0);
@@ -161,9 +82,60 @@ describe('DeadCodeAnalyzer', () => {
     const config = makeConfig();
     config.analyzers.deadCode = { enabled: false, severity: Severity.Warning };
     const ctx = makeMultiFileContext([
-      { path: 'src/unused.ts', source: 'export const x = 1;', imports: [], exports: ['x'] },
+      { path: 'src/unused.ts', source: 'export const x = 1;' },
     ], config);
     const findings = await analyzer.analyze(ctx);
     expect(findings).toHaveLength(0);
   });
+
+  it('reports each unused export at its declaration even when others are used', async () => {
+    const ctx = makeMultiFileContext([
+      { path: 'src/utils.ts', source: 'export function used() {}\n\nexport const dead = 1;\nexport default class Thing {}' },
+      { path: 'src/app.ts', source: 'import { used } from "./utils.js";\nused();' },
+    ]);
+    const findings = await analyzer.analyze(ctx);
+
+    expect(findings.map(f => [f.file, f.line, f.message])).toEqual([
+      ['src/utils.ts', 3, "Export 'dead' is never imported by any other file"],
+      ['src/utils.ts', 4, 'Default export is never imported by any other file'],
+    ]);
+  });
+
+  it('follows named re-exports and export * through barrels', async () => {
+    const ctx = makeMultiFileContext([
+      { path: 'src/lib/math.ts', source: 'export const add = 1;\nexport const sub = 2;' },
+      { path: 'src/lib/text.ts', source: 'export const upper = 1;\nexport const lower = 2;' },
+      { path: 'src/lib/index.ts', source: "export { add, sub as minus } from './math.js';\nexport * from './text.js';" },
+      { path: 'src/app.ts', source: "import { add, upper } from './lib/index.js';" },
+    ]);
+    const findings = await analyzer.analyze(ctx);
+
+    expect(findings.map(f => `${f.file}:${f.line}`).sort()).toEqual([
+      'src/lib/index.ts:1', // minus
+      'src/lib/math.ts:2',
+      'src/lib/text.ts:2',
+    ]);
+  });
+
+  it('counts namespace members, and whole modules for escaping namespaces and dynamic import()', async () => {
+    const ctx = makeMultiFileContext([
+      { path: 'src/a.ts', source: 'export const x = 1;\nexport const y = 2;' },
+      { path: 'src/b.ts', source: 'export const x = 1;\nexport const y = 2;' },
+      { path: 'src/c.ts', source: 'export const x = 1;\nexport const y = 2;' },
+      { path: 'src/app.ts', source: "import * as a from './a.js';\nimport * as b from './b.js';\nconsole.log(a.x, b);\nconst c = await import('./c.js');" },
+    ]);
+    const findings = await analyzer.analyze(ctx);
+
+    expect(findings.map(f => `${f.file}:${f.line}`)).toEqual(['src/a.ts:2']);
+  });
+
+  it('treats package.json entry points rather than any index file as public API', async () => {
+    const ctx = makeMultiFileContext([
+      { path: 'src/index.ts', source: 'export const api = 1;' },
+      { path: 'src/utils/index.ts', source: 'export const helper = 1;' },
+    ]);
+    const findings = await analyzer.analyze(ctx);
+
+    expect(findings.map(f => f.file)).toEqual(['src/utils/index.ts']);
+  });
 });
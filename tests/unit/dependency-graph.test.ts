@@ -1,9 +1,10 @@
 import { describe, it, expect } from 'vitest';
-import { buildDependencyGraph, getConsumers, getImpactedFiles } from '../../src/core/dependency-graph.js';
+import { buildDependencyGraph, updateDependencyGraph, getConsumers, getImpactedFiles } from '../../src/core/dependency-graph.js';
 import { parseSource } from '../../src/parsers/tree-sitter-manager.js';
-import type { ParsedFile } from '../../src/core/types.js';
+import type { ParsedFile, SupportedLanguage } from '../../src/core/types.js';
+import type { ModuleResolution } from '../../src/core/module-resolution.js';
 
-function makeParsedFile(path: string, content: string, language: 'typescript' | 'javascript' = 'typescript'): ParsedFile {
+function makeParsedFile(path: string, content: string, language: SupportedLanguage = 'typescript'): ParsedFile {
   return {
     path,
     language,
@@ -113,3 +114,121 @@ describe('getImpactedFiles', () => {
     expect(impact.size).toBe(0);
   });
 });
+
+describe('updateDependencyGraph', () => {
+  it('moves edges of a changed file without touching the others', () => {
+    const b = makeParsedFile('src/b.ts', `export const foo = 42;`);
+    const c = makeParsedFile('src/c.ts', `export const bar = 1;`);
+    const graph = buildDependencyGraph([makeParsedFile('src/a.ts', `import { foo } from './b.js';`), b, c], '/project');
+
+    const a = makeParsedFile('src/a.ts', `import { bar } from './c.js';`);
+    updateDependencyGraph(graph, [a, b, c], ['src/a.ts'], '/project');
+
+    expect(graph.nodes.get('src/a.ts')!.imports).toEqual(['src/c.ts']);
+    expect(graph.nodes.get('src/b.ts')!.importedBy).toEqual([]);
+    expect(graph.nodes.get('src/c.ts')!.importedBy).toEqual(['src/a.ts']);
+  });
+
+  it('rebuilds when a file is added so existing imports can resolve to it', () => {
+    const a = makeParsedFile('src/a.ts', `import { foo } from './b.js';`);
+    const graph = buildDependencyGraph([a], '/project');
+    expect(graph.nodes.get('src/a.ts')!.imports).toEqual([]);
+
+    const b = makeParsedFile('src/b.ts', `export const foo = 42;`);
+    updateDependencyGraph(graph, [a, b], ['src/b.ts'], '/project');
+    expect(graph.nodes.get('src/a.ts')!.imports).toEqual(['src/b.ts']);
+  });
+});
+
+describe('language module resolution', () => {
+  const noAliases: ModuleResolution = { tsconfigs: [], packages: [], goModules: [], rustCrates: [] };
+
+  function importsOf(files: ParsedFile[], path: string, resolution = noAliases): string[] {
+    return buildDependencyGraph(files, '/project', resolution).nodes.get(path)!.imports;
+  }
+
+  it('resolves Python absolute, relative and submodule imports', () => {
+    const files = [
+      makeParsedFile('backend/app/api/routes.py', [
+        'import os',
+        'import app.models as models',
+        'from app.services import billing, mailer',
+        'from ..db import session',
+        'from . import deps',
+      ].join('\n'), 'python'),
+      makeParsedFile('backend/app/models.py', 'x = 1', 'python'),
+      makeParsedFile('backend/app/services/__init__.py', '', 'python'),
+      makeParsedFile('backend/app/services/billing.py', 'x = 1', 'python'),
+      makeParsedFile('backend/app/db/session.py', 'x = 1', 'python'),
+      makeParsedFile('backend/app/api/deps.py', 'x = 1', 'python'),
+    ];
+
+    expect(importsOf(files, 'backend/app/api/routes.py')).toEqual([
+      'backend/app/models.py',
+      'backend/app/services/__init__.py',
+      'backend/app/services/billing.py',
+      'backend/app/db/session.py',
+      'backend/app/api/deps.py',
+    ]);
+  });
+
+  it('resolves Go imports under the go.mod module path to the package files', () => {
+    const files = [
+      makeParsedFile('cmd/server/main.go', 'package main\n\nimport (\n\t"fmt"\n\tsvc "example.com/shop/internal/orders"\n)', 'go'),
+      makeParsedFile('internal/orders/service.go', 'package orders', 'go'),
+      makeParsedFile('internal/orders/repo.go', 'package orders', 'go'),
+      makeParsedFile('internal/orders/service_test.go', 'package orders', 'go'),
+    ];
+    const resolution = { ...noAliases, goModules: [{ dir: '', path: 'example.com/shop' }] };
+
+    expect(importsOf(files, 'cmd/server/main.go', resolution).sort()).toEqual([
+      'internal/orders/repo.go',
+      'internal/orders/service.go',
+    ]);
+    expect(importsOf(files, 'cmd/server/main.go')).toEqual([]);
+  });
+
+  it('resolves Java imports under any source root, including static and wildcard imports', () => {
+    const files = [
+      makeParsedFile('app/src/main/java/com/acme/web/OrderController.java', [
+        'package com.acme.web;',
+        'import java.util.List;',
+        'import com.acme.orders.OrderService;',
+        'import static com.acme.util.Strings.isBlank;',
+        'import com.acme.model.*;',
+        'class OrderController {}',
+      ].join('\n'), 'java'),
+      makeParsedFile('core/src/main/java/com/acme/orders/OrderService.java', 'package com.acme.orders;', 'java'),
+      makeParsedFile('core/src/main/java/com/acme/util/Strings.java', 'package com.acme.util;', 'java'),
+      makeParsedFile('core/src/main/java/com/acme/model/Order.java', 'package com.acme.model;', 'java'),
+    ];
+
+    expect(importsOf(files, 'app/src/main/java/com/acme/web/OrderController.java')).toEqual([
+      'core/src/main/java/com/acme/orders/OrderService.java',
+      'core/src/main/java/com/acme/util/Strings.java',
+      'core/src/main/java/com/acme/model/Order.java',
+    ]);
+  });
+
+  it('resolves Rust mod declarations and crate, super and workspace crate paths', () => {
+    const files = [
+      makeParsedFile('src/lib.rs', 'mod api;\npub mod db;\nmod inline { }', 'rust'),
+      makeParsedFile('src/api.rs', 'mod handlers;', 'rust'),
+      makeParsedFile('src/api/handlers.rs', 'use crate::db::{pool::Pool, self};\nuse super::Router;\nuse std::io;\nuse shared_types::Order;', 'rust'),
+      makeParsedFile('src/db/mod.rs', 'pub mod pool;', 'rust'),
+      makeParsedFile('src/db/pool.rs', 'pub struct Pool;', 'rust'),
+      makeParsedFile('crates/shared-types/src/lib.rs', 'pub struct Order;', 'rust'),
+    ];
+    const resolution = { ...noAliases, rustCrates: [{ name: 'shared-types', dir: 'crates/shared-types' }] };
+
+    expect(importsOf(files, 'src/lib.rs', resolution)).toEqual(['src/api.rs', 'src/db/mod.rs']);
+    expect(importsOf(files, 'src/api.rs', resolution)).toEqual(['src/api/handlers.rs']);
+    expect(importsOf(files, 'src/api/handlers.rs', resolution)).toEqual([
+      'src/db/pool.rs',
+      'src/db/mod.rs',
+      'src/api.rs',
+      'crates/shared-types/src/lib.rs',
+    ]);
+    expect(importsOf(files, 'src/db/mod.rs', resolution)).toEqual(['src/db/pool.rs']);
+  });
+});
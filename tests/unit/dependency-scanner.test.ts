@@ -1,7 +1,11 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
 import { DependencyScanner } from '../../src/analyzers/dependency-scanner.js';
 import { Severity, type AnalysisContext, type ArchGuardConfig } from '../../src/core/types.js';
 import { DEFAULT_CONFIG } from '../../src/core/config-loader.js';
+import { writeAdvisoryDatabase } from '../../src/core/advisory-db.js';
 
 describe('DependencyScanner', () => {
   const scanner = new DependencyScanner();
@@ -16,4 +20,31 @@ describe('DependencyScanner', () => {
   it('has correct name', () => {
     expect(scanner.name).toBe('dependencies');
   });
+
+  it('matches synced advisories offline without querying OSV', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'archguard-depscan-'));
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    try {
+      await writeFile(join(dir, 'package.json'), JSON.stringify({ dependencies: { lodash: '4.17.20', minimist: '1.2.8' } }));
+      await writeAdvisoryDatabase(join(dir, '.archguard/advisories'), [{
+        id: 'GHSA-35jh-r3h4-6jhm',
+        summary: 'Command injection in lodash',
+        affected: [{ package: { name: 'lodash', ecosystem: 'npm' }, ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '4.17.21' }] }] }],
+      }], ['test']);
+
+      const config: ArchGuardConfig = {
+        ...DEFAULT_CONFIG,
+        analyzers: { ...DEFAULT_CONFIG.analyzers, dependencies: { enabled: true, severity: Severity.Error, offline: true } },
+      };
+      const findings = await scanner.analyze({ files: [], parsedFiles: [], config, projectRoot: dir });
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(findings.map(f => `${f.file}: ${f.message}`)).toEqual([
+        'package.json: lodash@4.17.20: Command injection in lodash (GHSA-35jh-r3h4-6jhm)',
+      ]);
+    } finally {
+      fetchSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
 });
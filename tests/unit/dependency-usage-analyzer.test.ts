@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { DependencyUsageAnalyzer } from '../../src/analyzers/dependency-usage-analyzer.js';
+import { Severity, type AnalysisContext, type DependencyUsageConfig } from '../../src/core/types.js';
+import { DEFAULT_CONFIG } from '../../src/core/config-loader.js';
+import { fileInfo, parsedFile, summarize, useTempProject, withAnalyzer } from '../helpers/temp-project.js';
+
+const project = useTempProject('dep-usage-test');
+
+/** A full scan of `sources`, or a diff adding only `changed` lines of `changed` files when given. */
+function makeContext(
+  sources: Record<string, string>,
+  overrides: Partial<DependencyUsageConfig> = {},
+  changed?: Record<string, number[]>,
+): AnalysisContext {
+  const config = withAnalyzer('dependencyUsage', { enabled: true, severity: Severity.Warning, ignore: [], devFiles: [], ...overrides });
+  const entries = Object.entries(sources);
+  return {
+    files: entries
+      .filter(([path]) => !changed || path in changed)
+      .map(([path, content]) => fileInfo(path, content, changed?.[path])),
+    parsedFiles: entries.map(([path, content]) => parsedFile(path, content)),
+    config,
+    projectRoot: project.dir,
+  };
+}
+
+describe('DependencyUsageAnalyzer', () => {
+  const analyzer = new DependencyUsageAnalyzer();
+
+  it('reports missing, unused, misplaced and test-only npm dependencies', async () => {
+    await project.write({
+      'package.json': {
+        dependencies: { lodash: '^4.17.21', express: '^4.18.0', chalk: '^5.0.0' },
+        devDependencies: { vitest: '^1.0.0', zod: '^3.0.0', '@types/lodash': '^4.0.0' },
+      },
+    });
+    const sources = {
+      'src/app.ts': [
+        "import { readFile } from 'node:fs';",
+        "import path from 'path';",
+        "import { merge } from 'lodash/merge';",
+        "import { z } from 'zod';",
+        "import leftPad from 'left-pad';",
+        "import { util } from './util.js';",
+        "import type { Options } from '@types-only/pkg';",
+      ].join('\n'),
+      'src/util.ts': 'export const util = 1;',
+      'tests/app.test.ts': "import { describe } from 'vitest';\nimport chalk from 'chalk';",
+    };
+
+    const findings = await analyzer.analyze(makeContext(sources));
+
+    expect(summarize(findings).sort()).toEqual([
+      'dev-dependency-in-source src/app.ts:4',
+      'missing-dependency src/app.ts:5',
+      'missing-dependency src/app.ts:7',
+      'test-only-dependency package.json:5',
+      'unused-dependency package.json:4',
+    ]);
+    expect(findings.find(f => f.line === 5)!.message).toBe("'left-pad' is imported but no dependency in package.json provides it");
+  });
+
+  it('only checks imports on changed lines in a diff, and skips whole-project checks', async () => {
+    await project.write({ 'package.json': { dependencies: { express: '^4.18.0' } } });
+    const sources = { 'src/app.ts': "import a from 'left-pad';\nimport b from 'right-pad';" };
+
+    const findings = await analyzer.analyze(makeContext(sources, {}, { 'src/app.ts': [2] }));
+
+    expect(summarize(findings).sort()).toEqual(['missing-dependency src/app.ts:2']);
+  });
+
+  it('uses the nearest workspace manifest and honours ignore', async () => {
+    await project.write({
+      'package.json': { workspaces: ['packages/*'], devDependencies: { typescript: '^5.0.0' } },
+      'packages/web/package.json': { name: '@acme/web', dependencies: { react: '^18.0.0' } },
+      'packages/api/package.json': { name: '@acme/api', dependencies: { fastify: '^4.0.0', pino: '^8.0.0' } },
+    });
+    const sources = {
+      'packages/web/src/app.tsx': "import React from 'react';\nimport { server } from '@acme/api';\nimport ts from 'typescript';",
+      'packages/api/src/index.ts': "import Fastify from 'fastify';\nexport const server = Fastify();",
+    };
+
+    const findings = await analyzer.analyze(makeContext(sources, { ignore: ['pino'] }));
+
+    expect(summarize(findings).sort()).toEqual(['dev-dependency-in-source packages/web/src/app.tsx:3']);
+    expect(findings[0].suggestion).toContain('package.json');
+  });
+
+  it('checks requirements.txt, go.mod and Cargo.toml against imports', async () => {
+    await project.write({
+      'requirements.txt': 'requests==2.31.0\nPyYAML>=6.0\nflask\n',
+      'requirements-dev.txt': 'pytest==8.0.0\n',
+      'go.mod': 'module example.com/shop\n\nrequire (\n\tgithub.com/gin-gonic/gin v1.9.1\n\tgolang.org/x/text v0.14.0 // indirect\n)\n',
+      'Cargo.toml': '[package]\nname = "shop"\nversion = "0.1.0"\n\n[dependencies]\nserde = { version = "1", features = ["derive"] }\nserde_json = "1"\n\n[dev-dependencies]\ntempfile = "3"\n',
+    });
+    const sources = {
+      'app/main.py': 'import os\nimport requests\nimport yaml\nfrom .models import User\nimport numpy as np',
+      'app/models.py': 'User = 1',
+      'tests/test_app.py': 'import pytest',
+      'cmd/server.go': 'package main\n\nimport (\n\t"fmt"\n\t"github.com/gin-gonic/gin/binding"\n\t"example.com/shop/internal/db"\n\t"github.com/google/uuid"\n)',
+      'src/main.rs': 'use serde::Serialize;\nuse tempfile::NamedTempFile;\nfn main() { let v = serde_json::json!({}); }',
+    };
+
+    const findings = await analyzer.analyze(makeContext(sources));
+
+    expect(summarize(findings).sort()).toEqual([
+      'dev-dependency-in-source src/main.rs:2',
+      'missing-dependency app/main.py:5',
+      'missing-dependency cmd/server.go:7',
+      'unused-dependency requirements.txt:3',
+    ]);
+  });
+
+  it('reports nothing when disabled', async () => {
+    const context: AnalysisContext = { files: [], parsedFiles: [], config: DEFAULT_CONFIG, projectRoot: '/project' };
+    expect(await analyzer.analyze(context)).toEqual([]);
+  });
+});
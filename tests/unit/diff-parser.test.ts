@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseDiff, detectLanguage } from '../../src/core/diff-parser.js';
+import { parseDiff, detectLanguage, originalContent } from '../../src/core/diff-parser.js';
 
 describe('detectLanguage', () => {
   it('detects TypeScript files', () => {
@@ -132,3 +132,27 @@ index abc..def 100644
     expect(added[1].lineNumber).toBe(7);
   });
 });
+
+describe('originalContent', () => {
+  it('rebuilds the file before the change from its hunks', () => {
+    const diff = `diff --git a/list.txt b/list.txt
+index abc..def 100644
+--- a/list.txt
++++ b/list.txt
+@@ -1,3 +1,3 @@
+ a
+-b
++B
+ c
+@@ -6,0 +7,2 @@ f
++g
++h
+@@ -8,2 +10 @@ h
+ i
+-j`;
+
+    const [file] = parseDiff(diff);
+    const after = ['a', 'B', 'c', 'd', 'e', 'f', 'g', 'h', 'x', 'i'].join('\n');
+    expect(originalContent(file, after).split('\n')).toEqual(['a', 'b', 'c', 'd', 'e', 'f', 'x', 'i', 'j']);
+  });
+});
@@ -1,4 +1,8 @@
 import { describe, it, expect } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { execFileSync } from 'node:child_process';
 import { LayerViolationDetector } from '../../src/analyzers/layer-violation.js';
 import {
   Severity,
@@ -8,6 +12,7 @@ import {
   type ParsedFile,
 } from '../../src/core/types.js';
 import { DEFAULT_CONFIG } from '../../src/core/config-loader.js';
+import { parseSource } from '../../src/parsers/tree-sitter-manager.js';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -409,4 +414,47 @@ describe('LayerViolationDetector', () => {
     expect(findings).toHaveLength(1);
     expect(findings[0].ruleId).toBe('architecture/layer-violation');
   });
+
+  // --- module-based languages -----------------------------------------------
+
+  it('resolves Python module imports against project files outside the diff', async () => {
+    const config = makeArchConfig({
+      layers: [
+        { name: 'api', patterns: ['app/api/**'] },
+        { name: 'db', patterns: ['app/db/**'] },
+      ],
+      rules: [{ from: 'api', deny: ['db'] }],
+    });
+    const content = 'import os\nfrom app.db import session\n';
+    const file = (path: string, text: string): FileInfo => ({
+      path,
+      language: 'python',
+      status: 'added',
+      hunks: [],
+      addedLines: text.split('\n').map((line, i) => ({ lineNumber: i + 1, content: line, type: 'added' as const })),
+      removedLines: [],
+      content: text,
+    });
+    // Only the importing file is in the diff; the imported module is already tracked
+    const projectRoot = await mkdtemp(join(tmpdir(), 'archguard-layers-'));
+    try {
+      await mkdir(join(projectRoot, 'app/db'), { recursive: true });
+      await writeFile(join(projectRoot, 'app/db/session.py'), 'x = 1\n');
+      execFileSync('git', ['init', '-q'], { cwd: projectRoot });
+      execFileSync('git', ['add', '-A'], { cwd: projectRoot });
+
+      const ctx: AnalysisContext = {
+        files: [file('app/api/routes.py', content)],
+        parsedFiles: [{ path: 'app/api/routes.py', language: 'python', tree: parseSource('python', content), content }],
+        config,
+        projectRoot,
+      };
+
+      const findings = await detector.analyze(ctx);
+      expect(findings).toHaveLength(1);
+      expect(findings[0]).toMatchObject({ line: 2, message: "Layer violation: 'api' cannot import from 'db'" });
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
 });
@@ -0,0 +1,301 @@
+import { describe, it, expect } from 'vitest';
+import { parseLockfile, parseImporters } from '../../src/core/lockfiles.js';
+
+function summarize(file: string, content: string): string[] {
+  return parseLockfile(file, content).map(p => {
+    const flags = [p.dev === true && 'dev', p.integrity && `#${p.integrity.slice(0, 10)}`].filter(Boolean).join(' ');
+    return `${p.name}@${p.version}${flags ? ` ${flags}` : ''} -> [${p.dependencies.join(', ')}]`;
+  });
+}
+
+describe('lockfile parsers', () => {
+  it('reads package-lock.json v3 and resolves nested copies like require()', () => {
+    const lock = {
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app', dependencies: { express: '^4.18.0' } },
+        'node_modules/express': { version: '4.18.2', integrity: 'sha512-express', license: 'MIT', dependencies: { debug: '2.6.9', ms: '^2.1.0' } },
+        'node_modules/express/node_modules/debug': { version: '2.6.9', integrity: 'sha512-debug2', dependencies: { ms: '2.0.0' } },
+        'node_modules/express/node_modules/debug/node_modules/ms': { version: '2.0.0' },
+        'node_modules/debug': { version: '4.3.4', dev: true, dependencies: { ms: '2.1.2' } },
+        'node_modules/ms': { version: '2.1.2' },
+        'node_modules/@acme/web': { resolved: 'packages/web', link: true },
+        'packages/web': { name: '@acme/web', version: '1.0.0' },
+      },
+    };
+
+    expect(summarize('package-lock.json', JSON.stringify(lock))).toEqual([
+      'express@4.18.2 #sha512-exp -> [debug@2.6.9, ms@2.1.2]',
+      'debug@4.3.4 dev -> [ms@2.1.2]',
+      'ms@2.1.2 -> []',
+      'debug@2.6.9 #sha512-deb -> [ms@2.0.0]',
+      'ms@2.0.0 -> []',
+    ]);
+    expect(parseLockfile('package-lock.json', JSON.stringify(lock)).map(p => p.license)).toEqual(['MIT', undefined, undefined, undefined, undefined]);
+  });
+
+  it('reads classic and berry yarn.lock files through their descriptors', () => {
+    const classic = [
+      '# yarn lockfile v1',
+      '',
+      '"@babel/code-frame@^7.0.0", "@babel/code-frame@^7.10.4":',
+      '  version "7.12.13"',
+      '  resolved "https://registry.yarnpkg.com/@babel/code-frame/-/code-frame-7.12.13.tgz#abc"',
+      '  integrity sha512-frame',
+      '  dependencies:',
+      '    "@babel/highlight" "^7.10.4"',
+      '',
+      '"@babel/highlight@^7.10.4":',
+      '  version "7.14.0"',
+      '  integrity sha512-highlight',
+      '',
+    ].join('\n');
+    const berry = [
+      '__metadata:',
+      '  version: 6',
+      '',
+      '"lodash@npm:^4.17.0, lodash@npm:^4.17.21":',
+      '  version: 4.17.21',
+      '  resolution: "lodash@npm:4.17.21"',
+      '  dependencies:',
+      '    ms: ^2.1.0',
+      '  checksum: 10c0/abcdef',
+      '',
+      '"ms@npm:^2.1.0":',
+      '  version: 2.1.3',
+      '  checksum: 10c0/123456',
+      '',
+      '"app@workspace:.":',
+      '  version: 0.0.0-use.local',
+      '',
+    ].join('\n');
+
+    expect(summarize('yarn.lock', classic)).toEqual([
+      '@babel/code-frame@7.12.13 #sha512-fra -> [@babel/highlight@7.14.0]',
+      '@babel/highlight@7.14.0 #sha512-hig -> []',
+    ]);
+    expect(summarize('yarn.lock', berry)).toEqual([
+      'lodash@4.17.21 #10c0/abcde -> [ms@2.1.3]',
+      'ms@2.1.3 #10c0/12345 -> []',
+    ]);
+  });
+
+  it('reads pnpm-lock.yaml v6 and v9', () => {
+    const v6 = [
+      "lockfileVersion: '6.0'",
+      'packages:',
+      '  /react-dom@18.2.0(react@18.2.0):',
+      '    resolution: {integrity: sha512-reactdom}',
+      '    dependencies:',
+      '      react: 18.2.0',
+      '    dev: false',
+      '  /react@18.2.0:',
+      '    resolution: {integrity: sha512-react}',
+      '    dev: true',
+    ].join('\n');
+    const v9 = [
+      "lockfileVersion: '9.0'",
+      'packages:',
+      '  react-dom@18.2.0:',
+      '    resolution: {integrity: sha512-reactdom}',
+      '  react@18.2.0:',
+      '    resolution: {integrity: sha512-react}',
+      'snapshots:',
+      '  react-dom@18.2.0(react@18.2.0):',
+      '    dependencies:',
+      '      react: 18.2.0',
+      '      string-width-cjs: string-width@4.2.3',
+      '  react@18.2.0: {}',
+    ].join('\n');
+
+    expect(summarize('pnpm-lock.yaml', v6)).toEqual([
+      'react-dom@18.2.0 #sha512-rea -> [react@18.2.0]',
+      'react@18.2.0 dev #sha512-rea -> []',
+    ]);
+    expect(summarize('pnpm-lock.yaml', v9)).toEqual([
+      'react-dom@18.2.0 #sha512-rea -> [react@18.2.0, string-width@4.2.3]',
+      'react@18.2.0 #sha512-rea -> []',
+    ]);
+  });
+
+  it('reads go.sum, keeping the last version with a source hash', () => {
+    const goSum = [
+      'github.com/gin-gonic/gin v1.9.0 h1:old=',
+      'github.com/gin-gonic/gin v1.9.0/go.mod h1:oldmod=',
+      'github.com/gin-gonic/gin v1.9.1 h1:new=',
+      'github.com/gin-gonic/gin v1.9.1/go.mod h1:newmod=',
+      'golang.org/x/text v0.3.0/go.mod h1:modonly=',
+    ].join('\n');
+
+    expect(summarize('go.sum', goSum)).toEqual(['github.com/gin-gonic/gin@v1.9.1 #h1:new= -> []']);
+  });
+
+  it('reads Cargo.lock, poetry.lock and uv.lock package tables', () => {
+    const cargo = [
+      'version = 3',
+      '',
+      '[[package]]',
+      'name = "app"',
+      'version = "0.1.0"',
+      'dependencies = [',
+      ' "serde",',
+      ']',
+      '',
+      '[[package]]',
+      'name = "serde"',
+      'version = "1.0.190"',
+      'source = "registry+https://github.com/rust-lang/crates.io-index"',
+      'checksum = "91d3c334ca1ee894a2c6f6ad698fe8c435b76d504b13d436f0685d648d6d96f7"',
+      'dependencies = [',
+      ' "serde_derive 1.0.190 (registry+https://github.com/rust-lang/crates.io-index)",',
+      ']',
+      '',
+      '[[package]]',
+      'name = "serde_derive"',
+      'version = "1.0.190"',
+      'source = "registry+https://github.com/rust-lang/crates.io-index"',
+    ].join('\n');
+    const poetry = [
+      '[[package]]',
+      'name = "requests"',
+      'version = "2.31.0"',
+      'category = "main"',
+      'files = [',
+      '    {file = "requests-2.31.0-py3-none-any.whl", hash = "sha256:58cd2187"},',
+      ']',
+      '',
+      '[package.dependencies]',
+      'charset-normalizer = ">=2,<4"',
+      'urllib3 = {version = ">=1.21.1,<3"}',
+      '',
+      '[package.extras]',
+      'socks = ["PySocks (>=1.5.6,!=1.5.7)"]',
+      '',
+      '[[package]]',
+      'name = "charset-normalizer"',
+      'version = "3.3.2"',
+      'category = "dev"',
+      '',
+      '[[package]]',
+      'name = "urllib3"',
+      'version = "2.1.0"',
+      '',
+      '[metadata]',
+      'lock-version = "2.0"',
+    ].join('\n');
+    const uv = [
+      'version = 1',
+      '',
+      '[[package]]',
+      'name = "app"',
+      'version = "0.1.0"',
+      'source = { editable = "." }',
+      'dependencies = [{ name = "httpx" }]',
+      '',
+      '[[package]]',
+      'name = "httpx"',
+      'version = "0.27.0"',
+      'source = { registry = "https://pypi.org/simple" }',
+      'dependencies = [',
+      '    { name = "idna" },',
+      ']',
+      'sdist = { url = "https://files.pythonhosted.org/httpx-0.27.0.tar.gz", hash = "sha256:a0cb88a4", size = 1 }',
+      '',
+      '[[package]]',
+      'name = "idna"',
+      'version = "3.6"',
+      'source = { registry = "https://pypi.org/simple" }',
+    ].join('\n');
+
+    expect(summarize('Cargo.lock', cargo)).toEqual([
+      'serde@1.0.190 #sha256:91d -> [serde_derive@1.0.190]',
+      'serde_derive@1.0.190 -> []',
+    ]);
+    expect(summarize('poetry.lock', poetry)).toEqual([
+      'requests@2.31.0 #sha256:58c -> [charset-normalizer@3.3.2, urllib3@2.1.0]',
+      'charset-normalizer@3.3.2 dev -> []',
+      'urllib3@2.1.0 -> []',
+    ]);
+    expect(summarize('uv.lock', uv)).toEqual([
+      'httpx@0.27.0 #sha256:a0c -> [idna@3.6]',
+      'idna@3.6 -> []',
+    ]);
+  });
+
+  it('records where packages come from and the line of their entry', () => {
+    const sources = (file: string, content: string) => parseLockfile(file, content)
+      .map(p => `${p.name}:${p.line} ${p.source ? `${p.source.type} ${p.source.url}` : '-'}${p.installScript ? ' scripts' : ''}`);
+
+    const pnpm = [
+      "lockfileVersion: '9.0'",
+      '',
+      'importers:',
+      '  .:',
+      '    dependencies:',
+      '      esbuild:',
+      '        specifier: ^0.20.0',
+      '        version: 0.20.0',
+      '  packages/web:',
+      '    dependencies:',
+      '      react:',
+      '        specifier: ^18.2.0',
+      '        version: 18.2.0(react-dom@18.2.0)',
+      '',
+      'packages:',
+      '  esbuild@0.20.0:',
+      '    resolution: {integrity: sha512-esbuild}',
+      '    requiresBuild: true',
+      '  react@18.2.0:',
+      '    resolution: {integrity: sha512-react}',
+      "  'tiny@https://codeload.github.com/acme/tiny/tar.gz/abc':",
+      '    resolution: {tarball: https://codeload.github.com/acme/tiny/tar.gz/abc}',
+      '    name: tiny',
+      '    version: 1.0.0',
+    ].join('\n');
+    expect(sources('pnpm-lock.yaml', pnpm)).toEqual([
+      'esbuild:16 - scripts',
+      'react:19 -',
+      'tiny:21 url https://codeload.github.com/acme/tiny/tar.gz/abc',
+    ]);
+    expect(parseImporters('pnpm-lock.yaml', pnpm)).toEqual({ '': { esbuild: '0.20.0' }, 'packages/web': { react: '18.2.0' } });
+
+    const yarn = [
+      '# yarn lockfile v1',
+      '',
+      'left-pad@^1.3.0:',
+      '  version "1.3.0"',
+      '  resolved "https://registry.yarnpkg.com/left-pad/-/left-pad-1.3.0.tgz#5b8a3a7765dfe001261dde915589e782f8c94d1e"',
+    ].join('\n');
+    expect(sources('yarn.lock', yarn)).toEqual(['left-pad:3 registry https://registry.yarnpkg.com/left-pad/-/left-pad-1.3.0.tgz#5b8a3a7765dfe001261dde915589e782f8c94d1e']);
+    expect(parseLockfile('yarn.lock', yarn)[0].integrity).toBe('sha1-W4o6d2Xf4AEmHd6RVYnngvjJTR4=');
+
+    const poetry = [
+      '[[package]]',
+      'name = "private-lib"',
+      'version = "1.0.0"',
+      '',
+      '[package.source]',
+      'type = "git"',
+      'url = "https://github.com/acme/private-lib.git"',
+      'reference = "main"',
+      'resolved_reference = "abc123"',
+    ].join('\n');
+    expect(sources('poetry.lock', poetry)).toEqual(['private-lib:1 git https://github.com/acme/private-lib.git#abc123']);
+
+    const pipfile = JSON.stringify({
+      _meta: { sources: [{ name: 'pypi', url: 'https://pypi.org/simple' }] },
+      default: {
+        requests: { hashes: ['sha256:58cd'], index: 'pypi', version: '==2.31.0' },
+        mylib: { git: 'https://github.com/acme/mylib.git', ref: 'abc123' },
+      },
+    }, null, 4);
+    expect(sources('Pipfile.lock', pipfile)).toEqual([
+      'requests:11 registry https://pypi.org/simple',
+      'mylib:18 git https://github.com/acme/mylib.git#abc123',
+    ]);
+  });
+
+  it('returns nothing for unreadable content', () => {
+    expect(parseLockfile('package-lock.json', '{ not json')).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { PassThrough } from 'node:stream';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { pathToFileURL } from 'node:url';
+import { LspServer } from '../../src/lsp/server.js';
+import { readMessages, writeMessage, type Message } from '../../src/lsp/json-rpc.js';
+
+let tempDir: string;
+let sent: Message[];
+let server: LspServer;
+
+function uri(file: string): string {
+  return pathToFileURL(join(tempDir, file)).href;
+}
+
+function diagnosticsFor(file: string): any[] | undefined {
+  const published = sent.filter((m: any) => m.method === 'textDocument/publishDiagnostics' && m.params.uri === uri(file));
+  return (published.at(-1) as any)?.params.diagnostics;
+}
+
+async function open(file: string, text: string): Promise<void> {
+  await server.handle({ jsonrpc: '2.0', method: 'textDocument/didOpen', params: { textDocument: { uri: uri(file), languageId: 'typescript', version: 1, text } } });
+  await server.settle();
+}
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'archguard-lsp-test-'));
+  sent = [];
+  server = new LspServer(message => sent.push(message), () => {}, { debounceMs: 0 });
+  await server.handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { rootUri: pathToFileURL(tempDir).href } });
+  await server.handle({ jsonrpc: '2.0', method: 'initialized', params: {} });
+  await server.settle();
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe('LspServer', () => {
+  it('advertises document sync and code actions', () => {
+    const response = sent.find((m: any) => m.id === 1) as any;
+    expect(response.result.capabilities.codeActionProvider).toBeDefined();
+    expect(response.result.capabilities.textDocumentSync.change).toBe(1);
+  });
+
+  it('publishes diagnostics for unsaved editor contents', async () => {
+    await writeFile(join(tempDir, 'a.ts'), 'function ok() {}\n');
+    await open('a.ts', 'function ok() {}\neval(input);\n');
+
+    const diagnostics = diagnosticsFor('a.ts');
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics![0]).toMatchObject({ code: 'security/eval', severity: 1, source: 'archguardian' });
+    expect(diagnostics![0].range.start.line).toBe(1);
+
+    await server.handle({ jsonrpc: '2.0', method: 'textDocument/didChange', params: { textDocument: { uri: uri('a.ts') }, contentChanges: [{ text: 'function ok() {}\n' }] } });
+    await server.settle();
+    expect(diagnosticsFor('a.ts')).toEqual([]);
+  });
+
+  it('offers a suppression action and a registered fix', async () => {
+    await open('a.ts', 'function f() {\n  eval(input);\n}\nconst myValue = 1;\n');
+    const diagnostics = diagnosticsFor('a.ts')!;
+
+    await server.handle({ jsonrpc: '2.0', id: 2, method: 'textDocument/codeAction', params: { textDocument: { uri: uri('a.ts') }, range: diagnostics[0].range, context: { diagnostics } } });
+    const actions = (sent.find((m: any) => m.id === 2) as any).result;
+
+    const suppress = actions.find((a: any) => a.title === 'Suppress security/eval with archguard-ignore');
+    expect(suppress.edit.changes[uri('a.ts')][0]).toMatchObject({
+      range: { start: { line: 1, character: 0 } },
+      newText: '  // archguard-ignore security/eval\n',
+    });
+
+    const rename = actions.find((a: any) => a.title === 'Fix convention/constant-naming');
+    expect(rename.edit.changes[uri('a.ts')][0].newText).toContain('const MY_VALUE = 1;');
+  });
+
+  it('answers unknown requests with MethodNotFound', async () => {
+    await server.handle({ jsonrpc: '2.0', id: 3, method: 'textDocument/hover', params: {} });
+    expect((sent.find((m: any) => m.id === 3) as any).error.code).toBe(-32601);
+  });
+
+  it('ignores JSON bodies that are not message objects', async () => {
+    const before = sent.length;
+    for (const body of [null, 1, 'text', []]) {
+      await expect(server.handle(body as unknown as Message)).resolves.toBeUndefined();
+    }
+    expect(sent).toHaveLength(before);
+  });
+});
+
+describe('readMessages', () => {
+  it('reassembles framed messages split across chunks', async () => {
+    const stream = new PassThrough();
+    const received: Message[] = [];
+    readMessages(stream, message => received.push(message));
+
+    const out = new PassThrough();
+    const chunks: Buffer[] = [];
+    out.on('data', chunk => chunks.push(chunk));
+    writeMessage(out, { jsonrpc: '2.0', method: 'a', params: { text: 'héllo' } });
+    writeMessage(out, { jsonrpc: '2.0', id: 1, method: 'b' });
+    const framed = Buffer.concat(chunks);
+
+    stream.write(framed.subarray(0, 10));
+    stream.write(framed.subarray(10, 40));
+    stream.write(framed.subarray(40));
+    await new Promise(r => setImmediate(r));
+
+    expect(received.map((m: any) => m.method)).toEqual(['a', 'b']);
+    expect((received[0] as any).params.text).toBe('héllo');
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'node:path';
+import { loadModuleResolution, moduleCandidates, parseJsonc } from '../../src/core/module-resolution.js';
+import { buildDependencyGraph } from '../../src/core/dependency-graph.js';
+import { parsedFile, useTempProject } from '../helpers/temp-project.js';
+
+const project = useTempProject('resolution-test');
+
+describe('parseJsonc', () => {
+  it('accepts comments and trailing commas but keeps them inside strings', () => {
+    const text = '{\n  // line\n  "a": "http://x/*y*/", /* block */\n  "b": [1, 2,],\n}';
+    expect(parseJsonc(text)).toEqual({ a: 'http://x/*y*/', b: [1, 2] });
+  });
+});
+
+describe('loadModuleResolution', () => {
+  it('follows tsconfig extends chains for paths and baseUrl', async () => {
+    await project.write({
+      'tsconfig.base.json': '{ "compilerOptions": { "baseUrl": ".", "paths": { "@app/*": ["src/app/*"] } } }',
+      'tsconfig.json': '{ "extends": "./tsconfig.base.json", // shared options\n "compilerOptions": { "strict": true, } }',
+    });
+
+    const resolution = await loadModuleResolution(project.dir);
+
+    expect(moduleCandidates('@app/users', 'src/index.ts', resolution)).toEqual(['src/app/users', '@app/users']);
+    expect(moduleCandidates('lib/util', 'src/index.ts', resolution)).toEqual(['lib/util']);
+  });
+
+  it('resolves paths relative to the declaring tsconfig when there is no baseUrl', async () => {
+    await project.write({
+      'configs/tsconfig.paths.json': { compilerOptions: { paths: { '~/*': ['../src/*'] } } },
+      'tsconfig.json': { extends: './configs/tsconfig.paths.json' },
+    });
+
+    const resolution = await loadModuleResolution(project.dir);
+    expect(moduleCandidates('~/db', 'src/a.ts', resolution)).toEqual(['src/db']);
+  });
+
+  it('maps workspace package names through exports, falling back to sources for build output', async () => {
+    await project.write({
+      'package.json': { name: 'root', private: true, workspaces: ['packages/*'] },
+      'packages/core/package.json': {
+        name: '@acme/core',
+        exports: { '.': { types: './dist/index.d.ts', import: './dist/index.js' }, './utils/*': './src/utils/*.ts' },
+      },
+      'packages/ui/package.json': { name: '@acme/ui', main: 'lib/main.js' },
+    });
+
+    const resolution = await loadModuleResolution(project.dir);
+
+    expect(moduleCandidates('@acme/core', 'apps/web.ts', resolution)).toEqual([
+      'packages/core/dist/index.js', 'packages/core/src/index.js',
+      'packages/core/dist/index.d.ts', 'packages/core/src/index.d.ts',
+    ]);
+    expect(moduleCandidates('@acme/core/utils/date', 'apps/web.ts', resolution)).toEqual(['packages/core/src/utils/date.ts']);
+    expect(moduleCandidates('@acme/core/internal', 'apps/web.ts', resolution)).toEqual([]);
+    expect(moduleCandidates('@acme/ui', 'apps/web.ts', resolution)).toContain('packages/ui/src/main.js');
+  });
+
+  it('reads pnpm workspaces and package imports of the nearest package', async () => {
+    await project.write({
+      'package.json': { name: 'root' },
+      'pnpm-workspace.yaml': 'packages:\n  - "libs/**"\n  - "!libs/legacy"\n',
+      'libs/a/package.json': { name: 'a', imports: { '#internal/*': './src/internal/*.ts', '#dep': 'lodash' } },
+      'libs/legacy/package.json': { name: 'legacy' },
+    });
+
+    const resolution = await loadModuleResolution(project.dir);
+
+    expect(resolution.packages.map(p => p.name).sort()).toEqual(['a', 'root']);
+    expect(moduleCandidates('#internal/x', 'libs/a/src/index.ts', resolution)).toEqual(['libs/a/src/internal/x.ts']);
+    expect(moduleCandidates('#dep', 'libs/a/src/index.ts', resolution)).toEqual([]);
+  });
+
+  it('reads Go modules from go.mod and go.work', async () => {
+    await project.write({
+      'go.mod': 'module example.com/shop\n\ngo 1.22\n',
+      'go.work': 'go 1.22\n\nuse (\n\t.\n\t./tools // codegen\n)\n',
+      'tools/go.mod': 'module example.com/shop/tools\n',
+    });
+
+    const { goModules } = await loadModuleResolution(project.dir);
+    expect(goModules).toEqual([
+      { dir: 'tools', path: 'example.com/shop/tools' },
+      { dir: '', path: 'example.com/shop' },
+    ]);
+  });
+
+  it('reads the root crate and Cargo workspace members', async () => {
+    await project.write({
+      'Cargo.toml': '[package]\nname = "server"\n\n[workspace]\nmembers = ["crates/*"]\nexclude = ["crates/scratch"]\n\n[dependencies]\nname = "not-a-package"\n',
+      'crates/shared-types/Cargo.toml': '[package]\nname = "shared-types"\nversion = "0.1.0"\n',
+      'crates/scratch/Cargo.toml': '[package]\nname = "scratch"\n',
+    });
+
+    const { rustCrates } = await loadModuleResolution(project.dir);
+    expect(rustCrates).toEqual([
+      { name: 'server', dir: '' },
+      { name: 'shared-types', dir: 'crates/shared-types' },
+    ]);
+  });
+
+  it('is empty for a project without configuration', async () => {
+    expect(await loadModuleResolution(join(project.dir, 'missing'))).toEqual({
+      tsconfigs: [], packages: [], goModules: [], rustCrates: [],
+    });
+  });
+});
+
+describe('buildDependencyGraph with module resolution', () => {
+  it('links imports through path aliases and workspace packages', async () => {
+    await project.write({
+      'package.json': { name: 'root', workspaces: { packages: ['packages/*'] } },
+      'packages/shared/package.json': { name: '@acme/shared', main: './dist/index.js' },
+      'tsconfig.json': { compilerOptions: { paths: { '@/*': ['./src/*'] } } },
+    });
+    const files = [
+      parsedFile('src/app.ts', `import { db } from '@/db/client';\nimport { log } from '@acme/shared';\nimport chalk from 'chalk';`),
+      parsedFile('src/db/client.ts', `export const db = 1;`),
+      parsedFile('packages/shared/src/index.ts', `export const log = 1;`),
+    ];
+
+    const graph = buildDependencyGraph(files, project.dir, await loadModuleResolution(project.dir));
+
+    expect(graph.nodes.get('src/app.ts')!.imports).toEqual(['src/db/client.ts', 'packages/shared/src/index.ts']);
+    expect(graph.nodes.get('packages/shared/src/index.ts')!.importedBy).toEqual(['src/app.ts']);
+  });
+});
@@ -86,4 +86,39 @@ describe('runPipeline', () => {
     expect(summary.analyzerResults[0].error).toBeDefined();
     expect(summary.totalFindings).toBe(0);
   });
+
+  it('keeps findings reported before a per-analyzer timeout', async () => {
+    const config = { ...DEFAULT_CONFIG, timeouts: { default: 5000, analyzers: { security: 30 } } };
+    const slow: Analyzer = {
+      name: 'security',
+      async analyze(context) {
+        context.deadline?.report([makeFinding({ file: 'a.ts' })]);
+        context.deadline?.complete('a.ts');
+        await new Promise(r => setTimeout(r, 200));
+        return [];
+      },
+    };
+    const files = ['a.ts', 'b.ts'].map(path => ({ path, content: '', language: 'typescript' as const, tree: {} as never }));
+
+    const summary = await runPipeline(makeContext({ config, parsedFiles: files }), [slow]);
+    expect(summary.analyzerResults[0].timedOut).toBe(true);
+    expect(summary.totalFindings).toBe(1);
+    expect(summary.skippedFiles).toEqual(['b.ts']);
+  });
+
+  it('reports files an analyzer skipped at its deadline', async () => {
+    const partial: Analyzer = {
+      name: 'security',
+      async analyze(context) {
+        context.deadline?.skip(['b.ts']);
+        return [makeFinding({ file: 'a.ts' })];
+      },
+    };
+
+    const summary = await runPipeline(makeContext(), [partial]);
+    expect(summary.analyzerResults[0].timedOut).toBe(true);
+    expect(summary.analyzerResults[0].error).toContain('1 files left');
+    expect(summary.totalFindings).toBe(1);
+    expect(summary.skippedFiles).toEqual(['b.ts']);
+  });
 });
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { loadPlugins, loadPluginManifests, getPluginFormatter, teardownPlugins } from '../../src/plugins/loader.js';
+import { getAvailableFixes } from '../../src/fixes/index.js';
+import { DEFAULT_CONFIG } from '../../src/core/config-loader.js';
+import type { ArchGuardConfig, PluginConfig } from '../../src/core/types.js';
+
+let tempDir: string;
+
+const V2_PLUGIN = `
+export const events = [];
+export default {
+  apiVersion: 2,
+  name: 'acme',
+  analyzers: [{ name: 'acme', async analyze() { return []; } }],
+  rules: [{ id: 'acme/no-foo', name: 'No foo', description: 'Bans foo', severity: 'warning', analyzer: 'acme' }],
+  configSchema: {
+    safeParse(value) {
+      return typeof value.limit === 'number'
+        ? { success: true, data: value }
+        : { success: false, error: { issues: [{ path: ['limit'], message: 'Expected number' }] } };
+    },
+  },
+  fixes: [{ ruleId: 'acme/no-foo', async apply() { return { applied: true, description: '' }; }, async preview() { return ''; } }],
+  formatters: { count: (summary) => String(summary.totalFindings) },
+  setup({ options }) { events.push('setup:' + options.limit); },
+  teardown() { events.push('teardown'); },
+};
+`;
+
+function withPlugins(plugins: Array<string | PluginConfig>): ArchGuardConfig {
+  return { ...DEFAULT_CONFIG, plugins };
+}
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'archguard-plugin-test-'));
+  await writeFile(join(tempDir, 'acme.mjs'), V2_PLUGIN);
+});
+
+afterEach(async () => {
+  await teardownPlugins();
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe('loadPluginManifests', () => {
+  it('loads a v2 manifest from a local path and runs its hooks once', async () => {
+    const config = withPlugins([{ name: './acme.mjs', enabled: true, options: { limit: 3 } }]);
+    const [plugin] = await loadPluginManifests(config, tempDir);
+    await loadPluginManifests(config, tempDir);
+
+    expect(plugin.enabled).toBe(true);
+    expect(plugin.manifest.rules?.[0].id).toBe('acme/no-foo');
+    expect((await loadPlugins(config, tempDir)).map(a => a.name)).toEqual(['acme']);
+    expect(getAvailableFixes().some(f => f.ruleId === 'acme/no-foo')).toBe(true);
+    expect(await getPluginFormatter(config, tempDir, 'count')).toBeTypeOf('function');
+
+    const { events } = await import(join(tempDir, 'acme.mjs'));
+    await teardownPlugins();
+    expect(events).toEqual(['setup:3', 'teardown']);
+  });
+
+  it('disables a plugin whose options fail its config schema', async () => {
+    const config = withPlugins([{ name: './acme.mjs', enabled: true, options: { limit: 'lots' } }]);
+    const [plugin] = await loadPluginManifests(config, tempDir);
+
+    expect(plugin.enabled).toBe(false);
+    expect(await loadPlugins(config, tempDir)).toEqual([]);
+  });
+
+  it('keeps rules but contributes no analyzers when disabled', async () => {
+    const config = withPlugins([{ name: './acme.mjs', enabled: false, options: {} }]);
+    const [plugin] = await loadPluginManifests(config, tempDir);
+
+    expect(plugin.manifest.rules).toHaveLength(1);
+    expect(await loadPlugins(config, tempDir)).toEqual([]);
+    expect(await getPluginFormatter(config, tempDir, 'count')).toBeUndefined();
+  });
+
+  it('accepts v1 plugins that export an array of analyzers', async () => {
+    await writeFile(join(tempDir, 'legacy.mjs'), `export default [{ name: 'legacy', async analyze() { return []; } }, { bogus: true }];`);
+    const analyzers = await loadPlugins(withPlugins(['./legacy.mjs']), tempDir);
+    expect(analyzers.map(a => a.name)).toEqual(['legacy']);
+  });
+
+  it('skips manifests with an unsupported apiVersion', async () => {
+    await writeFile(join(tempDir, 'future.mjs'), `export default { apiVersion: 3, name: 'future' };`);
+    expect(await loadPluginManifests(withPlugins(['./future.mjs']), tempDir)).toEqual([]);
+  });
+});
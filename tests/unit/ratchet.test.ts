@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { applyRatchet, evaluateRatchet, snapshotSummary } from '../../src/core/ratchet.js';
+import { saveDetailedRun } from '../../src/metrics/history.js';
+import { Severity, type AnalysisSummary, type Finding } from '../../src/core/types.js';
+
+function finding(ruleId: string, file: string): Finding {
+  return { ruleId, analyzer: ruleId.split('/')[0], severity: Severity.Warning, message: ruleId, file, line: 1 };
+}
+
+function summaryOf(findings: Finding[]): AnalysisSummary {
+  return {
+    totalFiles: 3,
+    totalFindings: findings.length,
+    errors: 0,
+    warnings: findings.length,
+    infos: 0,
+    duration: 10,
+    analyzerResults: [{ analyzer: 'security', findings, duration: 1 }],
+  };
+}
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'archguard-ratchet-test-'));
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe('evaluateRatchet', () => {
+  const reference = snapshotSummary(summaryOf([finding('security/xss', 'src/ui/a.ts'), finding('security/xss', 'src/ui/b.ts')]));
+
+  it('fails when a rule or directory count grows, even if the total does not', () => {
+    const current = snapshotSummary(summaryOf([finding('security/xss', 'src/ui/a.ts'), finding('security/eval', 'src/api/c.ts')]));
+    const { failures, improved } = evaluateRatchet(current, reference, ['rule', 'directory']);
+
+    expect(failures.map(f => f.metric).sort()).toEqual(['directory:src/api', 'rule:security/eval']);
+    expect(improved).toBe(true);
+  });
+
+  it('only checks the configured dimensions', () => {
+    const current = snapshotSummary(summaryOf([finding('security/xss', 'src/api/c.ts')]));
+    expect(evaluateRatchet(current, reference, ['rule']).failures).toEqual([]);
+    expect(evaluateRatchet(current, reference, ['directory']).failures).toHaveLength(1);
+  });
+});
+
+describe('applyRatchet', () => {
+  const config = { by: ['rule', 'directory'] as Array<'rule' | 'directory'> };
+
+  it('pins the latest scan in history and tightens it when counts drop', async () => {
+    await saveDetailedRun(tempDir, summaryOf([finding('security/xss', 'a.ts'), finding('security/xss', 'b.ts')]), 'scan');
+
+    const worse = await applyRatchet(summaryOf([finding('security/xss', 'a.ts'), finding('security/xss', 'b.ts'), finding('security/xss', 'c.ts')]), config, tempDir);
+    expect(worse.failures).toHaveLength(2);
+    expect(worse.updated).toBe(false);
+    const pinned = JSON.parse(await readFile(join(tempDir, '.archguard', 'ratchet.json'), 'utf-8'));
+    expect(pinned.byRule).toEqual({ 'security/xss': 2 });
+
+    const better = await applyRatchet(summaryOf([finding('security/xss', 'a.ts')]), config, tempDir);
+    expect(better).toMatchObject({ failures: [], updated: true });
+    const tightened = JSON.parse(await readFile(better.referencePath, 'utf-8'));
+    expect(tightened.byRule).toEqual({ 'security/xss': 1 });
+  });
+
+  it('creates a committed snapshot from the first run', async () => {
+    const result = await applyRatchet(summaryOf([finding('security/xss', 'a.ts')]), { ...config, snapshot: 'ratchet.json' }, tempDir);
+
+    expect(result).toMatchObject({ failures: [], updated: true, referencePath: join(tempDir, 'ratchet.json') });
+    const again = await applyRatchet(summaryOf([finding('security/xss', 'a.ts')]), { ...config, snapshot: 'ratchet.json' }, tempDir);
+    expect(again).toMatchObject({ failures: [], updated: false });
+  });
+});
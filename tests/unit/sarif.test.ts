@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { formatSarif } from '../../src/cli/output/sarif.js';
+import { Severity, type AnalysisSummary, type Finding } from '../../src/core/types.js';
+
+function summaryOf(findings: Finding[]): AnalysisSummary {
+  return {
+    totalFiles: 2,
+    totalFindings: findings.length,
+    errors: findings.length,
+    warnings: 0,
+    infos: 0,
+    duration: 5,
+    analyzerResults: [{ analyzer: 'taint', findings, duration: 1 }],
+  };
+}
+
+describe('formatSarif', () => {
+  it('emits taint flows as codeFlows', () => {
+    const finding: Finding = {
+      ruleId: 'taint/cross-file-flow',
+      analyzer: 'taint',
+      severity: Severity.Error,
+      message: "Tainted data flows to 'run()'",
+      file: 'src/app.ts',
+      line: 3,
+      flow: [
+        { file: 'src/app.ts', line: 2, message: 'User input from req.body' },
+        { file: 'src/lib.ts', line: 2, message: 'Tainted data flows to exec()' },
+      ],
+    };
+
+    const result = JSON.parse(formatSarif(summaryOf([finding]))).runs[0].results[0];
+    const locations = result.codeFlows[0].threadFlows[0].locations;
+
+    expect(locations).toHaveLength(2);
+    expect(locations[1].location).toEqual({
+      physicalLocation: { artifactLocation: { uri: 'src/lib.ts' }, region: { startLine: 2 } },
+      message: { text: 'Tainted data flows to exec()' },
+    });
+  });
+
+  it('leaves codeFlows out for findings without a flow', () => {
+    const finding: Finding = {
+      ruleId: 'security/eval',
+      analyzer: 'security',
+      severity: Severity.Error,
+      message: 'eval() usage',
+      file: 'src/app.ts',
+      line: 1,
+    };
+
+    const result = JSON.parse(formatSarif(summaryOf([finding]))).runs[0].results[0];
+    expect(result).not.toHaveProperty('codeFlows');
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { collectDependencies } from '../../src/core/dependency-collector.js';
+import { collectDependencies, type PackageDependency } from '../../src/core/dependency-collector.js';
+import { generateCycloneDx, generateCycloneDxXml, generateSpdx, generateSpdxTagValue, type SbomInfo } from '../../src/cli/commands/sbom.js';
 import { writeFile, mkdir, rm } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
@@ -47,6 +48,99 @@ require (
     expect(deps.some(d => d.name === 'github.com/gin-gonic/gin' && d.ecosystem === 'Go')).toBe(true);
   });
 
+  it('marks dev and indirect dependencies with their manifest lines', async () => {
+    await writeFile(join(testDir, 'package.json'), JSON.stringify({
+      dependencies: { react: '^18.2.0' },
+      devDependencies: { vitest: '^1.0.0' },
+    }, null, 2));
+    await writeFile(join(testDir, 'go.mod'), 'module m\n\nrequire github.com/lib/pq v1.10.9\nrequire (\n\tgolang.org/x/text v0.14.0 // indirect\n)\n');
+
+    const deps = await collectDependencies(testDir);
+
+    expect(deps).toEqual([
+      { name: 'react', version: '18.2.0', ecosystem: 'npm', line: 3 },
+      { name: 'vitest', version: '1.0.0', ecosystem: 'npm', dev: true, line: 6 },
+      { name: 'github.com/lib/pq', version: 'v1.10.9', ecosystem: 'Go', line: 3 },
+      { name: 'golang.org/x/text', version: 'v0.14.0', ecosystem: 'Go', indirect: true, line: 5 },
+    ]);
+  });
+
+  it('reads Cargo dependency tables without mistaking package fields for dependencies', async () => {
+    await writeFile(join(testDir, 'Cargo.toml'), [
+      '[package]', 'name = "app"', 'version = "0.1.0"', '',
+      '[dependencies]', 'serde = { version = "^1.0", features = ["derive"] }', 'local = { path = "../local" }', '',
+      '[dev-dependencies.tempfile]', 'version = "3.8"', '',
+      '[workspace.dependencies]', 'shared = "2"',
+    ].join('\n'));
+
+    const deps = await collectDependencies(testDir);
+
+    expect(deps).toEqual([
+      { name: 'serde', version: '1.0', ecosystem: 'crates.io', line: 6 },
+      { name: 'local', version: '', ecosystem: 'crates.io', line: 7 },
+      { name: 'tempfile', version: '3.8', ecosystem: 'crates.io', dev: true, line: 9 },
+    ]);
+  });
+
+  it('reads pom.xml dependency scopes and requirements files', async () => {
+    await writeFile(join(testDir, 'pom.xml'), `<project>
+  <groupId>com.acme</groupId><artifactId>app</artifactId><version>1.0</version>
+  <dependencyManagement><dependencies><dependency>
+    <groupId>org.managed</groupId><artifactId>bom</artifactId><version>1</version>
+  </dependency></dependencies></dependencyManagement>
+  <dependencies>
+    <dependency><groupId>com.google.guava</groupId><artifactId>guava</artifactId><version>33.0</version></dependency>
+    <dependency><groupId>org.junit.jupiter</groupId><artifactId>junit-jupiter</artifactId><scope>test</scope></dependency>
+    <dependency><groupId>org.postgresql</groupId><artifactId>postgresql</artifactId><scope>runtime</scope></dependency>
+  </dependencies>
+</project>`);
+    await writeFile(join(testDir, 'requirements.txt'), '# web\n-r base.txt\nDjango[argon2]>=4.2 ; python_version > "3.8"\nrequests==2.31.0  # http\nflask\n');
+    await writeFile(join(testDir, 'requirements-dev.txt'), 'pytest==8.0.0\n');
+
+    const deps = await collectDependencies(testDir);
+
+    expect(deps).toEqual([
+      { name: 'com.google.guava:guava', version: '33.0', ecosystem: 'Maven', line: 7 },
+      { name: 'org.junit.jupiter:junit-jupiter', version: '', ecosystem: 'Maven', dev: true, line: 8 },
+      { name: 'org.postgresql:postgresql', version: '', ecosystem: 'Maven', indirect: true, line: 9 },
+      { name: 'Django', version: '4.2', ecosystem: 'PyPI', line: 3 },
+      { name: 'requests', version: '2.31.0', ecosystem: 'PyPI', line: 4 },
+      { name: 'flask', version: '', ecosystem: 'PyPI', line: 5 },
+      { name: 'pytest', version: '8.0.0', ecosystem: 'PyPI', dev: true, line: 1 },
+    ]);
+  });
+
+  it('pins declared dependencies to the lockfile and adds transitive packages with their scope', async () => {
+    await writeFile(join(testDir, 'package.json'), JSON.stringify({
+      dependencies: { express: '^4.18.x' },
+      devDependencies: { vitest: '^1.0.0' },
+    }));
+    await writeFile(join(testDir, 'yarn.lock'), [
+      'express@^4.18.x:', '  version "4.18.2"', '  integrity sha512-express', '  dependencies:', '    ms "^2.1.0"', '',
+      'vitest@^1.0.0:', '  version "1.6.0"', '  dependencies:', '    ms "^2.1.0"', '    tinypool "^0.8.0"', '',
+      'ms@^2.1.0:', '  version "2.1.3"', '',
+      'tinypool@^0.8.0:', '  version "0.8.4"', '',
+    ].join('\n'));
+
+    const deps = await collectDependencies(testDir);
+
+    expect(deps).toEqual([
+      { name: 'express', version: '4.18.2', ecosystem: 'npm', line: 1, integrity: 'sha512-express', dependencies: ['ms@2.1.3'] },
+      { name: 'vitest', version: '1.6.0', ecosystem: 'npm', dev: true, line: 1, dependencies: ['ms@2.1.3', 'tinypool@0.8.4'] },
+      { name: 'ms', version: '2.1.3', ecosystem: 'npm', transitive: true },
+      { name: 'tinypool', version: '0.8.4', ecosystem: 'npm', dev: true, transitive: true },
+    ]);
+  });
+
+  it('leaves open npm ranges unversioned without a lockfile', async () => {
+    await writeFile(join(testDir, 'package.json'), JSON.stringify({
+      dependencies: { a: '1.2.x', b: '*', c: '>=2.0.0 <3', d: '~1.4.2', e: 'workspace:*' },
+    }));
+
+    const deps = await collectDependencies(testDir);
+    expect(deps.map(d => d.version)).toEqual(['', '', '', '1.4.2', '']);
+  });
+
   it('strips version prefixes from npm versions', async () => {
     await writeFile(join(testDir, 'package.json'), JSON.stringify({
       dependencies: { react: '^18.2.0' },
@@ -56,3 +150,88 @@ require (
     expect(deps[0].version).toBe('18.2.0');
   });
 });
+
+describe('sbom generators', () => {
+  const sha512 = Buffer.alloc(64, 0xab);
+  const deps: PackageDependency[] = [
+    {
+      name: '@acme/http', version: '2.0.0', ecosystem: 'npm', license: 'MIT',
+      integrity: `sha512-${sha512.toString('base64')}`, dependencies: ['ms@2.1.3'],
+    },
+    { name: 'vitest', version: '1.6.0', ecosystem: 'npm', dev: true, license: '(MIT OR Apache-2.0)', dependencies: ['ms@2.1.3'] },
+    { name: 'ms', version: '2.1.3', ecosystem: 'npm', transitive: true, license: 'SEE LICENSE IN LICENSE.md', integrity: 'sha512-bogus' },
+    { name: 'serde', version: '1.0.0', ecosystem: 'crates.io', integrity: `sha256:${'cd'.repeat(32)}` },
+  ];
+  const info: SbomInfo = { project: { name: 'app', version: '0.1.0', license: 'MIT' }, toolVersion: '9.9.9' };
+
+  it('emits CycloneDX components with scope, hashes, licenses and the dependency graph', () => {
+    const bom = generateCycloneDx(deps, info) as any;
+
+    expect(bom.serialNumber).toMatch(/^urn:uuid:[0-9a-f-]{36}$/);
+    expect(bom.metadata.tools.components[0].version).toBe('9.9.9');
+    expect(bom.metadata.component).toMatchObject({ 'bom-ref': 'project/app@0.1.0', name: 'app', licenses: [{ expression: 'MIT' }] });
+    expect(bom.components[0]).toEqual({
+      type: 'library',
+      'bom-ref': 'npm/@acme/http@2.0.0',
+      name: '@acme/http',
+      version: '2.0.0',
+      scope: 'required',
+      hashes: [{ alg: 'SHA-512', content: sha512.toString('hex') }],
+      licenses: [{ expression: 'MIT' }],
+      purl: 'pkg:npm/%40acme/http@2.0.0',
+    });
+    expect(bom.components.map((c: any) => c.scope)).toEqual(['required', 'excluded', 'required', 'required']);
+    expect(bom.components[2].hashes).toBeUndefined();
+    expect(bom.components[2].licenses).toEqual([{ license: { name: 'SEE LICENSE IN LICENSE.md' } }]);
+    expect(bom.components[3].hashes).toEqual([{ alg: 'SHA-256', content: 'cd'.repeat(32) }]);
+    expect(bom.dependencies).toEqual([
+      { ref: 'project/app@0.1.0', dependsOn: ['npm/@acme/http@2.0.0', 'npm/vitest@1.6.0', 'crates.io/serde@1.0.0'] },
+      { ref: 'npm/@acme/http@2.0.0', dependsOn: ['npm/ms@2.1.3'] },
+      { ref: 'npm/vitest@1.6.0', dependsOn: ['npm/ms@2.1.3'] },
+    ]);
+  });
+
+  it('writes CycloneDX XML in schema order with escaped values', () => {
+    const xml = generateCycloneDxXml([...deps, { name: 'a&b', version: '1.0', ecosystem: 'PyPI' }], info);
+
+    expect(xml).toContain('<bom xmlns="http://cyclonedx.org/schema/bom/1.5" serialNumber="urn:uuid:');
+    expect(xml).toContain([
+      '    <component type="library" bom-ref="npm/vitest@1.6.0">',
+      '      <name>vitest</name>',
+      '      <version>1.6.0</version>',
+      '      <scope>excluded</scope>',
+      '      <licenses><expression>(MIT OR Apache-2.0)</expression></licenses>',
+      '      <purl>pkg:npm/vitest@1.6.0</purl>',
+      '    </component>',
+    ].join('\n'));
+    expect(xml).toContain('<name>a&#38;b</name>');
+    expect(xml).toContain('<dependency ref="npm/@acme/http@2.0.0">\n      <dependency ref="npm/ms@2.1.3"/>\n    </dependency>');
+  });
+
+  it('relates SPDX packages to the project by scope and to each other', () => {
+    const document = generateSpdx(deps, info);
+
+    expect(document.creationInfo).toMatchObject({ creators: ['Tool: archguardian-9.9.9'] });
+    expect(document.creationInfo.created).toMatch(/^\d{4}-\d\d-\d\dT\d\d:\d\d:\d\dZ$/);
+    expect(document.packages[1]).toMatchObject({
+      SPDXID: 'SPDXRef-Package-1',
+      checksums: [{ algorithm: 'SHA512', checksumValue: sha512.toString('hex') }],
+      licenseDeclared: 'MIT',
+    });
+    expect(document.packages[3].licenseDeclared).toBe('NOASSERTION');
+    expect(document.relationships.map(r => `${r.spdxElementId} ${r.relationshipType} ${r.relatedSpdxElement}`)).toEqual([
+      'SPDXRef-DOCUMENT DESCRIBES SPDXRef-Project',
+      'SPDXRef-Project DEPENDS_ON SPDXRef-Package-1',
+      'SPDXRef-Package-2 DEV_DEPENDENCY_OF SPDXRef-Project',
+      'SPDXRef-Project DEPENDS_ON SPDXRef-Package-4',
+      'SPDXRef-Package-1 DEPENDS_ON SPDXRef-Package-3',
+      'SPDXRef-Package-2 DEPENDS_ON SPDXRef-Package-3',
+    ]);
+
+    const tagValue = generateSpdxTagValue(deps, info);
+    expect(tagValue).toMatch(/^SPDXVersion: SPDX-2.3\nDataLicense: CC0-1.0\nSPDXID: SPDXRef-DOCUMENT\nDocumentName: app-sbom\n/);
+    expect(tagValue).toContain(`PackageChecksum: SHA256: ${'cd'.repeat(32)}`);
+    expect(tagValue).toContain('ExternalRef: PACKAGE-MANAGER purl pkg:cargo/serde@1.0.0');
+    expect(tagValue).toContain('Relationship: SPDXRef-Package-2 DEV_DEPENDENCY_OF SPDXRef-Project');
+  });
+});
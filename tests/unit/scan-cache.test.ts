@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { runIncrementalScan, getInvalidatedFiles, loadScanCache, hashConfig, getAnalyzerKey } from '../../src/core/scan-cache.js';
+import { Severity, type AnalysisContext, type Analyzer, type ArchGuardConfig, type FileInfo } from '../../src/core/types.js';
+import { DEFAULT_CONFIG } from '../../src/core/config-loader.js';
+import { DeadCodeAnalyzer } from '../../src/analyzers/dead-code-analyzer.js';
+import { AiSmellDetector } from '../../src/analyzers/ai-smell-detector.js';
+import { TyposquattingAnalyzer } from '../../src/analyzers/typosquatting-analyzer.js';
+import { SupplyChainAnalyzer } from '../../src/analyzers/supply-chain-analyzer.js';
+import { LayerViolationDetector } from '../../src/analyzers/layer-violation.js';
+
+const config: ArchGuardConfig = { ...DEFAULT_CONFIG, cache: { enabled: true, path: '.archguard/cache' } };
+
+function makeFile(path: string, content: string): FileInfo {
+  return {
+    path,
+    language: 'typescript',
+    status: 'added',
+    hunks: [],
+    addedLines: content.split('\n').map((line, i) => ({ lineNumber: i + 1, content: line, type: 'added' as const })),
+    removedLines: [],
+    content,
+  };
+}
+
+/** Flags every line containing "eval(" and records which files it was asked to analyze. */
+function makeSpyAnalyzer(name: string, seen: string[][]): Analyzer {
+  return {
+    name,
+    async analyze(context: AnalysisContext) {
+      seen.push(context.parsedFiles.map(f => f.path).sort());
+      return context.parsedFiles.flatMap(f =>
+        f.content.split('\n').flatMap((line, i) => line.includes('eval(')
+          ? [{ ruleId: 'security/eval', analyzer: name, severity: Severity.Error, message: 'eval', file: f.path, line: i + 1 }]
+          : []),
+      );
+    },
+  };
+}
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'archguard-cache-test-'));
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe('runIncrementalScan', () => {
+  it('re-analyzes only changed files and reuses cached findings', async () => {
+    const seen: string[][] = [];
+    const analyzer = makeSpyAnalyzer('security', seen);
+
+    const first = await runIncrementalScan(
+      [makeFile('src/a.ts', 'eval(x);'), makeFile('src/b.ts', 'const b = 1;')],
+      config, tempDir, [analyzer],
+    );
+    expect(first.analyzedFiles).toBe(2);
+    expect(first.summary.totalFindings).toBe(1);
+
+    const second = await runIncrementalScan(
+      [makeFile('src/a.ts', 'eval(x);'), makeFile('src/b.ts', 'eval(y);')],
+      config, tempDir, [analyzer],
+    );
+    expect(second.reusedFiles).toBe(1);
+    expect(seen[1]).toEqual(['src/b.ts']);
+    expect(second.summary.totalFindings).toBe(2);
+  });
+
+  it('applies inline suppression to cached findings', async () => {
+    const analyzer = makeSpyAnalyzer('security', []);
+    const files = [makeFile('src/a.ts', '// archguard-ignore\neval(x);')];
+
+    await runIncrementalScan(files, config, tempDir, [analyzer]);
+    const second = await runIncrementalScan(files, config, tempDir, [analyzer]);
+
+    expect(second.reusedFiles).toBe(1);
+    expect(second.summary.totalFindings).toBe(0);
+    expect(second.summary.suppressedCount).toBe(1);
+  });
+
+  it('discards the cache when the config changes', async () => {
+    const analyzer = makeSpyAnalyzer('security', []);
+    await runIncrementalScan([makeFile('src/a.ts', 'eval(x);')], config, tempDir, [analyzer]);
+
+    const changed = { ...config, severity: { ...config.severity, maxWarnings: 1 } };
+    expect(await loadScanCache(tempDir, hashConfig(changed), getAnalyzerKey([analyzer]))).toBeNull();
+    expect(await loadScanCache(tempDir, hashConfig(config), getAnalyzerKey([analyzer]))).not.toBeNull();
+  });
+
+  it('keys built-in analyzers by the installed archguardian version', async () => {
+    const { version } = JSON.parse(await readFile(new URL('../../package.json', import.meta.url), 'utf-8'));
+    expect(getAnalyzerKey([makeSpyAnalyzer('security', []), { ...makeSpyAnalyzer('plugin', []), version: '0.1.0' }]))
+      .toBe(`plugin@0.1.0,security@${version}`);
+  });
+
+  it('always re-runs analyzers that cannot be cached', async () => {
+    const seen: string[][] = [];
+    const analyzer = makeSpyAnalyzer('custom-plugin', seen);
+    const files = [makeFile('src/a.ts', 'eval(x);')];
+
+    await runIncrementalScan(files, config, tempDir, [analyzer]);
+    const second = await runIncrementalScan(files, config, tempDir, [analyzer]);
+
+    expect(seen[1]).toEqual(['src/a.ts']);
+    expect(second.summary.totalFindings).toBe(1);
+  });
+
+  it('re-checks dead code through a re-export chain beyond the impact depth', async () => {
+    const deadCodeConfig: ArchGuardConfig = {
+      ...config,
+      analyzers: { ...config.analyzers, deadCode: { enabled: true, severity: Severity.Warning, entryPoints: ['src/app.ts'] } },
+    };
+    const lib = [
+      makeFile('src/lib/math.ts', 'export const add = 1;\nexport const sub = 2;\n'),
+      makeFile('src/lib/index.ts', "export { add, sub } from './math';\n"),
+    ];
+    const analyzer = new DeadCodeAnalyzer();
+
+    const first = await runIncrementalScan(
+      [makeFile('src/app.ts', "import { add, sub } from './lib/index';\nconsole.log(add, sub);\n"), ...lib],
+      deadCodeConfig, tempDir, [analyzer],
+    );
+    expect(first.summary.totalFindings).toBe(0);
+
+    const second = await runIncrementalScan(
+      [makeFile('src/app.ts', "import { add } from './lib/index';\nconsole.log(add);\n"), ...lib],
+      deadCodeConfig, tempDir, [analyzer],
+    );
+    const findings = second.summary.analyzerResults.flatMap(r => r.findings);
+    expect(findings.map(f => `${f.file}:${f.line}`)).toContain('src/lib/math.ts:2');
+  });
+
+  it('re-checks layer imports when the module they name is added', async () => {
+    const layerConfig: ArchGuardConfig = {
+      ...config,
+      languages: ['python'],
+      analyzers: {
+        ...config.analyzers,
+        architecture: {
+          ...config.analyzers.architecture,
+          enabled: true,
+          layers: [{ name: 'ui', patterns: ['src/ui/**'] }, { name: 'repo', patterns: ['src/repo/**'] }],
+          rules: [{ from: 'ui', deny: ['repo'] }],
+        },
+      },
+    };
+    const view = { ...makeFile('src/ui/view.py', 'from repo.store import load\n'), language: 'python' as const };
+    const store = { ...makeFile('src/repo/store.py', 'def load():\n    pass\n'), language: 'python' as const };
+    const analyzer = new LayerViolationDetector();
+
+    expect((await runIncrementalScan([view], layerConfig, tempDir, [analyzer])).summary.totalFindings).toBe(0);
+
+    const second = await runIncrementalScan([view, store], layerConfig, tempDir, [analyzer]);
+    const findings = second.summary.analyzerResults.flatMap(r => r.findings);
+    expect(findings.map(f => `${f.ruleId} ${f.file}:${f.line}`)).toEqual(['architecture/layer-violation src/ui/view.py:1']);
+  });
+
+  it('re-checks imported packages when package.json changes', async () => {
+    const analyzer = new AiSmellDetector();
+    const files = [makeFile('src/app.ts', "import foo from 'foo';\nconsole.log(foo);\n")];
+    const packageFindings = (result: Awaited<ReturnType<typeof runIncrementalScan>>) => result.summary.analyzerResults
+      .flatMap(r => r.findings)
+      .filter(f => f.ruleId === 'ai-smell/hallucinated-import-package');
+
+    await writeFile(join(tempDir, 'package.json'), JSON.stringify({ name: 'app' }));
+    expect(packageFindings(await runIncrementalScan(files, config, tempDir, [analyzer]))).toHaveLength(1);
+
+    await writeFile(join(tempDir, 'package.json'), JSON.stringify({ name: 'app', dependencies: { foo: '^1.0.0' } }));
+    const second = await runIncrementalScan(files, config, tempDir, [analyzer]);
+    expect(second.reusedFiles).toBe(1);
+    expect(packageFindings(second)).toEqual([]);
+  });
+
+  it('keeps manifest findings when no file needs re-parsing', async () => {
+    const projectConfig: ArchGuardConfig = {
+      ...config,
+      analyzers: {
+        ...config.analyzers,
+        typosquatting: { enabled: true, severity: Severity.Warning, allow: [], lists: [] },
+        supplyChain: { enabled: true, severity: Severity.Warning, allow: [], trustedHosts: [] },
+      },
+    };
+    await writeFile(join(tempDir, 'package.json'), JSON.stringify({ name: 'app', dependencies: { lodahs: '^4.17.21' } }, null, 2));
+    await writeFile(join(tempDir, 'package-lock.json'), JSON.stringify({
+      name: 'app',
+      lockfileVersion: 3,
+      packages: { 'node_modules/lodahs': { version: '4.17.21', resolved: 'git+https://github.com/evil/lodahs.git#abc' } },
+    }, null, 2));
+    const files = [makeFile('src/app.ts', 'export const a = 1;\n')];
+    const analyzers = [new TyposquattingAnalyzer(), new SupplyChainAnalyzer()];
+    const ruleIds = (result: Awaited<ReturnType<typeof runIncrementalScan>>) => result.summary.analyzerResults
+      .flatMap(r => r.findings)
+      .map(f => f.ruleId)
+      .filter(id => id === 'typosquatting/near-miss' || id === 'supply-chain/untrusted-source');
+
+    expect(ruleIds(await runIncrementalScan(files, projectConfig, tempDir, analyzers))).toEqual(['typosquatting/near-miss', 'supply-chain/untrusted-source']);
+
+    const second = await runIncrementalScan(files, projectConfig, tempDir, analyzers);
+    expect(second.reusedFiles).toBe(1);
+    expect(ruleIds(second)).toEqual(['typosquatting/near-miss', 'supply-chain/untrusted-source']);
+  });
+});
+
+describe('getInvalidatedFiles', () => {
+  it('invalidates both ends of a changed edge', () => {
+    const previous = new Map([['a.ts', ['b.ts']], ['b.ts', []], ['c.ts', []], ['d.ts', []]]);
+    const current = new Map([['a.ts', ['c.ts']], ['b.ts', []], ['c.ts', []], ['d.ts', []]]);
+
+    const invalidated = getInvalidatedFiles(previous, current, new Set(['a.ts']), 0);
+    expect([...invalidated].sort()).toEqual(['a.ts', 'b.ts', 'c.ts']);
+  });
+
+  it('expands along the current graph up to the given depth', () => {
+    const imports = new Map([['a.ts', ['b.ts']], ['b.ts', ['c.ts']], ['c.ts', ['d.ts']], ['d.ts', []]]);
+
+    const invalidated = getInvalidatedFiles(imports, imports, new Set(['a.ts']), 2);
+    expect([...invalidated].sort()).toEqual(['a.ts', 'b.ts', 'c.ts']);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { SupplyChainAnalyzer } from '../../src/analyzers/supply-chain-analyzer.js';
+import { parseDiff } from '../../src/core/diff-parser.js';
+import { Severity, type AnalysisContext, type ArchGuardConfig, type SupplyChainConfig } from '../../src/core/types.js';
+import { DEFAULT_CONFIG } from '../../src/core/config-loader.js';
+import { fileInfo, summarize, useTempProject, withAnalyzer } from '../helpers/temp-project.js';
+
+const project = useTempProject('supply-chain-test');
+
+function makeConfig(overrides: Partial<SupplyChainConfig> = {}): ArchGuardConfig {
+  return withAnalyzer('supplyChain', { enabled: true, severity: Severity.Warning, allow: [], trustedHosts: [], ...overrides });
+}
+
+/** A full scan; project analyzers only run when there are files to scan. */
+function scanContext(overrides: Partial<SupplyChainConfig> = {}): AnalysisContext {
+  return { files: [fileInfo('index.ts', '')], parsedFiles: [], config: makeConfig(overrides), projectRoot: project.dir };
+}
+
+/** The staged changes of the temp repository, as `check` sees them. */
+function diffContext(overrides: Partial<SupplyChainConfig> = {}): AnalysisContext {
+  project.git('add', '-A');
+  const files = parseDiff(project.git('diff', '--cached'));
+  return { files: [], parsedFiles: [], otherFiles: files.filter(f => !f.language), config: makeConfig(overrides), projectRoot: project.dir };
+}
+
+function packageLock(packages: Record<string, Record<string, unknown>>) {
+  return { name: 'app', lockfileVersion: 3, packages: { '': { name: 'app', dependencies: {} }, ...packages } };
+}
+
+const registry = (name: string, version: string, extra: Record<string, unknown> = {}) => ({
+  version,
+  resolved: `https://registry.npmjs.org/${name}/-/${name}-${version}.tgz`,
+  integrity: `sha512-${name}${version}`,
+  ...extra,
+});
+
+describe('SupplyChainAnalyzer', () => {
+  const analyzer = new SupplyChainAnalyzer();
+
+  it('flags git and URL sources and missing or weak hashes on their lockfile lines', async () => {
+    await project.write({
+      'package-lock.json': packageLock({
+        'node_modules/lodash': registry('lodash', '4.17.21'),
+        'node_modules/left-pad': { version: '1.3.0', resolved: 'git+ssh://git@github.com/stevemao/left-pad.git#5b3f9e1' },
+        'node_modules/tarball': { version: '1.0.0', resolved: 'https://example.com/tarball-1.0.0.tgz', integrity: 'sha512-x' },
+        'node_modules/internal': { version: '2.0.0', resolved: 'https://git.acme.dev/internal.tgz', integrity: 'sha512-y' },
+        'node_modules/nohash': { version: '1.0.0', resolved: 'https://registry.npmjs.org/nohash/-/nohash-1.0.0.tgz' },
+        'node_modules/oldhash': registry('oldhash', '1.0.0', { integrity: 'sha1-abc' }),
+        'node_modules/lodash/node_modules/bundled': { version: '1.0.0', inBundle: true },
+      }),
+      'Cargo.lock': '[[package]]\nname = "serde"\nversion = "1.0.0"\nsource = "git+https://github.com/serde-rs/serde#abc"\n',
+    });
+
+    const findings = await analyzer.analyze(scanContext({ trustedHosts: ['*.acme.dev'] }));
+
+    expect(summarize(findings)).toEqual([
+      'untrusted-source package-lock.json:14',
+      'untrusted-source package-lock.json:18',
+      'missing-integrity package-lock.json:28',
+      'weak-integrity package-lock.json:32',
+      'untrusted-source Cargo.lock:1',
+    ]);
+    expect(findings[0].message).toBe("'left-pad@1.3.0' is fetched from a git repository: git+ssh://git@github.com/stevemao/left-pad.git#5b3f9e1");
+    expect(findings[3].message).toBe("'oldhash@1.0.0' is only verified with SHA1, which can be forged");
+  });
+
+  it('checks only packages a diff adds or changes, with install scripts and registry switches', async () => {
+    const before = packageLock({
+      'node_modules/lodash': registry('lodash', '4.17.20'),
+      'node_modules/esbuild': registry('esbuild', '0.19.0', { hasInstallScript: true }),
+      'node_modules/old-git': { version: '1.0.0', resolved: 'github:acme/old-git#abc' },
+    });
+    await project.write({ 'package-lock.json': before });
+    project.git('init', '-q');
+    project.git('add', '-A');
+    project.git('commit', '-qm', 'base');
+
+    await project.write({
+      'package-lock.json': packageLock({
+        'node_modules/lodash': { ...registry('lodash', '4.17.21'), resolved: 'https://npm.evil.example/lodash/-/lodash-4.17.21.tgz' },
+        'node_modules/esbuild': registry('esbuild', '0.20.0', { hasInstallScript: true }),
+        'node_modules/old-git': { version: '1.0.0', resolved: 'github:acme/old-git#abc' },
+        'node_modules/sharp': registry('sharp', '0.33.0', { hasInstallScript: true }),
+      }),
+    });
+
+    const findings = await analyzer.analyze(diffContext());
+
+    expect(summarize(findings)).toEqual([
+      'registry-changed package-lock.json:9',
+      'install-script package-lock.json:24',
+    ]);
+    expect(findings[0].message).toBe("'lodash' is now resolved from npm.evil.example instead of registry.npmjs.org");
+    expect(findings[1].message).toBe("New package 'sharp@0.33.0' runs install scripts");
+  });
+
+  it('reports workspaces locked at a different version than the others', async () => {
+    await project.write({
+      'package.json': { name: 'root', workspaces: ['packages/*'], devDependencies: { typescript: '^5.4.0' } },
+      'packages/web/package.json': { name: '@acme/web', dependencies: { react: '^17.0.0', '@acme/ui': '*' } },
+      'packages/ui/package.json': { name: '@acme/ui', dependencies: { react: '^18.2.0' } },
+      'packages/app/package.json': { name: '@acme/app', dependencies: { react: '^18.2.0', typescript: '^5.4.0' } },
+      'package-lock.json': packageLock({
+        'packages/web': { name: '@acme/web', dependencies: { react: '^17.0.0', '@acme/ui': '*' } },
+        'packages/ui': { name: '@acme/ui', dependencies: { react: '^18.2.0' } },
+        'packages/app': { name: '@acme/app', dependencies: { react: '^18.2.0', typescript: '^5.4.0' } },
+        'node_modules/@acme/ui': { resolved: 'packages/ui', link: true },
+        'node_modules/react': registry('react', '18.2.0'),
+        'node_modules/typescript': registry('typescript', '5.4.5'),
+        'packages/web/node_modules/react': registry('react', '17.0.2'),
+      }),
+    });
+
+    const findings = await analyzer.analyze(scanContext());
+
+    expect(summarize(findings)).toEqual(['version-drift packages/web/package.json:4']);
+    expect(findings[0].message).toBe("'react' is locked at 17.0.2 in packages/web but at 18.2.0 in packages/app, packages/ui");
+  });
+
+  it('reports nothing when disabled', async () => {
+    const context: AnalysisContext = { files: [], parsedFiles: [], config: DEFAULT_CONFIG, projectRoot: '/project' };
+    expect(await analyzer.analyze(context)).toEqual([]);
+  });
+});
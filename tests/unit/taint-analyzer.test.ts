@@ -1,14 +1,17 @@
 import { describe, it, expect } from 'vitest';
 import { TaintAnalyzer } from '../../src/analyzers/taint-analyzer.js';
 import { parseSource } from '../../src/parsers/tree-sitter-manager.js';
-import { Severity, type AnalysisContext, type ArchGuardConfig, type FileInfo, type ParsedFile } from '../../src/core/types.js';
+import { Severity, type AnalysisContext, type ArchGuardConfig, type FileInfo, type ParsedFile, type SupportedLanguage, type TaintConfig } from '../../src/core/types.js';
 import { DEFAULT_CONFIG } from '../../src/core/config-loader.js';
 
-function makeContext(content: string, path = 'src/app.ts'): AnalysisContext {
+const LANGUAGES: Record<string, SupportedLanguage> = { py: 'python', go: 'go', java: 'java' };
+
+function makeContext(content: string, path = 'src/app.ts', taint: Partial<TaintConfig> = {}): AnalysisContext {
+  const language = LANGUAGES[path.split('.').pop() ?? ''] ?? 'typescript';
   const lines = content.split('\n');
   const file: FileInfo = {
     path,
-    language: 'typescript',
+    language,
     status: 'added',
     hunks: [],
     addedLines: lines.map((c, i) => ({ lineNumber: i + 1, content: c, type: 'added' as const })),
@@ -17,15 +20,15 @@ function makeContext(content: string, path = 'src/app.ts'): AnalysisContext {
   };
   const parsed: ParsedFile = {
     path,
-    language: 'typescript',
-    tree: parseSource('typescript', content),
+    language,
+    tree: parseSource(language, content),
     content,
   };
   const config: ArchGuardConfig = {
     ...DEFAULT_CONFIG,
     analyzers: {
       ...DEFAULT_CONFIG.analyzers,
-      taint: { enabled: true, severity: Severity.Error },
+      taint: { enabled: true, severity: Severity.Error, ...taint },
     },
   };
   return { files: [file], parsedFiles: [parsed], config, projectRoot: '/project' };
@@ -70,4 +73,306 @@ eval(safe);
     const findings = await analyzer.analyze(context);
     expect(findings).toHaveLength(0);
   });
+
+  it('only checks the dangerous argument positions of a sink', async () => {
+    const bound = `
+const userId = req.params.id;
+db.query('SELECT * FROM users WHERE id = $1', [userId]);
+`;
+    expect(await analyzer.analyze(makeContext(bound))).toHaveLength(0);
+
+    const interpolated = `
+const userId = req.params.id;
+db.query(\`SELECT * FROM users WHERE id = \${userId}\`);
+`;
+    const findings = await analyzer.analyze(makeContext(interpolated));
+    expect(findings.map(f => f.ruleId)).toEqual(['taint/sql-injection']);
+  });
+
+  it('treats NestJS decorated parameters as sources', async () => {
+    const code = `
+class UsersController {
+  create(@Body() dto: CreateUserDto) {
+    eval(dto.script);
+  }
+}
+`;
+    const findings = await analyzer.analyze(makeContext(code));
+    expect(findings.some(f => f.ruleId === 'taint/command-injection')).toBe(true);
+  });
+
+  it('treats Next.js request parameters as sources', async () => {
+    const code = `
+export async function GET(request: NextRequest) {
+  const file = request.nextUrl.searchParams.get('file');
+  return readFile(file);
+}
+`;
+    const findings = await analyzer.analyze(makeContext(code));
+    expect(findings.some(f => f.ruleId === 'taint/path-traversal')).toBe(true);
+  });
+
+  it('uses only the configured framework models', async () => {
+    const code = `
+const body = request.body.html;
+reply.send(body);
+`;
+    const all = await analyzer.analyze(makeContext(code));
+    expect(all.some(f => f.ruleId === 'taint/xss')).toBe(true);
+
+    const expressOnly = await analyzer.analyze(makeContext(code, 'src/app.ts', { frameworks: ['express'] }));
+    expect(expressOnly).toHaveLength(0);
+  });
+
+  it('applies sources, sinks and sanitizers from config and plugins', async () => {
+    const code = `
+const payload = getTenantInput();
+audit.raw(payload);
+const clean = scrubTenant(payload);
+audit.raw(clean);
+`;
+    const fromConfig = await analyzer.analyze(makeContext(code, 'src/app.ts', {
+      sources: ['getTenantInput'],
+      sinks: [{ pattern: 'audit.raw', ruleId: 'taint/log-injection', message: 'Tainted data written to audit log' }],
+      sanitizers: ['scrubTenant'],
+    }));
+    expect(fromConfig.map(f => f.line)).toEqual([3]);
+
+    const fromPlugin = new TaintAnalyzer([{
+      sources: ['getTenantInput'],
+      sinks: [{ pattern: 'audit.raw', ruleId: 'taint/log-injection', message: 'Tainted data written to audit log' }],
+    }]);
+    const findings = await fromPlugin.analyze(makeContext(code));
+    expect(findings.some(f => f.ruleId === 'taint/log-injection')).toBe(true);
+  });
+
+  it('lets config sinks override bundled ones', async () => {
+    const code = `
+const id = req.params.id;
+db.query('SELECT * FROM users WHERE id = ?', id);
+`;
+    expect(await analyzer.analyze(makeContext(code))).toHaveLength(0);
+
+    const findings = await analyzer.analyze(makeContext(code, 'src/app.ts', {
+      sinks: [{ pattern: 'query', ruleId: 'taint/sql-injection', message: 'Tainted data flows to query()', args: [1] }],
+    }));
+    expect(findings.map(f => `${f.ruleId}:${f.line}`)).toEqual(['taint/sql-injection:3']);
+  });
+
+  it('records the source-to-sink flow', async () => {
+    const code = `
+const name = req.query.name;
+const cmd = 'echo ' + name;
+exec(cmd);
+`;
+    const [finding] = await analyzer.analyze(makeContext(code));
+    expect(finding.flow).toEqual([
+      { file: 'src/app.ts', line: 2, message: 'User input from req.query' },
+      { file: 'src/app.ts', line: 2, message: "Assigned to 'name'" },
+      { file: 'src/app.ts', line: 3, message: "Assigned to 'cmd'" },
+      { file: 'src/app.ts', line: 4, message: 'Tainted data flows to exec()' },
+    ]);
+  });
+
+  it('records the flow across files', async () => {
+    const lib = `export function run(command: string) {
+  exec(command);
+}
+`;
+    const app = `import { run } from './lib';
+const input = req.body.cmd;
+run(input);
+`;
+    const libContext = makeContext(lib, 'src/lib.ts', { crossFile: true });
+    const appContext = makeContext(app, 'src/app.ts', { crossFile: true });
+    const context: AnalysisContext = {
+      ...appContext,
+      files: [...libContext.files, ...appContext.files],
+      parsedFiles: [...libContext.parsedFiles, ...appContext.parsedFiles],
+    };
+
+    const findings = await analyzer.analyze(context);
+    const crossFile = findings.find(f => f.ruleId === 'taint/cross-file-flow');
+    expect(crossFile?.flow?.map(step => `${step.file}:${step.line}`)).toEqual([
+      'src/app.ts:2', 'src/app.ts:2', 'src/app.ts:3', 'src/lib.ts:1', 'src/lib.ts:2',
+    ]);
+  });
+
+  describe('SSRF, open redirect and prototype pollution', () => {
+    it('detects tainted URLs in outgoing requests', async () => {
+      const code = `
+const target = req.query.url;
+const res = await fetch(target);
+await axios.get(target, { timeout: 1000 });
+await fetch('https://api.example.com/items', { body: target });
+`;
+      const findings = await analyzer.analyze(makeContext(code));
+      expect(findings.map(f => [f.ruleId, f.line])).toEqual([['taint/ssrf', 3], ['taint/ssrf', 4]]);
+    });
+
+    it('detects open redirects but not allowlisted ones', async () => {
+      const code = `
+const next = req.query.next;
+res.redirect(next);
+if (ALLOWED_REDIRECTS.includes(next)) {
+  res.redirect(next);
+}
+const safe = isSafeRedirect(next) ? next : '/';
+res.redirect(302, safe);
+`;
+      const findings = await analyzer.analyze(makeContext(code));
+      expect(findings.map(f => [f.ruleId, f.line])).toEqual([['taint/open-redirect', 3]]);
+    });
+
+    it('honours early-exit allowlist guards', async () => {
+      const code = `
+function go(req, res) {
+  const next = req.query.next;
+  if (!isAllowedUrl(next)) {
+    return res.status(400).end();
+  }
+  res.redirect(next);
+}
+function back(req, res) {
+  const next = req.query.next;
+  if (!isAllowedUrl(next)) {
+    res.redirect(next);
+  }
+}
+`;
+      const findings = await analyzer.analyze(makeContext(code));
+      expect(findings.map(f => [f.ruleId, f.line])).toEqual([['taint/open-redirect', 12]]);
+    });
+
+    it('detects tainted client-side navigation', async () => {
+      const code = `
+const target = new URLSearchParams(location.search).get('next');
+window.location.href = target;
+`;
+      const findings = await analyzer.analyze(makeContext(code));
+      expect(findings.some(f => f.ruleId === 'taint/open-redirect')).toBe(true);
+    });
+
+    it('detects prototype pollution through merges and bracket keys', async () => {
+      const code = `
+const patch = req.body;
+Object.assign(settings, patch);
+_.merge(config, req.body.config);
+settings[req.body.key] = req.body.value;
+settings['theme'] = patch.theme;
+`;
+      const findings = await analyzer.analyze(makeContext(code));
+      expect(findings.map(f => [f.ruleId, f.line])).toEqual([
+        ['taint/prototype-pollution', 3],
+        ['taint/prototype-pollution', 4],
+        ['taint/prototype-pollution', 5],
+      ]);
+    });
+
+    it('skips bracket keys checked against __proto__', async () => {
+      const code = `
+const key = req.body.key;
+if (key === '__proto__' || key === 'constructor') throw new Error('bad key');
+settings[key] = req.body.value;
+`;
+      const findings = await analyzer.analyze(makeContext(code));
+      expect(findings.filter(f => f.ruleId === 'taint/prototype-pollution')).toHaveLength(0);
+    });
+
+    it('covers redirects and outgoing requests in other languages', async () => {
+      const python = `
+url = request.args.get('next')
+requests.get(url)
+return redirect(url)
+`;
+      const findings = await analyzer.analyze(makeContext(python, 'app/views.py'));
+      expect(findings.map(f => f.ruleId)).toEqual(['taint/ssrf', 'taint/open-redirect']);
+    });
+  });
+
+  describe('Python', () => {
+    it('detects Flask request data in cursor.execute', async () => {
+      const code = `
+name = request.args.get('name')
+cursor.execute(f"SELECT * FROM users WHERE name = '{name}'")
+cursor.execute("SELECT * FROM users WHERE name = %s", (name,))
+`;
+      const findings = await analyzer.analyze(makeContext(code, 'app/views.py'));
+      expect(findings.map(f => [f.ruleId, f.line])).toEqual([['taint/sql-injection', 3]]);
+    });
+
+    it('flags subprocess only with shell=True', async () => {
+      const code = `
+cmd = request.form['cmd']
+subprocess.run(cmd, shell=True)
+subprocess.run([cmd])
+subprocess.run(shlex.quote(cmd), shell=True)
+`;
+      const findings = await analyzer.analyze(makeContext(code, 'app/views.py'));
+      expect(findings.map(f => [f.ruleId, f.line])).toEqual([['taint/command-injection', 3]]);
+    });
+
+    it('treats FastAPI parameter defaults as sources', async () => {
+      const code = `
+def read(path: str = Query(None)):
+    return open(path).read()
+`;
+      const findings = await analyzer.analyze(makeContext(code, 'app/main.py'));
+      expect(findings.some(f => f.ruleId === 'taint/path-traversal')).toBe(true);
+    });
+  });
+
+  describe('Go', () => {
+    it('detects query parameters flowing to exec.Command', async () => {
+      const code = `package main
+
+func handler(w http.ResponseWriter, r *http.Request) {
+	name := r.URL.Query().Get("name")
+	out, err := exec.Command("sh", "-c", name).Output()
+	_, _ = out, err
+}
+`;
+      const findings = await analyzer.analyze(makeContext(code, 'cmd/server/main.go'));
+      expect(findings.some(f => f.ruleId === 'taint/command-injection' && f.line === 5)).toBe(true);
+    });
+
+    it('detects gin parameters in SQL but not bound ones', async () => {
+      const code = `package main
+
+func handler(c *gin.Context) {
+	id := c.Param("id")
+	db.Query("SELECT * FROM users WHERE id = " + id)
+	db.Query("SELECT * FROM users WHERE id = $1", id)
+}
+`;
+      const findings = await analyzer.analyze(makeContext(code, 'api/users.go'));
+      expect(findings.map(f => [f.ruleId, f.line])).toEqual([['taint/sql-injection', 5]]);
+    });
+  });
+
+  describe('Java', () => {
+    it('detects servlet parameters and Spring annotated parameters', async () => {
+      const code = `class UserController {
+  void run(HttpServletRequest request) throws Exception {
+    String cmd = request.getParameter("cmd");
+    Runtime.getRuntime().exec(cmd);
+  }
+
+  List<User> find(@RequestParam("name") String name) {
+    return jdbc.executeQuery("SELECT * FROM users WHERE name = '" + name + "'");
+  }
+
+  void open(@PathVariable String file) {
+    new ProcessBuilder(file).start();
+  }
+}
+`;
+      const findings = await analyzer.analyze(makeContext(code, 'src/main/java/UserController.java'));
+      expect(findings.map(f => [f.ruleId, f.line])).toEqual([
+        ['taint/command-injection', 4],
+        ['taint/sql-injection', 8],
+        ['taint/command-injection', 12],
+      ]);
+    });
+  });
 });
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { TyposquattingAnalyzer } from '../../src/analyzers/typosquatting-analyzer.js';
+import { Severity, type AnalysisContext, type TyposquattingConfig } from '../../src/core/types.js';
+import { DEFAULT_CONFIG } from '../../src/core/config-loader.js';
+import { fileInfo, summarize, useTempProject, withAnalyzer } from '../helpers/temp-project.js';
+
+const project = useTempProject('typosquat-test');
+
+/** A diff adding `lines` of each manifest, which must already be written to disk. */
+function makeContext(changed: Record<string, { content: string; lines: number[] }>, overrides: Partial<TyposquattingConfig> = {}): AnalysisContext {
+  return {
+    files: [],
+    parsedFiles: [],
+    otherFiles: Object.entries(changed).map(([path, { content, lines }]) => fileInfo(path, content, lines)),
+    config: withAnalyzer('typosquatting', { enabled: true, severity: Severity.Warning, allow: [], lists: [], ...overrides }),
+    projectRoot: project.dir,
+  };
+}
+
+describe('TyposquattingAnalyzer', () => {
+  const analyzer = new TyposquattingAnalyzer();
+
+  it('flags look-alike npm names on the added manifest lines only', async () => {
+    const pkg = {
+      dependencies: {
+        expresss: '^4.18.0',
+        react_dom: '^18.0.0',
+        '@angullar/core': '^17.0.0',
+        'types-node': '^20.0.0',
+        lodash: '^4.17.21',
+        axois: '^1.0.0',
+      },
+    };
+    await project.write({ 'package.json': pkg });
+    const content = JSON.stringify(pkg, null, 2);
+
+    const findings = await analyzer.analyze(makeContext({ 'package.json': { content, lines: [3, 4, 5, 6, 7] } }));
+
+    expect(summarize(findings)).toEqual([
+      'near-miss package.json:3',
+      'separator-confusion package.json:4',
+      'scope-confusion package.json:5',
+      'scope-confusion package.json:6',
+    ]);
+    expect(findings[0].message).toBe("'expresss' is one edit away from the popular package 'express'");
+    expect(findings[0].suggestion).toContain("Did you mean 'express'?");
+    expect(findings[2].message).toContain("'@angular/core'");
+  });
+
+  it('reports names missing from the lockfile and node_modules', async () => {
+    const pkg = { dependencies: { 'left-pad': '^1.3.0', 'leftpad-utils-pro': '^1.0.0', '@acme/internal': '^1.0.0' } };
+    await project.write({
+      'package.json': pkg,
+      'package-lock.json': {
+        lockfileVersion: 3,
+        packages: { '': {}, 'node_modules/left-pad': { version: '1.3.0' } },
+      },
+      'node_modules/@acme/internal/package.json': { name: '@acme/internal' },
+    });
+    const content = JSON.stringify(pkg, null, 2);
+
+    const findings = await analyzer.analyze(makeContext({ 'package.json': { content, lines: [3, 4, 5] } }));
+
+    expect(summarize(findings)).toEqual(['unverified-package package.json:4']);
+    expect(findings[0].message).toBe("'leftpad-utils-pro' is not in the lockfile or the local package cache");
+  });
+
+  it('checks requirements.txt, go.mod and Cargo.toml with registry name rules', async () => {
+    const requirements = 'requests==2.31.0\nreqeusts==2.31.0\npython_dateutil==2.8.2\nbeautifulsoup==4.12\n';
+    const goMod = 'module example.com/shop\n\nrequire (\n\tgithub.com/Sirupsen/logrus v1.9.3\n\tgithub.com/gin-gonic/gin v1.9.1\n)\n';
+    const cargo = '[package]\nname = "shop"\n\n[dependencies]\nserde_json = "1"\nserde-json = "1"\ntokioo = "1"\n';
+    await project.write({ 'requirements.txt': requirements, 'go.mod': goMod, 'Cargo.toml': cargo });
+
+    const findings = await analyzer.analyze(makeContext({
+      'requirements.txt': { content: requirements, lines: [1, 2, 3, 4] },
+      'go.mod': { content: goMod, lines: [4, 5] },
+      'Cargo.toml': { content: cargo, lines: [5, 6, 7] },
+    }));
+
+    expect(summarize(findings)).toEqual([
+      'near-miss requirements.txt:2',
+      'near-miss requirements.txt:4',
+      'separator-confusion go.mod:4',
+      'near-miss Cargo.toml:7',
+    ]);
+  });
+
+  it('honours allow and extra popular package lists', async () => {
+    const pkg = { dependencies: { expresss: '^1.0.0', 'acme-uikit': '^1.0.0' } };
+    await project.write({ 'package.json': pkg, 'popular.json': { npm: ['acme-ui-kit'] } });
+    const content = JSON.stringify(pkg, null, 2);
+
+    const findings = await analyzer.analyze(makeContext(
+      { 'package.json': { content, lines: [3, 4] } },
+      { allow: ['express*'], lists: ['popular.json'] },
+    ));
+
+    expect(summarize(findings)).toEqual(['separator-confusion package.json:4']);
+  });
+
+  it('reports nothing when disabled', async () => {
+    const context: AnalysisContext = { files: [], parsedFiles: [], config: DEFAULT_CONFIG, projectRoot: '/project' };
+    expect(await analyzer.analyze(context)).toEqual([]);
+  });
+});
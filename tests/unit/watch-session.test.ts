@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile, unlink } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { WatchSession } from '../../src/core/watch-session.js';
+import { SecurityScanner } from '../../src/analyzers/security-scanner.js';
+import { DeadCodeAnalyzer } from '../../src/analyzers/dead-code-analyzer.js';
+import { AiSmellDetector } from '../../src/analyzers/ai-smell-detector.js';
+import { Severity, type AnalysisContext, type Analyzer, type ArchGuardConfig } from '../../src/core/types.js';
+import { DEFAULT_CONFIG } from '../../src/core/config-loader.js';
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'archguard-watch-test-'));
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe('WatchSession', () => {
+  it('reports new and resolved findings for a changed file', async () => {
+    await writeFile(join(tempDir, 'a.ts'), 'eval(x);\n');
+    await writeFile(join(tempDir, 'b.ts'), 'export const b = 1;\n');
+    const session = new WatchSession(DEFAULT_CONFIG, tempDir, [new SecurityScanner()]);
+    await session.start(['a.ts', 'b.ts']);
+    expect(session.findings().map(f => f.file)).toEqual(['a.ts']);
+
+    await writeFile(join(tempDir, 'a.ts'), 'const y = 1;\n');
+    await writeFile(join(tempDir, 'b.ts'), 'eval(b);\n');
+    const delta = await session.update(['a.ts', 'b.ts']);
+
+    expect(delta?.added.map(f => f.file)).toEqual(['b.ts']);
+    expect(delta?.resolved.map(f => f.file)).toEqual(['a.ts']);
+    expect(session.findings().map(f => f.file)).toEqual(['b.ts']);
+  });
+
+  it('only re-analyzes changed files with file-local analyzers', async () => {
+    const seen: string[][] = [];
+    const spy: Analyzer = {
+      name: 'security',
+      async analyze(context: AnalysisContext) {
+        seen.push(context.parsedFiles.map(f => f.path).sort());
+        return [];
+      },
+    };
+    await writeFile(join(tempDir, 'a.ts'), 'const a = 1;\n');
+    await writeFile(join(tempDir, 'b.ts'), 'const b = 1;\n');
+    const session = new WatchSession(DEFAULT_CONFIG, tempDir, [spy]);
+    await session.start(['a.ts', 'b.ts']);
+
+    await writeFile(join(tempDir, 'b.ts'), 'const b = 2;\n');
+    await session.update(['b.ts']);
+
+    expect(seen).toEqual([['a.ts', 'b.ts'], ['b.ts']]);
+  });
+
+  it('ignores events that did not change content and drops deleted files', async () => {
+    await writeFile(join(tempDir, 'a.ts'), 'eval(x);\n');
+    const session = new WatchSession(DEFAULT_CONFIG, tempDir, [new SecurityScanner()]);
+    await session.start(['a.ts']);
+
+    expect(await session.update(['a.ts'])).toBeNull();
+
+    await unlink(join(tempDir, 'a.ts'));
+    const delta = await session.update(['a.ts']);
+    expect(delta?.changedFiles).toEqual(['a.ts']);
+    expect(delta?.resolved).toHaveLength(1);
+    expect(session.findings()).toHaveLength(0);
+  });
+
+  it('re-checks dead code through a re-export chain beyond the impact depth', async () => {
+    const config: ArchGuardConfig = {
+      ...DEFAULT_CONFIG,
+      analyzers: { ...DEFAULT_CONFIG.analyzers, deadCode: { enabled: true, severity: Severity.Warning, entryPoints: ['src/app.ts'] } },
+    };
+    await mkdir(join(tempDir, 'src/lib'), { recursive: true });
+    await writeFile(join(tempDir, 'src/lib/math.ts'), 'export const add = 1;\nexport const sub = 2;\n');
+    await writeFile(join(tempDir, 'src/lib/index.ts'), "export { add, sub } from './math';\n");
+    await writeFile(join(tempDir, 'src/app.ts'), "import { add, sub } from './lib/index';\nconsole.log(add, sub);\n");
+    const session = new WatchSession(config, tempDir, [new DeadCodeAnalyzer()]);
+    await session.start(['src/app.ts', 'src/lib/index.ts', 'src/lib/math.ts']);
+    expect(session.findings()).toEqual([]);
+
+    await writeFile(join(tempDir, 'src/app.ts'), "import { add } from './lib/index';\nconsole.log(add);\n");
+    await session.update(['src/app.ts']);
+
+    expect(session.findings().map(f => `${f.file}:${f.line}`).sort()).toEqual(['src/lib/index.ts:1', 'src/lib/math.ts:2']);
+  });
+
+  it('re-checks imported packages when package.json changes', async () => {
+    await writeFile(join(tempDir, 'package.json'), JSON.stringify({ name: 'app' }));
+    await writeFile(join(tempDir, 'app.ts'), "import foo from 'foo';\nconsole.log(foo);\n");
+    const session = new WatchSession(DEFAULT_CONFIG, tempDir, [new AiSmellDetector()]);
+    await session.start(['app.ts']);
+    expect(session.findings().map(f => f.ruleId)).toContain('ai-smell/hallucinated-import-package');
+
+    await writeFile(join(tempDir, 'package.json'), JSON.stringify({ name: 'app', dependencies: { foo: '^1.0.0' } }));
+    const delta = await session.update(['package.json']);
+
+    expect(delta?.resolved.map(f => f.ruleId)).toEqual(['ai-smell/hallucinated-import-package']);
+    expect(session.findings().map(f => f.ruleId)).not.toContain('ai-smell/hallucinated-import-package');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { chunkFiles, mergeChunkResults, runInWorkerPool, shouldParseOnMainThread, isWorkerAnalyzer } from '../../src/core/worker-pool.js';
+import { runPipeline } from '../../src/core/pipeline.js';
+import { buildContext } from '../../src/core/context.js';
+import { SecurityScanner } from '../../src/analyzers/security-scanner.js';
+import { DeadCodeAnalyzer } from '../../src/analyzers/dead-code-analyzer.js';
+import { Severity, type ArchGuardConfig, type FileInfo, type Finding } from '../../src/core/types.js';
+import { DEFAULT_CONFIG } from '../../src/core/config-loader.js';
+
+const config: ArchGuardConfig = { ...DEFAULT_CONFIG, parallel: { enabled: true, workers: 2, minFiles: 2 } };
+
+function makeFile(path: string, content: string): FileInfo {
+  return {
+    path,
+    language: 'typescript',
+    status: 'added',
+    hunks: [],
+    addedLines: content.split('\n').map((line, i) => ({ lineNumber: i + 1, content: line, type: 'added' as const })),
+    removedLines: [],
+    content,
+  };
+}
+
+function makeFinding(file: string, line: number): Finding {
+  return { ruleId: 'security/eval', analyzer: 'security', severity: Severity.Error, message: 'eval', file, line };
+}
+
+describe('chunkFiles', () => {
+  it('splits files into contiguous chunks', () => {
+    const files = ['a', 'b', 'c', 'd', 'e'].map(n => makeFile(`${n}.ts`, ''));
+    const chunks = chunkFiles(files, 2);
+    expect(chunks.map(c => c.map(f => f.path))).toEqual([['a.ts', 'b.ts', 'c.ts'], ['d.ts', 'e.ts']]);
+  });
+});
+
+describe('mergeChunkResults', () => {
+  it('orders findings by file order then line, regardless of chunk order', () => {
+    const files = [makeFile('a.ts', ''), makeFile('b.ts', '')];
+    const merged = mergeChunkResults([
+      [{ analyzer: 'security', findings: [makeFinding('b.ts', 1)], duration: 5 }],
+      [{ analyzer: 'security', findings: [makeFinding('a.ts', 9), makeFinding('a.ts', 2)], duration: 7 }],
+    ], ['security'], files);
+
+    expect(merged[0].findings.map(f => `${f.file}:${f.line}`)).toEqual(['a.ts:2', 'a.ts:9', 'b.ts:1']);
+    expect(merged[0].duration).toBe(7);
+  });
+
+  it('fails the analyzer when any chunk failed', () => {
+    const merged = mergeChunkResults([
+      [{ analyzer: 'security', findings: [makeFinding('a.ts', 1)], duration: 1 }],
+      [{ analyzer: 'security', findings: [], duration: 0, error: 'Worker exited with code 1' }],
+    ], ['security'], [makeFile('a.ts', '')]);
+
+    expect(merged[0].error).toContain('exited');
+    expect(merged[0].findings).toHaveLength(0);
+  });
+
+  it('keeps findings from chunks that finished when another timed out', () => {
+    const merged = mergeChunkResults([
+      [{ analyzer: 'security', findings: [makeFinding('a.ts', 1)], duration: 1 }],
+      [{ analyzer: 'security', findings: [], duration: 0, error: 'security timed out after 5000ms', timedOut: true, skippedFiles: ['b.ts'] }],
+    ], ['security'], [makeFile('a.ts', ''), makeFile('b.ts', '')]);
+
+    expect(merged[0].timedOut).toBe(true);
+    expect(merged[0].findings).toHaveLength(1);
+    expect(merged[0].skippedFiles).toEqual(['b.ts']);
+  });
+});
+
+// Sources run unbuilt here, so there is no worker script and the pool analyzes
+// in-process; the e2e suite runs real workers from the built entry
+describe('runInWorkerPool', () => {
+  it('parses and analyzes files itself', async () => {
+    const files = [makeFile('src/a.ts', 'eval(input);'), makeFile('src/b.ts', 'const b = 1;')];
+    const results = await runInWorkerPool(files, ['security'], config, '/tmp/test');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].findings.some(f => f.ruleId === 'security/eval' && f.file === 'src/a.ts')).toBe(true);
+  });
+});
+
+describe('parallel pipeline', () => {
+  it('skips main-thread parsing only when every analyzer runs in the pool', () => {
+    const files = [makeFile('src/a.ts', ''), makeFile('src/b.ts', '')];
+    expect(shouldParseOnMainThread(files, [new SecurityScanner()], config)).toBe(false);
+    expect(shouldParseOnMainThread(files, [new SecurityScanner(), new DeadCodeAnalyzer()], config)).toBe(true);
+    expect(shouldParseOnMainThread(files.slice(0, 1), [new SecurityScanner()], config)).toBe(true);
+  });
+
+  it('does not treat plugin analyzers as worker analyzers', () => {
+    expect(isWorkerAnalyzer({ name: 'security', analyze: async () => [] })).toBe(false);
+    expect(isWorkerAnalyzer(new SecurityScanner())).toBe(true);
+  });
+
+  it('produces the same findings as a serial run', async () => {
+    const files = () => [
+      makeFile('src/a.ts', 'eval(input);\nconst x = 1;'),
+      makeFile('src/b.ts', 'const password = "hunter2hunter2";\neval(y);'),
+    ];
+    const serialConfig = { ...config, parallel: undefined };
+
+    const serial = await runPipeline(await buildContext(files(), serialConfig, '/tmp/test'), [new SecurityScanner()]);
+    const parallel = await runPipeline(
+      await buildContext(files(), config, '/tmp/test', { parse: false }),
+      [new SecurityScanner()],
+    );
+
+    const key = (f: Finding) => `${f.ruleId}:${f.file}:${f.line}`;
+    const serialKeys = serial.analyzerResults[0].findings.map(key).sort();
+    expect(parallel.analyzerResults[0].findings.map(key).sort()).toEqual(serialKeys);
+    expect(parallel.totalFindings).toBe(serial.totalFindings);
+  });
+});
@@ -2,7 +2,7 @@ import { defineConfig } from 'tsup';
 
 export default defineConfig([
   {
-    entry: { 'cli/index': 'src/cli/index.ts' },
+    entry: { 'cli/index': 'src/cli/index.ts', 'cli/analysis-worker': 'src/core/analysis-worker.ts' },
     format: ['esm'],
     sourcemap: true,
     clean: true,
@@ -11,7 +11,7 @@ export default defineConfig([
     external: [/^@ast-grep\//],
   },
   {
-    entry: { index: 'src/index.ts' },
+    entry: { index: 'src/index.ts', 'analysis-worker': 'src/core/analysis-worker.ts' },
     format: ['esm'],
     dts: true,
     sourcemap: true,
@@ -167,6 +167,24 @@ function applyDiagnostics(result: ScanResult, workspacePath: string): void {
     diagnostic.source = "archguardian";
     diagnostic.code = finding.rule;
 
+    // Taint findings list where the data came from and how it reached the sink
+    if (finding.flow) {
+      diagnostic.relatedInformation = finding.flow.map(
+        (step, i) =>
+          new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(
+              vscode.Uri.file(
+                path.isAbsolute(step.file)
+                  ? step.file
+                  : path.join(workspacePath, step.file)
+              ),
+              new vscode.Position(Math.max(0, step.line - 1), 0)
+            ),
+            `${i + 1}. ${step.message}`
+          )
+      );
+    }
+
     diagnostics.push(diagnostic);
     grouped.set(absPath, diagnostics);
   }
@@ -1,5 +1,11 @@
 import { execFile } from "child_process";
 
+export interface FlowStep {
+  file: string;
+  line: number;
+  message: string;
+}
+
 export interface Finding {
   file: string;
   line: number;
@@ -11,6 +17,8 @@ export interface Finding {
   rule: string;
   category?: string;
   suggestion?: string;
+  /** Source-to-sink steps of taint findings. */
+  flow?: FlowStep[];
 }
 
 export interface ScanResult {
@@ -100,6 +108,7 @@ export function runArchguardian(workspacePath: string): Promise<ScanResult> {
               severity: f.severity as Finding["severity"],
               rule: f.ruleId as string,
               suggestion: f.suggestion as string | undefined,
+              flow: f.flow as FlowStep[] | undefined,
             })
           );
 